@@ -12,7 +12,11 @@ import Customers from "@/pages/Customers";
 import Settings from "@/pages/Settings";
 import ActionPlan from "@/pages/ActionPlan";
 import UseCase from "@/pages/UseCase";
+import Trash from "@/pages/Trash";
+import AuthPage from "@/pages/AuthPage";
 import AppLayout from "@/components/AppLayout";
+import { AuthProvider, useAuth } from "@/hooks/use-auth";
+import { Loader2 } from "lucide-react";
 
 function Router() {
   return (
@@ -30,16 +34,34 @@ function Router() {
         <Route path="/customers" component={Customers} />
         <Route path="/action-plan" component={ActionPlan} />
         <Route path="/settings" component={Settings} />
+        <Route path="/trash" component={Trash} />
         <Route component={NotFound} />
       </Switch>
     </AppLayout>
   );
 }
 
+// Every page needs a signed-in user
+function AuthGate() {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return user ? <Router /> : <AuthPage />;
+}
+
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <Router />
+      <AuthProvider>
+        <AuthGate />
+      </AuthProvider>
       <Toaster />
     </QueryClientProvider>
   );
@@ -0,0 +1,107 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { LLM_PROVIDERS, type AIFeature, type AIFeatureConfig, type LLMProviderId } from "@shared/aiFeatures";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2 } from "lucide-react";
+
+interface FeatureProviderRow {
+  id: AIFeature;
+  label: string;
+  config: AIFeatureConfig;
+}
+
+// Provider and model choice for each AI feature; changes are saved as soon as they're made
+export default function AIFeatureProviders() {
+  const { toast } = useToast();
+
+  const { data: features = [], isLoading } = useQuery<FeatureProviderRow[]>({
+    queryKey: ['/api/llm/features'],
+  });
+
+  const updateFeature = useMutation({
+    mutationFn: async ({ id, provider, model }: { id: AIFeature; provider: LLMProviderId; model?: string }) => {
+      return apiRequest('PUT', `/api/llm/features/${id}`, { provider, model });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/llm/features'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to update AI provider",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Feature</TableHead>
+          <TableHead className="w-[220px]">Provider</TableHead>
+          <TableHead className="w-[200px]">Model</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {features.map(feature => (
+          <TableRow key={feature.id}>
+            <TableCell className="font-medium">{feature.label}</TableCell>
+            <TableCell>
+              <Select
+                value={feature.config.provider}
+                onValueChange={(provider) => updateFeature.mutate({
+                  id: feature.id,
+                  provider: provider as LLMProviderId
+                })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LLM_PROVIDERS.map(provider => (
+                    <SelectItem key={provider.id} value={provider.id}>
+                      {provider.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </TableCell>
+            <TableCell>
+              <Input
+                // Remount when the saved config changes so the field shows it
+                key={`${feature.id}-${feature.config.provider}-${feature.config.model}`}
+                defaultValue={feature.config.model}
+                disabled={feature.config.provider === 'stub'}
+                onBlur={(e) => {
+                  const model = e.target.value.trim();
+                  if (model !== feature.config.model) {
+                    updateFeature.mutate({ id: feature.id, provider: feature.config.provider, model });
+                  }
+                }}
+              />
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -18,7 +18,9 @@ interface AISuggestionsDialogProps {
   actionPlan: ActionPlan | null;
   isLoading: boolean;
   suggestions: string | null;
+  streamedSuggestions?: string;  // Text written so far while generating
   onGenerateSuggestions: () => Promise<void>;
+  onCancelGeneration?: () => void;
   onApplySuggestions: (suggestions: string) => void;
 }
 
@@ -28,11 +30,21 @@ export default function AISuggestionsDialog({
   actionPlan,
   isLoading,
   suggestions,
+  streamedSuggestions,
   onGenerateSuggestions,
+  onCancelGeneration,
   onApplySuggestions
 }: AISuggestionsDialogProps) {
   const [isApplying, setIsApplying] = useState(false);
   
+  // Closing the dialog abandons a generation in progress
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen && isLoading) {
+      onCancelGeneration?.();
+    }
+    onOpenChange(isOpen);
+  };
+  
   const handleApplySuggestions = () => {
     if (!suggestions) return;
     
@@ -48,7 +60,7 @@ export default function AISuggestionsDialog({
   };
   
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogContent className="max-w-3xl max-h-[80vh] overflow-hidden flex flex-col">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
@@ -61,7 +73,17 @@ export default function AISuggestionsDialog({
         </DialogHeader>
         
         <div className="flex-1 overflow-y-auto py-2">
-          {isLoading ? (
+          {isLoading && streamedSuggestions ? (
+            <div>
+              <h3 className="font-medium mb-2 flex items-center gap-2">
+                <Loader2 className="h-4 w-4 animate-spin text-primary" />
+                Writing recommendations...
+              </h3>
+              <div className="bg-primary/5 p-4 rounded-md whitespace-pre-wrap text-sm">
+                {streamedSuggestions}
+              </div>
+            </div>
+          ) : isLoading ? (
             <div className="flex flex-col items-center justify-center h-64">
               <Loader2 className="h-8 w-8 animate-spin text-primary mb-4" />
               <p className="text-muted-foreground">
@@ -108,13 +130,23 @@ export default function AISuggestionsDialog({
         </div>
         
         <DialogFooter className="pt-2">
-          <Button
-            variant="outline"
-            onClick={() => onOpenChange(false)}
-          >
-            <X className="h-4 w-4 mr-2" />
-            Cancel
-          </Button>
+          {isLoading && onCancelGeneration ? (
+            <Button
+              variant="outline"
+              onClick={onCancelGeneration}
+            >
+              <X className="h-4 w-4 mr-2" />
+              Stop Generating
+            </Button>
+          ) : (
+            <Button
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              <X className="h-4 w-4 mr-2" />
+              Cancel
+            </Button>
+          )}
           
           {suggestions && (
             <Button
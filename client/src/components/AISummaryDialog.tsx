@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -8,7 +8,7 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { AlertCircle, Loader2, Brain } from "lucide-react";
+import { AlertCircle, Loader2, Brain, X } from "lucide-react";
 import { Textarea } from "@/components/ui/textarea";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Separator } from "@/components/ui/separator";
@@ -19,7 +19,8 @@ interface AISummaryDialogProps {
   onOpenChange: (open: boolean) => void;
   currentSummary: string | null;
   onSaveSummary: (summary: string) => void;
-  onGenerateSummary: () => Promise<string>;
+  // Receives the summary text as it streams in; resolves with the saved summary, or "" if there is none
+  onGenerateSummary: (onToken: (text: string) => void, signal: AbortSignal) => Promise<string>;
 }
 
 export default function AISummaryDialog({
@@ -32,15 +33,25 @@ export default function AISummaryDialog({
   const [summary, setSummary] = useState(currentSummary || "");
   const [isGenerating, setIsGenerating] = useState(false);
   const [error, setError] = useState("");
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   // Function to handle generating summary via AI
   const handleGenerateSummary = async () => {
+    const previousSummary = summary;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     try {
       setIsGenerating(true);
       setError("");
-      const newSummary = await onGenerateSummary();
-      setSummary(newSummary);
+      setSummary("");
+      const newSummary = await onGenerateSummary(
+        (text) => setSummary(prev => prev + text),
+        controller.signal
+      );
+      // Put the old summary back if generation failed or was cancelled
+      setSummary(newSummary || previousSummary);
     } catch (error) {
+      setSummary(previousSummary);
       console.error("Error generating summary:", error);
       setError(
         error instanceof Error 
@@ -48,17 +59,25 @@ export default function AISummaryDialog({
           : "Failed to generate summary. Please try again."
       );
     } finally {
+      abortControllerRef.current = null;
       setIsGenerating(false);
     }
   };
 
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      abortControllerRef.current?.abort();
+    }
+    onOpenChange(isOpen);
+  };
+
   const handleSubmit = () => {
     onSaveSummary(summary);
     onOpenChange(false);
   };
 
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogContent className="sm:max-w-[600px]">
         <DialogHeader>
           <DialogTitle>AI-Generated Journey Summary</DialogTitle>
@@ -70,26 +89,29 @@ export default function AISummaryDialog({
           <div className="grid gap-2">
             <div className="flex justify-between items-center">
               <h3 className="text-lg font-medium">Journey Summary</h3>
-              <Button
-                type="button"
-                size="sm"
-                variant="outline"
-                className="gap-1 bg-blue-50 border-blue-200 text-blue-700 hover:bg-blue-100 hover:text-blue-800"
-                onClick={handleGenerateSummary}
-                disabled={isGenerating}
-              >
-                {isGenerating ? (
-                  <>
-                    <Loader2 className="h-4 w-4 animate-spin" />
-                    Generating...
-                  </>
-                ) : (
-                  <>
-                    <Brain className="h-4 w-4" />
-                    Generate New Summary
-                  </>
-                )}
-              </Button>
+              {isGenerating ? (
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  className="gap-1"
+                  onClick={() => abortControllerRef.current?.abort()}
+                >
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Generating... <X className="h-4 w-4" /> Cancel
+                </Button>
+              ) : (
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  className="gap-1 bg-blue-50 border-blue-200 text-blue-700 hover:bg-blue-100 hover:text-blue-800"
+                  onClick={handleGenerateSummary}
+                >
+                  <Brain className="h-4 w-4" />
+                  Generate New Summary
+                </Button>
+              )}
             </div>
             
             {error && (
@@ -106,6 +128,7 @@ export default function AISummaryDialog({
               placeholder="AI-generated summary of the customer journey will appear here. You can also edit it manually."
               rows={8}
               className="resize-none"
+              readOnly={isGenerating}
             />
             
             {!summary && !error && !isGenerating && (
@@ -121,10 +144,10 @@ export default function AISummaryDialog({
           </div>
         </div>
         <DialogFooter>
-          <Button variant="outline" onClick={() => onOpenChange(false)}>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
             Cancel
           </Button>
-          <Button onClick={handleSubmit}>
+          <Button onClick={handleSubmit} disabled={isGenerating}>
             Save Summary
           </Button>
         </DialogFooter>
@@ -0,0 +1,406 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { AI_FEATURES } from "@shared/aiFeatures";
+import type { AiUsage, AiUsageSummary } from "@shared/schema";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2 } from "lucide-react";
+
+interface AIUsageOverview {
+  since: string;
+  summary: AiUsageSummary[];
+  recent: AiUsage[];
+  monthlyBudget: number | null;
+  spent: number;
+  serverBudget: number | null;  // Covers every workspace on the server
+  serverSpent: number;
+  cacheTtlHours: number;
+}
+
+function featureLabel(feature: string): string {
+  return AI_FEATURES.find(f => f.id === feature)?.label ?? feature;
+}
+
+function formatCost(cost: number): string {
+  return `$${cost.toFixed(cost > 0 && cost < 0.01 ? 4 : 2)}`;
+}
+
+// null for an empty field (no limit), undefined when it isn't a valid amount
+function parseBudgetInput(input: string): number | null | undefined {
+  const trimmed = input.trim();
+  if (trimmed === "") return null;
+  const budget = parseFloat(trimmed);
+  return isNaN(budget) || budget < 0 ? undefined : budget;
+}
+
+// This month's AI calls per feature, recent calls, the monthly budget that caps paid providers and the response cache
+export default function AIUsageDashboard() {
+  const { toast } = useToast();
+  const { canManageServer } = useWorkspace();
+  const [budgetInput, setBudgetInput] = useState("");
+  const [serverBudgetInput, setServerBudgetInput] = useState("");
+  const [cacheTtlInput, setCacheTtlInput] = useState("");
+
+  const { data: usage, isLoading } = useQuery<AIUsageOverview>({
+    queryKey: ['/api/ai-usage'],
+    staleTime: 0,
+  });
+
+  useEffect(() => {
+    setBudgetInput(usage?.monthlyBudget != null ? String(usage.monthlyBudget) : "");
+  }, [usage?.monthlyBudget]);
+
+  useEffect(() => {
+    setServerBudgetInput(usage?.serverBudget != null ? String(usage.serverBudget) : "");
+  }, [usage?.serverBudget]);
+
+  useEffect(() => {
+    setCacheTtlInput(usage ? String(usage.cacheTtlHours) : "");
+  }, [usage?.cacheTtlHours]);
+
+  const saveBudget = useMutation({
+    mutationFn: async (monthlyBudget: number | null) => {
+      return apiRequest('PUT', '/api/ai-usage/budget', { monthlyBudget });
+    },
+    onSuccess: (_, monthlyBudget) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/ai-usage'] });
+      toast({
+        title: monthlyBudget === null ? "Budget removed" : "Budget saved",
+        description: monthlyBudget === null
+          ? "AI calls are no longer limited by spend."
+          : `Paid AI calls will stop once ${formatCost(monthlyBudget)} has been spent this month.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to save budget",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const saveServerBudget = useMutation({
+    mutationFn: async (monthlyBudget: number | null) => {
+      return apiRequest('PUT', '/api/ai-usage/server-budget', { monthlyBudget });
+    },
+    onSuccess: (_, monthlyBudget) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/ai-usage'] });
+      toast({
+        title: monthlyBudget === null ? "Server budget removed" : "Server budget saved",
+        description: monthlyBudget === null
+          ? "Workspaces are only limited by their own budgets."
+          : `Paid AI calls in every workspace will stop once ${formatCost(monthlyBudget)} has been spent this month.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to save server budget",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const saveCacheTtl = useMutation({
+    mutationFn: async (ttlHours: number) => {
+      return apiRequest('PUT', '/api/ai-cache/ttl', { ttlHours });
+    },
+    onSuccess: (_, ttlHours) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/ai-usage'] });
+      toast({
+        title: "Cache setting saved",
+        description: ttlHours === 0
+          ? "AI responses will no longer be cached."
+          : `Identical AI requests will reuse the previous response for ${ttlHours} hours.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to save cache setting",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const clearCache = useMutation({
+    mutationFn: async () => {
+      return apiRequest('DELETE', '/api/ai-cache');
+    },
+    onSuccess: (result: { cleared: number }) => {
+      toast({
+        title: "Response cache cleared",
+        description: `${result.cleared} cached response${result.cleared === 1 ? '' : 's'} removed.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to clear cache",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const handleSaveCacheTtl = () => {
+    const hours = parseFloat(cacheTtlInput);
+    if (isNaN(hours) || hours < 0) {
+      toast({
+        title: "Invalid cache duration",
+        description: "Enter a number of hours, or 0 to turn caching off.",
+        variant: "destructive"
+      });
+      return;
+    }
+    saveCacheTtl.mutate(hours);
+  };
+
+  const handleSaveBudget = (input: string, save: (budget: number | null) => void) => {
+    const budget = parseBudgetInput(input);
+    if (budget === undefined) {
+      toast({
+        title: "Invalid budget",
+        description: "Enter an amount in USD, or leave it empty for no limit.",
+        variant: "destructive"
+      });
+      return;
+    }
+    save(budget);
+  };
+
+  if (isLoading || !usage) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const budgetUsed = usage.monthlyBudget
+    ? Math.min(100, (usage.spent / usage.monthlyBudget) * 100)
+    : 0;
+  const serverBudgetUsed = usage.serverBudget
+    ? Math.min(100, (usage.serverSpent / usage.serverBudget) * 100)
+    : 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <div className="flex justify-between items-baseline">
+          <h4 className="text-sm font-medium">
+            Spent since {new Date(usage.since).toLocaleDateString()}
+          </h4>
+          <span className="text-sm">
+            {formatCost(usage.spent)}
+            {usage.monthlyBudget !== null && ` of ${formatCost(usage.monthlyBudget)}`}
+          </span>
+        </div>
+        {usage.monthlyBudget !== null && <Progress value={budgetUsed} />}
+        <div className="flex items-end gap-2">
+          <div className="space-y-1">
+            <label htmlFor="ai-monthly-budget" className="text-sm font-medium">
+              Monthly budget (USD)
+            </label>
+            <Input
+              id="ai-monthly-budget"
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="No limit"
+              className="w-40"
+              value={budgetInput}
+              onChange={(e) => setBudgetInput(e.target.value)}
+            />
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => handleSaveBudget(budgetInput, budget => saveBudget.mutate(budget))}
+            disabled={saveBudget.isPending}
+          >
+            {saveBudget.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Budget
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Once the budget is spent, OpenAI and Gemini calls are refused until next month.
+          Local models and the offline stub are not limited. Costs are estimates from list prices;
+          models without a listed price are counted at the highest one.
+        </p>
+      </div>
+
+      {(canManageServer || usage.serverBudget !== null) && (
+        <div className="space-y-3">
+          <div className="flex justify-between items-baseline">
+            <h4 className="text-sm font-medium">Spent by all workspaces</h4>
+            <span className="text-sm">
+              {formatCost(usage.serverSpent)}
+              {usage.serverBudget !== null && ` of ${formatCost(usage.serverBudget)}`}
+            </span>
+          </div>
+          {usage.serverBudget !== null && <Progress value={serverBudgetUsed} />}
+          {canManageServer && (
+            <div className="flex items-end gap-2">
+              <div className="space-y-1">
+                <label htmlFor="ai-server-budget" className="text-sm font-medium">
+                  Server monthly budget (USD)
+                </label>
+                <Input
+                  id="ai-server-budget"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="No limit"
+                  className="w-40"
+                  value={serverBudgetInput}
+                  onChange={(e) => setServerBudgetInput(e.target.value)}
+                />
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => handleSaveBudget(serverBudgetInput, budget => saveServerBudget.mutate(budget))}
+                disabled={saveServerBudget.isPending}
+              >
+                {saveServerBudget.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save Server Budget
+              </Button>
+            </div>
+          )}
+          <p className="text-sm text-muted-foreground">
+            Limits what every workspace together spends on the server's API keys, whatever their own budgets say.
+            Only admins of the default workspace can change it.
+          </p>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <div className="flex items-end gap-2">
+          <div className="space-y-1">
+            <label htmlFor="ai-cache-ttl" className="text-sm font-medium">
+              Reuse identical responses for (hours)
+            </label>
+            <Input
+              id="ai-cache-ttl"
+              type="number"
+              min="0"
+              step="1"
+              className="w-40"
+              value={cacheTtlInput}
+              onChange={(e) => setCacheTtlInput(e.target.value)}
+            />
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleSaveCacheTtl}
+            disabled={saveCacheTtl.isPending}
+          >
+            {saveCacheTtl.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => clearCache.mutate()}
+            disabled={clearCache.isPending}
+          >
+            {clearCache.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Clear Cache
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Asking for the same generation again returns the earlier response without calling the model.
+          Regenerate buttons always make a fresh call. Set to 0 to turn caching off.
+        </p>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Feature</TableHead>
+            <TableHead className="text-right">Calls</TableHead>
+            <TableHead className="text-right">Failures</TableHead>
+            <TableHead className="text-right">Prompt tokens</TableHead>
+            <TableHead className="text-right">Completion tokens</TableHead>
+            <TableHead className="text-right">Avg. latency</TableHead>
+            <TableHead className="text-right">Cost</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {usage.summary.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={7} className="text-center text-muted-foreground">
+                No AI calls this month
+              </TableCell>
+            </TableRow>
+          ) : (
+            usage.summary.map(row => (
+              <TableRow key={row.feature}>
+                <TableCell className="font-medium">{featureLabel(row.feature)}</TableCell>
+                <TableCell className="text-right">{row.calls}</TableCell>
+                <TableCell className="text-right">{row.failures}</TableCell>
+                <TableCell className="text-right">{row.promptTokens.toLocaleString()}</TableCell>
+                <TableCell className="text-right">{row.completionTokens.toLocaleString()}</TableCell>
+                <TableCell className="text-right">{(row.averageLatencyMs / 1000).toFixed(1)}s</TableCell>
+                <TableCell className="text-right">{formatCost(row.estimatedCost)}</TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+
+      {usage.recent.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Recent calls</h4>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>Feature</TableHead>
+                <TableHead>Model</TableHead>
+                <TableHead>For</TableHead>
+                <TableHead className="text-right">Tokens</TableHead>
+                <TableHead className="text-right">Cost</TableHead>
+                <TableHead>Result</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {usage.recent.map(call => (
+                <TableRow key={call.id}>
+                  <TableCell className="whitespace-nowrap">{new Date(call.createdAt).toLocaleString()}</TableCell>
+                  <TableCell>{featureLabel(call.feature)}</TableCell>
+                  <TableCell>{call.provider}/{call.model}</TableCell>
+                  <TableCell>{call.entityType ? `${call.entityType} #${call.entityId}` : '-'}</TableCell>
+                  <TableCell className="text-right">{(call.promptTokens + call.completionTokens).toLocaleString()}</TableCell>
+                  <TableCell className="text-right">{formatCost(call.estimatedCost)}</TableCell>
+                  <TableCell>
+                    {call.success ? (
+                      <Badge variant="secondary">OK</Badge>
+                    ) : (
+                      <Badge variant="destructive" title={call.error ?? undefined}>Failed</Badge>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
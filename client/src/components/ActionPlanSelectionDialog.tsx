@@ -17,6 +17,7 @@ import {
   TableRow 
 } from "@/components/ui/table";
 import { ActionPlan } from '../lib/api';
+import { useUsername } from '@/hooks/use-auth';
 
 interface ActionPlanSelectionDialogProps {
   open: boolean;
@@ -34,6 +35,7 @@ export default function ActionPlanSelectionDialog({
   onSelect
 }: ActionPlanSelectionDialogProps) {
   const [selectedPlanId, setSelectedPlanId] = useState<number | null>(null);
+  const username = useUsername();
 
   const handleSelect = () => {
     const selectedPlan = actionPlans.find(plan => plan.id === selectedPlanId);
@@ -122,7 +124,12 @@ export default function ActionPlanSelectionDialog({
                         )}
                       </span>
                     </TableCell>
-                    <TableCell>{formatDate(plan.updatedAt)}</TableCell>
+                    <TableCell>
+                      {formatDate(plan.updatedAt)}
+                      {username(plan.updatedBy) && (
+                        <div className="text-xs text-muted-foreground">by {username(plan.updatedBy)}</div>
+                      )}
+                    </TableCell>
                   </TableRow>
                 ))}
               </TableBody>
@@ -63,7 +63,7 @@ export default function AgentPersonaSuggestionDialog({
       }
     } catch (err) {
       console.error("Error generating agent persona suggestion:", err);
-      setError("An error occurred while generating a suggestion. Please check your OpenAI API key and try again.");
+      setError((err as Error).message || "An error occurred while generating a suggestion. Please check your OpenAI API key and try again.");
     } finally {
       setIsLoading(false);
     }
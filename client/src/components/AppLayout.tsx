@@ -1,6 +1,8 @@
 import React, { useMemo } from 'react';
 import { Link, useLocation } from 'wouter';
-import { CheckCircle2, Settings, Map, Home, Users, ClipboardList, MessageSquare, Bot } from 'lucide-react';
+import { CheckCircle2, Settings, Map, Home, Users, ClipboardList, MessageSquare, Bot, LogOut, Trash2 } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import WorkspaceSwitcher from '@/components/WorkspaceSwitcher';
 
 interface AppLayoutProps {
   children: React.ReactNode;
@@ -8,6 +10,7 @@ interface AppLayoutProps {
 
 export default function AppLayout({ children }: AppLayoutProps) {
   const [location] = useLocation();
+  const { user, logoutMutation } = useAuth();
 
   // Define menu items with their properties
   const menuItems = useMemo(() => {
@@ -43,6 +46,12 @@ export default function AppLayout({ children }: AppLayoutProps) {
         icon: <CheckCircle2 className="h-6 w-6" />,
         isActive: location === '/happy-path'
       },
+      {
+        name: "Trash",
+        path: "/trash",
+        icon: <Trash2 className="h-6 w-6" />,
+        isActive: location === '/trash'
+      },
       {
         name: "Use Cases",
         path: "/use-case",
@@ -91,6 +100,20 @@ export default function AppLayout({ children }: AppLayoutProps) {
               <span className="text-xs mt-1">Settings</span>
             </div>
           </Link>
+          
+          <WorkspaceSwitcher />
+          
+          {/* Signed-in user; clicking signs out */}
+          <button
+            type="button"
+            onClick={() => logoutMutation.mutate()}
+            disabled={logoutMutation.isPending}
+            title={`Signed in as ${user?.username}. Click to sign out.`}
+            className="flex flex-col items-center px-2 py-2 hover:text-primary rounded-md transition-colors text-muted-foreground"
+          >
+            <LogOut className="h-6 w-6" />
+            <span className="text-xs mt-1 max-w-[6rem] truncate">{user?.username ?? 'Sign out'}</span>
+          </button>
         </div>
       </div>
       
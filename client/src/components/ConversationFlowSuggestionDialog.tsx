@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useRef } from "react";
 import { 
   Dialog,
   DialogContent,
@@ -8,8 +8,8 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
-import { Wand2, AlertCircle, Check, MessageSquare } from "lucide-react";
-import { apiRequest } from "@/lib/queryClient";
+import { Wand2, AlertCircle, Check, MessageSquare, X } from "lucide-react";
+import { streamRequest } from "@/lib/queryClient";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 
@@ -46,11 +46,17 @@ export default function ConversationFlowSuggestionDialog({
   const [suggestion, setSuggestion] = useState<string | null>(null);
   const [additionalInstructions, setAdditionalInstructions] = useState("");
   const [currentDiff, setCurrentDiff] = useState<"side-by-side" | "unified">("side-by-side");
+  // The flow as the model writes it, shown while generating
+  const [streamedFlow, setStreamedFlow] = useState("");
+  const abortControllerRef = useRef<AbortController | null>(null);
 
-  const generateSuggestion = async () => {
+  const generateSuggestion = async (forceRegenerate = false) => {
     // Reset states
     setIsLoading(true);
     setError(null);
+    setStreamedFlow("");
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     
     // Keep the suggestion if regenerating (for better UX during loading)
     if (!suggestion) {
@@ -59,7 +65,7 @@ export default function ConversationFlowSuggestionDialog({
 
     try {
       // Get the latest edited flow from the Editor component
-      const response = await apiRequest(
+      const response = await streamRequest(
         "POST", 
         "/api/openai/conversation-flow", 
         {
@@ -68,8 +74,11 @@ export default function ConversationFlowSuggestionDialog({
           currentFlow,
           agentPersona,
           additionalInstructions: additionalInstructions.trim(),
-          useCaseId: useCaseId
-        }
+          useCaseId: useCaseId,
+          forceRegenerate
+        },
+        { onToken: (text) => setStreamedFlow(prev => prev + text) },
+        controller.signal
       ) as OpenAIResponse;
 
       if (response.success && response.suggestion) {
@@ -78,13 +87,28 @@ export default function ConversationFlowSuggestionDialog({
         setError(response.error || "Failed to generate suggestion. Please try again.");
       }
     } catch (err) {
+      if (controller.signal.aborted) {
+        return;
+      }
       console.error("Error generating conversation flow suggestion:", err);
       setError("An error occurred while generating a suggestion. Please check your OpenAI API key and try again.");
     } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
       setIsLoading(false);
     }
   };
 
+  const cancelGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleClose = () => {
+    cancelGeneration();
+    onClose();
+  };
+
   const handleApply = () => {
     if (suggestion) {
       onApplySuggestion(suggestion);
@@ -97,7 +121,7 @@ export default function ConversationFlowSuggestionDialog({
   };
 
   return (
-    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
       <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-auto">
         <DialogHeader>
           <DialogTitle>Improve Conversation Flow</DialogTitle>
@@ -146,7 +170,7 @@ export default function ConversationFlowSuggestionDialog({
               </div>
               
               <Button 
-                onClick={generateSuggestion} 
+                onClick={() => generateSuggestion()} 
                 className="mt-2"
                 disabled={isLoading}
               >
@@ -156,7 +180,7 @@ export default function ConversationFlowSuggestionDialog({
             </div>
           )}
 
-          {isLoading && (
+          {isLoading && !streamedFlow && (
             <div className="rounded-md border p-6 flex flex-col items-center justify-center min-h-[200px] text-center">
               <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mb-4"></div>
               <p className="text-neutral-dark/80">
@@ -165,6 +189,28 @@ export default function ConversationFlowSuggestionDialog({
               <p className="text-xs text-neutral-dark/60 mt-2">
                 This might take a moment as we analyze your conversation flow and craft improvements.
               </p>
+              <Button variant="outline" size="sm" className="mt-4" onClick={cancelGeneration}>
+                <X className="h-3 w-3 mr-1" />
+                Cancel
+              </Button>
+            </div>
+          )}
+
+          {isLoading && streamedFlow && (
+            <div className="border rounded-md p-3">
+              <div className="flex justify-between items-center mb-2">
+                <div className="text-sm font-medium text-green-700 flex items-center">
+                  <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-primary mr-2"></div>
+                  Writing suggested flow...
+                </div>
+                <Button variant="outline" size="sm" onClick={cancelGeneration}>
+                  <X className="h-3 w-3 mr-1" />
+                  Cancel
+                </Button>
+              </div>
+              <div className="bg-green-50 p-3 rounded overflow-auto max-h-[400px]">
+                <pre className="text-xs whitespace-pre-wrap font-mono">{streamedFlow}</pre>
+              </div>
             </div>
           )}
 
@@ -180,7 +226,7 @@ export default function ConversationFlowSuggestionDialog({
                     variant="outline" 
                     size="sm"
                     className="text-blue-600 border-blue-200 hover:bg-blue-50"
-                    onClick={generateSuggestion}
+                    onClick={() => generateSuggestion(true)}
                   >
                     <Wand2 className="h-3 w-3 mr-1" />
                     Regenerate
@@ -231,7 +277,7 @@ export default function ConversationFlowSuggestionDialog({
               )}
 
               <div className="flex justify-end space-x-2 mt-4">
-                <Button variant="outline" onClick={onClose}>
+                <Button variant="outline" onClick={handleClose}>
                   Cancel
                 </Button>
                 <Button onClick={handleApply}>
@@ -0,0 +1,384 @@
+import { useState, useEffect, useMemo, useRef } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { UseCase, ParsedFlow, ConversationStep, SimulationRun, RolePlayResult } from "@shared/schema";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { AlertTriangle, ArrowRight, Bot, CheckCircle2, GitBranch, Loader2, RotateCcw } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface ConversationSimulatorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  useCase: UseCase;
+  parsedFlow: ParsedFlow;
+}
+
+interface RolePlayResponse {
+  success: boolean;
+  result?: RolePlayResult;
+  error?: string;
+}
+
+interface Choice {
+  target: ConversationStep;
+  label: string;
+}
+
+// "Step 3 · Check Stock"
+function describeStep(step: ConversationStep): string {
+  return step.name ? `Step ${step.stepNumber} · ${step.name}` : `Step ${step.stepNumber}`;
+}
+
+// Show slots the way a user would see them: the example value if there is
+// one, otherwise the slot name as a placeholder
+function renderChatText(text: string) {
+  return text.split(/(\{[A-Za-z_][\w.-]*(?::[^}]*)?\})/g).map((part, idx) => {
+    const slotMatch = part.match(/^\{([^:}]+)(?::([^}]*))?\}$/);
+    if (!slotMatch) return part;
+    return slotMatch[2]?.trim() ? (
+      <span key={idx} className="underline decoration-dotted" title={slotMatch[1]}>{slotMatch[2].trim()}</span>
+    ) : (
+      <span key={idx} className="rounded bg-teal-50 text-teal-800 font-mono text-xs px-1">{slotMatch[1]}</span>
+    );
+  });
+}
+
+// Play through a use case as a chat, choosing branches where the flow splits
+export default function ConversationSimulator({ open, onOpenChange, useCase, parsedFlow }: ConversationSimulatorProps) {
+  const { toast } = useToast();
+  const [path, setPath] = useState<number[]>([]);
+  const [isRecorded, setIsRecorded] = useState(false);
+  const [customerPersona, setCustomerPersona] = useState("");
+  const [rolePlay, setRolePlay] = useState<RolePlayResult | null>(null);
+  const chatEndRef = useRef<HTMLDivElement>(null);
+  const runsQueryKey = ['/api/use-cases', useCase.id.toString(), 'simulations'];
+
+  const stepsByNumber = useMemo(
+    () => new Map(parsedFlow.steps.map(step => [step.stepNumber, step])),
+    [parsedFlow.steps]
+  );
+  // The flow can be edited while the simulator is open; ignore steps that no longer exist
+  const walkedSteps = path.map(stepNumber => stepsByNumber.get(stepNumber)).filter((step): step is ConversationStep => !!step);
+  const currentStep = walkedSteps[walkedSteps.length - 1];
+
+  // Distinct next steps; a branch and the fall-through may point to the same step
+  const choices = useMemo<Choice[]>(() => {
+    if (!currentStep) return [];
+    const outgoing = parsedFlow.edges.filter(edge => edge.source === currentStep.stepNumber);
+    const result: Choice[] = [];
+    outgoing.forEach(edge => {
+      const target = stepsByNumber.get(edge.target);
+      if (!target || result.some(choice => choice.target === target)) return;
+      const label = edge.condition || (outgoing.length > 1 ? 'Otherwise' : 'Continue');
+      result.push({ target, label });
+    });
+    return result;
+  }, [currentStep, parsedFlow.edges, stepsByNumber]);
+  const isFinished = !!currentStep && choices.length === 0;
+
+  const { data: runs = [] } = useQuery<SimulationRun[]>({
+    queryKey: runsQueryKey,
+    enabled: open,
+  });
+
+  const saveRunMutation = useMutation({
+    mutationFn: async (run: { path: number[]; completed: boolean }) => {
+      return apiRequest('POST', `/api/use-cases/${useCase.id}/simulations`, run);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: runsQueryKey });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not record walkthrough",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const rolePlayMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/openai/simulate-customer', {
+        useCaseId: useCase.id,
+        customerPersona: customerPersona.trim() || undefined
+      }) as RolePlayResponse;
+      if (!response.success || !response.result) {
+        throw new Error(response.error || "Failed to run role-play");
+      }
+      return response.result;
+    },
+    onSuccess: (result) => setRolePlay(result),
+    onError: (error) => {
+      toast({
+        title: "Could not run role-play",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+
+  // Record a walk once, when it ends or is abandoned after leaving the first step
+  const recordRun = (completed: boolean) => {
+    if (isRecorded || walkedSteps.length === 0 || (!completed && walkedSteps.length < 2)) return;
+    setIsRecorded(true);
+    saveRunMutation.mutate({ path: walkedSteps.map(step => step.stepNumber), completed });
+  };
+
+  const restart = () => {
+    setPath(parsedFlow.steps.length > 0 ? [parsedFlow.steps[0].stepNumber] : []);
+    setIsRecorded(false);
+  };
+
+  useEffect(() => {
+    if (open) restart();
+  }, [open]);
+
+  useEffect(() => {
+    if (isFinished) recordRun(true);
+  }, [isFinished]);
+
+  useEffect(() => {
+    chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [path.length]);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) recordRun(false);
+    onOpenChange(nextOpen);
+  };
+
+  // Group recorded runs by the route they took
+  const walkedPaths = useMemo(() => {
+    const groups = new Map<string, { path: number[]; count: number; completed: number }>();
+    runs.forEach(run => {
+      const key = run.path.join('>');
+      const group = groups.get(key) || { path: run.path, count: 0, completed: 0 };
+      group.count++;
+      if (run.completed) group.completed++;
+      groups.set(key, group);
+    });
+    return Array.from(groups.values()).sort((a, b) => b.count - a.count);
+  }, [runs]);
+
+  const visitedSteps = new Set(runs.flatMap(run => run.path));
+  const unvisitedSteps = parsedFlow.steps.filter(step => !visitedSteps.has(step.stepNumber));
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[640px] h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Play: {useCase.title}</DialogTitle>
+          <DialogDescription>
+            Walk through the conversation as a customer would experience it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="chat" className="flex-1 flex flex-col min-h-0">
+          <TabsList className="self-start">
+            <TabsTrigger value="chat">Chat</TabsTrigger>
+            <TabsTrigger value="paths">Walked Paths ({runs.length})</TabsTrigger>
+            <TabsTrigger value="role-play">AI Role-Play</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="chat" className="flex-1 flex flex-col min-h-0">
+            <div className="flex-1 overflow-y-auto rounded-md border border-neutral-medium bg-neutral-light/50 p-4 space-y-3">
+              {walkedSteps.length === 0 && (
+                <p className="text-sm text-center text-neutral-dark/60">This use case has no conversation steps yet.</p>
+              )}
+              {walkedSteps.map((step, stepIdx) => (
+                <div key={stepIdx} className="space-y-2">
+                  <div className="text-center text-xs text-neutral-dark/50">
+                    {describeStep(step)}{step.stepType ? ` (${step.stepType})` : ''}
+                  </div>
+                  {step.messages.map((message, msgIdx) => {
+                    if (message.role === 'customer') {
+                      return (
+                        <div key={msgIdx} className="flex justify-end">
+                          <div className="max-w-[80%] rounded-lg rounded-br-none bg-primary text-white px-3 py-2 text-sm">
+                            {renderChatText(message.text)}
+                          </div>
+                        </div>
+                      );
+                    }
+                    if (message.role === 'agent') {
+                      return (
+                        <div key={msgIdx} className="flex justify-start">
+                          <div className="max-w-[80%] rounded-lg rounded-bl-none bg-white border border-neutral-medium px-3 py-2 text-sm">
+                            {renderChatText(message.text)}
+                          </div>
+                        </div>
+                      );
+                    }
+                    // System, supervisor and internal turns aren't seen by the customer
+                    return (
+                      <div key={msgIdx} className="text-center text-xs italic text-neutral-dark/60">
+                        {message.role}: {renderChatText(message.text)}
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+              <div ref={chatEndRef} />
+            </div>
+
+            <div className="pt-3 flex flex-wrap items-center gap-2">
+              {isFinished ? (
+                <span className="flex items-center text-sm text-green-700 mr-auto">
+                  <CheckCircle2 className="mr-1 h-4 w-4" /> End of conversation
+                </span>
+              ) : choices.length > 1 ? (
+                <span className="flex items-center text-sm text-neutral-dark/70 mr-1">
+                  <GitBranch className="mr-1 h-4 w-4 text-amber-600" /> Choose a branch:
+                </span>
+              ) : null}
+              {choices.map(choice => (
+                <Button
+                  key={choice.target.stepNumber}
+                  size="sm"
+                  variant={choices.length > 1 ? "outline" : "default"}
+                  onClick={() => setPath(current => [...current, choice.target.stepNumber])}
+                  title={describeStep(choice.target)}
+                >
+                  {choice.label}
+                  {choices.length > 1 && <span className="ml-1 text-neutral-dark/50">→ {describeStep(choice.target)}</span>}
+                  {choices.length === 1 && <ArrowRight className="ml-1 h-4 w-4" />}
+                </Button>
+              ))}
+              <Button
+                size="sm"
+                variant="ghost"
+                className="ml-auto"
+                onClick={() => {
+                  recordRun(false);
+                  restart();
+                }}
+                disabled={walkedSteps.length < 2}
+              >
+                <RotateCcw className="mr-1 h-4 w-4" /> Restart
+              </Button>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="paths" className="flex-1 overflow-y-auto space-y-4">
+            {walkedPaths.length === 0 ? (
+              <p className="text-sm text-neutral-dark/60">No walkthroughs recorded yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {walkedPaths.map(group => (
+                  <div key={group.path.join('>')} className="rounded-md border border-neutral-medium p-2 text-sm">
+                    <div className="flex items-center gap-2 mb-1">
+                      <Badge variant="outline">{group.count}×</Badge>
+                      {group.completed < group.count && (
+                        <span className="text-xs text-amber-700">{group.count - group.completed} abandoned</span>
+                      )}
+                    </div>
+                    <div className="text-xs text-neutral-dark/70">
+                      {group.path.map(stepNumber => {
+                        const step = stepsByNumber.get(stepNumber);
+                        return step ? describeStep(step) : `Step ${stepNumber} (removed)`;
+                      }).join(' → ')}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+            {runs.length > 0 && (
+              <div className="text-sm">
+                <h4 className="font-medium mb-1">
+                  Steps reached: {parsedFlow.steps.length - unvisitedSteps.length} of {parsedFlow.steps.length}
+                </h4>
+                {unvisitedSteps.length > 0 && (
+                  <p className="text-xs text-neutral-dark/70">
+                    Never reached: {unvisitedSteps.map(describeStep).join(', ')}
+                  </p>
+                )}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="role-play" className="flex-1 flex flex-col min-h-0 space-y-3">
+            <div className="flex items-end gap-2">
+              <Textarea
+                value={customerPersona}
+                onChange={(e) => setCustomerPersona(e.target.value)}
+                placeholder="Customer persona, e.g. an impatient first-time buyer on a phone. Leave empty to let the AI invent one."
+                className="h-16 text-sm"
+              />
+              <Button
+                onClick={() => rolePlayMutation.mutate()}
+                disabled={rolePlayMutation.isPending}
+              >
+                {rolePlayMutation.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Bot className="mr-2 h-4 w-4" />
+                )}
+                Run
+              </Button>
+            </div>
+
+            {rolePlay ? (
+              <div className="flex-1 overflow-y-auto space-y-3">
+                <div className="flex items-center gap-2 text-sm">
+                  <Badge className={rolePlay.coverageScore >= 80 ? "bg-green-100 text-green-800 border-0" : "bg-amber-100 text-amber-800 border-0"}>
+                    Coverage {rolePlay.coverageScore}%
+                  </Badge>
+                  <span className="text-neutral-dark/60">
+                    {rolePlay.stepsCovered.length} of {parsedFlow.steps.length} steps reached
+                  </span>
+                </div>
+                {rolePlay.customerPersona && (
+                  <p className="text-xs text-neutral-dark/70">Customer: {rolePlay.customerPersona}</p>
+                )}
+                <div className="rounded-md border border-neutral-medium bg-neutral-light/50 p-4 space-y-2">
+                  {rolePlay.transcript.map((turn, idx) => (
+                    <div key={idx} className={`flex flex-col ${turn.role === 'customer' ? 'items-end' : 'items-start'}`}>
+                      <div
+                        className={`max-w-[80%] rounded-lg px-3 py-2 text-sm ${
+                          turn.role === 'customer'
+                            ? turn.offScript
+                              ? 'bg-red-50 border border-red-300 text-red-900'
+                              : 'bg-primary text-white'
+                            : 'bg-white border border-neutral-medium'
+                        }`}
+                      >
+                        {turn.text}
+                      </div>
+                      <span className="text-[10px] text-neutral-dark/50 mt-0.5 flex items-center gap-1">
+                        {turn.offScript ? (
+                          <>
+                            <AlertTriangle className="h-3 w-3 text-red-600" />
+                            <span className="text-red-700">Off script{turn.note ? `: ${turn.note}` : ''}</span>
+                          </>
+                        ) : turn.stepNumber !== undefined ? (
+                          stepsByNumber.get(turn.stepNumber) ? describeStep(stepsByNumber.get(turn.stepNumber)!) : `Step ${turn.stepNumber}`
+                        ) : (
+                          'Fallback'
+                        )}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-neutral-dark/60">
+                An AI customer talks to the designed agent script. Turns the flow doesn't handle are
+                flagged so you can see where the happy path breaks down.
+              </p>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,73 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { CredentialName, CredentialStatus } from "@shared/credentials";
+import { Button } from "@/components/ui/button";
+import { KeyRound } from "lucide-react";
+
+interface CredentialStatusNoteProps {
+  name: CredentialName;
+}
+
+// Where the key in use comes from; keys are write-only, so this is all the client ever sees of them
+export default function CredentialStatusNote({ name }: CredentialStatusNoteProps) {
+  const { toast } = useToast();
+
+  const { data: credentials = [] } = useQuery<CredentialStatus[]>({
+    queryKey: ['/api/credentials'],
+  });
+  const credential = credentials.find(c => c.name === name);
+
+  const removeCredential = useMutation({
+    mutationFn: async () => {
+      return apiRequest('DELETE', `/api/credentials/${name}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/credentials'] });
+      toast({
+        title: "Key removed",
+        description: `The saved ${credential?.label ?? 'key'} has been deleted.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to remove key",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  if (!credential) return null;
+
+  return (
+    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+      <KeyRound className="h-4 w-4 shrink-0" />
+      {credential.source === 'environment' && (
+        <span>
+          Using the {credential.envVar} environment variable ({credential.masked}), which takes precedence over a saved key.
+        </span>
+      )}
+      {credential.source === 'stored' && (
+        <>
+          <span>
+            Saved key {credential.masked}
+            {credential.updatedAt && `, updated ${new Date(credential.updatedAt).toLocaleDateString()}`}.
+            Enter a new key to replace it.
+          </span>
+          <Button
+            type="button"
+            variant="link"
+            size="sm"
+            className="h-auto p-0 text-red-600"
+            onClick={() => removeCredential.mutate()}
+            disabled={removeCredential.isPending}
+          >
+            Remove
+          </Button>
+        </>
+      )}
+      {credential.source === null && <span>No key saved.</span>}
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+import { useState, useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Check, FileText, Loader2, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  extractUseCaseFieldsFromDocument,
+  type DocumentExtraction,
+  type DocumentUpload,
+  type UseCaseDetailsSuggestions
+} from "@/lib/api";
+
+type DetailField = keyof UseCaseDetailsSuggestions;
+
+const FIELD_LABELS: Record<DetailField, string> = {
+  problemStatement: "Problem Statement",
+  proposedSolution: "Proposed AI Solution",
+  keyObjectives: "Key Objectives & Success Metrics",
+  requiredDataInputs: "Required Data Inputs",
+  expectedOutputs: "Expected Outputs & Actions",
+  keyStakeholders: "Key Stakeholders",
+  scope: "High-Level Scope",
+  potentialRisks: "Potential Risks & Dependencies",
+  estimatedImpact: "Estimated Impact/Value",
+};
+
+interface DocumentExtractDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  useCaseId: number;
+  currentValues: Partial<Record<DetailField, string | undefined>>;
+  onApply: (fields: Partial<UseCaseDetailsSuggestions>) => void;
+}
+
+// Base64 without the data URL prefix
+function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).replace(/^data:[^,]*,/, ''));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+// Upload or paste a customer document, then accept or reject each field it proposes
+export default function DocumentExtractDialog({ isOpen, onClose, useCaseId, currentValues, onApply }: DocumentExtractDialogProps) {
+  const { toast } = useToast();
+  const [upload, setUpload] = useState<DocumentUpload | null>(null);
+  const [pastedText, setPastedText] = useState("");
+  const [extraction, setExtraction] = useState<DocumentExtraction | null>(null);
+  const [accepted, setAccepted] = useState<Partial<Record<DetailField, boolean>>>({});
+
+  // Start over next time the dialog opens
+  useEffect(() => {
+    if (!isOpen) {
+      setUpload(null);
+      setPastedText("");
+      setExtraction(null);
+      setAccepted({});
+    }
+  }, [isOpen]);
+
+  const extractMutation = useMutation({
+    mutationFn: async (forceRegenerate: boolean) => {
+      const document = upload ?? { content: pastedText };
+      return extractUseCaseFieldsFromDocument(useCaseId, document, forceRegenerate);
+    },
+    onSuccess: (result) => {
+      const fields = Object.keys(result.fields) as DetailField[];
+      if (fields.length === 0) {
+        toast({
+          title: "Nothing to extract",
+          description: "The document doesn't say anything about the use case fields.",
+        });
+        return;
+      }
+      setExtraction(result);
+      setAccepted(Object.fromEntries(fields.map(field => [field, true])));
+    },
+    onError: (error) => {
+      toast({
+        title: "Error reading document",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) {
+      setUpload(null);
+      return;
+    }
+
+    const extension = file.name.split('.').pop()?.toLowerCase();
+    if (extension === 'docx' || extension === 'pdf') {
+      setUpload({ filename: file.name, format: extension, content: await readFileAsBase64(file) });
+    } else {
+      setUpload({
+        filename: file.name,
+        format: extension === 'md' || extension === 'markdown' ? 'markdown' : 'text',
+        content: await file.text()
+      });
+    }
+  };
+
+  const handleApply = () => {
+    if (!extraction) return;
+    const fields: Partial<UseCaseDetailsSuggestions> = {};
+    (Object.keys(extraction.fields) as DetailField[]).forEach(field => {
+      if (accepted[field]) fields[field] = extraction.fields[field];
+    });
+    onApply(fields);
+    onClose();
+  };
+
+  const acceptedCount = Object.values(accepted).filter(Boolean).length;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[720px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Fill In From Document</DialogTitle>
+          <DialogDescription>
+            {extraction
+              ? "Accept the fields you want to copy into the use case. Nothing is saved until you save the use case."
+              : "Upload an RFP, process write-up or meeting notes (text, Markdown, Word or PDF), or paste the text."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!extraction ? (
+          <div className="space-y-4">
+            <div className="grid gap-2">
+              <Label htmlFor="document-file">Document File</Label>
+              <Input
+                id="document-file"
+                type="file"
+                accept=".txt,.md,.markdown,.docx,.pdf"
+                onChange={handleFileChange}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="document-content">Or paste the text</Label>
+              <Textarea
+                id="document-content"
+                value={pastedText}
+                onChange={(e) => setPastedText(e.target.value)}
+                disabled={!!upload}
+                placeholder="Paste the document text here"
+                className="h-40"
+              />
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {extraction.summarized && (
+              <p className="text-sm text-amber-700">
+                The document was long, so it was summarized section by section first. Check the details carefully.
+              </p>
+            )}
+            {(Object.keys(extraction.fields) as DetailField[]).map(field => (
+              <div
+                key={field}
+                className={`rounded-md border p-3 ${accepted[field] ? 'border-green-300 bg-green-50/50' : 'border-neutral-medium opacity-70'}`}
+              >
+                <div className="flex items-center justify-between mb-2">
+                  <span className="font-medium text-sm">{FIELD_LABELS[field]}</span>
+                  <div className="flex gap-1">
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant={accepted[field] ? "default" : "outline"}
+                      onClick={() => setAccepted(prev => ({ ...prev, [field]: true }))}
+                    >
+                      <Check className="h-4 w-4 mr-1" /> Accept
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant={accepted[field] ? "outline" : "secondary"}
+                      onClick={() => setAccepted(prev => ({ ...prev, [field]: false }))}
+                    >
+                      <X className="h-4 w-4 mr-1" /> Reject
+                    </Button>
+                  </div>
+                </div>
+                <div className="grid gap-2 md:grid-cols-2 text-sm">
+                  <div>
+                    <div className="text-xs text-muted-foreground mb-1">Current</div>
+                    <p className="whitespace-pre-wrap text-muted-foreground">
+                      {currentValues[field]?.trim() || <span className="italic">Empty</span>}
+                    </p>
+                  </div>
+                  <div>
+                    <div className="text-xs text-muted-foreground mb-1">From document</div>
+                    <p className="whitespace-pre-wrap">{extraction.fields[field]}</p>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          {extraction ? (
+            <>
+              <Button type="button" variant="ghost" onClick={() => setExtraction(null)}>
+                Back
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => extractMutation.mutate(true)}
+                disabled={extractMutation.isPending}
+              >
+                {extractMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Regenerate
+              </Button>
+              <Button type="button" onClick={handleApply} disabled={acceptedCount === 0}>
+                Apply {acceptedCount} Field{acceptedCount === 1 ? '' : 's'}
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button type="button" variant="ghost" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button
+                type="button"
+                onClick={() => extractMutation.mutate(false)}
+                disabled={(!upload && !pastedText.trim()) || extractMutation.isPending}
+              >
+                {extractMutation.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <FileText className="mr-2 h-4 w-4" />
+                )}
+                Extract Fields
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
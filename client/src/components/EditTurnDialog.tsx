@@ -0,0 +1,198 @@
+import { useState, useEffect } from "react";
+import { Button } from "./ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Plus, Trash2, Wand2, Loader2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface EditTurnDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  turn: {
+    text: string;
+    intent?: string;
+    variations?: string[];
+  };
+  context: {
+    title: string;
+    description?: string | null;
+  };
+  onUpdate: (data: { intent?: string; variations: string[] }) => void;
+}
+
+interface VariationsResponse {
+  success: boolean;
+  variations?: string[];
+  error?: string;
+}
+
+// Edit the intent name and utterance variations of a single customer turn
+export default function EditTurnDialog({
+  open,
+  onOpenChange,
+  turn,
+  context,
+  onUpdate
+}: EditTurnDialogProps) {
+  const { toast } = useToast();
+  const [intent, setIntent] = useState(turn.intent || "");
+  const [variations, setVariations] = useState<string[]>(turn.variations || []);
+  const [newVariation, setNewVariation] = useState("");
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  // Reset form state each time the dialog opens; the turn object itself is
+  // rebuilt on every parse, so it can't be used as the trigger
+  useEffect(() => {
+    if (open) {
+      setIntent(turn.intent || "");
+      setVariations(turn.variations || []);
+      setNewVariation("");
+    }
+  }, [open, turn.text]);
+
+  const addVariations = (added: string[]) => {
+    setVariations(current => {
+      const existing = new Set(current.map(v => v.toLowerCase()));
+      const unique = added
+        .map(v => v.trim())
+        .filter(v => v && v.toLowerCase() !== turn.text.toLowerCase() && !existing.has(v.toLowerCase()));
+      return [...current, ...unique];
+    });
+  };
+
+  const generateVariations = async () => {
+    setIsGenerating(true);
+    try {
+      const response = await apiRequest("POST", "/api/openai/utterance-variations", {
+        utterance: turn.text,
+        intent: intent.trim() || undefined,
+        title: context.title,
+        description: context.description || ""
+      }) as VariationsResponse;
+
+      if (response.success && response.variations) {
+        addVariations(response.variations);
+      } else {
+        throw new Error(response.error || "Failed to generate variations");
+      }
+    } catch (err) {
+      toast({
+        title: "Could not generate variations",
+        description: (err as Error).message,
+        variant: "destructive"
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onUpdate({
+      intent: intent.trim() || undefined,
+      variations: variations.map(v => v.trim()).filter(Boolean)
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Customer Turn</DialogTitle>
+          <DialogDescription>
+            Name the intent and list other ways a customer might say "{turn.text}".
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="intent">Intent</Label>
+              <Input
+                id="intent"
+                value={intent}
+                onChange={(e) => setIntent(e.target.value)}
+                placeholder="e.g. track_order"
+              />
+            </div>
+            <div className="grid gap-2">
+              <div className="flex items-center justify-between">
+                <Label>Variations ({variations.length})</Label>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={generateVariations}
+                  disabled={isGenerating}
+                >
+                  {isGenerating ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Wand2 className="mr-2 h-4 w-4" />
+                  )}
+                  Generate 10 with AI
+                </Button>
+              </div>
+              {variations.map((variation, idx) => (
+                <div key={idx} className="flex items-center gap-2">
+                  <Input
+                    value={variation}
+                    onChange={(e) => setVariations(current =>
+                      current.map((v, i) => i === idx ? e.target.value : v)
+                    )}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setVariations(current => current.filter((_, i) => i !== idx))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <div className="flex items-center gap-2">
+                <Input
+                  value={newVariation}
+                  onChange={(e) => setNewVariation(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      addVariations([newVariation]);
+                      setNewVariation("");
+                    }
+                  }}
+                  placeholder="Add a variation"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => {
+                    addVariations([newVariation]);
+                    setNewVariation("");
+                  }}
+                  disabled={!newVariation.trim()}
+                >
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="submit">Update Turn</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
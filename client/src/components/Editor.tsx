@@ -1,14 +1,18 @@
-import { useState, useEffect, useRef } from "react";
-import { UseCase } from "@shared/schema";
+import { useState, useEffect, useRef, useMemo } from "react";
+import { UseCase, FlowDiagnostic } from "@shared/schema";
+import { parseConversationFlow, resolveRoles } from "@shared/parseConversation";
+import type { CredentialStatus } from "@shared/credentials";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { updateUseCaseSchema } from "@shared/schema";
-import { Expand, Save, Download, Wand2, MessageSquare, CornerDownRight, LogIn, LogOut, Database, GitBranch, ChevronDown, ChevronUp } from "lucide-react";
+import { Expand, Save, Download, Wand2, MessageSquare, CornerDownRight, LogIn, LogOut, Database, GitBranch, ChevronDown, ChevronUp, AlertCircle, AlertTriangle, Users, History } from "lucide-react";
 import SuggestionsDialog from "./SuggestionsDialog";
 import AgentPersonaSuggestionDialog from "./AgentPersonaSuggestionDialog";
 import ConversationFlowSuggestionDialog from "./ConversationFlowSuggestionDialog";
 import ExportConversationDocButton from "./ExportConversationDocButton";
+import SlotsPanel from "./SlotsPanel";
+import RevisionHistoryDialog from "./RevisionHistoryDialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
@@ -73,6 +77,8 @@ export default function Editor({ useCase, isLoading, onSave }: EditorProps) {
   const [showPersonaSuggestions, setShowPersonaSuggestions] = useState(false);
   const [showFlowSuggestions, setShowFlowSuggestions] = useState(false);
   const [isFormatInstructionsOpen, setIsFormatInstructionsOpen] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [rolesInput, setRolesInput] = useState(resolveRoles(useCase?.roles).join(', '));
   
   // Debounce timers for auto-save
   const titleSaveTimerRef = useRef<NodeJS.Timeout | null>(null);
@@ -98,7 +104,10 @@ export default function Editor({ useCase, isLoading, onSave }: EditorProps) {
   });
 
   // Check if OpenAI API key is available
-  const hasOpenAIKey = settings?.find(s => s.key === 'openai_api_key')?.value?.trim() !== '';
+  const { data: credentials = [] } = useQuery<CredentialStatus[]>({
+    queryKey: ['/api/credentials']
+  });
+  const hasOpenAIKey = credentials.some(c => c.name === 'openai' && c.source !== null);
 
   // Update agent persona when settings are loaded
   useEffect(() => {
@@ -110,6 +119,11 @@ export default function Editor({ useCase, isLoading, onSave }: EditorProps) {
     }
   }, [settings]);
   
+  // Keep the roles field in sync when switching between use cases
+  useEffect(() => {
+    setRolesInput(resolveRoles(useCase?.roles).join(', '));
+  }, [useCase?.id, useCase?.roles]);
+  
   // Clean up any pending timeouts when component unmounts
   useEffect(() => {
     return () => {
@@ -236,6 +250,47 @@ export default function Editor({ useCase, isLoading, onSave }: EditorProps) {
     }
   });
 
+  const roles = useMemo(() => resolveRoles(useCase?.roles), [useCase?.roles]);
+  
+  // The saved use case with any unsaved edits from the form, for the history dialog to compare against
+  const currentUseCaseFields = { ...useCase, ...form.watch() };
+  
+  // Save the comma-separated roles field when it loses focus
+  const saveRoles = () => {
+    const updatedRoles = resolveRoles(rolesInput.split(','));
+    setRolesInput(updatedRoles.join(', '));
+    if (updatedRoles.join(',') === roles.join(',')) return;
+    
+    onSave({
+      roles: updatedRoles,
+      // Include current values for required fields to ensure validation passes
+      title: form.getValues().title,
+      description: form.getValues().description,
+      customer: form.getValues().customer,
+      conversationFlow: form.getValues().conversationFlow
+    });
+  };
+  
+  // Re-parse the flow as the user types so problems show up before saving
+  const conversationFlowValue = form.watch('conversationFlow');
+  const parsedFlow = useMemo(
+    () => parseConversationFlow(conversationFlowValue, roles),
+    [conversationFlowValue, roles]
+  );
+  const flowDiagnostics = parsedFlow.diagnostics;
+  
+  // Select the line a diagnostic points at in the conversation flow textarea
+  const goToDiagnostic = (diagnostic: FlowDiagnostic) => {
+    const textArea = document.querySelector('textarea[name="conversationFlow"]') as HTMLTextAreaElement;
+    if (!textArea) return;
+    
+    const lines = textArea.value.split('\n');
+    const lineStart = lines.slice(0, diagnostic.line - 1).reduce((offset, line) => offset + line.length + 1, 0);
+    const lineEnd = lineStart + (lines[diagnostic.line - 1]?.length || 0);
+    textArea.focus();
+    textArea.setSelectionRange(lineStart + diagnostic.column - 1, lineEnd);
+  };
+
   function onSubmit(values: z.infer<typeof formSchema>) {
     onSave(values);
   }
@@ -381,28 +436,54 @@ export default function Editor({ useCase, isLoading, onSave }: EditorProps) {
         onApplySuggestion={handleApplyFlowSuggestion}
       />
 
+      <RevisionHistoryDialog<UseCase>
+        open={showHistory}
+        onOpenChange={setShowHistory}
+        entityType="use-case"
+        entityId={useCase.id}
+        current={currentUseCaseFields}
+        onRestored={() => queryClient.invalidateQueries({ queryKey: ['/api/use-cases'] })}
+      />
+
       <div className="p-4 border-b border-neutral-medium flex justify-between items-center">
         <div>
           <h2 className="text-lg font-semibold text-neutral-dark">{useCase.title}</h2>
           <p className="text-sm text-neutral-dark/60">Define your conversation flow</p>
         </div>
-        <TooltipProvider>
-          <Tooltip>
-            <TooltipTrigger asChild>
-              <Button
-                variant="ghost"
-                size="icon"
-                onClick={() => setIsFullscreen(!isFullscreen)}
-                className="text-neutral-dark/70 hover:text-neutral-dark hover:bg-neutral-light"
-              >
-                <Expand className="h-5 w-5" />
-              </Button>
-            </TooltipTrigger>
-            <TooltipContent>
-              <p>{isFullscreen ? 'Exit Fullscreen' : 'Fullscreen Mode'}</p>
-            </TooltipContent>
-          </Tooltip>
-        </TooltipProvider>
+        <div className="flex items-center gap-1">
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setShowHistory(true)}
+                  className="text-neutral-dark/70 hover:text-neutral-dark hover:bg-neutral-light"
+                >
+                  <History className="h-5 w-5" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>Version History</p>
+              </TooltipContent>
+            </Tooltip>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setIsFullscreen(!isFullscreen)}
+                  className="text-neutral-dark/70 hover:text-neutral-dark hover:bg-neutral-light"
+                >
+                  <Expand className="h-5 w-5" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>{isFullscreen ? 'Exit Fullscreen' : 'Fullscreen Mode'}</p>
+              </TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+        </div>
       </div>
       
       <div className="flex-1 overflow-auto p-6">
@@ -644,6 +725,22 @@ export default function Editor({ useCase, isLoading, onSave }: EditorProps) {
               </div>
             </div>
             
+            <div className="space-y-2">
+              <label className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70">
+                Conversation Roles
+              </label>
+              <Input
+                placeholder="Customer, Agent, System, Supervisor, Bot-Internal"
+                value={rolesInput}
+                onChange={(e) => setRolesInput(e.target.value)}
+                onBlur={saveRoles}
+                name="roles"
+              />
+              <div className="text-xs text-neutral-dark/60">
+                Comma-separated speaker labels that can start a message, e.g. "System:". Customer and Agent are always included.
+              </div>
+            </div>
+            
             <FormField
               control={form.control}
               name="conversationFlow"
@@ -677,11 +774,16 @@ export default function Editor({ useCase, isLoading, onSave }: EditorProps) {
                     </CollapsibleTrigger>
                     <CollapsibleContent className="px-3 pb-3">
                       <ul className="text-xs text-blue-700 space-y-1 ml-5 list-disc">
-                        <li className="line-clamp-2"><strong>Start each speaker with a label</strong>: "Customer:" or "Agent:"</li>
+                        <li className="line-clamp-2"><strong>Start each speaker with a label</strong>: "Customer:", "Agent:" or another role listed above</li>
                         <li className="line-clamp-2"><strong>Keep labels on separate lines</strong> from their messages for best results</li>
                         <li className="line-clamp-2"><strong>Use → (arrow symbol) on its own line</strong> to indicate a new conversation step</li>
                         <li className="line-clamp-2">Each conversation step should contain both Customer and Agent messages</li>
                         <li className="line-clamp-2"><strong>Special step types</strong>: Use "→ [Entry Point]", "→ [Exit Point]", "→ [Integration]", or "→ [Decision Point]"</li>
+                        <li className="line-clamp-2"><strong>Name a step</strong> by adding a name after the arrow or type: "→ [Decision Point] Check Stock"</li>
+                        <li className="line-clamp-2"><strong>Branch</strong> with "→ goto [Step Name] if &lt;condition&gt;"; leave out "if" for an unconditional jump</li>
+                        <li className="line-clamp-2">Use "→ end" to stop a step from continuing to the next one</li>
+                        <li className="line-clamp-2"><strong>Intents and variations</strong>: after a Customer message add "@intent: track_order" and one "~ other phrasing" line per variation</li>
+                        <li className="line-clamp-2"><strong>Mark slots</strong> with {"{order_id}"} or {"{customer_name:John}"}; customer turns and example values collect them, other turns use them</li>
                       </ul>
                       <div className="bg-white p-2 rounded mt-2 text-xs border border-blue-100 overflow-auto max-h-48">
                         <code className="block whitespace-pre-wrap text-blue-800 break-words overflow-x-auto">
@@ -701,7 +803,22 @@ I need it for work and gaming.
 Agent:
 Great! I'll recommend our high-performance models.
 
-→ [Exit Point]`}
+→ [Decision Point] Check Stock
+
+Agent:
+Let me check what we have in stock.
+
+→ goto [Out of Stock] if no matching models
+→ goto [Checkout]
+
+→ Out of Stock
+
+Agent:
+Those models are sold out, but I can notify you when they're back.
+
+→ end
+
+→ [Exit Point] Checkout`}
                         </code>
                       </div>
                     </CollapsibleContent>
@@ -799,6 +916,50 @@ Great! I'll recommend our high-performance models.
                         Add Agent
                       </Button>
                       
+                      {/* Dropdown for the use case's additional roles */}
+                      {roles.length > 2 && (
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              className="ml-2 text-slate-600 hover:text-slate-700"
+                            >
+                              <Users className="w-4 h-4 mr-1" />
+                              Other Role
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="start">
+                            {roles.slice(2).map(role => (
+                              <DropdownMenuItem
+                                key={role}
+                                onClick={() => {
+                                  // Get the specific conversation flow textarea
+                                  const textArea = document.querySelector('textarea[name="conversationFlow"]') as HTMLTextAreaElement;
+                                  if (textArea) {
+                                    const start = textArea.selectionStart;
+                                    const value = field.value;
+                                    const label = `\n${role}:\n`;
+                                    const newValue = value.substring(0, start) + label + value.substring(start);
+                                    field.onChange(newValue);
+                                    
+                                    // Set focus back to the textarea and move cursor after inserted text
+                                    setTimeout(() => {
+                                      textArea.focus();
+                                      const newPosition = start + label.length;
+                                      textArea.setSelectionRange(newPosition, newPosition);
+                                    }, 0);
+                                  }
+                                }}
+                              >
+                                {role}
+                              </DropdownMenuItem>
+                            ))}
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      )}
+                      
                       {/* Dropdown for special step types */}
                       <DropdownMenu>
                         <DropdownMenuTrigger asChild>
@@ -908,6 +1069,30 @@ Great! I'll recommend our high-performance models.
                             <GitBranch className="w-4 h-4 mr-2 text-amber-600" />
                             <span>Decision Point</span>
                           </DropdownMenuItem>
+                          
+                          <DropdownMenuItem
+                            onClick={() => {
+                              // Get the specific conversation flow textarea
+                              const textArea = document.querySelector('textarea[name="conversationFlow"]') as HTMLTextAreaElement;
+                              if (textArea) {
+                                const start = textArea.selectionStart;
+                                const value = field.value;
+                                const newValue = value.substring(0, start) + '\n→ goto [Step Name] if condition\n' + value.substring(start);
+                                field.onChange(newValue);
+                                
+                                // Select the placeholder step name so it can be typed over
+                                setTimeout(() => {
+                                  textArea.focus();
+                                  const nameStart = start + 10; // Length of \n→ goto [
+                                  textArea.setSelectionRange(nameStart, nameStart + 'Step Name'.length);
+                                }, 0);
+                              }
+                            }}
+                            className="flex items-center"
+                          >
+                            <CornerDownRight className="w-4 h-4 mr-2 text-amber-600" />
+                            <span>Branch (goto)</span>
+                          </DropdownMenuItem>
                         </DropdownMenuContent>
                       </DropdownMenu>
                     </div>
@@ -922,8 +1107,38 @@ Great! I'll recommend our high-performance models.
                         ref={field.ref}
                       />
                     </FormControl>
+                    {flowDiagnostics.length > 0 && (
+                      <ul className="border-t border-neutral-medium bg-neutral-light/50 max-h-32 overflow-auto text-xs">
+                        {flowDiagnostics.map((diagnostic, idx) => (
+                          <li key={idx}>
+                            <button
+                              type="button"
+                              onClick={() => goToDiagnostic(diagnostic)}
+                              className="w-full text-left px-3 py-1 flex items-start gap-2 hover:bg-neutral-light"
+                            >
+                              {diagnostic.severity === 'error' ? (
+                                <AlertCircle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0 text-red-600" />
+                              ) : (
+                                <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0 text-amber-600" />
+                              )}
+                              <span className="font-mono text-neutral-dark/60 flex-shrink-0">
+                                {diagnostic.line}:{diagnostic.column}
+                              </span>
+                              <span className={diagnostic.severity === 'error' ? 'text-red-700' : 'text-amber-800'}>
+                                {diagnostic.message}
+                              </span>
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
                   </div>
                   <FormMessage />
+                  {parsedFlow.slots.length > 0 && (
+                    <div className="mt-3">
+                      <SlotsPanel slots={parsedFlow.slots} steps={parsedFlow.steps} />
+                    </div>
+                  )}
                   <div className="mt-3 flex justify-end">
                     <TooltipProvider>
                       <Tooltip>
@@ -997,9 +1212,36 @@ Great! I'll recommend our high-performance models.
               summary: ""
             }}
             conversationFlow={form.getValues().conversationFlow || useCase.conversationFlow}
+            roles={roles}
             flowRef={{ current: document.querySelector(".flow-preview-container") }}
             disabled={isLoading}
           />
+
+          {/* Training data is built server-side from the saved flow */}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                type="button"
+                variant="outline"
+                className="flex items-center"
+                disabled={isLoading}
+              >
+                <Download className="mr-2 h-4 w-4" /> Training Data
+                <ChevronDown className="ml-1 h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start">
+              <DropdownMenuItem asChild>
+                <a href={`/api/use-cases/${useCase.id}/export?format=rasa`} download>Rasa (YAML)</a>
+              </DropdownMenuItem>
+              <DropdownMenuItem asChild>
+                <a href={`/api/use-cases/${useCase.id}/export?format=dialogflow-cx`} download>Dialogflow CX (JSON)</a>
+              </DropdownMenuItem>
+              <DropdownMenuItem asChild>
+                <a href={`/api/use-cases/${useCase.id}/export?format=jsonl`} download>Chat transcripts (JSONL)</a>
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
         </div>
         <div>
           <Button
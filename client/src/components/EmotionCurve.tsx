@@ -0,0 +1,81 @@
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, type ChartConfig } from "@/components/ui/chart";
+
+export interface EmotionPoint {
+  id: string;
+  label: string;    // Short axis label, e.g. "Step 2"
+  detail: string;   // What was scored, shown in the tooltip
+  rating: number;   // 1 (very negative) to 5 (very positive)
+}
+
+interface EmotionCurveProps {
+  points: EmotionPoint[];
+  onPointClick?: (id: string) => void;
+  className?: string;
+}
+
+const chartConfig = {
+  rating: { label: "Sentiment", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const RATING_LABELS: Record<number, string> = {
+  1: 'Very negative',
+  2: 'Negative',
+  3: 'Neutral',
+  4: 'Positive',
+  5: 'Very positive',
+};
+
+// Frustration shows red, delight green
+function ratingColor(rating: number): string {
+  if (rating <= 2) return '#dc2626';
+  if (rating >= 4) return '#16a34a';
+  return '#9ca3af';
+}
+
+// The journey emotion line: sentiment at each point, with frustration dips marked in red
+export default function EmotionCurve({ points, onPointClick, className }: EmotionCurveProps) {
+  return (
+    <ChartContainer config={chartConfig} className={className ?? "h-40 w-full aspect-auto"}>
+      <LineChart data={points} margin={{ top: 8, right: 12, bottom: 0, left: -24 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="label" tickLine={false} axisLine={false} interval="preserveStartEnd" />
+        <YAxis domain={[1, 5]} ticks={[1, 2, 3, 4, 5]} tickLine={false} axisLine={false} />
+        <ReferenceLine y={3} strokeDasharray="4 4" />
+        <ChartTooltip
+          content={({ active, payload }) => {
+            const point = active ? payload?.[0]?.payload as EmotionPoint | undefined : undefined;
+            if (!point) return null;
+            return (
+              <div className="rounded-md border bg-background px-2 py-1.5 text-xs shadow-md max-w-xs">
+                <div className="font-medium">{point.label} · {RATING_LABELS[Math.round(point.rating)] ?? point.rating}</div>
+                <div className="text-muted-foreground">{point.detail}</div>
+              </div>
+            );
+          }}
+        />
+        <Line
+          type="monotone"
+          dataKey="rating"
+          stroke="var(--color-rating)"
+          strokeWidth={2}
+          isAnimationActive={false}
+          dot={({ cx, cy, payload }) => (
+            <circle
+              key={payload.id}
+              cx={cx}
+              cy={cy}
+              r={5}
+              fill={ratingColor(payload.rating)}
+              stroke="#fff"
+              strokeWidth={1.5}
+              className={onPointClick ? "cursor-pointer" : undefined}
+              onClick={() => onPointClick?.(payload.id)}
+            />
+          )}
+          activeDot={false}
+        />
+      </LineChart>
+    </ChartContainer>
+  );
+}
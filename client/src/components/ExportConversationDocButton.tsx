@@ -4,6 +4,7 @@ import { FileText } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
 import html2canvas from 'html2canvas';
 import { Document, Packer, Paragraph, TextRun, ImageRun, HeadingLevel, Table, TableRow, TableCell, BorderStyle, WidthType, AlignmentType } from 'docx';
+import { DEFAULT_ROLES, matchRoleLabel } from '@shared/parseConversation';
 
 interface ExportConversationDocButtonProps {
   title: string;
@@ -15,12 +16,63 @@ interface ExportConversationDocButtonProps {
     summary?: string;
   };
   conversationFlow: string;
+  roles?: string[];  // Role labels to recognize; defaults to the built-in set
   flowRef: React.RefObject<HTMLDivElement>;
   disabled?: boolean;
 }
 
+// Build the paragraph for one message, styled by the role label it starts with
+function createMessageParagraph(messageText: string, roles: string[]): Paragraph {
+  const role = matchRoleLabel(messageText, roles)?.toLowerCase();
+  
+  if (role === 'customer') {
+    return new Paragraph({
+      text: messageText,
+      spacing: {
+        before: 200,
+        after: 100,
+      },
+      style: "Quote"
+    });
+  }
+  
+  if (role === 'agent') {
+    return new Paragraph({
+      text: messageText,
+      spacing: {
+        before: 100,
+        after: 200,
+      },
+      indent: {
+        left: 720 // 0.5 inch indent (720 twips)
+      }
+    });
+  }
+  
+  if (role) {
+    // Other roles (System, Supervisor, Bot-Internal, ...) are set apart in italics
+    return new Paragraph({
+      children: [new TextRun({ text: messageText, italics: true, color: "555555" })],
+      spacing: {
+        before: 100,
+        after: 200,
+      },
+      indent: {
+        left: 1440 // 1 inch indent (1440 twips)
+      }
+    });
+  }
+  
+  return new Paragraph({
+    text: messageText,
+    spacing: {
+      after: 200
+    }
+  });
+}
+
 // Helper function to format conversation flow text into properly formatted paragraphs
-function formatConversationFlow(flowText: string): Paragraph[] {
+function formatConversationFlow(flowText: string, roles: string[]): Paragraph[] {
   if (!flowText) return [];
   
   // First, split by newlines to handle each line
@@ -38,43 +90,7 @@ function formatConversationFlow(flowText: string): Paragraph[] {
     if (!line) {
       if (currentMessage.length > 0) {
         // Add the accumulated message as a paragraph before continuing
-        const messageText = currentMessage.join('\n');
-        
-        if (messageText.startsWith("Customer:")) {
-          paragraphs.push(
-            new Paragraph({
-              text: messageText,
-              spacing: {
-                before: 200,
-                after: 100,
-              },
-              style: "Quote"
-            })
-          );
-        } else if (messageText.startsWith("Agent:")) {
-          paragraphs.push(
-            new Paragraph({
-              text: messageText,
-              spacing: {
-                before: 100,
-                after: 200,
-              },
-              indent: {
-                left: 720 // 0.5 inch indent (720 twips)
-              }
-            })
-          );
-        } else {
-          paragraphs.push(
-            new Paragraph({
-              text: messageText,
-              spacing: {
-                after: 200
-              }
-            })
-          );
-        }
-        
+        paragraphs.push(createMessageParagraph(currentMessage.join('\n'), roles));
         currentMessage = [];
       }
       continue;
@@ -112,47 +128,11 @@ function formatConversationFlow(flowText: string): Paragraph[] {
       continue;
     }
     
-    // Check for Customer or Agent prefix
-    if (line.startsWith("Customer:") || line.startsWith("Agent:")) {
+    // Check for a role prefix such as Customer: or Agent:
+    if (matchRoleLabel(line, roles)) {
       // If we have a current message, add it first
       if (currentMessage.length > 0) {
-        const messageText = currentMessage.join('\n');
-        
-        if (messageText.startsWith("Customer:")) {
-          paragraphs.push(
-            new Paragraph({
-              text: messageText,
-              spacing: {
-                before: 200,
-                after: 100,
-              },
-              style: "Quote"
-            })
-          );
-        } else if (messageText.startsWith("Agent:")) {
-          paragraphs.push(
-            new Paragraph({
-              text: messageText,
-              spacing: {
-                before: 100,
-                after: 200,
-              },
-              indent: {
-                left: 720 // 0.5 inch indent (720 twips)
-              }
-            })
-          );
-        } else {
-          paragraphs.push(
-            new Paragraph({
-              text: messageText,
-              spacing: {
-                after: 200
-              }
-            })
-          );
-        }
-        
+        paragraphs.push(createMessageParagraph(currentMessage.join('\n'), roles));
         currentMessage = [];
       }
       
@@ -166,42 +146,7 @@ function formatConversationFlow(flowText: string): Paragraph[] {
   
   // Add any remaining message
   if (currentMessage.length > 0) {
-    const messageText = currentMessage.join('\n');
-    
-    if (messageText.startsWith("Customer:")) {
-      paragraphs.push(
-        new Paragraph({
-          text: messageText,
-          spacing: {
-            before: 200,
-            after: 100,
-          },
-          style: "Quote"
-        })
-      );
-    } else if (messageText.startsWith("Agent:")) {
-      paragraphs.push(
-        new Paragraph({
-          text: messageText,
-          spacing: {
-            before: 100,
-            after: 200,
-          },
-          indent: {
-            left: 720 // 0.5 inch indent (720 twips)
-          }
-        })
-      );
-    } else {
-      paragraphs.push(
-        new Paragraph({
-          text: messageText,
-          spacing: {
-            after: 200
-          }
-        })
-      );
-    }
+    paragraphs.push(createMessageParagraph(currentMessage.join('\n'), roles));
   }
   
   // Add some final spacing
@@ -216,6 +161,7 @@ export default function ExportConversationDocButton({
   title,
   metadata,
   conversationFlow,
+  roles = DEFAULT_ROLES,
   flowRef,
   disabled = false
 }: ExportConversationDocButtonProps) {
@@ -430,7 +376,7 @@ export default function ExportConversationDocButton({
                 }
               }),
               // Replace single conversation flow paragraph with multiple paragraphs
-              ...(conversationFlow ? formatConversationFlow(conversationFlow) : [
+              ...(conversationFlow ? formatConversationFlow(conversationFlow, roles) : [
                 new Paragraph({
                   text: "No conversation flow provided",
                   spacing: {
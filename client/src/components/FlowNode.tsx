@@ -1,14 +1,18 @@
 import { memo } from 'react';
 import { Handle, Position } from 'reactflow';
-import { ConversationStep, Message } from '@shared/schema';
+import { ConversationStep, Message, FlowFinding } from '@shared/schema';
 import { Badge } from '@/components/ui/badge';
 import { Card } from '@/components/ui/card';
+import { Database, UserCheck, Brain, MessageSquare, AlertTriangle } from 'lucide-react';
 
 interface FlowNodeProps {
   data: {
     step: ConversationStep;
     stepNumber: number;
     stepType: string;
+    onEditTurn?: (messageIndex: number) => void;  // Opens the intent/variations editor for a customer turn
+    findings?: FlowFinding[];  // Review findings for this step
+    isHighlighted?: boolean;   // Picked from the review panel or the emotion curve
   };
 }
 
@@ -154,8 +158,121 @@ function getStepTypeStyles(stepType: string): { bg: string, text: string, icon:
   }
 }
 
+// Styles for the speaker of a message; roles without their own style share a neutral teal look
+function getRoleStyles(role: string): { card: string, header: string, avatar: string, label: string, text: string, icon: JSX.Element } {
+  switch (role) {
+    case 'customer':
+      return {
+        card: '',
+        header: 'bg-amber-50 border-amber-200',
+        avatar: 'bg-amber-500',
+        label: 'text-amber-800',
+        text: '',
+        icon: (
+          <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="w-4 h-4">
+            <path d="M20 21v-2a4 4 0 0 0-4-4H8a4 4 0 0 0-4 4v2"></path>
+            <circle cx="12" cy="7" r="4"></circle>
+          </svg>
+        )
+      };
+    case 'agent':
+      return {
+        card: '',
+        header: 'bg-indigo-50 border-indigo-200',
+        avatar: 'bg-indigo-500',
+        label: 'text-indigo-800',
+        text: '',
+        icon: (
+          <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="w-4 h-4">
+            <path d="M21.6 12.5c.4.2.4.8 0 1l-9 5c-.3.2-.6.2-.9 0l-9-5c-.4-.2-.4-.8 0-1l9-5c.3-.2.6-.2.9 0l9 5z"></path>
+            <path d="M21.6 16.5c.4.2.4.8 0 1l-9 5c-.3.2-.6.2-.9 0l-9-5c-.4-.2-.4-.8 0-1l9-5c.3-.2.6-.2.9 0l9 5z"></path>
+            <path d="M21.6 8.5c.4.2.4.8 0 1l-9 5c-.3.2-.6.2-.9 0l-9-5c-.4-.2-.4-.8 0-1l9-5c.3-.2.6-.2.9 0l9 5z"></path>
+          </svg>
+        )
+      };
+    case 'system':
+      return {
+        card: '',
+        header: 'bg-slate-100 border-slate-300',
+        avatar: 'bg-slate-600',
+        label: 'text-slate-800',
+        text: 'font-mono text-xs',
+        icon: <Database className="w-3.5 h-3.5" />
+      };
+    case 'supervisor':
+      return {
+        card: '',
+        header: 'bg-rose-50 border-rose-200',
+        avatar: 'bg-rose-500',
+        label: 'text-rose-800',
+        text: '',
+        icon: <UserCheck className="w-3.5 h-3.5" />
+      };
+    case 'bot-internal':
+      return {
+        card: 'border-dashed',
+        header: 'bg-gray-50 border-gray-200',
+        avatar: 'bg-gray-400',
+        label: 'text-gray-600',
+        text: 'italic text-neutral-dark/70',
+        icon: <Brain className="w-3.5 h-3.5" />
+      };
+    default:
+      return {
+        card: '',
+        header: 'bg-teal-50 border-teal-200',
+        avatar: 'bg-teal-500',
+        label: 'text-teal-800',
+        text: '',
+        icon: <MessageSquare className="w-3.5 h-3.5" />
+      };
+  }
+}
+
+// Show slot annotations like {order_id} or {customer_name:John} as inline chips
+function renderMessageText(text: string) {
+  return text.split(/(\{[A-Za-z_][\w.-]*(?::[^}]*)?\})/g).map((part, idx) => {
+    const slotMatch = part.match(/^\{([^:}]+)(?::([^}]*))?\}$/);
+    if (!slotMatch) return part;
+    return (
+      <span key={idx} className="inline-block rounded bg-teal-50 border border-teal-200 text-teal-800 font-mono text-xs px-1 mx-0.5">
+        {slotMatch[1]}{slotMatch[2] ? <span className="text-teal-600/70">: {slotMatch[2].trim()}</span> : null}
+      </span>
+    );
+  });
+}
+
+// Outline a step by its most severe review finding; a highlighted step gets a thicker ring
+function getFindingRing(findings: FlowFinding[] | undefined, isHighlighted: boolean | undefined): string {
+  if (!findings || findings.length === 0) return isHighlighted ? 'ring-offset-2 ring-4 ring-primary' : '';
+  const color = findings.some(f => f.severity === 'error')
+    ? 'ring-red-500'
+    : findings.some(f => f.severity === 'warning') ? 'ring-amber-500' : 'ring-sky-500';
+  return `ring-offset-2 ${color} ${isHighlighted ? 'ring-4' : 'ring-2'}`;
+}
+
+function renderFindings(findings: FlowFinding[] | undefined) {
+  if (!findings || findings.length === 0) return null;
+  return (
+    <ul className="mb-3 space-y-1 rounded border border-amber-200 bg-amber-50 p-2 text-xs text-amber-900">
+      {findings.map((finding, idx) => (
+        <li key={idx} className="flex items-start gap-1">
+          <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+          <span>{finding.message}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// "bot-internal" -> "Bot-Internal"
+function formatRoleLabel(role: string): string {
+  return role.replace(/(^|[\s-])([a-z])/g, (_, separator, letter) => separator + letter.toUpperCase());
+}
+
 function FlowNode({ data }: FlowNodeProps) {
-  const { step, stepNumber, stepType } = data;
+  const { step, stepNumber, stepType, onEditTurn, findings, isHighlighted } = data;
+  const findingRing = getFindingRing(findings, isHighlighted);
   const stepTypeStyles = getStepTypeStyles(stepType || step.stepType || 'Conversation Step');
   
   // Check if this is a special step type that doesn't need messages
@@ -166,7 +283,7 @@ function FlowNode({ data }: FlowNodeProps) {
   // Special rendering for Entry Points, Exit Points, etc.
   if (isSpecialStepType && (!step.messages || step.messages.length === 0)) {
     return (
-      <div className={`flow-node ${stepTypeStyles.bg} p-4 shadow-md border border-neutral-medium max-w-md`}>
+      <div className={`flow-node ${stepTypeStyles.bg} p-4 shadow-md border border-neutral-medium max-w-md ${findingRing}`}>
         <Handle type="target" position={Position.Top} className="w-3 h-3 bg-primary" />
         
         <div className="flex items-center justify-center mb-3">
@@ -179,6 +296,12 @@ function FlowNode({ data }: FlowNodeProps) {
           </Badge>
         </div>
         
+        {step.name && (
+          <div className="text-center font-semibold text-neutral-dark">{step.name}</div>
+        )}
+        
+        {renderFindings(findings)}
+        
         <div className="flex justify-center items-center p-4">
           <div className={`${stepTypeStyles.text} text-4xl`}>
             {stepTypeStyles.icon}
@@ -192,7 +315,7 @@ function FlowNode({ data }: FlowNodeProps) {
   
   // Normal rendering for conversation steps
   return (
-    <div className="flow-node bg-white p-4 shadow-md border border-neutral-medium max-w-md">
+    <div className={`flow-node bg-white p-4 shadow-md border border-neutral-medium max-w-md ${findingRing}`}>
       <Handle type="target" position={Position.Top} className="w-3 h-3 bg-primary" />
       
       <div className="flex items-center mb-3">
@@ -205,43 +328,45 @@ function FlowNode({ data }: FlowNodeProps) {
         </Badge>
       </div>
       
+      {step.name && (
+        <div className="font-semibold text-neutral-dark mb-3">{step.name}</div>
+      )}
+      
+      {renderFindings(findings)}
+      
       {/* Display messages in their original order */}
-      {step.messages && step.messages.map((message, idx) => (
-        <Card key={idx} className={`${idx < step.messages.length - 1 ? "mb-3" : ""} overflow-hidden`}>
-          {message.role === 'customer' ? (
-            <>
-              <div className="bg-amber-50 p-2 border-b border-amber-200 flex items-center">
-                <div className="bg-amber-500 text-white rounded-full w-6 h-6 flex items-center justify-center mr-2">
-                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="w-4 h-4">
-                    <path d="M20 21v-2a4 4 0 0 0-4-4H8a4 4 0 0 0-4 4v2"></path>
-                    <circle cx="12" cy="7" r="4"></circle>
-                  </svg>
-                </div>
-                <div className="font-medium text-amber-800">Customer</div>
+      {step.messages && step.messages.map((message, idx) => {
+        const roleStyles = getRoleStyles(message.role);
+        return (
+          <Card key={idx} className={`${idx < step.messages.length - 1 ? "mb-3" : ""} overflow-hidden ${roleStyles.card}`}>
+            <div className={`${roleStyles.header} p-2 border-b flex items-center`}>
+              <div className={`${roleStyles.avatar} text-white rounded-full w-6 h-6 flex items-center justify-center mr-2`}>
+                {roleStyles.icon}
               </div>
-              <div className="p-3 bg-white text-neutral-dark">
-                {message.text}
-              </div>
-            </>
-          ) : (
-            <>
-              <div className="bg-indigo-50 p-2 border-b border-indigo-200 flex items-center">
-                <div className="bg-indigo-500 text-white rounded-full w-6 h-6 flex items-center justify-center mr-2">
-                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="w-4 h-4">
-                    <path d="M21.6 12.5c.4.2.4.8 0 1l-9 5c-.3.2-.6.2-.9 0l-9-5c-.4-.2-.4-.8 0-1l9-5c.3-.2.6-.2.9 0l9 5z"></path>
-                    <path d="M21.6 16.5c.4.2.4.8 0 1l-9 5c-.3.2-.6.2-.9 0l-9-5c-.4-.2-.4-.8 0-1l9-5c.3-.2.6-.2.9 0l9 5z"></path>
-                    <path d="M21.6 8.5c.4.2.4.8 0 1l-9 5c-.3.2-.6.2-.9 0l-9-5c-.4-.2-.4-.8 0-1l9-5c.3-.2.6-.2.9 0l9 5z"></path>
-                  </svg>
+              <div className={`font-medium ${roleStyles.label}`}>{formatRoleLabel(message.role)}</div>
+              {message.role === 'customer' && (
+                <div className="ml-auto flex items-center gap-1">
+                  {message.intent && (
+                    <Badge variant="outline" className="bg-white font-mono text-xs">{message.intent}</Badge>
+                  )}
+                  {onEditTurn && (
+                    <button
+                      type="button"
+                      onClick={() => onEditTurn(idx)}
+                      className="nodrag text-xs text-amber-700 hover:text-amber-900 hover:underline"
+                    >
+                      {message.variations?.length ? `${message.variations.length} variations` : 'Add variations'}
+                    </button>
+                  )}
                 </div>
-                <div className="font-medium text-indigo-800">Agent</div>
-              </div>
-              <div className="p-3 bg-white text-neutral-dark">
-                {message.text}
-              </div>
-            </>
-          )}
-        </Card>
-      ))}
+              )}
+            </div>
+            <div className={`p-3 bg-white text-neutral-dark ${roleStyles.text}`}>
+              {renderMessageText(message.text)}
+            </div>
+          </Card>
+        );
+      })}
       
       <Handle type="source" position={Position.Bottom} className="w-3 h-3 bg-primary" />
     </div>
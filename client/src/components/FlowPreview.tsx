@@ -10,14 +10,19 @@ import ReactFlow, {
   XYPosition
 } from 'reactflow';
 import 'reactflow/dist/style.css';
-import { UseCase, ParsedFlow, Message } from "@shared/schema";
-import { Expand, Download, WandSparkles, Edit, Save } from "lucide-react";
+import { UseCase, ParsedFlow, Message, FlowReviewResult } from "@shared/schema";
+import { Expand, Download, WandSparkles, Edit, Save, Play, ListChecks, HeartPulse } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import FlowNode from "./FlowNode";
+import EditTurnDialog from "./EditTurnDialog";
+import ConversationSimulator from "./ConversationSimulator";
+import FlowReviewPanel from "./FlowReviewPanel";
+import FlowSentimentPanel from "./FlowSentimentPanel";
+import { setTurnVariations } from "@shared/parseConversation";
 import { toPng } from 'html-to-image';
 
 interface FlowPreviewProps {
@@ -43,6 +48,20 @@ export default function FlowPreview({ useCase, parsedFlow }: FlowPreviewProps) {
   const [positionsModified, setPositionsModified] = useState(false);
   // Flag to debounce auto-saving
   const [shouldSave, setShouldSave] = useState(false);
+  // Customer turn whose intent and variations are being edited
+  const [editingTurn, setEditingTurn] = useState<{ stepNumber: number; messageIndex: number } | null>(null);
+  const [isSimulatorOpen, setIsSimulatorOpen] = useState(false);
+  const [isReviewOpen, setIsReviewOpen] = useState(false);
+  const [isSentimentOpen, setIsSentimentOpen] = useState(false);
+  const [review, setReview] = useState<FlowReviewResult | null>(null);
+  // Step picked from the review findings or the emotion curve
+  const [highlightedStep, setHighlightedStep] = useState<number | null>(null);
+  
+  // Findings point at steps of the flow they were made for, so drop them once it changes
+  useEffect(() => {
+    setReview(null);
+    setHighlightedStep(null);
+  }, [useCase.conversationFlow]);
   
   // Mutation to save node positions to the database
   const updateNodePositionsMutation = useMutation({
@@ -82,6 +101,42 @@ export default function FlowPreview({ useCase, parsedFlow }: FlowPreviewProps) {
     }
   });
   
+  // Mutation to write edited intents/variations back into the flow text
+  const updateTurnMutation = useMutation({
+    mutationFn: async (conversationFlow: string) => {
+      return apiRequest('PUT', `/api/use-cases/${useCase.id}`, {
+        title: useCase.title,
+        description: useCase.description,
+        conversationFlow
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/use-cases', useCase.id.toString()] });
+      toast({
+        title: "Customer turn updated",
+        description: "The intent and variations have been saved to the conversation flow.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error saving customer turn",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+  
+  const editingMessage = editingTurn
+    ? parsedFlow.steps.find(s => s.stepNumber === editingTurn.stepNumber)?.messages[editingTurn.messageIndex]
+    : undefined;
+  
+  const handleUpdateTurn = (data: { intent?: string; variations: string[] }) => {
+    if (!editingMessage?.line) return;
+    updateTurnMutation.mutate(
+      setTurnVariations(useCase.conversationFlow || '', editingMessage.line, data.intent, data.variations, useCase.roles)
+    );
+  };
+  
   // Initialize or update nodes from the parsed flow data
   useEffect(() => {
     if (parsedFlow.steps.length === 0) {
@@ -89,15 +144,12 @@ export default function FlowPreview({ useCase, parsedFlow }: FlowPreviewProps) {
       return;
     }
     
-    const horizontalOffset = 80; // Offset for zigzag pattern
+    const defaultPositions = computeDefaultPositions(parsedFlow);
     const newNodes = parsedFlow.steps.map((step, index) => {
       const nodeId = `node-${index}`;
       
       // Use saved position if available, otherwise use default position
-      const position = savedPositions[nodeId] || { 
-        x: index % 2 === 0 ? 50 : 50 + horizontalOffset,
-        y: index * 350 // Increased vertical spacing for better readability
-      };
+      const position = savedPositions[nodeId] || defaultPositions[index];
       
       return {
         id: nodeId,
@@ -106,13 +158,16 @@ export default function FlowPreview({ useCase, parsedFlow }: FlowPreviewProps) {
         data: { 
           step, 
           stepNumber: index + 1,
-          stepType: step.stepType
+          stepType: step.stepType,
+          onEditTurn: (messageIndex: number) => setEditingTurn({ stepNumber: step.stepNumber, messageIndex }),
+          findings: review?.findings.filter(finding => finding.stepNumber === step.stepNumber),
+          isHighlighted: highlightedStep === step.stepNumber
         },
       };
     });
     
     setFlowNodes(newNodes);
-  }, [parsedFlow.steps, savedPositions]);
+  }, [parsedFlow, savedPositions, review, highlightedStep]);
   
   // Load saved positions from the useCase nodePositions
   useEffect(() => {
@@ -174,17 +229,27 @@ export default function FlowPreview({ useCase, parsedFlow }: FlowPreviewProps) {
     // Auto-save: We'll use a debounced save operation in another effect
   }, []);
 
-  // Create edges to connect the nodes
+  // Create edges to connect the nodes, labelling conditional branches
   const edges = useMemo(() => {
-    return parsedFlow.steps.slice(0, -1).map((_, index) => ({
-      id: `edge-${index}`,
-      source: `node-${index}`,
-      target: `node-${index + 1}`,
-      type: 'smoothstep',
-      animated: true,
-      style: { stroke: '#3f51b5', strokeWidth: 2 },
-    }));
-  }, [parsedFlow.steps]);
+    const indexByStepNumber = new Map(parsedFlow.steps.map((step, index) => [step.stepNumber, index]));
+    
+    return parsedFlow.edges
+      .filter(edge => indexByStepNumber.has(edge.source) && indexByStepNumber.has(edge.target))
+      .map((edge, index) => ({
+        id: `edge-${index}`,
+        source: `node-${indexByStepNumber.get(edge.source)}`,
+        target: `node-${indexByStepNumber.get(edge.target)}`,
+        type: 'smoothstep',
+        animated: true,
+        label: edge.condition,
+        labelBgPadding: [6, 4] as [number, number],
+        labelStyle: { fontSize: 11, fill: '#92400e' },
+        labelBgStyle: { fill: '#fef3c7' },
+        style: edge.condition
+          ? { stroke: '#d97706', strokeWidth: 2, strokeDasharray: '6 4' }
+          : { stroke: '#3f51b5', strokeWidth: 2 },
+      }));
+  }, [parsedFlow.steps, parsedFlow.edges]);
 
   // Auto-arrange nodes in a better layout
   const autoArrangeNodes = useCallback(() => {
@@ -238,6 +303,36 @@ export default function FlowPreview({ useCase, parsedFlow }: FlowPreviewProps) {
           <p className="text-sm text-neutral-dark/60">Visualize conversation paths</p>
         </div>
         <div className="flex">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setIsSimulatorOpen(true)}
+            disabled={parsedFlow.steps.length === 0}
+            title="Play conversation"
+            className="text-neutral-dark/70 hover:text-neutral-dark hover:bg-neutral-light mr-1"
+          >
+            <Play className="h-5 w-5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setIsReviewOpen(!isReviewOpen)}
+            disabled={parsedFlow.steps.length === 0}
+            title="Review this conversation"
+            className={`hover:text-neutral-dark hover:bg-neutral-light mr-1 ${isReviewOpen ? 'text-primary' : 'text-neutral-dark/70'}`}
+          >
+            <ListChecks className="h-5 w-5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setIsSentimentOpen(!isSentimentOpen)}
+            disabled={parsedFlow.steps.length === 0}
+            title="Customer sentiment"
+            className={`hover:text-neutral-dark hover:bg-neutral-light mr-1 ${isSentimentOpen ? 'text-primary' : 'text-neutral-dark/70'}`}
+          >
+            <HeartPulse className="h-5 w-5" />
+          </Button>
           <Button
             variant="ghost"
             size="icon"
@@ -295,6 +390,32 @@ export default function FlowPreview({ useCase, parsedFlow }: FlowPreviewProps) {
         )}
       </div>
       
+      {isReviewOpen && parsedFlow.steps.length > 0 && (
+        <FlowReviewPanel
+          useCase={useCase}
+          review={review}
+          onReviewChange={setReview}
+          selectedStep={highlightedStep}
+          onSelectStep={setHighlightedStep}
+          onClose={() => {
+            setIsReviewOpen(false);
+            setHighlightedStep(null);
+          }}
+        />
+      )}
+      
+      {isSentimentOpen && parsedFlow.steps.length > 0 && (
+        <FlowSentimentPanel
+          useCase={useCase}
+          parsedFlow={parsedFlow}
+          onSelectStep={setHighlightedStep}
+          onClose={() => {
+            setIsSentimentOpen(false);
+            setHighlightedStep(null);
+          }}
+        />
+      )}
+      
       <div className="p-4 border-t border-neutral-medium flex justify-between items-center">
         <div className="flex">
           <Button
@@ -330,10 +451,77 @@ export default function FlowPreview({ useCase, parsedFlow }: FlowPreviewProps) {
           )}
         </div>
       </div>
+      
+      {editingMessage && (
+        <EditTurnDialog
+          open={!!editingTurn}
+          onOpenChange={(open) => !open && setEditingTurn(null)}
+          turn={editingMessage}
+          context={{ title: useCase.title, description: useCase.description }}
+          onUpdate={handleUpdateTurn}
+        />
+      )}
+
+      <ConversationSimulator
+        open={isSimulatorOpen}
+        onOpenChange={setIsSimulatorOpen}
+        useCase={useCase}
+        parsedFlow={parsedFlow}
+      />
     </div>
   );
 }
 
+// Lay steps out in rows by their distance from the first step so that
+// branches sit side by side instead of in one long column
+function computeDefaultPositions(parsedFlow: ParsedFlow): XYPosition[] {
+  const horizontalOffset = 80; // Offset for zigzag pattern
+  const columnWidth = 450;
+  const rowHeight = 350; // Increased vertical spacing for better readability
+  
+  const indexByStepNumber = new Map(parsedFlow.steps.map((step, index) => [step.stepNumber, index]));
+  const outgoing = new Map<number, number[]>();
+  parsedFlow.edges.forEach(edge => {
+    const source = indexByStepNumber.get(edge.source);
+    const target = indexByStepNumber.get(edge.target);
+    if (source === undefined || target === undefined) return;
+    outgoing.set(source, [...(outgoing.get(source) || []), target]);
+  });
+  
+  // Breadth-first search from the first step assigns each reachable step a row
+  const rows: number[] = parsedFlow.steps.map(() => -1);
+  const queue: number[] = [];
+  if (parsedFlow.steps.length > 0) {
+    rows[0] = 0;
+    queue.push(0);
+  }
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    (outgoing.get(current) || []).forEach(target => {
+      if (rows[target] === -1) {
+        rows[target] = rows[current] + 1;
+        queue.push(target);
+      }
+    });
+  }
+  
+  // Unreachable steps go below everything else in text order
+  let nextRow = Math.max(0, ...rows) + 1;
+  rows.forEach((row, index) => {
+    if (row === -1) rows[index] = nextRow++;
+  });
+  
+  const columnsUsed: Record<number, number> = {};
+  return rows.map(row => {
+    const column = columnsUsed[row] || 0;
+    columnsUsed[row] = column + 1;
+    return {
+      x: column * columnWidth + (row % 2 === 0 ? 50 : 50 + horizontalOffset),
+      y: row * rowHeight
+    };
+  });
+}
+
 // Helper function to detect step type based on message content
 function detectStepType(
   messages: Message[], 
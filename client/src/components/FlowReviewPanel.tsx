@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { UseCase, FlowFinding, FlowReviewResult } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { AlertTriangle, Bot, CheckCircle2, Info, Loader2, X, XCircle } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface FlowReviewPanelProps {
+  useCase: UseCase;
+  review: FlowReviewResult | null;
+  onReviewChange: (review: FlowReviewResult | null) => void;
+  selectedStep: number | null;
+  onSelectStep: (stepNumber: number | null) => void;
+  onClose: () => void;
+}
+
+const RULE_LABELS: Record<string, string> = {
+  'missing-greeting': 'Greeting',
+  'missing-closing': 'Closing',
+  'long-agent-turn': 'Long turn',
+  'no-escalation': 'Escalation',
+  'unanswered-question': 'Unanswered',
+  'agent-bookended-step': 'Agent-only step',
+  'critique': 'AI critique',
+};
+
+function SeverityIcon({ severity }: { severity: FlowFinding["severity"] }) {
+  switch (severity) {
+    case 'error':
+      return <XCircle className="h-4 w-4 text-red-600 shrink-0" />;
+    case 'warning':
+      return <AlertTriangle className="h-4 w-4 text-amber-600 shrink-0" />;
+    default:
+      return <Info className="h-4 w-4 text-sky-600 shrink-0" />;
+  }
+}
+
+// Findings from reviewing the flow; selecting one highlights its step in the preview
+export default function FlowReviewPanel({ useCase, review, onReviewChange, selectedStep, onSelectStep, onClose }: FlowReviewPanelProps) {
+  const { toast } = useToast();
+  const [includeAi, setIncludeAi] = useState(false);
+
+  const reviewMutation = useMutation({
+    mutationFn: async (forceRegenerate: boolean) => {
+      return apiRequest('POST', `/api/use-cases/${useCase.id}/review`, {
+        includeAi,
+        ...(forceRegenerate ? { forceRegenerate } : {})
+      }) as Promise<FlowReviewResult>;
+    },
+    onSuccess: (result) => {
+      onReviewChange(result);
+      onSelectStep(null);
+      if (result.critiqueError) {
+        toast({
+          title: "AI critique unavailable",
+          description: result.critiqueError,
+          variant: "destructive",
+        });
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Review failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const findings = review?.findings ?? [];
+
+  return (
+    <div className="border-t border-neutral-medium bg-white flex flex-col max-h-64">
+      <div className="px-4 py-2 flex items-center gap-3 border-b border-neutral-medium/60">
+        <h3 className="text-sm font-semibold text-neutral-dark">Review</h3>
+        {review && (
+          <span className="text-xs text-neutral-dark/60">
+            {findings.length} finding{findings.length === 1 ? '' : 's'}
+          </span>
+        )}
+        <div className="ml-auto flex items-center gap-3">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="flow-review-include-ai"
+              checked={includeAi}
+              onCheckedChange={(checked) => setIncludeAi(checked === true)}
+            />
+            <Label htmlFor="flow-review-include-ai" className="text-xs font-normal">
+              Include AI critique
+            </Label>
+          </div>
+          <Button
+            size="sm"
+            variant="secondary"
+            onClick={() => reviewMutation.mutate(!!review && includeAi)}
+            disabled={reviewMutation.isPending}
+          >
+            {reviewMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {review ? 'Review again' : 'Review'}
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={onClose}
+            title="Close review"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="overflow-y-auto">
+        {!review ? (
+          <p className="px-4 py-3 text-sm text-neutral-dark/60">
+            Check the flow for a missing greeting or closing, long agent turns, no escalation path,
+            unanswered customer questions and agent-only steps. The AI critique also checks the agent's
+            turns against the agent persona.
+          </p>
+        ) : findings.length === 0 ? (
+          <p className="px-4 py-3 text-sm text-green-700 flex items-center gap-2">
+            <CheckCircle2 className="h-4 w-4" /> No problems found
+          </p>
+        ) : (
+          <ul className="divide-y divide-neutral-medium/40">
+            {findings.map((finding, idx) => {
+              const isSelected = finding.stepNumber !== undefined && finding.stepNumber === selectedStep;
+              return (
+                <li key={idx}>
+                  <button
+                    type="button"
+                    onClick={() => onSelectStep(isSelected ? null : finding.stepNumber ?? null)}
+                    disabled={finding.stepNumber === undefined}
+                    className={`w-full text-left px-4 py-2 flex items-start gap-2 text-sm ${isSelected ? 'bg-amber-50' : 'hover:bg-neutral-light/60'} disabled:cursor-default disabled:hover:bg-transparent`}
+                  >
+                    <SeverityIcon severity={finding.severity} />
+                    <span className="flex-1 text-neutral-dark">{finding.message}</span>
+                    <span className="flex items-center gap-1 shrink-0">
+                      {finding.source === 'ai' && <Bot className="h-3.5 w-3.5 text-neutral-dark/50" />}
+                      <Badge variant="outline" className="text-xs font-normal">
+                        {RULE_LABELS[finding.rule] ?? finding.rule}
+                      </Badge>
+                      <Badge variant="secondary" className="text-xs font-normal">
+                        {finding.stepNumber !== undefined ? `Step ${finding.stepNumber}` : 'Whole flow'}
+                      </Badge>
+                    </span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
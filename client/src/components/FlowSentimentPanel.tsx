@@ -0,0 +1,93 @@
+import { useMemo } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { UseCase, ParsedFlow } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Loader2, X } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import EmotionCurve, { type EmotionPoint } from "./EmotionCurve";
+
+interface FlowSentimentPanelProps {
+  useCase: UseCase;
+  parsedFlow: ParsedFlow;
+  onSelectStep: (stepNumber: number | null) => void;
+  onClose: () => void;
+}
+
+// Emotion curve over the customer's messages; clicking a point highlights its step
+export default function FlowSentimentPanel({ useCase, parsedFlow, onSelectStep, onClose }: FlowSentimentPanelProps) {
+  const { toast } = useToast();
+  const scores = useCase.sentiment ?? [];
+
+  // Only plot scores for messages that are still in the flow as they were scored
+  const points = useMemo<EmotionPoint[]>(() => scores
+    .filter(score => parsedFlow.steps
+      .find(step => step.stepNumber === score.stepNumber)
+      ?.messages[score.messageIndex]?.text === score.text)
+    .map(score => ({
+      id: `${score.stepNumber}:${score.messageIndex}`,
+      label: `Step ${score.stepNumber}`,
+      detail: score.text,
+      rating: score.rating
+    })), [scores, parsedFlow.steps]);
+  const staleCount = scores.length - points.length;
+
+  const analyzeMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest('POST', `/api/use-cases/${useCase.id}/sentiment`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/use-cases', useCase.id.toString()] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Sentiment analysis failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+
+  return (
+    <div className="border-t border-neutral-medium bg-white flex flex-col">
+      <div className="px-4 py-2 flex items-center gap-3 border-b border-neutral-medium/60">
+        <h3 className="text-sm font-semibold text-neutral-dark">Customer sentiment</h3>
+        {staleCount > 0 && (
+          <span className="text-xs text-amber-600">
+            {staleCount} message{staleCount === 1 ? ' has' : 's have'} changed since the last analysis
+          </span>
+        )}
+        <div className="ml-auto flex items-center gap-2">
+          <Button
+            size="sm"
+            variant="secondary"
+            onClick={() => analyzeMutation.mutate()}
+            disabled={analyzeMutation.isPending}
+          >
+            {analyzeMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {scores.length > 0 ? 'Analyze again' : 'Analyze'}
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={onClose}
+            title="Close sentiment"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {points.length > 0 ? (
+        <div className="px-2 py-2">
+          <EmotionCurve points={points} onPointClick={(id) => onSelectStep(parseInt(id))} />
+        </div>
+      ) : (
+        <p className="px-4 py-3 text-sm text-neutral-dark/60">
+          Score each customer message from very negative to very positive to see where frustration peaks.
+        </p>
+      )}
+    </div>
+  );
+}
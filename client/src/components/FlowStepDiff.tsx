@@ -0,0 +1,83 @@
+import { useMemo, useState } from "react";
+import { diffFlowSteps, flowStepLines, flowStepTitle, type FlowStepChange } from "@shared/designDiff";
+import LineDiffView from "./LineDiffView";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+
+interface FlowStepDiffProps {
+  before: Record<string, unknown>;
+  after: Record<string, unknown>;
+}
+
+const KIND_STYLES: Record<FlowStepChange['kind'], { label: string; className: string }> = {
+  added: { label: 'Added', className: 'border-green-300 bg-green-50' },
+  removed: { label: 'Removed', className: 'border-red-300 bg-red-50' },
+  edited: { label: 'Edited', className: 'border-amber-300 bg-amber-50' },
+  unchanged: { label: 'Unchanged', className: 'border-border' },
+};
+
+function asFlow(snapshot: Record<string, unknown>) {
+  return {
+    conversationFlow: typeof snapshot.conversationFlow === 'string' ? snapshot.conversationFlow : '',
+    roles: Array.isArray(snapshot.roles) ? snapshot.roles as string[] : null,
+  };
+}
+
+function StepHeading({ change }: { change: FlowStepChange }) {
+  const step = change.after ?? change.before!;
+  const renamed = change.kind === 'edited' && flowStepTitle(change.before!) !== flowStepTitle(change.after!);
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <span className="text-sm font-medium">
+        {renamed ? `${flowStepTitle(change.before!)} → ${flowStepTitle(change.after!)}` : flowStepTitle(step)}
+        {step.stepType && step.name && <span className="text-muted-foreground font-normal"> · {step.stepType}</span>}
+      </span>
+      <Badge variant="outline">{KIND_STYLES[change.kind].label}</Badge>
+    </div>
+  );
+}
+
+// Step-level comparison of two conversation flows; the turns of each changed step are diffed line by line
+export default function FlowStepDiff({ before, after }: FlowStepDiffProps) {
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const changes = useMemo(() => diffFlowSteps(asFlow(before), asFlow(after)), [before, after]);
+  const unchangedCount = changes.filter(change => change.kind === 'unchanged').length;
+  const visible = showUnchanged ? changes : changes.filter(change => change.kind !== 'unchanged');
+
+  if (changes.length === 0) {
+    return <p className="text-sm text-muted-foreground">Neither version has any conversation steps.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+        <span>
+          {(['added', 'removed', 'edited'] as const)
+            .map(kind => `${changes.filter(change => change.kind === kind).length} ${kind}`)
+            .join(' · ')}
+        </span>
+        {unchangedCount > 0 && (
+          <Button type="button" variant="ghost" size="sm" onClick={() => setShowUnchanged(!showUnchanged)}>
+            {showUnchanged ? 'Hide' : 'Show'} {unchangedCount} unchanged step{unchangedCount === 1 ? '' : 's'}
+          </Button>
+        )}
+      </div>
+
+      {visible.length === 0 && (
+        <p className="text-sm text-muted-foreground">The steps are the same in both versions.</p>
+      )}
+
+      {visible.map((change, index) => (
+        <div key={index} className={`rounded-md border p-3 space-y-2 ${KIND_STYLES[change.kind].className}`}>
+          <StepHeading change={change} />
+          {change.kind !== 'unchanged' && (
+            <LineDiffView
+              before={change.before ? flowStepLines(change.before).join('\n') : ''}
+              after={change.after ? flowStepLines(change.after).join('\n') : ''}
+            />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
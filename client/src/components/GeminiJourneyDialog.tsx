@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -24,7 +24,7 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useMutation } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { streamRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2, Bot, Plus, X, Sparkles } from "lucide-react";
 
@@ -38,6 +38,13 @@ const formSchema = z.object({
 
 type FormValues = z.infer<typeof formSchema>;
 
+// A journey stage as it arrives from the stream, before the whole journey is validated
+interface PartialJourneyNode {
+  id: string;
+  type?: string;
+  data?: { label?: string; description?: string };
+}
+
 interface GeminiJourneyDialogProps {
   onJourneyGenerated: (journeyData: any) => void;
   trigger?: React.ReactNode;
@@ -48,6 +55,8 @@ export default function GeminiJourneyDialog({ onJourneyGenerated, trigger }: Gem
   const [open, setOpen] = useState(false);
   const [touchpointInput, setTouchpointInput] = useState("");
   const [touchpoints, setTouchpoints] = useState<string[]>([]);
+  const [partialNodes, setPartialNodes] = useState<PartialJourneyNode[]>([]);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
@@ -66,7 +75,19 @@ export default function GeminiJourneyDialog({ onJourneyGenerated, trigger }: Gem
 
   const generateJourney = useMutation({
     mutationFn: async (values: FormValues) => {
-      return apiRequest('POST', '/api/gemini/customer-journey', values);
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      setPartialNodes([]);
+      return streamRequest('POST', '/api/gemini/customer-journey', values, {
+        onEvent: (event, node) => {
+          if (event === 'node') {
+            setPartialNodes(prev => [...prev, node]);
+          }
+        }
+      }, controller.signal);
+    },
+    onSettled: () => {
+      abortControllerRef.current = null;
     },
     onSuccess: (data) => {
       toast({
@@ -80,6 +101,10 @@ export default function GeminiJourneyDialog({ onJourneyGenerated, trigger }: Gem
       setTouchpointInput("");
     },
     onError: (error) => {
+      // Cancelled by the user
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        return;
+      }
       toast({
         title: "Generation Failed",
         description: (error as Error).message,
@@ -110,8 +135,20 @@ export default function GeminiJourneyDialog({ onJourneyGenerated, trigger }: Gem
     generateJourney.mutate(values);
   };
 
+  const cancelGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Closing the dialog abandons a generation in progress
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      cancelGeneration();
+    }
+    setOpen(isOpen);
+  };
+
   return (
-    <Dialog open={open} onOpenChange={setOpen}>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogTrigger asChild>
         {trigger || (
           <Button variant="outline" className="gap-2">
@@ -239,13 +276,29 @@ export default function GeminiJourneyDialog({ onJourneyGenerated, trigger }: Gem
               )}
             </FormItem>
 
+            {generateJourney.isPending && partialNodes.length > 0 && (
+              <div className="rounded-md border p-3 space-y-2">
+                <p className="text-sm font-medium">Stages generated so far</p>
+                <ol className="space-y-1">
+                  {partialNodes.map((node, index) => (
+                    <li key={node.id ?? index} className="text-sm">
+                      <span className="font-medium">{index + 1}. {node.data?.label || node.type || 'Stage'}</span>
+                      {node.data?.description && (
+                        <span className="text-muted-foreground"> - {node.data.description}</span>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+
             <div className="flex justify-end gap-3">
               <Button
                 type="button"
                 variant="outline"
-                onClick={() => setOpen(false)}
+                onClick={() => generateJourney.isPending ? cancelGeneration() : setOpen(false)}
               >
-                Cancel
+                {generateJourney.isPending ? "Stop Generating" : "Cancel"}
               </Button>
               <Button
                 type="submit"
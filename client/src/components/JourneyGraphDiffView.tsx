@@ -0,0 +1,200 @@
+import { useMemo, useState } from "react";
+import ReactFlow, {
+  Background,
+  Controls,
+  Handle,
+  MarkerType,
+  Position,
+  ReactFlowProvider,
+  type Edge,
+  type Node,
+  type NodeProps
+} from 'reactflow';
+import 'reactflow/dist/style.css';
+import {
+  diffJourneyGraphs,
+  journeyNodeLabel,
+  type GraphChangeCounts,
+  type GraphChangeKind,
+  type GraphNodeChange
+} from "@shared/designDiff";
+import { Button } from "@/components/ui/button";
+
+interface JourneyGraphDiffViewProps {
+  before: Record<string, unknown>;
+  after: Record<string, unknown>;
+}
+
+interface DiffNodeData {
+  label: string;
+  subtitle?: string;
+  kind: GraphChangeKind | 'ghost';
+  editedFields: string[];
+}
+
+const KIND_COLORS: Record<GraphChangeKind | 'ghost', string> = {
+  added: '#16a34a',
+  removed: '#dc2626',
+  edited: '#d97706',
+  moved: '#2563eb',
+  unchanged: '#9ca3af',
+  ghost: '#93c5fd',
+};
+
+const KIND_LABELS: Record<GraphChangeKind, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  edited: 'Edited',
+  moved: 'Moved',
+  unchanged: 'Unchanged',
+};
+
+function DiffNode({ data }: NodeProps<DiffNodeData>) {
+  const color = KIND_COLORS[data.kind];
+  const faded = data.kind === 'ghost' || data.kind === 'removed';
+  return (
+    <div
+      className="rounded-md bg-white px-3 py-2 w-[220px] shadow-sm"
+      style={{
+        border: `2px ${faded ? 'dashed' : 'solid'} ${color}`,
+        opacity: data.kind === 'ghost' ? 0.6 : 1,
+      }}
+    >
+      <Handle type="target" position={Position.Top} style={{ opacity: 0 }} />
+      <div className="flex items-center justify-between gap-2">
+        <span className={`text-sm font-medium truncate ${data.kind === 'removed' ? 'line-through' : ''}`}>{data.label}</span>
+        {data.kind !== 'unchanged' && (
+          <span className="text-[10px] font-semibold uppercase shrink-0" style={{ color }}>
+            {data.kind === 'ghost' ? 'Was here' : KIND_LABELS[data.kind]}
+          </span>
+        )}
+      </div>
+      {data.subtitle && <div className="text-xs text-muted-foreground truncate">{data.subtitle}</div>}
+      {data.editedFields.length > 0 && (
+        <div className="text-xs mt-1" style={{ color }}>Changed: {data.editedFields.join(', ')}</div>
+      )}
+      <Handle type="source" position={Position.Bottom} style={{ opacity: 0 }} />
+    </div>
+  );
+}
+
+// Defined outside the component so React Flow doesn't warn about a new object every render
+const nodeTypes = { diffNode: DiffNode };
+
+function toDiffNodes(changes: GraphNodeChange[], showUnchanged: boolean): Node<DiffNodeData>[] {
+  const nodes: Node<DiffNodeData>[] = [];
+  for (const change of changes) {
+    if (change.kind === 'unchanged' && !showUnchanged) continue;
+    const node = change.after ?? change.before!;
+    const subtitle = typeof node.data?.stepType === 'string' ? node.data.stepType : node.type;
+    // Where a moved node used to be, so the move itself can be seen
+    if (change.moved && change.before) {
+      nodes.push({
+        id: `ghost:${change.id}`,
+        type: 'diffNode',
+        position: change.before.position ?? { x: 0, y: 0 },
+        data: { label: journeyNodeLabel(change.before), kind: 'ghost', editedFields: [] },
+        draggable: false,
+        selectable: false,
+      });
+    }
+    nodes.push({
+      id: change.id,
+      type: 'diffNode',
+      position: node.position ?? { x: 0, y: 0 },
+      data: {
+        label: journeyNodeLabel(node),
+        subtitle: subtitle && subtitle !== journeyNodeLabel(node) ? subtitle : undefined,
+        kind: change.kind,
+        editedFields: change.editedFields,
+      },
+      zIndex: change.kind === 'removed' ? 0 : 1,
+    });
+  }
+  return nodes;
+}
+
+function summarize(counts: GraphChangeCounts, noun: string): string {
+  const parts = (['added', 'removed', 'edited', 'moved'] as const)
+    .filter(kind => counts[kind] > 0)
+    .map(kind => `${counts[kind]} ${kind}`);
+  return parts.length > 0 ? `${noun}: ${parts.join(', ')}` : `${noun}: no changes`;
+}
+
+/**
+ * Both versions of a journey drawn on one canvas: nodes sit where they are
+ * in `after`, removed ones where they were in `before`, and moved ones leave
+ * an outline at their old position.
+ */
+export default function JourneyGraphDiffView({ before, after }: JourneyGraphDiffViewProps) {
+  const [showUnchanged, setShowUnchanged] = useState(true);
+  const diff = useMemo(() => diffJourneyGraphs(before, after), [before, after]);
+
+  const nodes = useMemo(() => toDiffNodes(diff.nodes, showUnchanged), [diff, showUnchanged]);
+
+  const edges = useMemo<Edge[]>(() => {
+    const shown = new Set(nodes.map(node => node.id));
+    return diff.edges
+      .filter(change => change.kind !== 'unchanged' || showUnchanged)
+      .map(change => {
+        const edge = change.after ?? change.before!;
+        const color = KIND_COLORS[change.kind];
+        return {
+          // Handles are dropped: the diff nodes only have one of each
+          id: `edge:${change.key}`,
+          source: edge.source,
+          target: edge.target,
+          label: typeof edge.label === 'string' ? edge.label : undefined,
+          animated: change.kind === 'added',
+          style: {
+            stroke: color,
+            strokeWidth: change.kind === 'unchanged' ? 1 : 2,
+            strokeDasharray: change.kind === 'removed' ? '6 4' : undefined,
+          },
+          markerEnd: { type: MarkerType.ArrowClosed, color },
+        };
+      })
+      .filter(edge => shown.has(edge.source) && shown.has(edge.target));
+  }, [diff, nodes, showUnchanged]);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+        <div className="flex flex-wrap gap-x-4 gap-y-1">
+          <span>{summarize(diff.counts.nodes, 'Nodes')}</span>
+          <span>{summarize(diff.counts.edges, 'Connections')}</span>
+        </div>
+        <Button type="button" variant="ghost" size="sm" onClick={() => setShowUnchanged(!showUnchanged)}>
+          {showUnchanged ? 'Hide unchanged' : 'Show unchanged'}
+        </Button>
+      </div>
+      <div className="flex flex-wrap gap-3 text-xs">
+        {(['added', 'removed', 'edited', 'moved'] as const).map(kind => (
+          <span key={kind} className="flex items-center gap-1">
+            <span className="inline-block h-3 w-3 rounded-sm" style={{ backgroundColor: KIND_COLORS[kind] }} />
+            {KIND_LABELS[kind]}
+          </span>
+        ))}
+      </div>
+      <div className="h-[50vh] rounded-md border">
+        {/* Its own provider, so it never shares state with the journey canvas it opens from */}
+        <ReactFlowProvider>
+          <ReactFlow
+            nodes={nodes}
+            edges={edges}
+            nodeTypes={nodeTypes}
+            fitView
+            fitViewOptions={{ padding: 0.2 }}
+            minZoom={0.1}
+            nodesConnectable={false}
+            nodesDraggable={false}
+            proOptions={{ hideAttribution: true }}
+          >
+            <Background />
+            <Controls showInteractive={false} />
+          </ReactFlow>
+        </ReactFlowProvider>
+      </div>
+    </div>
+  );
+}
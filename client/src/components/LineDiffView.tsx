@@ -0,0 +1,50 @@
+import { useMemo } from "react";
+import { diffLines, type LineDiff } from "@shared/revisions";
+
+// Unchanged lines kept either side of a change; longer unchanged stretches are folded
+const CONTEXT_LINES = 3;
+
+type DiffRow = LineDiff | { kind: 'folded'; count: number };
+
+function foldUnchanged(lines: LineDiff[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].kind !== 'same') {
+      rows.push(lines[i++]);
+      continue;
+    }
+    let end = i;
+    while (end < lines.length && lines[end].kind === 'same') end++;
+    const keepBefore = i === 0 ? 0 : CONTEXT_LINES;
+    const keepAfter = end === lines.length ? 0 : CONTEXT_LINES;
+    if (end - i > keepBefore + keepAfter + 1) {
+      rows.push(...lines.slice(i, i + keepBefore));
+      rows.push({ kind: 'folded', count: end - i - keepBefore - keepAfter });
+      rows.push(...lines.slice(end - keepAfter, end));
+    } else {
+      rows.push(...lines.slice(i, end));
+    }
+    i = end;
+  }
+  return rows;
+}
+
+// Two texts compared line by line: red lines are only in `before`, green only in `after`
+export default function LineDiffView({ before, after }: { before: string; after: string }) {
+  const rows = useMemo(() => foldUnchanged(diffLines(before, after)), [before, after]);
+  return (
+    <pre className="text-xs whitespace-pre-wrap break-words rounded-md border bg-muted/30 p-2 font-mono">
+      {rows.map((row, index) => {
+        if (row.kind === 'folded') {
+          return <div key={index} className="text-muted-foreground italic">… {row.count} unchanged line{row.count === 1 ? '' : 's'}</div>;
+        }
+        const style = row.kind === 'added'
+          ? 'bg-green-50 text-green-800'
+          : row.kind === 'removed' ? 'bg-red-50 text-red-800' : 'text-muted-foreground';
+        const prefix = row.kind === 'added' ? '+ ' : row.kind === 'removed' ? '- ' : '  ';
+        return <div key={index} className={style}>{prefix}{row.text || ' '}</div>;
+      })}
+    </pre>
+  );
+}
@@ -0,0 +1,276 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { AIFeature } from "@shared/aiFeatures";
+import type { PromptTemplate } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { Loader2, Eye, Save, RotateCcw, History, AlertTriangle } from "lucide-react";
+
+interface PromptTemplateView {
+  name: AIFeature;
+  label: string;
+  version: number;
+  systemPrompt: string;
+  userPrompt: string;
+  placeholders: { name: string; description: string; sample: string }[];
+  updatedAt: string | null;
+}
+
+interface PromptPreview {
+  systemPrompt: string;
+  userPrompt: string;
+  problems: string[];
+}
+
+// View, edit, preview and restore the prompt sent for each AI feature
+export default function PromptTemplateEditor() {
+  const { toast } = useToast();
+  const [selected, setSelected] = useState<AIFeature | null>(null);
+  const [systemPrompt, setSystemPrompt] = useState('');
+  const [userPrompt, setUserPrompt] = useState('');
+  const [preview, setPreview] = useState<PromptPreview | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+
+  const { data: templates = [], isLoading } = useQuery<PromptTemplateView[]>({
+    queryKey: ['/api/prompt-templates'],
+  });
+
+  const template = templates.find(t => t.name === selected) || templates[0];
+
+  const { data: versions = [] } = useQuery<PromptTemplate[]>({
+    queryKey: [`/api/prompt-templates/${template?.name}/versions`],
+    enabled: !!template && showHistory,
+  });
+
+  // Load the saved prompt whenever another template is picked or a new version is saved
+  useEffect(() => {
+    if (template) {
+      setSystemPrompt(template.systemPrompt);
+      setUserPrompt(template.userPrompt);
+      setPreview(null);
+    }
+  }, [template?.name, template?.version]);
+
+  const onSaved = (saved: PromptTemplateView) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/prompt-templates'] });
+    queryClient.invalidateQueries({ queryKey: [`/api/prompt-templates/${saved.name}/versions`] });
+  };
+
+  const saveTemplate = useMutation({
+    mutationFn: async (): Promise<PromptTemplateView> => {
+      return apiRequest('PUT', `/api/prompt-templates/${template!.name}`, { systemPrompt, userPrompt });
+    },
+    onSuccess: (saved) => {
+      onSaved(saved);
+      toast({
+        title: "Prompt saved",
+        description: `${saved.label} now uses version ${saved.version}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to save prompt",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const restoreTemplate = useMutation({
+    mutationFn: async (version?: number): Promise<PromptTemplateView> => {
+      return apiRequest('POST', `/api/prompt-templates/${template!.name}/restore`, { version });
+    },
+    onSuccess: (saved, version) => {
+      onSaved(saved);
+      toast({
+        title: "Prompt restored",
+        description: version !== undefined ? `Version ${version} restored as version ${saved.version}.` : "The built-in prompt is in use again.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to restore prompt",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const previewTemplate = useMutation({
+    mutationFn: async (): Promise<PromptPreview> => {
+      return apiRequest('POST', `/api/prompt-templates/${template!.name}/preview`, { systemPrompt, userPrompt });
+    },
+    onSuccess: setPreview,
+    onError: (error) => {
+      toast({
+        title: "Failed to preview prompt",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  if (isLoading || !template) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const isDirty = systemPrompt !== template.systemPrompt || userPrompt !== template.userPrompt;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <Select value={template.name} onValueChange={(value) => setSelected(value as AIFeature)}>
+          <SelectTrigger className="w-[320px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {templates.map(t => (
+              <SelectItem key={t.name} value={t.name}>
+                {t.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span className="text-sm text-muted-foreground">
+          {template.version === 0 ? "Built-in prompt" : `Version ${template.version}`}
+        </span>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Placeholders</Label>
+        <TooltipProvider>
+          <div className="flex flex-wrap gap-2">
+            {template.placeholders.map(placeholder => (
+              <Tooltip key={placeholder.name}>
+                <TooltipTrigger asChild>
+                  <Badge variant="secondary" className="font-mono cursor-help">{`{{${placeholder.name}}}`}</Badge>
+                </TooltipTrigger>
+                <TooltipContent>{placeholder.description}</TooltipContent>
+              </Tooltip>
+            ))}
+          </div>
+        </TooltipProvider>
+        <p className="text-xs text-muted-foreground">
+          {"Wrap text in {{#name}}...{{/name}} to include it only when a value is present, or {{^name}}...{{/name}} when it's missing."}
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="prompt-system">System Prompt</Label>
+        <Textarea
+          id="prompt-system"
+          value={systemPrompt}
+          onChange={(e) => setSystemPrompt(e.target.value)}
+          className="min-h-[80px] font-mono text-sm"
+          placeholder="Optional instructions sent as the system message"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="prompt-user">User Prompt</Label>
+        <Textarea
+          id="prompt-user"
+          value={userPrompt}
+          onChange={(e) => setUserPrompt(e.target.value)}
+          className="min-h-[300px] font-mono text-sm"
+        />
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button type="button" variant="outline" onClick={() => previewTemplate.mutate()} disabled={previewTemplate.isPending}>
+          {previewTemplate.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Eye className="h-4 w-4 mr-2" />}
+          Preview
+        </Button>
+        <Button type="button" onClick={() => saveTemplate.mutate()} disabled={!isDirty || saveTemplate.isPending}>
+          {saveTemplate.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+          Save as New Version
+        </Button>
+        <Button type="button" variant="outline" onClick={() => setShowHistory(!showHistory)}>
+          <History className="h-4 w-4 mr-2" />
+          {showHistory ? "Hide History" : "Version History"}
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          onClick={() => restoreTemplate.mutate(undefined)}
+          disabled={template.version === 0 || restoreTemplate.isPending}
+        >
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Restore Default
+        </Button>
+      </div>
+
+      {preview && (
+        <div className="space-y-2 rounded-md border p-3 bg-muted/30">
+          <h4 className="text-sm font-medium">Preview with sample values</h4>
+          {preview.problems.length > 0 && (
+            <Alert className="bg-red-50 border-red-200 text-red-800">
+              <AlertTriangle className="h-4 w-4 text-red-600" />
+              <AlertDescription>{preview.problems.join('; ')}</AlertDescription>
+            </Alert>
+          )}
+          {preview.systemPrompt.trim() && (
+            <pre className="whitespace-pre-wrap text-xs border-b pb-2">{preview.systemPrompt}</pre>
+          )}
+          <pre className="whitespace-pre-wrap text-xs">{preview.userPrompt}</pre>
+        </div>
+      )}
+
+      {showHistory && (
+        <div className="space-y-2">
+          {versions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">This prompt hasn't been edited yet.</p>
+          ) : versions.map(version => (
+            <div key={version.id} className="flex items-center justify-between rounded-md border px-3 py-2">
+              <div className="text-sm">
+                <span className="font-medium">Version {version.version}</span>
+                <span className="text-muted-foreground ml-2">
+                  {version.createdAt ? new Date(version.createdAt).toLocaleString() : ''}
+                </span>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => {
+                    setSystemPrompt(version.systemPrompt);
+                    setUserPrompt(version.userPrompt);
+                    setPreview(null);
+                  }}
+                >
+                  Load
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => restoreTemplate.mutate(version.version)}
+                  disabled={version.version === template.version || restoreTemplate.isPending}
+                >
+                  Restore
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,324 @@
+import { useState, useEffect, useMemo } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useUsername } from "@/hooks/use-auth";
+import { useWorkspace } from "@/hooks/use-workspace";
+import {
+  fetchRevisions,
+  fetchRevision,
+  labelRevision,
+  restoreRevision,
+  revisionsQueryKey
+} from "@/lib/api";
+import { diffRevisionSnapshots, type RevisionEntityType } from "@shared/revisions";
+import type { RevisionSummary } from "@shared/schema";
+import LineDiffView from "./LineDiffView";
+import JourneyGraphDiffView from "./JourneyGraphDiffView";
+import FlowStepDiff from "./FlowStepDiff";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, RotateCcw, Tag } from "lucide-react";
+
+interface RevisionHistoryDialogProps<T> {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  entityType: RevisionEntityType;
+  entityId: number;
+  // The record's editable fields as they are on screen, unsaved edits included
+  current: Record<string, unknown>;
+  onRestored: (record: T) => void;
+}
+
+// What the picked version is compared with: what's on screen, or another saved version
+type CompareTarget = 'current' | number;
+
+// The structural view offered next to the field-by-field one
+const VISUAL_DIFF: Partial<Record<RevisionEntityType, 'canvas' | 'steps'>> = {
+  'customer-journey': 'canvas',
+  'agent-journey': 'canvas',
+  'use-case': 'steps',
+};
+
+function VersionLabelEditor({ revision, onDone }: { revision: RevisionSummary; onDone: () => void }) {
+  const { toast } = useToast();
+  const [label, setLabel] = useState(revision.label ?? "");
+
+  const saveLabel = useMutation({
+    mutationFn: () => labelRevision(revision.id, label.trim() || null),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: revisionsQueryKey(revision.entityType, revision.entityId) });
+      onDone();
+    },
+    onError: (error) => {
+      toast({ title: "Failed to name version", description: error.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <form
+      className="flex gap-2 mt-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        saveLabel.mutate();
+      }}
+    >
+      <Input
+        value={label}
+        onChange={(e) => setLabel(e.target.value)}
+        placeholder="e.g. Sent to client"
+        maxLength={100}
+        className="h-8 text-sm"
+        autoFocus
+      />
+      <Button type="submit" size="sm" disabled={saveLabel.isPending}>Save</Button>
+      <Button type="button" size="sm" variant="ghost" onClick={onDone}>Cancel</Button>
+    </form>
+  );
+}
+
+// Browse the saved versions of a record, compare one with what's on screen and restore it
+export default function RevisionHistoryDialog<T>({
+  open,
+  onOpenChange,
+  entityType,
+  entityId,
+  current,
+  onRestored,
+}: RevisionHistoryDialogProps<T>) {
+  const { toast } = useToast();
+  const username = useUsername();
+  const { can } = useWorkspace();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [labellingId, setLabellingId] = useState<number | null>(null);
+  const [compareWith, setCompareWith] = useState<CompareTarget>('current');
+  const visualDiff = VISUAL_DIFF[entityType];
+  const [tab, setTab] = useState<string>(visualDiff ?? 'fields');
+
+  const { data: revisions = [], isLoading } = useQuery({
+    queryKey: revisionsQueryKey(entityType, entityId),
+    queryFn: () => fetchRevisions(entityType, entityId),
+    enabled: open,
+    staleTime: 0,
+  });
+
+  // Start on the newest version whenever the dialog opens or another record is shown
+  useEffect(() => {
+    if (open) {
+      setSelectedId(null);
+      setCompareWith('current');
+      setTab(visualDiff ?? 'fields');
+    }
+  }, [open, entityType, entityId, visualDiff]);
+
+  const selected = revisions.find(revision => revision.id === selectedId) ?? revisions[0];
+
+  const { data: selectedRevision, isLoading: isLoadingRevision } = useQuery({
+    queryKey: ['/api/revisions', selected?.id],
+    queryFn: () => fetchRevision(selected!.id),
+    enabled: open && !!selected,
+  });
+
+  const compareRevisionId = compareWith === 'current' || compareWith === selected?.id ? null : compareWith;
+  const { data: compareRevision, isLoading: isLoadingCompare } = useQuery({
+    queryKey: ['/api/revisions', compareRevisionId],
+    queryFn: () => fetchRevision(compareRevisionId!),
+    enabled: open && compareRevisionId !== null,
+  });
+
+  // Two saved versions always read oldest to newest; a version against the screen reads towards the screen
+  const comparison = useMemo(() => {
+    if (!selectedRevision) return null;
+    if (compareRevisionId === null) {
+      return { before: selectedRevision.snapshot, after: current, key: `${selectedRevision.id}:current` };
+    }
+    if (!compareRevision) return null;
+    const [older, newer] = compareRevision.id < selectedRevision.id
+      ? [compareRevision, selectedRevision]
+      : [selectedRevision, compareRevision];
+    return { before: older.snapshot, after: newer.snapshot, key: `${older.id}:${newer.id}` };
+  }, [selectedRevision, compareRevision, compareRevisionId, current]);
+
+  const changes = useMemo(
+    () => comparison ? diffRevisionSnapshots(entityType, comparison.before, comparison.after) : [],
+    [comparison, entityType]
+  );
+
+  const isSameAsCurrent = useMemo(
+    () => !!selectedRevision && diffRevisionSnapshots(entityType, selectedRevision.snapshot, current).length === 0,
+    [selectedRevision, entityType, current]
+  );
+
+  const restore = useMutation({
+    mutationFn: (revisionId: number) => restoreRevision<T>(revisionId),
+    onSuccess: (record) => {
+      queryClient.invalidateQueries({ queryKey: revisionsQueryKey(entityType, entityId) });
+      onRestored(record);
+      onOpenChange(false);
+      toast({ title: "Version restored", description: "The restore is saved as a new version, so it can be undone from here too." });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to restore version", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const versionTitle = (revision: RevisionSummary) => new Date(revision.createdAt).toLocaleString();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Version History</DialogTitle>
+          <DialogDescription>
+            Every save is kept. Pick a version to compare it with what's on screen or with another version:
+            red is only in the older side, green only in the newer one.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">No versions yet. One is kept every time this is saved.</p>
+        ) : (
+          <div className="flex gap-4 min-h-0 flex-1">
+            <div className="w-72 shrink-0 overflow-y-auto space-y-2 pr-1">
+              {revisions.map((revision, index) => {
+                const author = username(revision.createdBy);
+                const restoredFrom = revision.restoredFromId !== null
+                  ? revisions.find(r => r.id === revision.restoredFromId)
+                  : undefined;
+                return (
+                  <div
+                    key={revision.id}
+                    className={`rounded-md border px-3 py-2 cursor-pointer ${revision.id === selected?.id ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'}`}
+                    onClick={() => setSelectedId(revision.id)}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-medium">{versionTitle(revision)}</span>
+                      {index === 0 && <Badge variant="secondary">Latest</Badge>}
+                    </div>
+                    {author && <div className="text-xs text-muted-foreground">by {author}</div>}
+                    {revision.restoredFromId !== null && (
+                      <div className="text-xs text-muted-foreground">
+                        Restored from {restoredFrom ? versionTitle(restoredFrom) : 'an earlier version'}
+                      </div>
+                    )}
+                    {labellingId === revision.id ? (
+                      <div onClick={(e) => e.stopPropagation()}>
+                        <VersionLabelEditor revision={revision} onDone={() => setLabellingId(null)} />
+                      </div>
+                    ) : revision.label ? (
+                      <div className="flex items-center gap-1 mt-1 text-xs font-medium text-primary">
+                        <Tag className="h-3 w-3" />
+                        {revision.label}
+                      </div>
+                    ) : null}
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="flex-1 min-w-0 overflow-y-auto space-y-4">
+              {selected && (
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 text-sm min-w-0">
+                    <span className="font-medium shrink-0">{versionTitle(selected)}</span>
+                    <span className="text-muted-foreground shrink-0">compared with</span>
+                    <Select
+                      value={compareRevisionId === null ? 'current' : String(compareRevisionId)}
+                      onValueChange={(value) => setCompareWith(value === 'current' ? 'current' : Number(value))}
+                    >
+                      <SelectTrigger className="h-8 w-56">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="current">The current state</SelectItem>
+                        {revisions.filter(revision => revision.id !== selected.id).map(revision => (
+                          <SelectItem key={revision.id} value={String(revision.id)}>
+                            {revision.label ? `${revision.label} (${versionTitle(revision)})` : versionTitle(revision)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {can('editor') && (
+                    <div className="flex gap-2 shrink-0">
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setLabellingId(selected.id)}
+                      >
+                        <Tag className="h-4 w-4 mr-2" />
+                        {selected.label ? 'Rename' : 'Name'}
+                      </Button>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        onClick={() => restore.mutate(selected.id)}
+                        disabled={restore.isPending || isSameAsCurrent}
+                      >
+                        {restore.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RotateCcw className="h-4 w-4 mr-2" />}
+                        Restore
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {isLoadingRevision || isLoadingCompare || !comparison ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                </div>
+              ) : (
+                <Tabs value={tab} onValueChange={setTab}>
+                  {visualDiff && (
+                    <TabsList>
+                      <TabsTrigger value={visualDiff}>{visualDiff === 'canvas' ? 'Canvas' : 'Steps'}</TabsTrigger>
+                      <TabsTrigger value="fields">Fields</TabsTrigger>
+                    </TabsList>
+                  )}
+                  <TabsContent value="canvas">
+                    <JourneyGraphDiffView key={comparison.key} before={comparison.before} after={comparison.after} />
+                  </TabsContent>
+                  <TabsContent value="steps">
+                    <FlowStepDiff before={comparison.before} after={comparison.after} />
+                  </TabsContent>
+                  <TabsContent value="fields" className="space-y-4">
+                    {changes.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">The two versions are the same.</p>
+                    ) : changes.map(change => (
+                      <div key={change.field} className="space-y-1">
+                        <h4 className="text-sm font-medium">{change.label}</h4>
+                        <LineDiffView before={change.before} after={change.after} />
+                      </div>
+                    ))}
+                  </TabsContent>
+                </Tabs>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
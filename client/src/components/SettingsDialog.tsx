@@ -25,6 +25,8 @@ import {
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Setting } from "@shared/schema";
+import type { CredentialStatus } from "@shared/credentials";
+import CredentialStatusNote from "@/components/CredentialStatusNote";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Loader2, CheckCircle2, XCircle } from "lucide-react";
@@ -58,6 +60,12 @@ export default function SettingsDialog({ open, onOpenChange }: SettingsDialogPro
     enabled: open, // Only fetch settings when dialog is open
   });
 
+  const { data: credentials = [] } = useQuery<CredentialStatus[]>({
+    queryKey: ['/api/credentials'],
+    enabled: open,
+  });
+  const hasOpenAIKey = credentials.some(c => c.name === 'openai' && c.source !== null);
+
   // Find matching settings from the array
   const getSettingValue = (key: string): string => {
     const setting = settings.find(s => s.key === key);
@@ -73,7 +81,7 @@ export default function SettingsDialog({ open, onOpenChange }: SettingsDialogPro
       openai_user_prompt: '',
     },
     values: {
-      openai_api_key: getSettingValue('openai_api_key'),
+      openai_api_key: '',  // Write-only; only a new key goes here
       openai_system_prompt: getSettingValue('openai_system_prompt'),
       openai_user_prompt: getSettingValue('openai_user_prompt'),
     }
@@ -105,9 +113,9 @@ export default function SettingsDialog({ open, onOpenChange }: SettingsDialogPro
   
   // Validation mutation
   const validateApiKey = useMutation({
-    mutationFn: async (apiKey: string) => {
+    mutationFn: async (apiKey?: string) => {
       // apiRequest already returns the parsed JSON, so no need to call .json()
-      return apiRequest('POST', '/api/openai/validate', { apiKey });
+      return apiRequest('POST', '/api/openai/validate', apiKey ? { apiKey } : {});
     },
     onSuccess: (data) => {
       if (data.valid) {
@@ -145,7 +153,7 @@ export default function SettingsDialog({ open, onOpenChange }: SettingsDialogPro
   // Handle validation button click
   const handleValidateApiKey = () => {
     const apiKey = form.getValues('openai_api_key');
-    if (!apiKey) {
+    if (!apiKey && !hasOpenAIKey) {
       toast({
         title: "API Key Required",
         description: "Please enter an API key to validate.",
@@ -161,11 +169,13 @@ export default function SettingsDialog({ open, onOpenChange }: SettingsDialogPro
   // Form submit handler
   async function onSubmit(values: FormValues) {
     try {
+      // A new API key is saved encrypted; an empty field leaves the saved key alone
+      if (values.openai_api_key?.trim()) {
+        await apiRequest('PUT', '/api/credentials/openai', { value: values.openai_api_key });
+        queryClient.invalidateQueries({ queryKey: ['/api/credentials'] });
+      }
+      
       // Update each setting one by one
-      await updateSetting.mutateAsync({ 
-        key: 'openai_api_key', 
-        value: values.openai_api_key || '' 
-      });
       await updateSetting.mutateAsync({ 
         key: 'openai_system_prompt', 
         value: values.openai_system_prompt 
@@ -236,16 +246,16 @@ export default function SettingsDialog({ open, onOpenChange }: SettingsDialogPro
                     <div className="flex gap-2">
                       <FormControl>
                         <Input 
-                          placeholder="Enter your OpenAI API key"
+                          placeholder={hasOpenAIKey ? "Enter a new key to replace the current one" : "Enter your OpenAI API key"}
                           {...field} 
-                          type="text"
+                          type="password"
                           className="flex-grow"
                         />
                       </FormControl>
                       <Button
                         type="button"
                         onClick={handleValidateApiKey}
-                        disabled={validateApiKey.isPending || !field.value}
+                        disabled={validateApiKey.isPending || (!field.value && !hasOpenAIKey)}
                         variant="outline"
                         className="shrink-0"
                       >
@@ -280,6 +290,7 @@ export default function SettingsDialog({ open, onOpenChange }: SettingsDialogPro
                     <FormDescription>
                       Your OpenAI API key used for AI-powered features.
                     </FormDescription>
+                    <CredentialStatusNote name="openai" />
                     <FormMessage />
                   </FormItem>
                 )}
@@ -12,7 +12,8 @@ import {
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
-import { MoreVertical, PlusCircle, AlertCircle } from "lucide-react";
+import { MoreVertical, PlusCircle, AlertCircle, FileUp } from "lucide-react";
+import { useUsername } from "@/hooks/use-auth";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -27,6 +28,7 @@ interface SidebarProps {
   activeUseCaseId?: number;
   isLoading: boolean;
   onNewUseCase: () => void;
+  onImportTranscript: () => void;
   onSelectUseCase: (id: number) => void;
   onDeleteUseCase: (id: number) => void;
   isMobile: boolean;
@@ -39,6 +41,7 @@ export default function Sidebar({
   activeUseCaseId,
   isLoading,
   onNewUseCase,
+  onImportTranscript,
   onSelectUseCase,
   onDeleteUseCase,
   isMobile,
@@ -46,6 +49,7 @@ export default function Sidebar({
   onClose
 }: SidebarProps) {
   const [deleteConfirmation, setDeleteConfirmation] = useState<number | null>(null);
+  const username = useUsername();
 
   const handleDeleteClick = (id: number, e: React.MouseEvent) => {
     e.stopPropagation();
@@ -84,6 +88,13 @@ export default function Sidebar({
           >
             <PlusCircle className="mr-2 h-4 w-4" /> New Use Case
           </Button>
+          <Button
+            variant="outline"
+            className="w-full mt-2 flex items-center justify-center"
+            onClick={onImportTranscript}
+          >
+            <FileUp className="mr-2 h-4 w-4" /> Import Transcript
+          </Button>
         </div>
         
         <div className="p-4 pb-0">
@@ -146,6 +157,7 @@ export default function Sidebar({
                   </div>
                   <div className="text-xs text-neutral-dark/60 mt-1">
                     Last edited: {formatDistanceToNow(new Date(useCase.updatedAt), { addSuffix: true })}
+                    {username(useCase.updatedBy) && ` by ${username(useCase.updatedBy)}`}
                   </div>
                 </div>
               ))
@@ -179,7 +191,7 @@ export default function Sidebar({
           <DialogHeader>
             <DialogTitle>Confirm Deletion</DialogTitle>
             <DialogDescription>
-              Are you sure you want to delete this use case? This action cannot be undone.
+              Are you sure you want to delete this use case? It will be moved to the Trash, where it can be restored.
             </DialogDescription>
           </DialogHeader>
           <DialogFooter>
@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { ConversationStep, FlowSlot } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, ChevronDown, ChevronUp, Variable } from "lucide-react";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+
+interface SlotsPanelProps {
+  slots: FlowSlot[];
+  steps: ConversationStep[];
+}
+
+export default function SlotsPanel({ slots, steps }: SlotsPanelProps) {
+  const [isOpen, setIsOpen] = useState(true);
+  const problemCount = slots.filter(slot => slot.usedBeforeCollected).length;
+
+  const describeStep = (stepNumber?: number) => {
+    if (stepNumber === undefined) return null;
+    const step = steps.find(s => s.stepNumber === stepNumber);
+    return step?.name ? `Step ${stepNumber} · ${step.name}` : `Step ${stepNumber}`;
+  };
+
+  return (
+    <Collapsible
+      open={isOpen}
+      onOpenChange={setIsOpen}
+      className="border border-neutral-medium rounded-md"
+    >
+      <CollapsibleTrigger className="w-full">
+        <div className="flex items-center justify-between px-3 py-2">
+          <h4 className="text-sm font-medium flex items-center gap-2">
+            <Variable className="h-4 w-4 text-teal-600" />
+            Slots
+            <Badge variant="outline">{slots.length}</Badge>
+            {problemCount > 0 && (
+              <Badge className="bg-amber-100 text-amber-800 border-0">
+                {problemCount} used before collected
+              </Badge>
+            )}
+          </h4>
+          {isOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+        </div>
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <table className="w-full text-xs border-t border-neutral-medium">
+          <thead className="bg-neutral-light text-neutral-dark/70">
+            <tr>
+              <th className="text-left font-medium px-3 py-1.5">Slot</th>
+              <th className="text-left font-medium px-3 py-1.5">First collected</th>
+              <th className="text-left font-medium px-3 py-1.5">First used</th>
+            </tr>
+          </thead>
+          <tbody>
+            {slots.map(slot => (
+              <tr key={slot.name} className="border-t border-neutral-medium/50">
+                <td className="px-3 py-1.5">
+                  <span className="font-mono text-teal-700">{`{${slot.name}}`}</span>
+                  {slot.example && (
+                    <span className="text-neutral-dark/50 ml-1">e.g. {slot.example}</span>
+                  )}
+                </td>
+                <td className="px-3 py-1.5">
+                  {describeStep(slot.collectedAt) || (
+                    <span className="text-amber-700">Never collected</span>
+                  )}
+                </td>
+                <td className="px-3 py-1.5">
+                  <span className="flex items-center gap-1">
+                    {describeStep(slot.firstUsedAt) || <span className="text-neutral-dark/50">Not used</span>}
+                    {slot.usedBeforeCollected && (
+                      <AlertTriangle className="h-3.5 w-3.5 text-amber-600" />
+                    )}
+                  </span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
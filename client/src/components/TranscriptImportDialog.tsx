@@ -0,0 +1,134 @@
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { FileUp, Loader2 } from "lucide-react";
+
+interface TranscriptImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (data: { title: string; description?: string; content: string; format?: 'csv' | 'jsonl' }) => void;
+  isImporting: boolean;
+}
+
+// Paste or upload a support transcript to start a new use case from it
+export default function TranscriptImportDialog({ isOpen, onClose, onSubmit, isImporting }: TranscriptImportDialogProps) {
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [content, setContent] = useState("");
+  const [format, setFormat] = useState<'csv' | 'jsonl' | undefined>(undefined);
+
+  // Start from a blank form each time, including after a successful import
+  useEffect(() => {
+    if (!isOpen) {
+      setTitle("");
+      setDescription("");
+      setContent("");
+      setFormat(undefined);
+    }
+  }, [isOpen]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setContent(await file.text());
+    const extension = file.name.split('.').pop()?.toLowerCase();
+    setFormat(extension === 'csv' ? 'csv' : extension === 'jsonl' || extension === 'json' ? 'jsonl' : undefined);
+    if (!title.trim()) {
+      setTitle(file.name.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' '));
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({
+      title: title.trim(),
+      description: description.trim() || undefined,
+      content,
+      format
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>Import Transcript</DialogTitle>
+          <DialogDescription>
+            Upload a CSV (with speaker, timestamp and text columns) or JSON lines export.
+            Turns are grouped into steps and saved as a new use case.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid gap-2">
+            <Label htmlFor="transcript-title">Use Case Name</Label>
+            <Input
+              id="transcript-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Enter a name for your use case"
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="transcript-description">Description (Optional)</Label>
+            <Input
+              id="transcript-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Briefly describe this conversation"
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="transcript-file">Transcript File</Label>
+            <Input
+              id="transcript-file"
+              type="file"
+              accept=".csv,.jsonl,.json,.txt"
+              onChange={handleFileChange}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="transcript-content">Or paste the transcript</Label>
+            <Textarea
+              id="transcript-content"
+              value={content}
+              onChange={(e) => {
+                setContent(e.target.value);
+                setFormat(undefined);
+              }}
+              placeholder={'speaker,timestamp,text\nCustomer,2024-05-01T10:00:00Z,"Hi, where is my order?"'}
+              className="h-40 font-mono text-xs"
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              className="bg-primary hover:bg-primary-light text-white"
+              disabled={!title.trim() || !content.trim() || isImporting}
+            >
+              {isImporting ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <FileUp className="mr-2 h-4 w-4" />
+              )}
+              Import
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,240 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useWorkspace, resetForNewWorkspace, WORKSPACES_KEY } from "@/hooks/use-workspace";
+import {
+  addWorkspaceMember,
+  fetchWorkspaceMembers,
+  removeWorkspaceMember,
+  renameWorkspace,
+  updateWorkspaceMemberRole
+} from "@/lib/api";
+import {
+  WORKSPACE_ROLES,
+  WORKSPACE_ROLE_DESCRIPTIONS,
+  WORKSPACE_ROLE_LABELS,
+  type WorkspaceRole
+} from "@shared/workspaces";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2 } from "lucide-react";
+
+const MEMBERS_KEY = ['/api/workspace/members'];
+
+function RoleSelect({ value, onChange, disabled }: { value: WorkspaceRole; onChange: (role: WorkspaceRole) => void; disabled?: boolean }) {
+  return (
+    <Select value={value} onValueChange={(role) => onChange(role as WorkspaceRole)} disabled={disabled}>
+      <SelectTrigger className="w-32">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {WORKSPACE_ROLES.map(role => (
+          <SelectItem key={role} value={role}>{WORKSPACE_ROLE_LABELS[role]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+// The active workspace's name and members; admins rename it, add people and change roles
+export default function WorkspaceMembersPanel() {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const { user } = useAuth();
+  const { activeWorkspace, can } = useWorkspace();
+  const isAdmin = can('admin');
+  const [nameInput, setNameInput] = useState("");
+  const [username, setUsername] = useState("");
+  const [newRole, setNewRole] = useState<WorkspaceRole>('editor');
+
+  const { data: members = [], isLoading } = useQuery({
+    queryKey: MEMBERS_KEY,
+    queryFn: fetchWorkspaceMembers,
+  });
+
+  useEffect(() => {
+    setNameInput(activeWorkspace?.name ?? "");
+  }, [activeWorkspace?.name]);
+
+  const showError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const rename = useMutation({
+    mutationFn: renameWorkspace,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: WORKSPACES_KEY });
+      toast({ title: "Workspace renamed" });
+    },
+    onError: showError("Failed to rename workspace")
+  });
+
+  const addMember = useMutation({
+    mutationFn: () => addWorkspaceMember(username.trim(), newRole),
+    onSuccess: (member) => {
+      queryClient.invalidateQueries({ queryKey: MEMBERS_KEY });
+      setUsername("");
+      toast({ title: "Member added", description: `${member.username} joined as ${WORKSPACE_ROLE_LABELS[member.role]}.` });
+    },
+    onError: showError("Failed to add member")
+  });
+
+  const changeRole = useMutation({
+    mutationFn: ({ userId, role }: { userId: number; role: WorkspaceRole }) => updateWorkspaceMemberRole(userId, role),
+    onSuccess: (member) => {
+      queryClient.invalidateQueries({ queryKey: MEMBERS_KEY });
+      // Demoting yourself changes what you can do here
+      if (member.userId === user?.id) {
+        queryClient.invalidateQueries({ queryKey: WORKSPACES_KEY });
+      }
+    },
+    onError: showError("Failed to change role")
+  });
+
+  const removeMember = useMutation({
+    mutationFn: removeWorkspaceMember,
+    onSuccess: (_, userId) => {
+      if (userId === user?.id) {
+        // Left the workspace; the server moves this session to another one
+        resetForNewWorkspace();
+        setLocation('/');
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: MEMBERS_KEY });
+    },
+    onError: showError("Failed to remove member")
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <label htmlFor="workspace-name-input" className="text-sm font-medium">Workspace Name</label>
+        <div className="flex gap-2">
+          <Input
+            id="workspace-name-input"
+            value={nameInput}
+            onChange={(e) => setNameInput(e.target.value)}
+            disabled={!isAdmin}
+            maxLength={100}
+            className="max-w-sm"
+          />
+          {isAdmin && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => rename.mutate(nameInput.trim())}
+              disabled={!nameInput.trim() || nameInput.trim() === activeWorkspace?.name || rename.isPending}
+            >
+              {rename.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Rename
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium">Members</h4>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Username</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead className="text-right"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {members.map(member => (
+              <TableRow key={member.userId}>
+                <TableCell>
+                  {member.username}
+                  {member.userId === user?.id && <span className="text-muted-foreground"> (you)</span>}
+                </TableCell>
+                <TableCell>
+                  {isAdmin ? (
+                    <RoleSelect
+                      value={member.role}
+                      onChange={(role) => changeRole.mutate({ userId: member.userId, role })}
+                      disabled={changeRole.isPending}
+                    />
+                  ) : (
+                    WORKSPACE_ROLE_LABELS[member.role]
+                  )}
+                </TableCell>
+                <TableCell className="text-right">
+                  {(isAdmin || member.userId === user?.id) && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-600"
+                      onClick={() => removeMember.mutate(member.userId)}
+                      disabled={removeMember.isPending}
+                    >
+                      {member.userId === user?.id ? 'Leave' : 'Remove'}
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {isAdmin && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Add Member</h4>
+          <div className="flex gap-2">
+            <Input
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              placeholder="Username of an existing account"
+              className="max-w-sm"
+            />
+            <RoleSelect value={newRole} onChange={setNewRole} />
+            <Button
+              type="button"
+              onClick={() => addMember.mutate()}
+              disabled={!username.trim() || addMember.isPending}
+            >
+              {addMember.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Add
+            </Button>
+          </div>
+          <ul className="text-xs text-muted-foreground space-y-1">
+            {WORKSPACE_ROLES.map(role => (
+              <li key={role}>
+                <span className="font-medium">{WORKSPACE_ROLE_LABELS[role]}:</span> {WORKSPACE_ROLE_DESCRIPTIONS[role]}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
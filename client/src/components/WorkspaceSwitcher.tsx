@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { Building2, Check, Loader2, Plus } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { WORKSPACE_ROLE_LABELS } from "@shared/workspaces";
+
+// Toolbar menu for switching between the workspaces the user belongs to, or starting a new one
+export default function WorkspaceSwitcher() {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const { workspaces, activeWorkspace, selectMutation, createMutation } = useWorkspace();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [name, setName] = useState("");
+
+  // Whatever was open belongs to the old workspace
+  const goHome = () => setLocation('/');
+
+  const handleSelect = (id: number) => {
+    if (id === activeWorkspace?.id) return;
+    selectMutation.mutate(id, {
+      onSuccess: goHome,
+      onError: (error) => toast({ title: "Couldn't switch workspace", description: error.message, variant: "destructive" }),
+    });
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate(name.trim(), {
+      onSuccess: () => {
+        setIsCreateOpen(false);
+        setName("");
+        goHome();
+      },
+      onError: (error) => toast({ title: "Couldn't create workspace", description: error.message, variant: "destructive" }),
+    });
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button
+            type="button"
+            title={activeWorkspace ? `Workspace: ${activeWorkspace.name}` : "Workspace"}
+            className="flex flex-col items-center px-2 py-2 hover:text-primary rounded-md transition-colors text-muted-foreground"
+          >
+            <Building2 className="h-6 w-6" />
+            <span className="text-xs mt-1 max-w-[6rem] truncate">{activeWorkspace?.name ?? 'Workspace'}</span>
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" side="top" className="w-64">
+          <DropdownMenuLabel>Workspaces</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {workspaces.map(workspace => (
+            <DropdownMenuItem key={workspace.id} onClick={() => handleSelect(workspace.id)}>
+              <Check className={`h-4 w-4 mr-2 ${workspace.id === activeWorkspace?.id ? 'opacity-100' : 'opacity-0'}`} />
+              <span className="flex-1 truncate">{workspace.name}</span>
+              <span className="text-xs text-muted-foreground ml-2">{WORKSPACE_ROLE_LABELS[workspace.role]}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setIsCreateOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Workspace
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent className="sm:max-w-[420px]">
+          <form onSubmit={handleCreate}>
+            <DialogHeader>
+              <DialogTitle>New Workspace</DialogTitle>
+              <DialogDescription>
+                A separate space for another team or client. Only the people you add can see what's in it.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="grid gap-2 py-4">
+              <Label htmlFor="workspace-name">Name</Label>
+              <Input
+                id="workspace-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+                required
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="ghost" onClick={() => setIsCreateOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!name.trim() || createMutation.isPending}>
+                {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Create
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
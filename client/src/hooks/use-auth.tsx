@@ -0,0 +1,76 @@
+import { createContext, useCallback, useContext, type ReactNode } from "react";
+import { useMutation, useQuery, type UseMutationResult } from "@tanstack/react-query";
+import type { PublicUser } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { fetchCurrentUser, fetchWorkspaceMembers, login, logout, register, type UserCredentials } from "@/lib/api";
+
+export const CURRENT_USER_KEY = ['/api/auth/me'];
+
+interface AuthContextType {
+  user: PublicUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<PublicUser, Error, UserCredentials>;
+  registerMutation: UseMutationResult<PublicUser, Error, UserCredentials>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+}
+
+const AuthContext = createContext<AuthContextType | null>(null);
+
+// Anything cached belongs to whoever was signed in before, so it's dropped on every change of user
+function setCurrentUser(user: PublicUser | null) {
+  queryClient.clear();
+  queryClient.setQueryData(CURRENT_USER_KEY, user);
+}
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { data: user, isLoading } = useQuery({
+    queryKey: CURRENT_USER_KEY,
+    queryFn: fetchCurrentUser,
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: login,
+    onSuccess: setCurrentUser,
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: register,
+    onSuccess: setCurrentUser,
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: logout,
+    onSuccess: () => setCurrentUser(null),
+  });
+
+  return (
+    <AuthContext.Provider value={{ user: user ?? null, isLoading, loginMutation, registerMutation, logoutMutation }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth(): AuthContextType {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
+
+/**
+ * Look up usernames for created-by/modified-by labels among the workspace's
+ * members. Returns undefined for records saved before sign-in existed, and for
+ * people who have since left the workspace.
+ */
+export function useUsername(): (userId: number | null | undefined) => string | undefined {
+  const { data: members = [] } = useQuery({
+    queryKey: ['/api/workspace/members'],
+    queryFn: fetchWorkspaceMembers,
+  });
+
+  return useCallback(
+    (userId) => userId == null ? undefined : members.find(member => member.userId === userId)?.username,
+    [members]
+  );
+}
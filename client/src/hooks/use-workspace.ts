@@ -0,0 +1,53 @@
+import { useCallback } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { WorkspaceMembership } from "@shared/schema";
+import { DEFAULT_WORKSPACE_ID, hasWorkspaceRole, type WorkspaceRole } from "@shared/workspaces";
+import { queryClient } from "@/lib/queryClient";
+import { createWorkspace, fetchWorkspaces, selectWorkspace } from "@/lib/api";
+import { CURRENT_USER_KEY } from "@/hooks/use-auth";
+
+export const WORKSPACES_KEY = ['/api/workspaces'];
+
+// Everything cached belongs to the workspace being left; only the signed-in user carries over
+export function resetForNewWorkspace() {
+  const user = queryClient.getQueryData(CURRENT_USER_KEY);
+  queryClient.clear();
+  queryClient.setQueryData(CURRENT_USER_KEY, user);
+}
+
+export function useWorkspace() {
+  const { data, isLoading } = useQuery({
+    queryKey: WORKSPACES_KEY,
+    queryFn: fetchWorkspaces,
+  });
+
+  const workspaces: WorkspaceMembership[] = data?.workspaces ?? [];
+  const activeWorkspace = workspaces.find(workspace => workspace.id === data?.activeWorkspaceId);
+
+  const selectMutation = useMutation({
+    mutationFn: selectWorkspace,
+    onSuccess: resetForNewWorkspace,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: createWorkspace,
+    onSuccess: resetForNewWorkspace,
+  });
+
+  // The server enforces roles; this only decides what to show
+  const can = useCallback(
+    (minimum: WorkspaceRole) => hasWorkspaceRole(activeWorkspace?.role, minimum),
+    [activeWorkspace?.role]
+  );
+
+  return {
+    workspaces,
+    activeWorkspace,
+    isLoading,
+    can,
+    // API keys and prompt templates are shared by the whole server
+    canManageServer: activeWorkspace?.id === DEFAULT_WORKSPACE_ID && activeWorkspace.role === 'admin',
+    selectMutation,
+    createMutation,
+  };
+}
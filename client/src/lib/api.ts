@@ -1,5 +1,9 @@
 // API service for making requests to the backend
-import { queryClient } from './queryClient';
+import { queryClient, streamRequest, type StreamHandlers } from './queryClient';
+import type { JourneyStepSentiment, PublicUser, WorkspaceMembership, WorkspaceMemberView, Revision, RevisionSummary } from '@shared/schema';
+import type { WorkspaceRole } from '@shared/workspaces';
+import type { RevisionEntityType } from '@shared/revisions';
+import type { TrashEntityType, TrashItem } from '@shared/trash';
 
 export interface APIResponse<T> {
   data?: T;
@@ -43,8 +47,8 @@ export async function apiRequest<T = any>(
       return { error: errorText };
     }
 
-    // For DELETE requests, we might not have any data to return
-    if (method === 'DELETE' && response.status === 204) {
+    // DELETE requests and some actions have no data to return
+    if (response.status === 204) {
       return {};
     }
 
@@ -65,6 +69,9 @@ export interface CustomerJourney {
   summary?: string;
   nodes: any[];
   edges: any[];
+  sentiment?: JourneyStepSentiment[] | null;
+  createdBy?: number | null;  // User ids; null for records saved before sign-in existed
+  updatedBy?: number | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -127,34 +134,54 @@ export async function deleteCustomerJourney(id: number): Promise<void> {
   queryClient.invalidateQueries({ queryKey: ['/api/customer-journeys'] });
 }
 
-export async function deleteAllCustomerJourneys(): Promise<void> {
-  // Fetch all journeys first
+// Only journeys the user created; everyone else's are theirs to delete
+export async function deleteCustomerJourneysCreatedBy(userId: number): Promise<void> {
   const journeys = await fetchAllCustomerJourneys();
   
   // Delete each journey
-  for (const journey of journeys) {
+  for (const journey of journeys.filter(journey => journey.createdBy === userId)) {
     await deleteCustomerJourney(journey.id);
   }
   
   queryClient.invalidateQueries({ queryKey: ['/api/customer-journeys'] });
 }
 
-// Generate a summary for a customer journey using AI
-export async function generateJourneySummary(journeyId: number): Promise<CustomerJourney> {
-  const response = await apiRequest<{ success: boolean; journey: CustomerJourney }>(
+// Generate a summary for a customer journey using AI, streaming the text as it's written
+export async function generateJourneySummary(
+  journeyId: number,
+  handlers: StreamHandlers = {},
+  signal?: AbortSignal
+): Promise<CustomerJourney> {
+  const response: { success: boolean; journey?: CustomerJourney; error?: string } = await streamRequest(
+    'POST',
     `/api/customer-journeys/${journeyId}/generate-summary`,
-    'POST'
+    {},
+    handlers,
+    signal
   );
   
-  if (response.error) {
-    throw new Error(response.error);
+  if (!response.success || !response.journey) {
+    throw new Error(response.error || 'Failed to generate journey summary');
   }
   
-  if (!response.data || !response.data.success) {
-    throw new Error('Failed to generate journey summary');
+  // Invalidate queries to refresh data
+  queryClient.invalidateQueries({ queryKey: ['/api/customer-journeys'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/customer-journeys', journeyId] });
+  
+  return response.journey;
+}
+
+// Score the sentiment of each step of a saved journey; the scores are stored with it
+export async function analyzeJourneySentiment(journeyId: number): Promise<CustomerJourney> {
+  const response = await apiRequest<{ success: boolean; journey?: CustomerJourney; error?: string }>(
+    `/api/customer-journeys/${journeyId}/sentiment`,
+    'POST'
+  );
+  
+  if (response.error || !response.data?.journey) {
+    throw new Error(response.error || response.data?.error || 'Failed to analyze journey sentiment');
   }
   
-  // Invalidate queries to refresh data
   queryClient.invalidateQueries({ queryKey: ['/api/customer-journeys'] });
   queryClient.invalidateQueries({ queryKey: ['/api/customer-journeys', journeyId] });
   
@@ -185,12 +212,13 @@ export async function generateAIJourney(description: string): Promise<GeneratedJ
   return response.data.journey;
 }
 
-// Generate a customer journey from a use case using AI
-export async function generateJourneyFromUseCase(useCaseId: number): Promise<GeneratedJourney> {
+// Generate a customer journey from a use case using AI; a repeat request is served
+// from the server's response cache unless forceRegenerate is set
+export async function generateJourneyFromUseCase(useCaseId: number, forceRegenerate = false): Promise<GeneratedJourney> {
   const response = await apiRequest<{ success: boolean; journey: GeneratedJourney }>(
     '/api/generate-journey-from-use-case',
     'POST',
-    { useCaseId }
+    { useCaseId, forceRegenerate }
   );
   
   if (response.error) {
@@ -212,6 +240,8 @@ export interface Customer {
   primaryContactName: string;
   primaryContactEmail: string | null;
   primaryContactPhone: string | null;
+  createdBy?: number | null;
+  updatedBy?: number | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -254,6 +284,8 @@ export interface ActionPlan {
   teamComfort: string | null;
   apisAvailable: string | null;
   successMetrics: string[];
+  createdBy?: number | null;
+  updatedBy?: number | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -383,6 +415,8 @@ export interface UseCase {
   
   conversationFlow: string;
   nodePositions: string | null;
+  createdBy?: number | null;
+  updatedBy?: number | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -456,10 +490,11 @@ export interface UseCaseDetailsSuggestions {
   estimatedImpact: string;
 }
 
-export async function generateUseCaseDetails(id: number): Promise<UseCaseDetailsSuggestions> {
+export async function generateUseCaseDetails(id: number, forceRegenerate = false): Promise<UseCaseDetailsSuggestions> {
   const response = await apiRequest<{ success: boolean; suggestions: UseCaseDetailsSuggestions }>(
     `/api/use-cases/${id}/generate-details`,
-    'POST'
+    'POST',
+    { forceRegenerate }
   );
   
   if (response.error) {
@@ -473,6 +508,36 @@ export async function generateUseCaseDetails(id: number): Promise<UseCaseDetails
   return response.data.suggestions;
 }
 
+export interface DocumentUpload {
+  filename?: string;
+  format?: 'text' | 'markdown' | 'docx' | 'pdf';
+  content: string;  // Base64 for DOCX and PDF
+}
+
+export interface DocumentExtraction {
+  fields: Partial<UseCaseDetailsSuggestions>;  // Only the fields the document covers
+  summarized: boolean;  // The document was long and was summarized before extraction
+}
+
+// Propose use case fields from a customer document; nothing is saved
+export async function extractUseCaseFieldsFromDocument(id: number, document: DocumentUpload, forceRegenerate = false): Promise<DocumentExtraction> {
+  const response = await apiRequest<{ success: boolean } & DocumentExtraction>(
+    `/api/use-cases/${id}/extract-from-document`,
+    'POST',
+    { ...document, forceRegenerate }
+  );
+  
+  if (response.error) {
+    throw new Error(response.error);
+  }
+  
+  if (!response.data || !response.data.success || !response.data.fields) {
+    throw new Error('Failed to extract use case fields from the document');
+  }
+  
+  return { fields: response.data.fields, summarized: !!response.data.summarized };
+}
+
 // App Statistics API
 export interface AppStatistics {
   useCaseCount: number;
@@ -520,19 +585,216 @@ export interface AIActionPlanSuggestions {
   suggestions: string;
 }
 
-export async function generateActionPlanSuggestions(planId: number): Promise<string> {
-  const response = await apiRequest<AIActionPlanSuggestions>(
+// Streams the suggestions to the handlers as they're written
+export async function generateActionPlanSuggestions(
+  planId: number,
+  handlers: StreamHandlers = {},
+  signal?: AbortSignal
+): Promise<string> {
+  const response: AIActionPlanSuggestions & { error?: string } = await streamRequest(
+    'POST',
     `/api/action-plans/${planId}/suggestions`,
-    'POST'
+    {},
+    handlers,
+    signal
   );
   
+  if (!response.success) {
+    throw new Error(response.error || 'Failed to generate suggestions');
+  }
+  
+  return response.suggestions;
+}
+
+// Auth API
+export interface UserCredentials {
+  username: string;
+  password: string;
+}
+
+// Null when nobody is signed in
+export async function fetchCurrentUser(): Promise<PublicUser | null> {
+  const response = await fetch('/api/auth/me', { credentials: 'include' });
+  if (response.status === 401) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Request failed with status ${response.status}`);
+  }
+  return response.json();
+}
+
+export async function login(credentials: UserCredentials): Promise<PublicUser> {
+  const response = await apiRequest<PublicUser>('/api/auth/login', 'POST', credentials);
+  if (response.error || !response.data) {
+    throw new Error(response.error || 'Sign-in failed');
+  }
+  return response.data;
+}
+
+export async function register(credentials: UserCredentials): Promise<PublicUser> {
+  const response = await apiRequest<PublicUser>('/api/auth/register', 'POST', credentials);
+  if (response.error || !response.data) {
+    throw new Error(response.error || 'Could not create the account');
+  }
+  return response.data;
+}
+
+export async function logout(): Promise<void> {
+  const response = await fetch('/api/auth/logout', { method: 'POST', credentials: 'include' });
+  if (!response.ok) {
+    throw new Error(`Sign-out failed with status ${response.status}`);
+  }
+}
+
+// Workspace API
+export interface WorkspaceList {
+  workspaces: WorkspaceMembership[];
+  activeWorkspaceId: number;
+}
+
+export async function fetchWorkspaces(): Promise<WorkspaceList> {
+  const response = await apiRequest<WorkspaceList>('/api/workspaces');
+  if (response.error || !response.data) {
+    throw new Error(response.error || 'Failed to load workspaces');
+  }
+  return response.data;
+}
+
+export async function createWorkspace(name: string): Promise<WorkspaceMembership> {
+  const response = await apiRequest<WorkspaceMembership>('/api/workspaces', 'POST', { name });
+  if (response.error || !response.data) {
+    throw new Error(response.error || 'Failed to create workspace');
+  }
+  return response.data;
+}
+
+export async function selectWorkspace(id: number): Promise<WorkspaceMembership> {
+  const response = await apiRequest<WorkspaceMembership>(`/api/workspaces/${id}/select`, 'POST');
+  if (response.error || !response.data) {
+    throw new Error(response.error || 'Failed to switch workspace');
+  }
+  return response.data;
+}
+
+export async function renameWorkspace(name: string): Promise<void> {
+  const response = await apiRequest('/api/workspace', 'PUT', { name });
   if (response.error) {
     throw new Error(response.error);
   }
-  
-  if (!response.data || !response.data.success) {
-    throw new Error('Failed to generate suggestions');
+}
+
+// Members of the active workspace
+export async function fetchWorkspaceMembers(): Promise<WorkspaceMemberView[]> {
+  const response = await apiRequest<WorkspaceMemberView[]>('/api/workspace/members');
+  if (response.error) {
+    throw new Error(response.error);
   }
-  
-  return response.data.suggestions;
-}
\ No newline at end of file
+  return response.data || [];
+}
+
+export async function addWorkspaceMember(username: string, role: WorkspaceRole): Promise<WorkspaceMemberView> {
+  const response = await apiRequest<WorkspaceMemberView>('/api/workspace/members', 'POST', { username, role });
+  if (response.error || !response.data) {
+    throw new Error(response.error || 'Failed to add member');
+  }
+  return response.data;
+}
+
+export async function updateWorkspaceMemberRole(userId: number, role: WorkspaceRole): Promise<WorkspaceMemberView> {
+  const response = await apiRequest<WorkspaceMemberView>(`/api/workspace/members/${userId}`, 'PUT', { role });
+  if (response.error || !response.data) {
+    throw new Error(response.error || 'Failed to change role');
+  }
+  return response.data;
+}
+
+export async function removeWorkspaceMember(userId: number): Promise<void> {
+  const response = await apiRequest(`/api/workspace/members/${userId}`, 'DELETE');
+  if (response.error) {
+    throw new Error(response.error);
+  }
+}
+
+// Revision history API
+export function revisionsQueryKey(entityType: RevisionEntityType, entityId: number) {
+  return ['/api/revisions', entityType, entityId];
+}
+
+export async function fetchRevisions(entityType: RevisionEntityType, entityId: number): Promise<RevisionSummary[]> {
+  const response = await apiRequest<RevisionSummary[]>(`/api/revisions?entityType=${entityType}&entityId=${entityId}`);
+  if (response.error) {
+    throw new Error(response.error);
+  }
+  return response.data || [];
+}
+
+export async function fetchRevision(id: number): Promise<Revision> {
+  const response = await apiRequest<Revision>(`/api/revisions/${id}`);
+  if (response.error || !response.data) {
+    throw new Error(response.error || 'Failed to load version');
+  }
+  return response.data;
+}
+
+export async function labelRevision(id: number, label: string | null): Promise<RevisionSummary> {
+  const response = await apiRequest<RevisionSummary>(`/api/revisions/${id}`, 'PATCH', { label });
+  if (response.error || !response.data) {
+    throw new Error(response.error || 'Failed to name version');
+  }
+  return response.data;
+}
+
+// Resolves to the record as restored
+export async function restoreRevision<T>(id: number): Promise<T> {
+  const response = await apiRequest<T>(`/api/revisions/${id}/restore`, 'POST');
+  if (response.error || !response.data) {
+    throw new Error(response.error || 'Failed to restore version');
+  }
+  return response.data;
+}
+
+// Trash API
+export interface TrashContents {
+  items: (Omit<TrashItem, 'deletedAt'> & { deletedAt: string })[];
+  retentionDays: number;  // 0 when items are kept until purged by hand
+}
+
+export async function fetchTrash(): Promise<TrashContents> {
+  const response = await apiRequest<TrashContents>('/api/trash');
+  if (response.error || !response.data) {
+    throw new Error(response.error || 'Failed to load the trash');
+  }
+  return response.data;
+}
+
+export async function restoreTrashItem(entityType: TrashEntityType, id: number): Promise<void> {
+  const response = await apiRequest(`/api/trash/${entityType}/${id}/restore`, 'POST');
+  if (response.error) {
+    throw new Error(response.error);
+  }
+}
+
+export async function purgeTrashItem(entityType: TrashEntityType, id: number): Promise<void> {
+  const response = await apiRequest(`/api/trash/${entityType}/${id}`, 'DELETE');
+  if (response.error) {
+    throw new Error(response.error);
+  }
+}
+
+// Resolves to how many items were purged
+export async function emptyTrash(): Promise<number> {
+  const response = await apiRequest<{ purged: number }>('/api/trash', 'DELETE');
+  if (response.error || !response.data) {
+    throw new Error(response.error || 'Failed to empty the trash');
+  }
+  return response.data.purged;
+}
+
+export async function setTrashRetention(retentionDays: number): Promise<number> {
+  const response = await apiRequest<{ retentionDays: number }>('/api/trash/retention', 'PUT', { retentionDays });
+  if (response.error || !response.data) {
+    throw new Error(response.error || 'Failed to save the retention period');
+  }
+  return response.data.retentionDays;
+}
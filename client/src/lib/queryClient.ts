@@ -3,7 +3,15 @@ import { QueryClient, QueryFunction } from "@tanstack/react-query";
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    // Prefer the message from a JSON error body over the raw body
+    let message = text;
+    try {
+      const body = JSON.parse(text);
+      if (typeof body?.error === 'string') message = body.error;
+    } catch {
+      // Not JSON
+    }
+    throw new Error(`${res.status}: ${message}`);
   }
 }
 
@@ -30,6 +38,76 @@ export async function apiRequest(
   return res.json();
 }
 
+export interface StreamHandlers {
+  onToken?: (text: string) => void;
+  onEvent?: (event: string, data: any) => void;
+}
+
+/**
+ * Call an AI generation route as a server-sent event stream. Resolves with
+ * the payload of the final "done" event; rejects on an "error" event, and
+ * with an AbortError when the signal cancels the request.
+ */
+export async function streamRequest(
+  method: string,
+  url: string,
+  data: unknown,
+  handlers: StreamHandlers,
+  signal?: AbortSignal,
+): Promise<any> {
+  const res = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json", "Accept": "text/event-stream" },
+    body: JSON.stringify(data),
+    credentials: "include",
+    signal,
+  });
+
+  await throwIfResNotOk(res);
+
+  // Validation errors come back as plain JSON before any streaming starts
+  if (!res.headers.get('content-type')?.includes('text/event-stream') || !res.body) {
+    return res.json();
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = 'message';
+      const dataLines: string[] = [];
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart());
+      }
+      if (dataLines.length === 0) continue;  // Heartbeat comment
+
+      const payload = JSON.parse(dataLines.join('\n'));
+      if (event === 'token') {
+        handlers.onToken?.(payload.text);
+      } else if (event === 'done') {
+        return payload;
+      } else if (event === 'error') {
+        throw new Error(payload.error || 'Generation failed');
+      } else {
+        handlers.onEvent?.(event, payload);
+      }
+    }
+  }
+
+  throw new Error('The connection closed before generation finished');
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
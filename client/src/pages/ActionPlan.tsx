@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
@@ -7,7 +7,7 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Progress } from "@/components/ui/progress";
-import { ChevronRight, FileText, ClipboardList, BarChart3, CalendarClock, Save, Plus, FolderOpen, Edit, List, Lightbulb, FileDown, Import } from 'lucide-react';
+import { ChevronRight, FileText, ClipboardList, BarChart3, CalendarClock, Save, Plus, FolderOpen, Edit, List, Lightbulb, FileDown, Import, History } from 'lucide-react';
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { useROIParameters, calculateTimeSaved, calculateCostSavings, calculateImplementationCost, 
          calculateMaintenanceCost, calculateCSATImprovement, calculatePaybackPeriod, 
@@ -17,9 +17,11 @@ import { fetchAllCustomers, fetchAllActionPlans, createActionPlan, updateActionP
          generateActionPlanSuggestions, fetchAllUseCases, generateActionPlanFromUseCase,
          ActionPlan as ActionPlanType, Customer, UseCase } from '../lib/api';
 import { useToast } from '@/hooks/use-toast';
+import { queryClient } from '@/lib/queryClient';
 import ActionPlanSelectionDialog from '@/components/ActionPlanSelectionDialog';
 import AISuggestionsDialog from '@/components/AISuggestionsDialog';
 import UseCaseImportDialog from '@/components/UseCaseImportDialog';
+import RevisionHistoryDialog from '@/components/RevisionHistoryDialog';
 import { exportActionPlanToWord } from '../lib/wordGenerator';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 import { Checkbox } from "@/components/ui/checkbox";
@@ -38,10 +40,13 @@ export default function ActionPlan() {
   const [isSaving, setIsSaving] = useState(false);
   const [currentPlanId, setCurrentPlanId] = useState<number | null>(null);
   const [isLoadDialogOpen, setIsLoadDialogOpen] = useState(false);
+  const [isHistoryDialogOpen, setIsHistoryDialogOpen] = useState(false);
   const [isSuggestionsDialogOpen, setIsSuggestionsDialogOpen] = useState(false);
   const [isUseCaseImportDialogOpen, setIsUseCaseImportDialogOpen] = useState(false);
   const [aiSuggestions, setAiSuggestions] = useState<string | null>(null);
   const [isGeneratingSuggestions, setIsGeneratingSuggestions] = useState(false);
+  const [streamedSuggestions, setStreamedSuggestions] = useState("");
+  const suggestionsAbortRef = useRef<AbortController | null>(null);
   const [isGeneratingFromUseCase, setIsGeneratingFromUseCase] = useState(false);
   const { toast } = useToast();
   
@@ -193,8 +198,8 @@ export default function ActionPlan() {
     }
   };
   
-  // Function to load selected action plan data into the form
-  const handleLoadActionPlan = (actionPlan: ActionPlanType) => {
+  // Put a saved action plan's data into the form
+  const applyActionPlan = (actionPlan: ActionPlanType) => {
     setPlanTitle(actionPlan.title);
     setSelectedCustomerId(actionPlan.customerId);
     setCurrentPlanId(actionPlan.id);
@@ -219,6 +224,11 @@ export default function ActionPlan() {
     
     // Update progress
     setProgress(calculateProgress());
+  };
+  
+  // Function to load selected action plan data into the form
+  const handleLoadActionPlan = (actionPlan: ActionPlanType) => {
+    applyActionPlan(actionPlan);
     
     toast({
       title: "Action plan loaded",
@@ -264,6 +274,33 @@ export default function ActionPlan() {
     });
   };
   
+  // The plan as it would be saved from the form
+  const buildActionPlanData = () => ({
+    title: planTitle.trim(),
+    status: "draft",
+    customerId: selectedCustomerId,
+    industry: formData.industry,
+    primaryChannel: formData.primaryChannel,
+    interactionVolume: formData.interactionVolume,
+    currentAutomation: formData.currentAutomation,
+    biggestChallenge: formData.biggestChallenge,
+    repetitiveProcesses: formData.repetitiveProcesses,
+    aiGoals: [...formData.aiGoals, ...(formData.customGoalEnabled && formData.customGoal ? [formData.customGoal] : [])],
+    goalDetails: formData.goalDetails, // Added goalDetails to save goal-specific information
+    autonomyLevel: formData.autonomyLevel,
+    currentPlatforms: formData.currentPlatforms,
+    teamComfort: formData.teamComfort,
+    apisAvailable: formData.apisAvailable,
+    successMetrics: formData.successMetrics
+  });
+  
+  const currentPlanFields = useMemo(buildActionPlanData, [planTitle, selectedCustomerId, formData]);
+  
+  const handleActionPlanRestored = (actionPlan: ActionPlanType) => {
+    applyActionPlan(actionPlan);
+    queryClient.invalidateQueries({ queryKey: ['/api/action-plans'] });
+  };
+  
   // Handle saving the action plan
   const handleSaveActionPlan = () => {
     if (!planTitle.trim()) {
@@ -277,24 +314,7 @@ export default function ActionPlan() {
     
     setIsSaving(true);
     
-    const actionPlanData = {
-      title: planTitle.trim(),
-      status: "draft",
-      customerId: selectedCustomerId,
-      industry: formData.industry,
-      primaryChannel: formData.primaryChannel,
-      interactionVolume: formData.interactionVolume,
-      currentAutomation: formData.currentAutomation,
-      biggestChallenge: formData.biggestChallenge,
-      repetitiveProcesses: formData.repetitiveProcesses,
-      aiGoals: [...formData.aiGoals, ...(formData.customGoalEnabled && formData.customGoal ? [formData.customGoal] : [])],
-      goalDetails: formData.goalDetails, // Added goalDetails to save goal-specific information
-      autonomyLevel: formData.autonomyLevel,
-      currentPlatforms: formData.currentPlatforms,
-      teamComfort: formData.teamComfort,
-      apisAvailable: formData.apisAvailable,
-      successMetrics: formData.successMetrics
-    };
+    const actionPlanData = buildActionPlanData();
     
     if (currentPlanId) {
       // Update existing action plan
@@ -345,21 +365,37 @@ export default function ActionPlan() {
     
     setIsGeneratingSuggestions(true);
     setAiSuggestions(null);
+    setStreamedSuggestions("");
+    const controller = new AbortController();
+    suggestionsAbortRef.current = controller;
     
     try {
-      const suggestions = await generateActionPlanSuggestions(currentPlanId);
+      const suggestions = await generateActionPlanSuggestions(
+        currentPlanId,
+        { onToken: (text) => setStreamedSuggestions(prev => prev + text) },
+        controller.signal
+      );
       setAiSuggestions(suggestions);
     } catch (error: any) {
+      // Cancelled by the user
+      if (controller.signal.aborted) {
+        return;
+      }
       toast({
         title: "Error generating suggestions",
         description: error.message || "An error occurred while generating AI suggestions.",
         variant: "destructive",
       });
     } finally {
+      suggestionsAbortRef.current = null;
       setIsGeneratingSuggestions(false);
     }
   };
   
+  const handleCancelSuggestions = () => {
+    suggestionsAbortRef.current?.abort();
+  };
+  
   // Apply AI suggestions to the current action plan
   const handleApplySuggestions = (suggestions: string) => {
     // Here we would typically extract data from the suggestions
@@ -557,6 +593,15 @@ export default function ActionPlan() {
             <FolderOpen className="h-4 w-4 mr-2" />
             Load
           </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setIsHistoryDialogOpen(true)}
+            disabled={!currentPlanId}
+          >
+            <History className="h-4 w-4 mr-2" />
+            History
+          </Button>
           <Button
             onClick={handleSaveActionPlan}
             disabled={isSaving}
@@ -595,6 +640,18 @@ export default function ActionPlan() {
         onSelect={handleLoadActionPlan}
       />
       
+      {/* Version History Dialog */}
+      {currentPlanId !== null && (
+        <RevisionHistoryDialog<ActionPlanType>
+          open={isHistoryDialogOpen}
+          onOpenChange={setIsHistoryDialogOpen}
+          entityType="action-plan"
+          entityId={currentPlanId}
+          current={currentPlanFields}
+          onRestored={handleActionPlanRestored}
+        />
+      )}
+      
       {/* Use Case Import Dialog */}
       <UseCaseImportDialog
         open={isUseCaseImportDialogOpen}
@@ -1601,7 +1658,9 @@ export default function ActionPlan() {
                   actionPlan={currentPlanId ? actionPlans?.find(plan => plan.id === currentPlanId) || null : null}
                   isLoading={isGeneratingSuggestions}
                   suggestions={aiSuggestions}
+                  streamedSuggestions={streamedSuggestions}
                   onGenerateSuggestions={handleGenerateSuggestions}
+                  onCancelGeneration={handleCancelSuggestions}
                   onApplySuggestions={handleApplySuggestions}
                 />
               </>
@@ -53,6 +53,7 @@ import {
   Play,
   Square,
   RotateCcw,
+  History,
   Wand2 as MagicWand
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
@@ -84,6 +85,7 @@ import useEditingState from '@/hooks/useEditingState';
 import { AgentJourney, InsertAgentJourney } from '@shared/schema';
 import { apiRequest } from "@/lib/queryClient";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import RevisionHistoryDialog from '../components/RevisionHistoryDialog';
 import { Switch } from "@/components/ui/switch";
 
 // Custom node components
@@ -313,6 +315,7 @@ const AgentJourneyPage: React.FC = () => {
   const [nodeMenuOpen, setNodeMenuOpen] = useState(true);
   const [isExporting, setIsExporting] = useState(false);
   const [showGuide, setShowGuide] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
   
   // Node editor state
   const [nodeEditorOpen, setNodeEditorOpen] = useState(false);
@@ -509,6 +512,16 @@ const AgentJourneyPage: React.FC = () => {
     });
   }, [nodes, edges, setFormState]);
 
+  // What the history dialog compares each saved version against
+  const currentJourneyFields = useMemo(() => ({ ...formState, nodes, edges }), [formState, nodes, edges]);
+
+  // The load effect above puts the restored version on the canvas and in the form
+  const handleJourneyRestored = useCallback((journey: AgentJourney) => {
+    queryClient.setQueryData(['/api/agent-journeys', journeyId], journey);
+    queryClient.invalidateQueries({ queryKey: ['/api/agent-journeys'], exact: true });
+    cancelEditing();
+  }, [queryClient, journeyId, cancelEditing]);
+
   // Save mutations
   const createMutation = useMutation({
     mutationFn: (journey: InsertAgentJourney) => {
@@ -1248,6 +1261,27 @@ const AgentJourneyPage: React.FC = () => {
                     Export
                   </Button>
                   
+                  {journeyId !== null && (
+                    <>
+                      <Button
+                        onClick={() => setHistoryOpen(true)}
+                        variant="outline"
+                        size="sm"
+                      >
+                        <History size={16} className="mr-1" />
+                        History
+                      </Button>
+                      <RevisionHistoryDialog<AgentJourney>
+                        open={historyOpen}
+                        onOpenChange={setHistoryOpen}
+                        entityType="agent-journey"
+                        entityId={journeyId}
+                        current={currentJourneyFields}
+                        onRestored={handleJourneyRestored}
+                      />
+                    </>
+                  )}
+                  
                   {isEditMode && (
                     <Dialog>
                       <DialogTrigger asChild>
@@ -1260,7 +1294,7 @@ const AgentJourneyPage: React.FC = () => {
                         <DialogHeader>
                           <DialogTitle>Confirm Deletion</DialogTitle>
                           <DialogDescription>
-                            Are you sure you want to delete this agent journey? This action cannot be undone.
+                            Are you sure you want to delete this agent journey? It will be moved to the Trash, where it can be restored.
                           </DialogDescription>
                         </DialogHeader>
                         <DialogFooter>
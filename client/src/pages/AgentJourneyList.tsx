@@ -34,11 +34,13 @@ import {
 import { AgentJourney } from '@shared/schema';
 import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
+import { useUsername } from '@/hooks/use-auth';
 
 const AgentJourneyList: React.FC = () => {
   const [, navigate] = useLocation();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const username = useUsername();
   const [searchTerm, setSearchTerm] = useState('');
   const [sortOrder, setSortOrder] = useState<'newest' | 'oldest' | 'alphabetical'>('newest');
   const [confirmDeleteId, setConfirmDeleteId] = useState<number | null>(null);
@@ -200,7 +202,10 @@ const AgentJourneyList: React.FC = () => {
                 <CardTitle className="truncate">{journey.title}</CardTitle>
                 <div className="flex items-center text-xs text-muted-foreground mt-1">
                   <CalendarDays className="h-3 w-3 mr-1" />
-                  <span>Updated: {formatDate(journey.updatedAt.toString())}</span>
+                  <span>
+                    Updated: {formatDate(journey.updatedAt.toString())}
+                    {username(journey.updatedBy) && ` by ${username(journey.updatedBy)}`}
+                  </span>
                 </div>
               </CardHeader>
 
@@ -245,7 +250,7 @@ const AgentJourneyList: React.FC = () => {
           <DialogHeader>
             <DialogTitle>Confirm Deletion</DialogTitle>
             <DialogDescription>
-              Are you sure you want to delete this agent journey? This action cannot be undone.
+              Are you sure you want to delete this agent journey? It will be moved to the Trash, where it can be restored.
             </DialogDescription>
           </DialogHeader>
           <DialogFooter>
@@ -0,0 +1,88 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Loader2, MessageSquare } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+
+type AuthMode = 'login' | 'register';
+
+// Shown instead of the app until someone signs in
+export default function AuthPage() {
+  const { loginMutation, registerMutation } = useAuth();
+  const [mode, setMode] = useState<AuthMode>('login');
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  const mutation = mode === 'login' ? loginMutation : registerMutation;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    mutation.mutate({ username: username.trim(), password });
+  };
+
+  const handleModeChange = (value: string) => {
+    setMode(value as AuthMode);
+    loginMutation.reset();
+    registerMutation.reset();
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-sm mx-4">
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <MessageSquare className="h-6 w-6 text-primary" />
+            <CardTitle>Conversational Design Tools</CardTitle>
+          </div>
+          <CardDescription>Sign in to see and edit your team's designs.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs value={mode} onValueChange={handleModeChange}>
+            <TabsList className="grid w-full grid-cols-2 mb-4">
+              <TabsTrigger value="login">Sign In</TabsTrigger>
+              <TabsTrigger value="register">Create Account</TabsTrigger>
+            </TabsList>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid gap-2">
+                <Label htmlFor="auth-username">Username</Label>
+                <Input
+                  id="auth-username"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  autoComplete="username"
+                  required
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="auth-password">Password</Label>
+                <Input
+                  id="auth-password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  autoComplete={mode === 'login' ? "current-password" : "new-password"}
+                  required
+                />
+              </div>
+              <TabsContent value="register" className="mt-0">
+                <p className="text-xs text-muted-foreground">
+                  Usernames need at least 3 characters and passwords at least 8.
+                </p>
+              </TabsContent>
+              {mutation.error && (
+                <p className="text-sm text-destructive">{mutation.error.message}</p>
+              )}
+              <Button type="submit" className="w-full" disabled={mutation.isPending}>
+                {mutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {mode === 'login' ? 'Sign In' : 'Create Account'}
+              </Button>
+            </form>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
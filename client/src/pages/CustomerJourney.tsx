@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect, useRef } from "react";
+import React, { useState, useCallback, useEffect, useRef, useMemo } from "react";
 import ReactFlow, {
   Background,
   Controls,
@@ -42,9 +42,13 @@ import {
   Brain,
   Star,
   Search,
-  Check
+  Check,
+  HeartPulse,
+  History,
+  X
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth, useUsername } from "@/hooks/use-auth";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
@@ -59,16 +63,20 @@ import ExportFlowImageButton from "../components/ExportFlowImageButton";
 import JourneyNode from "../components/JourneyNode";
 import MultiPathNode from "../components/MultiPathNode";
 import GeminiJourneyDialog from "../components/GeminiJourneyDialog";
+import EmotionCurve, { type EmotionPoint } from "../components/EmotionCurve";
+import RevisionHistoryDialog from "../components/RevisionHistoryDialog";
+import type { JourneyStepSentiment } from "@shared/schema";
 import { 
   fetchAllCustomerJourneys, 
   fetchCustomerJourney, 
   createCustomerJourney, 
   updateCustomerJourney, 
   deleteCustomerJourney, 
-  deleteAllCustomerJourneys,
+  deleteCustomerJourneysCreatedBy,
   CustomerJourney as CustomerJourneyType,
   getCustomerJourneys,
   generateJourneySummary,
+  analyzeJourneySentiment,
   generateAIJourney,
   generateJourneyFromUseCase,
   UseCase,
@@ -204,6 +212,7 @@ interface SavedJourneyDisplay {
   title: string;
   customerName?: string; // Added customer name
   lastSaved: string;
+  lastSavedBy?: number | null;
   preview?: {
     nodeCount: number;
     edgeCount: number;
@@ -213,6 +222,8 @@ interface SavedJourneyDisplay {
 export default function CustomerJourney() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const username = useUsername();
   const [nodes, setNodes, onNodesChange] = useNodesState(initialNodes);
   const [edges, setEdges, onEdgesChange] = useEdgesState([]);
   const reactFlowWrapper = useRef<HTMLDivElement>(null);
@@ -224,6 +235,10 @@ export default function CustomerJourney() {
   const [isLoading, setIsLoading] = useState(false);
   const [isGeneratingAIJourney, setIsGeneratingAIJourney] = useState(false);
   const [summaryDialogOpen, setSummaryDialogOpen] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [journeySentiment, setJourneySentiment] = useState<JourneyStepSentiment[]>([]);
+  const [emotionCurveOpen, setEmotionCurveOpen] = useState(false);
+  const [isAnalyzingSentiment, setIsAnalyzingSentiment] = useState(false);
   
   // State for node editing
   const [editDialogOpen, setEditDialogOpen] = useState(false);
@@ -269,6 +284,7 @@ export default function CustomerJourney() {
     title: journey.title,
     customerName: journey.customerName || "",
     lastSaved: journey.updatedAt,
+    lastSavedBy: journey.updatedBy,
     preview: {
       nodeCount: journey.nodes?.length || 0,
       edgeCount: journey.edges?.length || 0,
@@ -343,18 +359,18 @@ export default function CustomerJourney() {
   });
   
   const deleteAllJourneysMutation = useMutation({
-    mutationFn: () => deleteAllCustomerJourneys(),
+    mutationFn: () => deleteCustomerJourneysCreatedBy(user!.id),
     onSuccess: () => {
       toast({
-        title: "All Journeys Deleted",
-        description: "All journeys have been deleted successfully.",
+        title: "Your Journeys Deleted",
+        description: "All journeys you created have been deleted successfully.",
         duration: 3000
       });
     },
     onError: (error) => {
       toast({
         title: "Bulk Delete Failed",
-        description: error instanceof Error ? error.message : "There was an error deleting all journeys.",
+        description: error instanceof Error ? error.message : "There was an error deleting your journeys.",
         variant: "destructive"
       });
     }
@@ -492,6 +508,46 @@ export default function CustomerJourney() {
     setSaveTimeout(timeout);
   }, [saveTimeout, currentJourneyId, journeyMetadata, journeyTitle, nodes, edges, updateJourneyMutation, saveJourney, isLoading]);
   
+  // Put a saved journey on the canvas
+  const applyJourney = useCallback((journeyData: CustomerJourneyType) => {
+    setJourneyTitle(journeyData.title || 'Untitled Journey');
+    setCurrentJourneyId(journeyData.id);
+    
+    // Load metadata 
+    setJourneyMetadata({
+      customerName: journeyData.customerName || '',
+      workflowIntent: journeyData.workflowIntent || '',
+      notes: journeyData.notes || '',
+      summary: journeyData.summary || ''
+    });
+    setJourneySentiment(journeyData.sentiment || []);
+    
+    // Set nodes and edges last to trigger only one layout recalculation
+    setNodes(journeyData.nodes || initialNodes);
+    setEdges(journeyData.edges || []);
+  }, [setNodes, setEdges]);
+  
+  // A restored version replaces the canvas; a pending auto-save would write the old one back
+  const handleJourneyRestored = useCallback((journey: CustomerJourneyType) => {
+    if (saveTimeout) {
+      clearTimeout(saveTimeout);
+      setSaveTimeout(null);
+    }
+    applyJourney(journey);
+    queryClient.invalidateQueries({ queryKey: ['/api/customer-journeys'] });
+  }, [saveTimeout, applyJourney, queryClient]);
+  
+  // What the history dialog compares each saved version against
+  const currentJourneyFields = useMemo(() => ({
+    title: journeyTitle,
+    customerName: journeyMetadata.customerName,
+    workflowIntent: journeyMetadata.workflowIntent,
+    notes: journeyMetadata.notes,
+    summary: journeyMetadata.summary,
+    nodes,
+    edges
+  }), [journeyTitle, journeyMetadata, nodes, edges]);
+  
   // Load a specific journey with optimized performance
   const loadJourney = useCallback(async (journeyId: number) => {
     try {
@@ -518,29 +574,7 @@ export default function CustomerJourney() {
       }
       
       if (journey) {
-        // Batch state updates to reduce re-renders
-        const batchedUpdates = () => {
-          // Explicitly type cast to ensure TypeScript understands properties are safe to access
-          const journeyData = journey as CustomerJourneyType;
-          
-          setJourneyTitle(journeyData.title || 'Untitled Journey');
-          setCurrentJourneyId(journeyData.id);
-          
-          // Load metadata 
-          setJourneyMetadata({
-            customerName: journeyData.customerName || '',
-            workflowIntent: journeyData.workflowIntent || '',
-            notes: journeyData.notes || '',
-            summary: journeyData.summary || ''
-          });
-          
-          // Set nodes and edges last to trigger only one layout recalculation
-          setNodes(journeyData.nodes || initialNodes);
-          setEdges(journeyData.edges || []);
-        };
-        
-        // Execute batched updates
-        batchedUpdates();
+        applyJourney(journey);
         
         toast({
           title: "Journey Loaded",
@@ -558,7 +592,7 @@ export default function CustomerJourney() {
     } finally {
       setIsLoading(false);
     }
-  }, [currentJourneyId, isLoading, queryClient, setNodes, setEdges, toast]);
+  }, [currentJourneyId, isLoading, queryClient, applyJourney, toast]);
   
   // Delete a saved journey
   const deleteJourney = useCallback(async (journeyId: number, journeyTitle: string) => {
@@ -586,7 +620,7 @@ export default function CustomerJourney() {
   
   // Delete all journeys
   const handlePurgeAllJourneys = useCallback(async () => {
-    if (window.confirm("Are you sure you want to delete ALL saved Customer and User Journey Maps? This cannot be undone.")) {
+    if (window.confirm("Are you sure you want to delete ALL the Customer and User Journey Maps you created? Journeys created by others are kept. Yours can be restored from the Trash.")) {
       try {
         await deleteAllJourneysMutation.mutateAsync();
         setNodes(initialNodes);
@@ -607,7 +641,7 @@ export default function CustomerJourney() {
   }, [deleteAllJourneysMutation, setNodes, setEdges]);
   
   // Handler for generating a summary using AI
-  const handleGenerateSummary = useCallback(async (): Promise<string> => {
+  const handleGenerateSummary = useCallback(async (onToken: (text: string) => void, signal: AbortSignal): Promise<string> => {
     if (!currentJourneyId) {
       toast({
         title: "Save Required",
@@ -620,7 +654,7 @@ export default function CustomerJourney() {
     
     try {
       setIsLoading(true);
-      const response = await generateJourneySummary(currentJourneyId);
+      const response = await generateJourneySummary(currentJourneyId, { onToken }, signal);
       if (response && response.summary) {
         // Update local state with the new summary
         setJourneyMetadata(prev => ({
@@ -639,6 +673,10 @@ export default function CustomerJourney() {
         throw new Error("Failed to generate summary");
       }
     } catch (error) {
+      // Cancelled from the dialog; nothing went wrong
+      if (signal.aborted) {
+        return "";
+      }
       console.error("Failed to generate summary:", error);
       toast({
         title: "Summary Generation Failed",
@@ -652,6 +690,44 @@ export default function CustomerJourney() {
     }
   }, [currentJourneyId, toast, generateJourneySummary]);
   
+  // Scores belong to the saved journey; a new or unsaved one starts without any
+  useEffect(() => {
+    if (currentJourneyId === null) {
+      setJourneySentiment([]);
+    }
+  }, [currentJourneyId]);
+  
+  // Emotion curve points for the steps still on the canvas
+  const emotionPoints = useMemo<EmotionPoint[]>(() => journeySentiment
+    .filter(score => nodes.some(node => node.id === score.nodeId))
+    .map(score => ({
+      id: score.nodeId,
+      label: score.title.length > 14 ? `${score.title.slice(0, 13)}…` : score.title,
+      detail: score.title,
+      rating: score.rating
+    })), [journeySentiment, nodes]);
+  
+  // Handler for scoring the sentiment of each journey step
+  const handleAnalyzeSentiment = useCallback(async () => {
+    if (!currentJourneyId) return;
+    
+    try {
+      setIsAnalyzingSentiment(true);
+      const journey = await analyzeJourneySentiment(currentJourneyId);
+      setJourneySentiment(journey.sentiment || []);
+    } catch (error) {
+      console.error("Failed to analyze journey sentiment:", error);
+      toast({
+        title: "Sentiment Analysis Failed",
+        description: error instanceof Error ? error.message : "There was an error analyzing the journey.",
+        variant: "destructive",
+        duration: 3000
+      });
+    } finally {
+      setIsAnalyzingSentiment(false);
+    }
+  }, [currentJourneyId, toast]);
+  
   // Handler for saving the summary
   const handleSaveSummary = useCallback((summary: string) => {
     // Update the local state
@@ -1590,6 +1666,17 @@ export default function CustomerJourney() {
             <Brain className="mr-2 h-4 w-4" />
             AI Summary
           </Button>
+          
+          {/* Emotion Curve Button */}
+          <Button
+            variant="outline"
+            className="bg-rose-50 border-rose-200 text-rose-700 hover:bg-rose-100 hover:text-rose-800"
+            onClick={() => setEmotionCurveOpen(!emotionCurveOpen)}
+            disabled={!currentJourneyId}
+          >
+            <HeartPulse className="mr-2 h-4 w-4" />
+            Emotion Curve
+          </Button>
 
           {/* Gemini Journey Generation */}
           <GeminiJourneyDialog
@@ -1630,7 +1717,7 @@ export default function CustomerJourney() {
             onClick={handlePurgeAllJourneys}
           >
             <Trash2 className="mr-2 h-4 w-4" />
-            Purge All Customer and User Journeys
+            Purge My Customer and User Journeys
           </Button>
           
           <ExportJourneyButton
@@ -1648,6 +1735,26 @@ export default function CustomerJourney() {
             disabled={isLoading || nodes.length <= 1}
           />
           
+          <Button
+            variant="outline"
+            onClick={() => setHistoryOpen(true)}
+            disabled={!currentJourneyId}
+          >
+            <History className="mr-2 h-4 w-4" />
+            History
+          </Button>
+          
+          {currentJourneyId && (
+            <RevisionHistoryDialog<CustomerJourneyType>
+              open={historyOpen}
+              onOpenChange={setHistoryOpen}
+              entityType="customer-journey"
+              entityId={currentJourneyId}
+              current={currentJourneyFields}
+              onRestored={handleJourneyRestored}
+            />
+          )}
+          
           <Button onClick={() => saveJourney(false)}>
             <Save className="mr-2 h-4 w-4" />
             Save Customer and User Journey
@@ -1722,6 +1829,7 @@ export default function CustomerJourney() {
                     
                     <div className="text-xs text-muted-foreground mt-1">
                       Last modified: {formatDateTime(journey.lastSaved)}
+                      {username(journey.lastSavedBy) && ` by ${username(journey.lastSavedBy)}`}
                     </div>
                     <div className="flex gap-2 mt-2">
                       <Badge variant="outline" className="text-xs">
@@ -1814,6 +1922,43 @@ export default function CustomerJourney() {
               />
             </Panel>
             
+            {/* Emotion curve - the customer's sentiment step by step */}
+            {emotionCurveOpen && currentJourneyId && (
+              <Panel position="top-right" className="bg-background/90 backdrop-blur-sm p-3 rounded-lg shadow-md w-96 mt-14">
+                <div className="flex items-center gap-2 mb-2">
+                  <div className="text-sm font-medium">Customer Emotion</div>
+                  <Button
+                    size="sm"
+                    variant="secondary"
+                    className="ml-auto"
+                    onClick={handleAnalyzeSentiment}
+                    disabled={isAnalyzingSentiment}
+                  >
+                    {isAnalyzingSentiment && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    {journeySentiment.length > 0 ? 'Analyze Again' : 'Analyze'}
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8"
+                    onClick={() => setEmotionCurveOpen(false)}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+                {emotionPoints.length > 0 ? (
+                  <EmotionCurve
+                    points={emotionPoints}
+                    onPointClick={(id) => setNodes(nds => nds.map(node => ({ ...node, selected: node.id === id })))}
+                  />
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    Score each step of the saved journey from very negative to very positive to see where frustration peaks.
+                  </p>
+                )}
+              </Panel>
+            )}
+            
             <Panel position="bottom-center" className="bg-background/80 backdrop-blur-sm p-3 rounded-t-lg shadow-md w-4/5">
               <div className="flex flex-col gap-2">
                 <div className="flex justify-between items-center mb-2">
@@ -514,7 +514,7 @@ export default function Customers() {
           <DialogHeader>
             <DialogTitle>Delete Customer</DialogTitle>
             <DialogDescription>
-              Are you sure you want to delete this customer? This action cannot be undone.
+              Are you sure you want to delete this customer? It will be moved to the Trash, where it can be restored.
             </DialogDescription>
           </DialogHeader>
           <DialogFooter>
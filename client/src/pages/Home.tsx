@@ -5,12 +5,13 @@ import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
 import { UseCase } from "@shared/schema";
-import { parseConversationFlow, parseConversationFlowWithTypes } from "@/lib/parseConversation";
+import { parseConversationFlow, parseConversationFlowWithTypes } from "@shared/parseConversation";
 
 import Sidebar from "@/components/Sidebar";
 import Editor from "@/components/Editor";
 import FlowPreview from "@/components/FlowPreview";
 import NewUseCaseModal from "@/components/NewUseCaseModal";
+import TranscriptImportDialog from "@/components/TranscriptImportDialog";
 import { useIsMobile } from "@/hooks/use-mobile";
 
 export default function Home() {
@@ -20,6 +21,7 @@ export default function Home() {
   const isMobile = useIsMobile();
   
   const [isNewUseCaseModalOpen, setIsNewUseCaseModalOpen] = useState(false);
+  const [isTranscriptImportOpen, setIsTranscriptImportOpen] = useState(false);
   const [showMobileSidebar, setShowMobileSidebar] = useState(false);
   
   // Queries
@@ -47,7 +49,7 @@ export default function Home() {
   }, [params?.id, useCases, isLoadingUseCases, setLocation]);
 
   // Parse conversation flow for visualization with step type detection
-  const parsedFlow = activeUseCase ? parseConversationFlowWithTypes(activeUseCase.conversationFlow) : { steps: [] };
+  const parsedFlow = activeUseCase ? parseConversationFlowWithTypes(activeUseCase.conversationFlow, activeUseCase.roles) : { steps: [], edges: [], diagnostics: [], slots: [] };
 
   // Mutations
   const createUseCaseMutation = useMutation({
@@ -76,6 +78,28 @@ export default function Home() {
     }
   });
 
+  const importTranscriptMutation = useMutation({
+    mutationFn: async (data: { title: string; description?: string; content: string; format?: 'csv' | 'jsonl' }) => {
+      return apiRequest('POST', '/api/use-cases/import-transcript', data);
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/use-cases'] });
+      setLocation(`/use-case/${data.id}`);
+      setIsTranscriptImportOpen(false);
+      toast({
+        title: "Transcript imported",
+        description: "A new use case has been created from the transcript.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error importing transcript",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+
   const updateUseCaseMutation = useMutation({
     mutationFn: async (useCase: Partial<UseCase> & { id: number }) => {
       const { id, ...data } = useCase;
@@ -177,6 +201,7 @@ export default function Home() {
         activeUseCaseId={Number(params?.id)}
         isLoading={isLoadingUseCases}
         onNewUseCase={() => setIsNewUseCaseModalOpen(true)}
+        onImportTranscript={() => setIsTranscriptImportOpen(true)}
         onSelectUseCase={(id) => setLocation(`/use-case/${id}`)}
         onDeleteUseCase={handleDeleteUseCase}
         isMobile={isMobile}
@@ -226,6 +251,14 @@ export default function Home() {
         onClose={() => setIsNewUseCaseModalOpen(false)}
         onSubmit={handleCreateUseCase}
       />
+
+      {/* Transcript Import Dialog */}
+      <TranscriptImportDialog
+        isOpen={isTranscriptImportOpen}
+        onClose={() => setIsTranscriptImportOpen(false)}
+        onSubmit={(data) => importTranscriptMutation.mutate(data)}
+        isImporting={importTranscriptMutation.isPending}
+      />
     </div>
   );
 }
@@ -3,7 +3,15 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/use-workspace";
 import { Setting } from "@shared/schema";
+import { LOCAL_LLM_BASE_URL_SETTING } from "@shared/aiFeatures";
+import type { CredentialName, CredentialStatus } from "@shared/credentials";
+import AIFeatureProviders from "@/components/AIFeatureProviders";
+import PromptTemplateEditor from "@/components/PromptTemplateEditor";
+import CredentialStatusNote from "@/components/CredentialStatusNote";
+import AIUsageDashboard from "@/components/AIUsageDashboard";
+import WorkspaceMembersPanel from "@/components/WorkspaceMembersPanel";
 import { Loader2, Check, AlertTriangle } from "lucide-react";
 
 import {
@@ -40,12 +48,16 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 
-// Form validation schema
+// Form validation schema; the API key fields only ever hold a new key to save
 const formSchema = z.object({
   openai_api_key: z.string().optional(),
   openai_system_prompt: z.string().min(1, "System prompt is required"),
   openai_user_prompt: z.string().min(1, "User prompt is required"),
   gemini_api_key: z.string().optional(),
+  local_llm_base_url: z.string().refine(value => !value || /^https?:\/\//.test(value), {
+    message: "Must be an http(s) URL (e.g., http://localhost:11434/v1)"
+  }).optional(),
+  local_llm_api_key: z.string().optional(),
   // ROI calculation parameters
   roi_agent_hourly_cost: z.string().refine(value => !value || /^\d+(\.\d{1,2})?$/.test(value), {
     message: "Must be a valid dollar amount (e.g., 25.50)"
@@ -93,6 +105,7 @@ type FormValues = z.infer<typeof formSchema>;
 
 export default function Settings() {
   const { toast } = useToast();
+  const { can, canManageServer } = useWorkspace();
   const [validatingApiKey, setValidatingApiKey] = useState(false);
   const [validationResult, setValidationResult] = useState<{
     valid: boolean;
@@ -103,6 +116,11 @@ export default function Settings() {
     valid: boolean;
     message: string;
   } | null>(null);
+  const [validatingLocalEndpoint, setValidatingLocalEndpoint] = useState(false);
+  const [localValidationResult, setLocalValidationResult] = useState<{
+    valid: boolean;
+    message: string;
+  } | null>(null);
   
   // Query to fetch settings
   const { 
@@ -113,6 +131,13 @@ export default function Settings() {
     queryKey: ['/api/settings'],
   });
 
+  const { data: credentials = [] } = useQuery<CredentialStatus[]>({
+    queryKey: ['/api/credentials'],
+  });
+
+  const hasCredential = (name: CredentialName): boolean =>
+    credentials.some(c => c.name === name && c.source !== null);
+
   // Find matching settings from the array
   const getSettingValue = (key: string): string => {
     const setting = settings.find(s => s.key === key);
@@ -130,6 +155,8 @@ export default function Settings() {
       openai_system_prompt: '',
       openai_user_prompt: '',
       gemini_api_key: '',
+      local_llm_base_url: '',
+      local_llm_api_key: '',
       // Default ROI parameters
       roi_agent_hourly_cost: '25',
       roi_implementation_cost_min: '15000',
@@ -152,10 +179,12 @@ export default function Settings() {
   useEffect(() => {
     if (settings.length > 0) {
       form.reset({
-        openai_api_key: getSettingValue('openai_api_key'),
+        openai_api_key: '',
         openai_system_prompt: getSettingValue('openai_system_prompt'),
         openai_user_prompt: getSettingValue('openai_user_prompt'),
-        gemini_api_key: getSettingValue('gemini_api_key'),
+        gemini_api_key: '',
+        local_llm_base_url: getSettingValue(LOCAL_LLM_BASE_URL_SETTING),
+        local_llm_api_key: '',
         // ROI calculation parameters
         roi_agent_hourly_cost: getSettingValue('roi_agent_hourly_cost') || '25',
         roi_implementation_cost_min: getSettingValue('roi_implementation_cost_min') || '15000',
@@ -192,11 +221,28 @@ export default function Settings() {
     }
   });
 
-  // Validate Gemini API key
+  // Save a new API key; the server encrypts it and never sends it back
+  const saveCredential = useMutation({
+    mutationFn: async ({ name, value }: { name: CredentialName; value: string }) => {
+      return apiRequest('PUT', `/api/credentials/${name}`, { value });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/credentials'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to save API key",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  // Validate Gemini API key; with the field empty, the key in use is checked
   async function validateGeminiApiKey() {
     const apiKey = form.getValues('gemini_api_key');
     
-    if (!apiKey) {
+    if (!apiKey && !hasCredential('gemini')) {
       setGeminiValidationResult({
         valid: false,
         message: "Please enter an API key to validate"
@@ -208,7 +254,7 @@ export default function Settings() {
     setGeminiValidationResult(null);
     
     try {
-      const response = await apiRequest('POST', '/api/gemini/validate', { apiKey });
+      const response = await apiRequest('POST', '/api/gemini/validate', apiKey ? { apiKey } : {});
       if (response.valid) {
         setGeminiValidationResult({
           valid: true,
@@ -230,11 +276,52 @@ export default function Settings() {
     }
   }
 
-  // Validate OpenAI API key
+  // Check that the local model server answers
+  async function validateLocalLlmEndpoint() {
+    const baseUrl = form.getValues('local_llm_base_url');
+    
+    if (!baseUrl) {
+      setLocalValidationResult({
+        valid: false,
+        message: "Please enter a base URL to validate"
+      });
+      return;
+    }
+    
+    setValidatingLocalEndpoint(true);
+    setLocalValidationResult(null);
+    
+    try {
+      const response = await apiRequest('POST', '/api/llm/local/validate', {
+        baseUrl,
+        apiKey: form.getValues('local_llm_api_key')
+      });
+      if (response.valid) {
+        setLocalValidationResult({
+          valid: true,
+          message: "Endpoint is reachable! Models available: " + (response.models?.join(', ') || 'Unknown')
+        });
+      } else {
+        setLocalValidationResult({
+          valid: false,
+          message: response.error || "Endpoint validation failed"
+        });
+      }
+    } catch (error) {
+      setLocalValidationResult({
+        valid: false,
+        message: (error as Error).message || "Endpoint validation failed"
+      });
+    } finally {
+      setValidatingLocalEndpoint(false);
+    }
+  }
+
+  // Validate OpenAI API key; with the field empty, the key in use is checked
   async function validateApiKey() {
     const apiKey = form.getValues('openai_api_key');
     
-    if (!apiKey) {
+    if (!apiKey && !hasCredential('openai')) {
       setValidationResult({
         valid: false,
         message: "Please enter an API key to validate"
@@ -246,7 +333,7 @@ export default function Settings() {
     setValidationResult(null);
     
     try {
-      const response = await apiRequest('POST', '/api/openai/validate', { apiKey });
+      const response = await apiRequest('POST', '/api/openai/validate', apiKey ? { apiKey } : {});
       if (response.valid) {
         setValidationResult({
           valid: true,
@@ -271,11 +358,22 @@ export default function Settings() {
   // Form submit handler
   async function onSubmit(values: FormValues) {
     try {
+      // Save any newly entered API keys; an empty field leaves the saved key alone
+      const newKeys: [CredentialName, string | undefined][] = [
+        ['openai', values.openai_api_key],
+        ['gemini', values.gemini_api_key],
+        ['local-llm', values.local_llm_api_key]
+      ];
+      for (const [name, value] of newKeys) {
+        if (canManageServer && value?.trim()) {
+          await saveCredential.mutateAsync({ name, value });
+        }
+      }
+      form.setValue('openai_api_key', '');
+      form.setValue('gemini_api_key', '');
+      form.setValue('local_llm_api_key', '');
+      
       // Update OpenAI settings
-      await updateSetting.mutateAsync({ 
-        key: 'openai_api_key', 
-        value: values.openai_api_key || '' 
-      });
       await updateSetting.mutateAsync({ 
         key: 'openai_system_prompt', 
         value: values.openai_system_prompt 
@@ -284,10 +382,12 @@ export default function Settings() {
         key: 'openai_user_prompt', 
         value: values.openai_user_prompt 
       });
-      await updateSetting.mutateAsync({ 
-        key: 'gemini_api_key', 
-        value: values.gemini_api_key || '' 
-      });
+      if (canManageServer) {
+        await updateSetting.mutateAsync({
+          key: LOCAL_LLM_BASE_URL_SETTING,
+          value: values.local_llm_base_url || ''
+        });
+      }
       
       // Update ROI calculation parameters
       await updateSetting.mutateAsync({
@@ -385,7 +485,7 @@ export default function Settings() {
         <CardHeader>
           <CardTitle>Settings</CardTitle>
           <CardDescription>
-            Configure your AI integrations (OpenAI and Google Gemini) and ROI calculation parameters.
+            Configure your AI integrations (OpenAI, Google Gemini or a local model), which one each feature uses, ROI calculation parameters, and who has access to this workspace.
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -417,10 +517,11 @@ export default function Settings() {
                             <div className="flex gap-2">
                               <FormControl>
                                 <Input 
-                                  placeholder="Enter your OpenAI API key"
+                                  placeholder={hasCredential('openai') ? "Enter a new key to replace the current one" : "Enter your OpenAI API key"}
                                   {...field} 
                                   type="password"
                                   className="flex-1"
+                                  disabled={!canManageServer}
                                 />
                               </FormControl>
                               <Button 
@@ -439,8 +540,9 @@ export default function Settings() {
                               </Button>
                             </div>
                             <FormDescription>
-                              Your OpenAI API key used for AI-powered features.
+                              Your OpenAI API key used for AI-powered features. It's stored encrypted and can't be read back.
                             </FormDescription>
+                            <CredentialStatusNote name="openai" />
                             <FormMessage />
                             
                             {validationResult && (
@@ -528,10 +630,11 @@ export default function Settings() {
                             <div className="flex gap-2">
                               <FormControl>
                                 <Input 
-                                  placeholder="Enter your Gemini API key"
+                                  placeholder={hasCredential('gemini') ? "Enter a new key to replace the current one" : "Enter your Gemini API key"}
                                   {...field} 
                                   type="password"
                                   className="flex-1"
+                                  disabled={!canManageServer}
                                 />
                               </FormControl>
                               <Button 
@@ -552,6 +655,7 @@ export default function Settings() {
                             <FormDescription>
                               Your Google Gemini API key for alternative AI features. Get one from Google AI Studio.
                             </FormDescription>
+                            <CredentialStatusNote name="gemini" />
                             <FormMessage />
                             
                             {geminiValidationResult && (
@@ -576,6 +680,137 @@ export default function Settings() {
                   </AccordionItem>
                 </Accordion>
                 
+                {/* AI Providers Section */}
+                <Accordion type="single" collapsible className="w-full">
+                  <AccordionItem value="ai-providers-section">
+                    <AccordionTrigger className="py-2 hover:no-underline">
+                      <div className="flex flex-col items-start">
+                        <h3 className="text-lg font-medium">AI Providers</h3>
+                        <p className="text-sm text-muted-foreground font-normal text-left">
+                          Choose the provider and model for each AI feature, including a local model for offline use
+                        </p>
+                      </div>
+                    </AccordionTrigger>
+                    <AccordionContent className="pt-4 space-y-6">
+                      <FormField
+                        control={form.control}
+                        name="local_llm_base_url"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Local Model Base URL</FormLabel>
+                            <div className="flex gap-2">
+                              <FormControl>
+                                <Input 
+                                  placeholder="http://localhost:11434/v1"
+                                  {...field} 
+                                  className="flex-1"
+                                  disabled={!canManageServer}
+                                />
+                              </FormControl>
+                              <Button 
+                                type="button"
+                                variant="outline"
+                                onClick={validateLocalLlmEndpoint}
+                                disabled={validatingLocalEndpoint || !canManageServer}
+                                className="shrink-0"
+                              >
+                                {validatingLocalEndpoint ? (
+                                  <>
+                                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                    Validating...
+                                  </>
+                                ) : "Test Endpoint"}
+                              </Button>
+                            </div>
+                            <FormDescription>
+                              An OpenAI-compatible server such as Ollama or llama.cpp, shared by every workspace. Used by features set to the Local provider.
+                            </FormDescription>
+                            <FormMessage />
+                            
+                            {localValidationResult && (
+                              <Alert className={localValidationResult.valid ? "bg-green-50 border-green-200 text-green-800" : "bg-red-50 border-red-200 text-red-800"}>
+                                {localValidationResult.valid ? (
+                                  <Check className="h-4 w-4 text-green-600" />
+                                ) : (
+                                  <AlertTriangle className="h-4 w-4 text-red-600" />
+                                )}
+                                <AlertTitle>
+                                  {localValidationResult.valid ? "Endpoint Reachable" : "Endpoint Unreachable"}
+                                </AlertTitle>
+                                <AlertDescription>
+                                  {localValidationResult.message}
+                                </AlertDescription>
+                              </Alert>
+                            )}
+                          </FormItem>
+                        )}
+                      />
+                      
+                      <FormField
+                        control={form.control}
+                        name="local_llm_api_key"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Local Model API Key (Optional)</FormLabel>
+                            <FormControl>
+                              <Input 
+                                placeholder="Only needed if your server requires one"
+                                {...field} 
+                                type="password"
+                                disabled={!canManageServer}
+                              />
+                            </FormControl>
+                            <CredentialStatusNote name="local-llm" />
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      
+                      <div className="space-y-2">
+                        <h4 className="text-sm font-medium">Provider per Feature</h4>
+                        <p className="text-sm text-muted-foreground">
+                          Changes here are saved immediately. The offline stub returns fixed sample responses for testing without any AI service.
+                        </p>
+                        <AIFeatureProviders />
+                      </div>
+                    </AccordionContent>
+                  </AccordionItem>
+                </Accordion>
+                
+                {/* Prompt Templates Section */}
+                <Accordion type="single" collapsible className="w-full">
+                  <AccordionItem value="prompt-templates-section">
+                    <AccordionTrigger className="py-2 hover:no-underline">
+                      <div className="flex flex-col items-start">
+                        <h3 className="text-lg font-medium">Prompt Templates</h3>
+                        <p className="text-sm text-muted-foreground font-normal text-left">
+                          Tune the tone and vocabulary of the prompts behind each AI feature
+                        </p>
+                      </div>
+                    </AccordionTrigger>
+                    <AccordionContent className="pt-4">
+                      <PromptTemplateEditor />
+                    </AccordionContent>
+                  </AccordionItem>
+                </Accordion>
+                
+                {/* AI Usage Section */}
+                <Accordion type="single" collapsible className="w-full">
+                  <AccordionItem value="ai-usage-section">
+                    <AccordionTrigger className="py-2 hover:no-underline">
+                      <div className="flex flex-col items-start">
+                        <h3 className="text-lg font-medium">AI Usage</h3>
+                        <p className="text-sm text-muted-foreground font-normal text-left">
+                          Track calls, tokens and estimated cost per AI feature, cap monthly spend and cache repeated requests
+                        </p>
+                      </div>
+                    </AccordionTrigger>
+                    <AccordionContent className="pt-4">
+                      <AIUsageDashboard />
+                    </AccordionContent>
+                  </AccordionItem>
+                </Accordion>
+                
                 {/* ROI Calculation Parameters Section */}
                 <Accordion type="single" collapsible className="w-full">
                   <AccordionItem value="roi-section">
@@ -882,7 +1117,7 @@ export default function Settings() {
                 
                 <Button 
                   type="submit"
-                  disabled={updateSetting.isPending || form.formState.isSubmitting}
+                  disabled={!can('editor') || updateSetting.isPending || form.formState.isSubmitting}
                   className="w-full sm:w-auto"
                 >
                   {updateSetting.isPending ? (
@@ -895,6 +1130,23 @@ export default function Settings() {
               </form>
             </Form>
           )}
+
+          {/* Kept outside the form so pressing Enter here doesn't save the settings above */}
+          <Accordion type="single" collapsible className="w-full mt-8">
+            <AccordionItem value="workspace-members-section">
+              <AccordionTrigger className="py-2 hover:no-underline">
+                <div className="flex flex-col items-start">
+                  <h3 className="text-lg font-medium">Workspace Members</h3>
+                  <p className="text-sm text-muted-foreground font-normal text-left">
+                    Who can see and change the designs in this workspace
+                  </p>
+                </div>
+              </AccordionTrigger>
+              <AccordionContent className="pt-4">
+                <WorkspaceMembersPanel />
+              </AccordionContent>
+            </AccordionItem>
+          </Accordion>
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,324 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth, useUsername } from "@/hooks/use-auth";
+import { useWorkspace } from "@/hooks/use-workspace";
+import {
+  fetchTrash,
+  restoreTrashItem,
+  purgeTrashItem,
+  emptyTrash,
+  setTrashRetention,
+  type TrashContents
+} from "@/lib/api";
+import { TRASH_ENTITY_LABELS, type TrashEntityType } from "@shared/trash";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, RotateCcw, Trash2 } from "lucide-react";
+
+type TrashEntry = TrashContents['items'][number];
+
+const TRASH_KEY = ['/api/trash'];
+
+// The list each kind of record shows up in again once it's restored
+const LIST_QUERY_KEYS: Record<TrashEntityType, string> = {
+  'use-case': '/api/use-cases',
+  'customer-journey': '/api/customer-journeys',
+  'agent-journey': '/api/agent-journeys',
+  'action-plan': '/api/action-plans',
+  'customer': '/api/customers',
+};
+
+function RetentionForm({ retentionDays }: { retentionDays: number }) {
+  const { toast } = useToast();
+  const [days, setDays] = useState(String(retentionDays));
+
+  useEffect(() => {
+    setDays(String(retentionDays));
+  }, [retentionDays]);
+
+  const saveRetention = useMutation({
+    mutationFn: (value: number) => setTrashRetention(value),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: TRASH_KEY });
+      toast({ title: "Retention period saved" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to save the retention period", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const parsed = Number(days);
+  const isValid = days.trim() !== '' && Number.isInteger(parsed) && parsed >= 0;
+
+  return (
+    <form
+      className="flex items-end gap-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (isValid) saveRetention.mutate(parsed);
+      }}
+    >
+      <div className="space-y-1">
+        <Label htmlFor="trash-retention">Keep deleted items for (days)</Label>
+        <Input
+          id="trash-retention"
+          type="number"
+          min={0}
+          step={1}
+          value={days}
+          onChange={(e) => setDays(e.target.value)}
+          className="w-32"
+        />
+      </div>
+      <Button type="submit" variant="outline" disabled={!isValid || parsed === retentionDays || saveRetention.isPending}>
+        {saveRetention.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        Save
+      </Button>
+    </form>
+  );
+}
+
+export default function Trash() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const username = useUsername();
+  const { can } = useWorkspace();
+  const [purging, setPurging] = useState<TrashEntry | null>(null);
+  const [isEmptyDialogOpen, setIsEmptyDialogOpen] = useState(false);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: TRASH_KEY,
+    queryFn: fetchTrash,
+    // Items expire while the page is away
+    staleTime: 0,
+  });
+
+  const items = data?.items ?? [];
+  const retentionDays = data?.retentionDays ?? 0;
+
+  const restore = useMutation({
+    mutationFn: (item: TrashEntry) => restoreTrashItem(item.entityType, item.id),
+    onSuccess: (_data, item) => {
+      queryClient.invalidateQueries({ queryKey: TRASH_KEY });
+      queryClient.invalidateQueries({ queryKey: [LIST_QUERY_KEYS[item.entityType]] });
+      toast({ title: "Item restored", description: `"${item.title}" is back where it was.` });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to restore item", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const purge = useMutation({
+    mutationFn: (item: TrashEntry) => purgeTrashItem(item.entityType, item.id),
+    onSuccess: (_data, item) => {
+      queryClient.invalidateQueries({ queryKey: TRASH_KEY });
+      setPurging(null);
+      toast({ title: "Item purged", description: `"${item.title}" has been permanently deleted.` });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to purge item", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const empty = useMutation({
+    mutationFn: emptyTrash,
+    onSuccess: (purged) => {
+      queryClient.invalidateQueries({ queryKey: TRASH_KEY });
+      setIsEmptyDialogOpen(false);
+      toast({ title: "Trash emptied", description: `${purged} item(s) permanently deleted.` });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to empty the trash", description: error.message, variant: "destructive" });
+    }
+  });
+
+  // Mirrors the server's rule for deleting: the creator or a workspace admin, or anyone for records older than sign-in
+  const canPurge = (item: TrashEntry) => can('admin') || item.createdBy === null || item.createdBy === user?.id;
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <div className="max-w-md p-6 bg-white rounded-lg shadow-lg">
+          <h2 className="text-xl font-bold text-red-600 mb-4">Error Loading Trash</h2>
+          <p className="text-gray-700 mb-4">{(error as Error).message}</p>
+          <Button onClick={() => window.location.reload()} variant="default">
+            Reload Page
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto py-10">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div>
+            <CardTitle>Trash</CardTitle>
+            <CardDescription>
+              {retentionDays > 0
+                ? `Deleted items are kept for ${retentionDays} day(s) and can be restored until then.`
+                : 'Deleted items are kept until they are purged.'}
+            </CardDescription>
+          </div>
+          {can('admin') && (
+            <div className="flex items-end gap-4">
+              {data && <RetentionForm retentionDays={retentionDays} />}
+              <Button
+                variant="destructive"
+                onClick={() => setIsEmptyDialogOpen(true)}
+                disabled={items.length === 0}
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Empty Trash
+              </Button>
+            </div>
+          )}
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : items.length === 0 ? (
+            <div className="text-center py-8">
+              <p className="text-muted-foreground">The trash is empty</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Created By</TableHead>
+                    <TableHead>Deleted</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {items.map((item) => (
+                    <TableRow key={`${item.entityType}:${item.id}`}>
+                      <TableCell className="font-medium">{item.title}</TableCell>
+                      <TableCell>
+                        <Badge variant="secondary">{TRASH_ENTITY_LABELS[item.entityType]}</Badge>
+                      </TableCell>
+                      <TableCell>{username(item.createdBy) ?? ""}</TableCell>
+                      <TableCell>{new Date(item.deletedAt).toLocaleString()}</TableCell>
+                      <TableCell className="text-right">
+                        {can('editor') && (
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => restore.mutate(item)}
+                              disabled={restore.isPending}
+                            >
+                              <RotateCcw className="h-4 w-4 mr-2" />
+                              Restore
+                            </Button>
+                            {canPurge(item) && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title="Delete permanently"
+                                onClick={() => setPurging(item)}
+                              >
+                                <Trash2 className="h-4 w-4 text-destructive" />
+                              </Button>
+                            )}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Purge confirmation */}
+      <AlertDialog open={purging !== null} onOpenChange={(open) => !open && setPurging(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete permanently?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{purging?.title}" will be deleted for good, along with its version history. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                if (purging) purge.mutate(purging);
+              }}
+              disabled={purge.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {purge.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Delete Permanently
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Empty trash confirmation */}
+      <AlertDialog open={isEmptyDialogOpen} onOpenChange={setIsEmptyDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Empty the trash?</AlertDialogTitle>
+            <AlertDialogDescription>
+              All {items.length} item(s) in this workspace's trash will be deleted for good. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                empty.mutate();
+              }}
+              disabled={empty.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {empty.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Empty Trash
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -33,11 +33,12 @@ import { Separator } from "@/components/ui/separator";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
-import { parseConversationFlow } from "@/lib/parseConversation";
+import { parseConversationFlow } from "@shared/parseConversation";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { Users, PlusCircle, Trash2, MessageSquare, Settings, ChevronRight, CheckCircle, Edit, Wand2, FileText } from "lucide-react";
 import { generateUseCaseDetails, UseCaseDetailsSuggestions } from "@/lib/api";
 import ExportUseCaseButton from "@/components/ExportUseCaseButton";
+import DocumentExtractDialog from "@/components/DocumentExtractDialog";
 
 // Define form schema based on the UseCase model
 const formSchema = z.object({
@@ -68,6 +69,9 @@ export default function UseCasePage() {
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState<number | null>(null);
   const [currentUseCase, setCurrentUseCase] = useState<UseCase | null>(null);
   const [isGeneratingAI, setIsGeneratingAI] = useState(false);
+  // Use case the AI details were last generated for, so asking again regenerates
+  const [detailsGeneratedFor, setDetailsGeneratedFor] = useState<number | null>(null);
+  const [isDocumentDialogOpen, setIsDocumentDialogOpen] = useState(false);
 
   // Fetch all use cases
   const { 
@@ -263,10 +267,12 @@ export default function UseCasePage() {
   
   // AI Details Generation Mutation
   const generateDetailsMutation = useMutation({
-    mutationFn: async (id: number) => {
-      return generateUseCaseDetails(id);
+    mutationFn: async ({ id, forceRegenerate }: { id: number; forceRegenerate: boolean }) => {
+      return generateUseCaseDetails(id, forceRegenerate);
     },
-    onSuccess: (suggestions) => {
+    onSuccess: (suggestions, { id }) => {
+      setDetailsGeneratedFor(id);
+
       // Update the form with AI-generated suggestions
       const currentValues = editForm.getValues();
       
@@ -302,10 +308,26 @@ export default function UseCasePage() {
   const handleGenerateAI = () => {
     if (isEditDialogOpen) {
       setIsGeneratingAI(true);
-      generateDetailsMutation.mutate(isEditDialogOpen);
+      // Asking again for the same use case means the last suggestions weren't wanted
+      generateDetailsMutation.mutate({
+        id: isEditDialogOpen,
+        forceRegenerate: detailsGeneratedFor === isEditDialogOpen
+      });
     }
   };
 
+  // Copy the fields accepted from a document into the form; saving is still up to the user
+  const handleApplyDocumentFields = (fields: Partial<UseCaseDetailsSuggestions>) => {
+    (Object.keys(fields) as (keyof UseCaseDetailsSuggestions)[]).forEach(field => {
+      editForm.setValue(field, fields[field], { shouldDirty: true });
+    });
+    
+    toast({
+      title: "Document fields applied",
+      description: "Review the use case details and save your changes."
+    });
+  };
+
   // If there's an error fetching data, display error message
   if (error) {
     return (
@@ -718,7 +740,7 @@ export default function UseCasePage() {
           <DialogHeader>
             <DialogTitle>Confirm Deletion</DialogTitle>
             <DialogDescription>
-              Are you sure you want to delete this use case? This action cannot be undone.
+              Are you sure you want to delete this use case? It will be moved to the Trash, where it can be restored.
             </DialogDescription>
           </DialogHeader>
           <DialogFooter>
@@ -990,7 +1012,18 @@ export default function UseCasePage() {
                     disabled={isGeneratingAI || generateDetailsMutation.isPending}
                   >
                     <Wand2 className="h-4 w-4 mr-2" />
-                    {isGeneratingAI || generateDetailsMutation.isPending ? "Generating..." : "AI Suggest"}
+                    {isGeneratingAI || generateDetailsMutation.isPending
+                      ? "Generating..."
+                      : detailsGeneratedFor === isEditDialogOpen ? "Regenerate" : "AI Suggest"}
+                  </Button>
+                  <Button 
+                    type="button" 
+                    variant="outline"
+                    className="mr-2"
+                    onClick={() => setIsDocumentDialogOpen(true)}
+                  >
+                    <FileText className="h-4 w-4 mr-2" />
+                    From Document
                   </Button>
                 </div>
                 <div className="flex items-center">
@@ -1021,6 +1054,16 @@ export default function UseCasePage() {
           </Form>
         </DialogContent>
       </Dialog>
+
+      {isEditDialogOpen !== null && (
+        <DocumentExtractDialog
+          isOpen={isDocumentDialogOpen}
+          onClose={() => setIsDocumentDialogOpen(false)}
+          useCaseId={isEditDialogOpen}
+          currentValues={editForm.getValues()}
+          onApply={handleApplyDocumentFields}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
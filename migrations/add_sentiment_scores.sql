@@ -0,0 +1,3 @@
+-- Sentiment scores from the last analysis: customer messages of a use case's flow and customer journey steps (JSON arrays)
+ALTER TABLE use_cases ADD COLUMN IF NOT EXISTS sentiment JSON;
+ALTER TABLE customer_journeys ADD COLUMN IF NOT EXISTS sentiment JSON;
@@ -0,0 +1,6 @@
+-- Deleted design artifacts and customers stay in the trash until restored or purged; NULL means not deleted
+ALTER TABLE use_cases ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+ALTER TABLE customer_journeys ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+ALTER TABLE action_plans ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+ALTER TABLE agent_journeys ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
@@ -0,0 +1,2 @@
+-- Speaker roles allowed in a use case's conversation flow (JSON array of labels)
+ALTER TABLE use_cases ADD COLUMN IF NOT EXISTS roles JSON;
@@ -0,0 +1,19 @@
+-- Who created and last modified each design artifact; NULL for rows saved before sign-in existed
+ALTER TABLE use_cases ADD COLUMN IF NOT EXISTS created_by INTEGER REFERENCES users(id);
+ALTER TABLE use_cases ADD COLUMN IF NOT EXISTS updated_by INTEGER REFERENCES users(id);
+ALTER TABLE customer_journeys ADD COLUMN IF NOT EXISTS created_by INTEGER REFERENCES users(id);
+ALTER TABLE customer_journeys ADD COLUMN IF NOT EXISTS updated_by INTEGER REFERENCES users(id);
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS created_by INTEGER REFERENCES users(id);
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS updated_by INTEGER REFERENCES users(id);
+ALTER TABLE action_plans ADD COLUMN IF NOT EXISTS created_by INTEGER REFERENCES users(id);
+ALTER TABLE action_plans ADD COLUMN IF NOT EXISTS updated_by INTEGER REFERENCES users(id);
+ALTER TABLE agent_journeys ADD COLUMN IF NOT EXISTS created_by INTEGER REFERENCES users(id);
+ALTER TABLE agent_journeys ADD COLUMN IF NOT EXISTS updated_by INTEGER REFERENCES users(id);
+
+-- Tables created directly at startup named the hash column password_hash; the schema calls it password
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'users' AND column_name = 'password_hash') THEN
+    ALTER TABLE users RENAME COLUMN password_hash TO password;
+  END IF;
+END $$;
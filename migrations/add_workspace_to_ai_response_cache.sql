@@ -0,0 +1,5 @@
+-- Cache entries belong to a workspace, so clearing the cache only clears that workspace's.
+-- Entries saved before can't be attributed and are dropped; they're regenerated on demand.
+ALTER TABLE ai_response_cache ADD COLUMN IF NOT EXISTS workspace_id INTEGER REFERENCES workspaces(id);
+DELETE FROM ai_response_cache WHERE workspace_id IS NULL;
+ALTER TABLE ai_response_cache ALTER COLUMN workspace_id SET NOT NULL;
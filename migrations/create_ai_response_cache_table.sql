@@ -0,0 +1,8 @@
+-- Create ai_response_cache table: AI responses reused for identical requests until they expire
+CREATE TABLE IF NOT EXISTS ai_response_cache (
+  key TEXT PRIMARY KEY,
+  feature TEXT NOT NULL,
+  response TEXT NOT NULL,
+  expires_at TIMESTAMP NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
@@ -0,0 +1,18 @@
+-- Create ai_usage table: a ledger of every AI model call for cost tracking
+CREATE TABLE IF NOT EXISTS ai_usage (
+  id SERIAL PRIMARY KEY,
+  feature TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  estimated_cost REAL NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL,
+  success BOOLEAN NOT NULL,
+  error TEXT,
+  entity_type TEXT,
+  entity_id INTEGER,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS ai_usage_created_at_idx ON ai_usage (created_at);
@@ -0,0 +1,7 @@
+-- Create credentials table: API keys encrypted with the server key, kept out of the settings table
+CREATE TABLE IF NOT EXISTS credentials (
+  name TEXT PRIMARY KEY,
+  encrypted_value TEXT NOT NULL,
+  hint TEXT NOT NULL,
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
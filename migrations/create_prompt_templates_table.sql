@@ -0,0 +1,10 @@
+-- Create prompt_templates table for edited AI prompts; each save adds a version
+CREATE TABLE IF NOT EXISTS prompt_templates (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  system_prompt TEXT NOT NULL DEFAULT '',
+  user_prompt TEXT NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  UNIQUE (name, version)
+);
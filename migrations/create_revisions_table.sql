@@ -0,0 +1,14 @@
+-- Create revisions table: a full snapshot of a use case, journey or action plan after every save
+CREATE TABLE IF NOT EXISTS revisions (
+  id SERIAL PRIMARY KEY,
+  workspace_id INTEGER NOT NULL REFERENCES workspaces(id),
+  entity_type TEXT NOT NULL,
+  entity_id INTEGER NOT NULL,
+  snapshot JSONB NOT NULL,
+  label TEXT,
+  restored_from_id INTEGER,
+  created_by INTEGER REFERENCES users(id),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS revisions_entity_idx ON revisions (entity_type, entity_id);
@@ -0,0 +1,8 @@
+-- Create simulation_runs table for paths walked in the conversation simulator
+CREATE TABLE IF NOT EXISTS simulation_runs (
+  id SERIAL PRIMARY KEY,
+  use_case_id INTEGER NOT NULL REFERENCES use_cases(id) ON DELETE CASCADE,
+  path JSON NOT NULL,
+  completed BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
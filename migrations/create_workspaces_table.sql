@@ -0,0 +1,51 @@
+-- Workspaces isolate teams; members have a role of viewer, editor or admin
+CREATE TABLE IF NOT EXISTS workspaces (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS workspace_members (
+  id SERIAL PRIMARY KEY,
+  workspace_id INTEGER NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  UNIQUE (workspace_id, user_id)
+);
+
+-- Everything saved before workspaces existed goes into workspace 1, with every existing user as an admin
+INSERT INTO workspaces (id, name) VALUES (1, 'Default workspace') ON CONFLICT (id) DO NOTHING;
+SELECT setval(pg_get_serial_sequence('workspaces', 'id'), GREATEST((SELECT MAX(id) FROM workspaces), 1));
+INSERT INTO workspace_members (workspace_id, user_id, role)
+  SELECT 1, id, 'admin' FROM users
+  ON CONFLICT (workspace_id, user_id) DO NOTHING;
+
+ALTER TABLE use_cases ADD COLUMN IF NOT EXISTS workspace_id INTEGER REFERENCES workspaces(id);
+ALTER TABLE customer_journeys ADD COLUMN IF NOT EXISTS workspace_id INTEGER REFERENCES workspaces(id);
+ALTER TABLE agent_journeys ADD COLUMN IF NOT EXISTS workspace_id INTEGER REFERENCES workspaces(id);
+ALTER TABLE action_plans ADD COLUMN IF NOT EXISTS workspace_id INTEGER REFERENCES workspaces(id);
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS workspace_id INTEGER REFERENCES workspaces(id);
+ALTER TABLE settings ADD COLUMN IF NOT EXISTS workspace_id INTEGER REFERENCES workspaces(id);
+ALTER TABLE ai_usage ADD COLUMN IF NOT EXISTS workspace_id INTEGER REFERENCES workspaces(id);
+
+UPDATE use_cases SET workspace_id = 1 WHERE workspace_id IS NULL;
+UPDATE customer_journeys SET workspace_id = 1 WHERE workspace_id IS NULL;
+UPDATE agent_journeys SET workspace_id = 1 WHERE workspace_id IS NULL;
+UPDATE action_plans SET workspace_id = 1 WHERE workspace_id IS NULL;
+UPDATE customers SET workspace_id = 1 WHERE workspace_id IS NULL;
+UPDATE settings SET workspace_id = 1 WHERE workspace_id IS NULL;
+UPDATE ai_usage SET workspace_id = 1 WHERE workspace_id IS NULL;
+
+ALTER TABLE use_cases ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE customer_journeys ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE agent_journeys ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE action_plans ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE customers ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE settings ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE ai_usage ALTER COLUMN workspace_id SET NOT NULL;
+
+-- Setting keys are unique within a workspace rather than across the server
+ALTER TABLE settings DROP CONSTRAINT IF EXISTS settings_key_key;
+ALTER TABLE settings DROP CONSTRAINT IF EXISTS settings_key_unique;
+CREATE UNIQUE INDEX IF NOT EXISTS settings_workspace_key_unique ON settings (workspace_id, key);
@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AI_CACHE_TTL_SETTING } from "@shared/aiFeatures";
+import { DEFAULT_WORKSPACE_ID } from "@shared/workspaces";
+import { MemStorage, setStorage, storage } from "./storage";
+import { CachingProvider } from "./aiCache";
+import { UsageTrackingProvider } from "./aiUsage";
+import { StubProvider, type LLMRequest } from "./llmProvider";
+
+const request: LLMRequest = { messages: [{ role: 'user', content: 'Summarize this article' }] };
+
+// The same stack getLLMProvider builds: cache in front of the usage ledger in front of the stub
+function cachedStub(workspaceId = DEFAULT_WORKSPACE_ID, forceRegenerate = false) {
+  const stub = new StubProvider('summarize-article');
+  const complete = vi.spyOn(stub, 'complete');
+  const provider = new CachingProvider(
+    new UsageTrackingProvider(stub, 'summarize-article', workspaceId),
+    'summarize-article',
+    workspaceId,
+    forceRegenerate
+  );
+  return { provider, complete };
+}
+
+beforeEach(() => {
+  setStorage(new MemStorage());
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('CachingProvider', () => {
+  it('answers a repeated request from the cache without calling or billing the provider', async () => {
+    const first = cachedStub();
+    const second = cachedStub();
+
+    const response = await first.provider.complete(request);
+    await expect(second.provider.complete(request)).resolves.toBe(response);
+    expect(second.complete).not.toHaveBeenCalled();
+    expect(await storage.getRecentAiUsage(10, DEFAULT_WORKSPACE_ID)).toHaveLength(1);
+  });
+
+  it('sends a cached response through the token handler of a streaming caller', async () => {
+    const response = await cachedStub().provider.complete(request);
+    const onToken = vi.fn();
+
+    await cachedStub().provider.complete({ ...request, onToken });
+    expect(onToken).toHaveBeenCalledWith(response);
+  });
+
+  it('keeps requests that differ apart', async () => {
+    await cachedStub().provider.complete(request);
+    const { provider, complete } = cachedStub();
+
+    await provider.complete({ ...request, temperature: 0.2 });
+    await provider.complete({ ...request, json: true });
+    expect(complete).toHaveBeenCalledTimes(2);
+  });
+
+  it('never caches a response the request rejects', async () => {
+    await cachedStub().provider.complete({ ...request, isUsable: () => false });
+    const { provider, complete } = cachedStub();
+
+    await provider.complete(request);
+    expect(complete).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips a cached response the request rejects', async () => {
+    await cachedStub().provider.complete(request);
+    const { provider, complete } = cachedStub();
+
+    await provider.complete({ ...request, isUsable: () => false });
+    expect(complete).toHaveBeenCalledTimes(1);
+  });
+
+  it('calls the provider again when asked to regenerate', async () => {
+    await cachedStub().provider.complete(request);
+    const { provider, complete } = cachedStub(DEFAULT_WORKSPACE_ID, true);
+
+    await provider.complete(request);
+    expect(complete).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not share entries between workspaces', async () => {
+    const other = await storage.createWorkspace({ name: 'Other' }, 1);
+    await cachedStub().provider.complete(request);
+    const { provider, complete } = cachedStub(other.id);
+
+    await provider.complete(request);
+    expect(complete).toHaveBeenCalledTimes(1);
+  });
+
+  it('is off when the workspace sets the lifetime to zero', async () => {
+    await storage.createSetting({ key: AI_CACHE_TTL_SETTING, value: '0' }, DEFAULT_WORKSPACE_ID);
+    await cachedStub().provider.complete(request);
+    const { provider, complete } = cachedStub();
+
+    await provider.complete(request);
+    expect(complete).toHaveBeenCalledTimes(1);
+  });
+
+  it('lets entries expire', async () => {
+    await storage.createSetting({ key: AI_CACHE_TTL_SETTING, value: '1' }, DEFAULT_WORKSPACE_ID);
+    vi.useFakeTimers({ toFake: ['Date'] });
+    await cachedStub().provider.complete(request);
+    vi.advanceTimersByTime(61 * 60 * 1000);
+    const { provider, complete } = cachedStub();
+
+    await provider.complete(request);
+    expect(complete).toHaveBeenCalledTimes(1);
+  });
+});
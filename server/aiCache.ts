@@ -0,0 +1,98 @@
+import { createHash } from "crypto";
+import type { Request } from "express";
+import { storage } from "./storage";
+import type { LLMProvider, LLMRequest } from "./llmProvider";
+import {
+  AI_CACHE_TTL_SETTING,
+  DEFAULT_AI_CACHE_TTL_HOURS,
+  type AIFeature,
+  type LLMProviderId
+} from "@shared/aiFeatures";
+
+// Generation routes skip the cache with ?regenerate=true or { forceRegenerate: true } in the body
+export function isForceRegenerate(req: Request): boolean {
+  return req.query.regenerate === 'true' || req.body?.forceRegenerate === true;
+}
+
+export async function getCacheTtlHours(workspaceId: number): Promise<number> {
+  const setting = await storage.getSetting(AI_CACHE_TTL_SETTING, workspaceId);
+  const hours = setting?.value ? parseFloat(setting.value) : NaN;
+  return isNaN(hours) || hours < 0 ? DEFAULT_AI_CACHE_TTL_HOURS : hours;
+}
+
+// Everything that shapes the response goes into the key; streaming and cancellation don't.
+// Workspaces never share entries.
+function cacheKey(provider: LLMProvider, request: LLMRequest, workspaceId: number): string {
+  const { messages, json, jsonSchema, temperature, maxTokens } = request;
+  return createHash('sha256')
+    .update(JSON.stringify({
+      workspaceId,
+      provider: provider.id,
+      model: provider.model,
+      messages,
+      json: json ?? false,
+      jsonSchema: jsonSchema ?? null,
+      temperature: temperature ?? null,
+      maxTokens: maxTokens ?? null
+    }))
+    .digest('hex');
+}
+
+/**
+ * Serves repeated identical requests from the response cache until they
+ * expire. A cache hit never reaches the provider, so it costs nothing and
+ * isn't recorded as usage. Only responses the request's `isUsable` accepts
+ * are cached or served.
+ */
+export class CachingProvider implements LLMProvider {
+  constructor(
+    private inner: LLMProvider,
+    private feature: AIFeature,
+    private workspaceId: number,
+    private forceRegenerate = false
+  ) {}
+
+  get id(): LLMProviderId {
+    return this.inner.id;
+  }
+
+  get model(): string {
+    return this.inner.model;
+  }
+
+  async complete(request: LLMRequest): Promise<string> {
+    const ttlHours = await getCacheTtlHours(this.workspaceId);
+    if (ttlHours === 0) {
+      return this.inner.complete(request);
+    }
+
+    const key = cacheKey(this.inner, request, this.workspaceId);
+    if (!this.forceRegenerate) {
+      const cached = await storage.getCachedAiResponse(key);
+      // Entries saved before they were checked may not pass
+      if (cached && (!request.isUsable || request.isUsable(cached.response))) {
+        // Streaming callers still get the text through their token handler
+        request.onToken?.(cached.response);
+        return cached.response;
+      }
+    }
+
+    const response = await this.inner.complete(request);
+    // Output that fails validation would otherwise be replayed until it expires
+    if (request.isUsable && !request.isUsable(response)) {
+      return response;
+    }
+    try {
+      await storage.setCachedAiResponse({
+        key,
+        workspaceId: this.workspaceId,
+        feature: this.feature,
+        response,
+        expiresAt: new Date(Date.now() + ttlHours * 60 * 60 * 1000)
+      });
+    } catch (error) {
+      console.error("Error caching AI response:", error);
+    }
+    return response;
+  }
+}
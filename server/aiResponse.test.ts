@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Response } from "express";
+import { z } from "zod";
+import { INVALID_AI_RESPONSE } from "@shared/aiFeatures";
+import { AIResponseError, aiFailure, completeJson, sendAIFailure } from "./aiResponse";
+import { StubProvider, type LLMProvider, type LLMRequest } from "./llmProvider";
+
+const sentimentSchema = z.object({ rating: z.number(), confidence: z.number() });
+const request: LLMRequest = { messages: [{ role: 'user', content: 'Rate this conversation' }] };
+
+// Answers with broken JSON a set number of times before handing over to the stub
+class FlakyProvider implements LLMProvider {
+  readonly id = 'stub' as const;
+  readonly model = 'stub';
+  readonly requests: LLMRequest[] = [];
+  private stub = new StubProvider('sentiment');
+
+  constructor(private failures: number) {}
+
+  async complete(request: LLMRequest): Promise<string> {
+    this.requests.push(request);
+    if (this.requests.length <= this.failures) {
+      return '{"rating": 3,';
+    }
+    return this.stub.complete(request);
+  }
+}
+
+function fakeResponse() {
+  const res = { status: vi.fn(), json: vi.fn() };
+  res.status.mockReturnValue(res);
+  return res;
+}
+
+describe('completeJson', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('returns the stub response once it matches the schema', async () => {
+    const provider = new StubProvider('sentiment');
+    const complete = vi.spyOn(provider, 'complete');
+
+    await expect(completeJson(provider, request, sentimentSchema)).resolves.toEqual({ rating: 3, confidence: 1 });
+    expect(complete).toHaveBeenCalledTimes(1);
+    expect(complete.mock.calls[0][0].json).toBe(true);
+  });
+
+  it('accepts JSON wrapped in a code fence', async () => {
+    const provider: LLMProvider = {
+      id: 'stub',
+      model: 'stub',
+      complete: async () => '```json\n{"rating": 4, "confidence": 0.5}\n```'
+    };
+
+    await expect(completeJson(provider, request, sentimentSchema)).resolves.toEqual({ rating: 4, confidence: 0.5 });
+  });
+
+  it('shows the model its invalid answer and asks for a repair', async () => {
+    const provider = new FlakyProvider(1);
+
+    await expect(completeJson(provider, request, sentimentSchema)).resolves.toEqual({ rating: 3, confidence: 1 });
+    expect(provider.requests).toHaveLength(2);
+    const repair = provider.requests[1].messages;
+    expect(repair[repair.length - 2]).toEqual({ role: 'assistant', content: '{"rating": 3,' });
+    expect(repair[repair.length - 1].content).toContain('Response is not valid JSON');
+  });
+
+  it('only streams the first attempt', async () => {
+    const provider = new FlakyProvider(1);
+    const onToken = vi.fn();
+
+    await completeJson(provider, { ...request, onToken }, sentimentSchema);
+    expect(provider.requests[0].onToken).toBe(onToken);
+    expect(provider.requests[1].onToken).toBeUndefined();
+  });
+
+  it('throws AIResponseError with the issues once repairs run out', async () => {
+    const provider = new StubProvider('sentiment');
+    const complete = vi.spyOn(provider, 'complete');
+    const schema = sentimentSchema.extend({ label: z.string() });
+
+    const error = await completeJson(provider, request, schema).catch(e => e);
+    expect(error).toBeInstanceOf(AIResponseError);
+    expect(error.code).toBe(INVALID_AI_RESPONSE);
+    expect(error.issues).toEqual([expect.stringContaining('label')]);
+    expect(complete).toHaveBeenCalledTimes(3);
+  });
+
+  it('marks only schema-valid responses as usable', async () => {
+    const provider = new FlakyProvider(1);
+
+    await completeJson(provider, request, sentimentSchema);
+    const isUsable = provider.requests[0].isUsable!;
+    expect(isUsable('{"rating": 3,')).toBe(false);
+    expect(isUsable('{"rating": 3, "confidence": 1}')).toBe(true);
+  });
+});
+
+describe('sendAIFailure', () => {
+  it('answers 502 with the issues when the model output could not be repaired', () => {
+    const res = fakeResponse();
+
+    sendAIFailure(res as unknown as Response, aiFailure(new AIResponseError('Bad output', ['label: Required']), 'Failed'), 'Failed');
+    expect(res.status).toHaveBeenCalledWith(502);
+    expect(res.json).toHaveBeenCalledWith({
+      success: false,
+      error: 'Bad output',
+      code: INVALID_AI_RESPONSE,
+      issues: ['label: Required']
+    });
+  });
+
+  it('answers 500 for any other failure', () => {
+    const res = fakeResponse();
+
+    sendAIFailure(res as unknown as Response, aiFailure(new Error('Network down'), 'Failed'), 'Failed');
+    expect(res.status).toHaveBeenCalledWith(500);
+    expect(res.json).toHaveBeenCalledWith({ success: false, error: 'Network down' });
+  });
+
+  it('falls back to the given message', () => {
+    const res = fakeResponse();
+
+    sendAIFailure(res as unknown as Response, {}, 'Failed to generate suggestions');
+    expect(res.json).toHaveBeenCalledWith({ success: false, error: 'Failed to generate suggestions' });
+  });
+});
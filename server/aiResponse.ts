@@ -0,0 +1,105 @@
+import type { Response } from "express";
+import { z } from "zod";
+import { INVALID_AI_RESPONSE, type AIFailure } from "@shared/aiFeatures";
+import type { LLMMessage, LLMProvider, LLMRequest } from "./llmProvider";
+
+// How many times the model is asked to fix a response before giving up
+const MAX_REPAIR_ATTEMPTS = 2;
+// Enough issues to guide a repair without drowning the prompt
+const MAX_REPORTED_ISSUES = 10;
+
+// Raised when the model's output still doesn't match the expected schema after repairs
+export class AIResponseError extends Error {
+  readonly code = INVALID_AI_RESPONSE;
+
+  constructor(message: string, readonly issues: string[]) {
+    super(message);
+    this.name = 'AIResponseError';
+  }
+}
+
+// Models, local ones especially, sometimes wrap JSON in a markdown code fence
+function stripCodeFence(text: string): string {
+  const match = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  return match ? match[1] : text;
+}
+
+function checkResponse<T>(raw: string, schema: z.ZodType<T>): { data: T } | { issues: string[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stripCodeFence(raw));
+  } catch (error) {
+    return { issues: [`Response is not valid JSON: ${(error as Error).message}`] };
+  }
+
+  const result = schema.safeParse(parsed);
+  if (result.success) {
+    return { data: result.data };
+  }
+  return {
+    issues: result.error.issues
+      .slice(0, MAX_REPORTED_ISSUES)
+      .map(issue => `${issue.path.length > 0 ? issue.path.join('.') : 'response'}: ${issue.message}`)
+  };
+}
+
+/**
+ * Ask for a JSON response and validate it against a schema. When the output
+ * doesn't parse or match, the model is shown its answer and the problems and
+ * asked for a corrected one. Throws AIResponseError once repairs run out.
+ */
+export async function completeJson<T>(
+  provider: LLMProvider,
+  request: LLMRequest,
+  schema: z.ZodType<T>
+): Promise<T> {
+  const messages: LLMMessage[] = [...request.messages];
+  let issues: string[] = [];
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    // Only the first answer is streamed; the validated result replaces it anyway
+    const raw = await provider.complete({
+      ...request,
+      messages,
+      json: true,
+      onToken: attempt === 0 ? request.onToken : undefined,
+      isUsable: response => 'data' in checkResponse(response, schema)
+    });
+    const checked = checkResponse(raw, schema);
+    if ('data' in checked) {
+      return checked.data;
+    }
+
+    issues = checked.issues;
+    console.warn(`AI response failed validation (attempt ${attempt + 1}):`, issues);
+    messages.push(
+      { role: 'assistant', content: raw },
+      {
+        role: 'user',
+        content: `Your response does not match the required format:\n${issues.map(issue => `- ${issue}`).join('\n')}\n\nReply with the corrected JSON object only, keeping everything that was already right.`
+      }
+    );
+  }
+
+  throw new AIResponseError(
+    `The AI response was not in the expected format after ${MAX_REPAIR_ATTEMPTS + 1} attempts`,
+    issues
+  );
+}
+
+// Failure result for the AI helpers, carrying the validation details when there are any
+export function aiFailure(error: any, fallbackMessage: string): AIFailure {
+  if (error instanceof AIResponseError) {
+    return { success: false, error: error.message, code: error.code, issues: error.issues };
+  }
+  return { success: false, error: error?.message || fallbackMessage };
+}
+
+// Respond to a failed AI request; output that couldn't be repaired is the upstream model's fault
+export function sendAIFailure(res: Response, failure: Partial<Omit<AIFailure, 'success'>>, fallbackMessage: string) {
+  return res.status(failure.code === INVALID_AI_RESPONSE ? 502 : 500).json({
+    success: false,
+    error: failure.error || fallbackMessage,
+    ...(failure.code ? { code: failure.code, issues: failure.issues } : {})
+  });
+}
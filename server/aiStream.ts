@@ -0,0 +1,127 @@
+import type { Request, Response } from "express";
+import type { AIFailure } from "@shared/aiFeatures";
+
+// Comment lines keep idle connections open through proxies while the model thinks
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+/**
+ * A server-sent events response for an AI generation route. The client sees
+ * "token" events while the model writes, then one "done" event with the same
+ * payload the JSON route returns, or an "error" event.
+ */
+export interface EventStream {
+  onToken: (text: string) => void;
+  signal: AbortSignal;  // Aborted when the client disconnects or cancels
+  send(event: string, data: unknown): void;
+  done(data: unknown): void;
+  fail(failure: Partial<Omit<AIFailure, 'success'>>, fallbackMessage: string): void;
+}
+
+// Generation routes stream when asked for text/event-stream and answer with JSON otherwise
+export function wantsEventStream(req: Request): boolean {
+  return req.accepts(['application/json', 'text/event-stream']) === 'text/event-stream';
+}
+
+export function openEventStream(res: Response): EventStream {
+  const controller = new AbortController();
+  let closed = false;
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'  // Stop nginx from buffering the stream
+  });
+  res.flushHeaders();
+
+  const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), HEARTBEAT_INTERVAL_MS);
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    if (!closed) {
+      closed = true;
+      controller.abort();
+    }
+  });
+
+  const send = (event: string, data: unknown) => {
+    if (!closed) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  };
+  const end = () => {
+    clearInterval(heartbeat);
+    if (!closed) {
+      closed = true;
+      res.end();
+    }
+  };
+
+  return {
+    onToken: (text) => send('token', { text }),
+    signal: controller.signal,
+    send,
+    done: (data) => {
+      send('done', data);
+      end();
+    },
+    fail: (failure, fallbackMessage) => {
+      send('error', {
+        error: failure.error || fallbackMessage,
+        ...(failure.code ? { code: failure.code, issues: failure.issues } : {})
+      });
+      end();
+    }
+  };
+}
+
+/**
+ * Collect the objects of a JSON array as a streamed response writes them, so
+ * e.g. journey nodes can be shown before the whole response has arrived.
+ * Calls onItem once for each complete object under the first `key` array.
+ */
+export function createPartialArrayReader(key: string, onItem: (item: unknown) => void): (text: string) => void {
+  let buffer = '';
+  let reported = 0;
+
+  return (text: string) => {
+    buffer += text;
+    const keyIndex = buffer.search(new RegExp(`"${key}"\\s*:\\s*\\[`));
+    if (keyIndex === -1) return;
+
+    let index = buffer.indexOf('[', keyIndex) + 1;
+    let depth = 0;
+    let inString = false;
+    let itemStart = -1;
+    let items = 0;
+
+    for (; index < buffer.length; index++) {
+      const char = buffer[index];
+      if (inString) {
+        if (char === '\\') index++;
+        else if (char === '"') inString = false;
+        continue;
+      }
+      if (char === '"') {
+        inString = true;
+      } else if (char === '{') {
+        if (depth === 0) itemStart = index;
+        depth++;
+      } else if (char === '}') {
+        depth--;
+        if (depth === 0) {
+          if (items >= reported) {
+            try {
+              onItem(JSON.parse(buffer.slice(itemStart, index + 1)));
+            } catch {
+              // Malformed item; the validated final response is what counts
+            }
+            reported++;
+          }
+          items++;
+        }
+      } else if (char === ']' && depth === 0) {
+        break;
+      }
+    }
+  };
+}
@@ -0,0 +1,142 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { AI_MONTHLY_BUDGET_SETTING, AI_SERVER_BUDGET_SETTING, estimateCost } from "@shared/aiFeatures";
+import { DEFAULT_WORKSPACE_ID } from "@shared/workspaces";
+import { MemStorage, setStorage, storage } from "./storage";
+import { checkAiBudget, UsageTrackingProvider } from "./aiUsage";
+import { StubProvider, type LLMProvider, type LLMRequest } from "./llmProvider";
+
+const request: LLMRequest = { messages: [{ role: 'user', content: 'Suggest a use case for order tracking' }] };
+
+// Stands in for a paid API, reporting fixed token counts
+function paidProvider(): LLMProvider {
+  return {
+    id: 'openai',
+    model: 'gpt-4o',
+    complete: async (request) => {
+      request.onUsage?.({ promptTokens: 1000, completionTokens: 500 });
+      return 'ok';
+    }
+  };
+}
+
+async function recordSpend(workspaceId: number, estimatedCost: number) {
+  await storage.recordAiUsage({
+    feature: 'use-case-suggestions',
+    provider: 'openai',
+    model: 'gpt-4o',
+    promptTokens: 0,
+    completionTokens: 0,
+    estimatedCost,
+    latencyMs: 1,
+    success: true,
+    error: null,
+    entityType: null,
+    entityId: null,
+    workspaceId
+  });
+}
+
+beforeEach(() => {
+  setStorage(new MemStorage());
+});
+
+describe('UsageTrackingProvider', () => {
+  it('records a stub call with its token counts and no cost', async () => {
+    const provider = new UsageTrackingProvider(new StubProvider('use-case-suggestions'), 'use-case-suggestions', DEFAULT_WORKSPACE_ID, { type: 'use-case', id: 7 });
+
+    const response = await provider.complete(request);
+    const [usage] = await storage.getRecentAiUsage(10, DEFAULT_WORKSPACE_ID);
+    expect(usage).toMatchObject({
+      feature: 'use-case-suggestions',
+      provider: 'stub',
+      model: 'stub',
+      estimatedCost: 0,
+      success: true,
+      error: null,
+      entityType: 'use-case',
+      entityId: 7
+    });
+    expect(usage.promptTokens).toBeGreaterThan(0);
+    expect(usage.completionTokens).toBe(Math.ceil(response.length / 4));
+  });
+
+  it('prices calls to paid providers and passes usage on to the caller', async () => {
+    const onUsage = vi.fn();
+    const provider = new UsageTrackingProvider(paidProvider(), 'use-case-suggestions', DEFAULT_WORKSPACE_ID);
+
+    await provider.complete({ ...request, onUsage });
+    const [usage] = await storage.getRecentAiUsage(10, DEFAULT_WORKSPACE_ID);
+    expect(usage.estimatedCost).toBe(estimateCost('gpt-4o', 1000, 500));
+    expect(onUsage).toHaveBeenCalledWith({ promptTokens: 1000, completionTokens: 500 });
+  });
+
+  it('records failed calls and rethrows the error', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const provider = new UsageTrackingProvider(new StubProvider('use-case-suggestions'), 'use-case-suggestions', DEFAULT_WORKSPACE_ID);
+
+    await expect(provider.complete({ ...request, onToken: () => {}, signal: controller.signal })).rejects.toThrow('Request was cancelled');
+    const [usage] = await storage.getRecentAiUsage(10, DEFAULT_WORKSPACE_ID);
+    expect(usage).toMatchObject({ success: false, error: 'Request was cancelled' });
+  });
+
+  it('keeps usage in the workspace the call was made from', async () => {
+    const other = await storage.createWorkspace({ name: 'Other' }, 1);
+    const provider = new UsageTrackingProvider(new StubProvider('sentiment'), 'sentiment', other.id);
+
+    await provider.complete(request);
+    expect(await storage.getRecentAiUsage(10, other.id)).toHaveLength(1);
+    expect(await storage.getRecentAiUsage(10, DEFAULT_WORKSPACE_ID)).toHaveLength(0);
+  });
+});
+
+describe('checkAiBudget', () => {
+  it('never blocks free providers', async () => {
+    await storage.createSetting({ key: AI_MONTHLY_BUDGET_SETTING, value: '0' }, DEFAULT_WORKSPACE_ID);
+    await storage.createSetting({ key: AI_SERVER_BUDGET_SETTING, value: '0' }, DEFAULT_WORKSPACE_ID);
+
+    expect(await checkAiBudget('stub', DEFAULT_WORKSPACE_ID)).toBeUndefined();
+    expect(await checkAiBudget('local', DEFAULT_WORKSPACE_ID)).toBeUndefined();
+  });
+
+  it('allows paid providers while there is no budget or it is not spent', async () => {
+    expect(await checkAiBudget('openai', DEFAULT_WORKSPACE_ID)).toBeUndefined();
+
+    await storage.createSetting({ key: AI_MONTHLY_BUDGET_SETTING, value: '5' }, DEFAULT_WORKSPACE_ID);
+    await recordSpend(DEFAULT_WORKSPACE_ID, 4.99);
+    expect(await checkAiBudget('openai', DEFAULT_WORKSPACE_ID)).toBeUndefined();
+  });
+
+  it("blocks paid providers once the workspace's budget is spent", async () => {
+    await storage.createSetting({ key: AI_MONTHLY_BUDGET_SETTING, value: '5' }, DEFAULT_WORKSPACE_ID);
+    await recordSpend(DEFAULT_WORKSPACE_ID, 5);
+
+    expect(await checkAiBudget('gemini', DEFAULT_WORKSPACE_ID)).toContain('Monthly AI budget of $5.00 has been reached');
+  });
+
+  it('does not count spend from before this month', async () => {
+    await storage.createSetting({ key: AI_MONTHLY_BUDGET_SETTING, value: '5' }, DEFAULT_WORKSPACE_ID);
+    vi.useFakeTimers({ now: new Date(2020, 0, 15), toFake: ['Date'] });
+    await recordSpend(DEFAULT_WORKSPACE_ID, 10);
+    vi.useRealTimers();
+
+    expect(await checkAiBudget('openai', DEFAULT_WORKSPACE_ID)).toBeUndefined();
+  });
+
+  it("blocks every workspace once the server's budget is spent", async () => {
+    const other = await storage.createWorkspace({ name: 'Other' }, 1);
+    await storage.createSetting({ key: AI_SERVER_BUDGET_SETTING, value: '10' }, DEFAULT_WORKSPACE_ID);
+    await recordSpend(DEFAULT_WORKSPACE_ID, 6);
+    await recordSpend(other.id, 4);
+
+    expect(await checkAiBudget('openai', other.id)).toContain("server's monthly AI budget of $10.00 has been reached");
+    expect(await checkAiBudget('openai', DEFAULT_WORKSPACE_ID)).toContain("server's monthly AI budget");
+  });
+
+  it('ignores a server budget set in any workspace but the default one', async () => {
+    const other = await storage.createWorkspace({ name: 'Other' }, 1);
+    await storage.createSetting({ key: AI_SERVER_BUDGET_SETTING, value: '0' }, other.id);
+
+    expect(await checkAiBudget('openai', other.id)).toBeUndefined();
+  });
+});
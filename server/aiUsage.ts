@@ -0,0 +1,137 @@
+import { storage } from "./storage";
+import type { LLMProvider, LLMRequest, LLMUsage } from "./llmProvider";
+import {
+  AI_MONTHLY_BUDGET_SETTING,
+  AI_SERVER_BUDGET_SETTING,
+  estimateCost,
+  isPaidProvider,
+  type AIFeature,
+  type LLMProviderId
+} from "@shared/aiFeatures";
+import { DEFAULT_WORKSPACE_ID } from "@shared/workspaces";
+
+// The record an AI call was made for, so usage can be traced back to it
+export interface AIUsageEntity {
+  type: 'use-case' | 'customer-journey' | 'action-plan' | 'agent-journey';
+  id: number;
+}
+
+// Wraps a provider so every call lands in the usage ledger, whether it succeeds or not
+export class UsageTrackingProvider implements LLMProvider {
+  constructor(
+    private inner: LLMProvider,
+    private feature: AIFeature,
+    private workspaceId: number,
+    private entity?: AIUsageEntity
+  ) {}
+
+  get id(): LLMProviderId {
+    return this.inner.id;
+  }
+
+  get model(): string {
+    return this.inner.model;
+  }
+
+  async complete(request: LLMRequest): Promise<string> {
+    let usage: LLMUsage = { promptTokens: 0, completionTokens: 0 };
+    const startedAt = Date.now();
+    try {
+      const response = await this.inner.complete({
+        ...request,
+        onUsage: (reported) => {
+          usage = reported;
+          request.onUsage?.(reported);
+        }
+      });
+      await this.record(usage, Date.now() - startedAt);
+      return response;
+    } catch (error) {
+      await this.record(usage, Date.now() - startedAt, error as Error);
+      throw error;
+    }
+  }
+
+  private async record(usage: LLMUsage, latencyMs: number, error?: Error): Promise<void> {
+    try {
+      await storage.recordAiUsage({
+        feature: this.feature,
+        provider: this.inner.id,
+        model: this.inner.model,
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        estimatedCost: isPaidProvider(this.inner.id)
+          ? estimateCost(this.inner.model, usage.promptTokens, usage.completionTokens)
+          : 0,
+        latencyMs,
+        success: !error,
+        error: error?.message ?? null,
+        entityType: this.entity?.type ?? null,
+        entityId: this.entity?.id ?? null,
+        workspaceId: this.workspaceId
+      });
+    } catch (recordError) {
+      // A ledger failure shouldn't cost the user their generated content
+      console.error("Error recording AI usage:", recordError);
+    }
+  }
+}
+
+export function startOfMonth(date = new Date()): Date {
+  return new Date(date.getFullYear(), date.getMonth(), 1);
+}
+
+async function readBudget(key: string, workspaceId: number): Promise<number | null> {
+  const setting = await storage.getSetting(key, workspaceId);
+  const budget = setting?.value ? parseFloat(setting.value) : NaN;
+  return isNaN(budget) ? null : budget;
+}
+
+// The monthly budget in USD, or null when none is set
+export async function getMonthlyBudget(workspaceId: number): Promise<number | null> {
+  return readBudget(AI_MONTHLY_BUDGET_SETTING, workspaceId);
+}
+
+// The limit on what every workspace together may spend on the server's API keys each month
+export async function getServerMonthlyBudget(): Promise<number | null> {
+  return readBudget(AI_SERVER_BUDGET_SETTING, DEFAULT_WORKSPACE_ID);
+}
+
+export async function getMonthlySpend(workspaceId: number): Promise<number> {
+  const summary = await storage.getAiUsageSummary(startOfMonth(), workspaceId);
+  return summary.reduce((total, feature) => total + feature.estimatedCost, 0);
+}
+
+export async function getServerMonthlySpend(): Promise<number> {
+  let spent = 0;
+  for (const workspace of await storage.getAllWorkspaces()) {
+    spent += await getMonthlySpend(workspace.id);
+  }
+  return spent;
+}
+
+/**
+ * Returns an error message once the workspace's spend this month has reached
+ * its budget, or everyone's spend has reached the server's. Free providers
+ * (local models, the stub) are never blocked.
+ */
+export async function checkAiBudget(provider: LLMProviderId, workspaceId: number): Promise<string | undefined> {
+  if (!isPaidProvider(provider)) return undefined;
+
+  const budget = await getMonthlyBudget(workspaceId);
+  if (budget !== null) {
+    const spent = await getMonthlySpend(workspaceId);
+    if (spent >= budget) {
+      return `Monthly AI budget of $${budget.toFixed(2)} has been reached ($${spent.toFixed(2)} spent). Raise it in Settings to continue.`;
+    }
+  }
+
+  const serverBudget = await getServerMonthlyBudget();
+  if (serverBudget !== null) {
+    const spent = await getServerMonthlySpend();
+    if (spent >= serverBudget) {
+      return `The server's monthly AI budget of $${serverBudget.toFixed(2)} has been reached. An admin of the default workspace can raise it in Settings.`;
+    }
+  }
+  return undefined;
+}
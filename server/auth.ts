@@ -0,0 +1,197 @@
+import type { Express, Request, RequestHandler } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import { pool } from "./db";
+import { loginSchema, type User as StoredUser, type PublicUser } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends PublicUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+const KEY_LENGTH = 64;
+const SESSION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Stored as salt:hash, both hex
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString('hex');
+  const hash = (await scryptAsync(password, salt, KEY_LENGTH)) as Buffer;
+  return `${salt}:${hash.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hashHex] = stored.split(':');
+  if (!salt || !hashHex) return false;
+  const storedHash = Buffer.from(hashHex, 'hex');
+  const hash = (await scryptAsync(password, salt, storedHash.length)) as Buffer;
+  return hash.length === storedHash.length && timingSafeEqual(hash, storedHash);
+}
+
+function toPublicUser({ password: _password, ...user }: StoredUser): PublicUser {
+  return user;
+}
+
+/**
+ * Sign-up is closed unless ALLOW_SIGNUP=true, since every new account gets a
+ * workspace that can spend the server's AI keys. The very first account can
+ * always be created so a fresh deployment isn't locked out.
+ */
+async function isSignupOpen(): Promise<boolean> {
+  if (process.env.ALLOW_SIGNUP?.trim().toLowerCase() === 'true') return true;
+  return (await storage.getAllUsers()).length === 0;
+}
+
+// Paths under /api that work signed out: signing in, and the health check monitoring polls
+export function isPublicApiPath(path: string): boolean {
+  return path.startsWith('/auth/') || path === '/health';
+}
+
+/**
+ * Without SESSION_SECRET a random secret is used, so everyone has to sign in
+ * again after a restart.
+ */
+function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET?.trim();
+  if (secret) return secret;
+  console.warn('SESSION_SECRET is not set; sessions will not survive a server restart');
+  return randomBytes(32).toString('hex');
+}
+
+// Sessions live in Postgres alongside everything else; in memory when there's no database
+function createSessionStore(): session.Store {
+  if (process.env.DATABASE_URL) {
+    const PostgresSessionStore = connectPg(session);
+    return new PostgresSessionStore({ pool, createTableIfMissing: true });
+  }
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+}
+
+// The signed-in user's id; only valid behind the sign-in check in setupAuth
+export function currentUserId(req: Request): number {
+  return req.user!.id;
+}
+
+/**
+ * Session cookie, login/logout/me routes, and a sign-in check in front of
+ * every other /api route. Call before any other routes are registered.
+ */
+export function setupAuth(app: Express) {
+  app.set('trust proxy', 1);
+  app.use(session({
+    secret: getSessionSecret(),
+    store: createSessionStore(),
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: 'auto',
+      maxAge: SESSION_MAX_AGE_MS,
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(username.trim());
+      if (!user || !(await verifyPassword(password, user.password))) {
+        return done(null, false);
+      }
+      return done(null, toPublicUser(user));
+    } catch (error) {
+      return done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      // A deleted account just ends the session
+      done(null, user ? toPublicUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post('/api/auth/register', async (req, res, next) => {
+    try {
+      const result = loginSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.errors[0]?.message ?? result.error.message });
+      }
+
+      if (!(await isSignupOpen())) {
+        return res.status(403).json({ error: "Sign-up is closed on this server" });
+      }
+
+      const { username, password } = result.data;
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ error: "That username is already taken" });
+      }
+
+      const user = toPublicUser(await storage.createUser({
+        username,
+        password: await hashPassword(password),
+      }));
+      req.login(user, (error) => {
+        if (error) return next(error);
+        res.status(201).json(user);
+      });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  app.post('/api/auth/login', (req, res, next) => {
+    const result = loginSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(401).json({ error: "Invalid username or password" });
+    }
+
+    passport.authenticate('local', (error: Error | null, user: Express.User | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ error: "Invalid username or password" });
+      }
+      // req.login starts a fresh session, so a planted session id can't be reused
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.json(user);
+      });
+    })(req, res, next);
+  });
+
+  app.post('/api/auth/logout', (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      req.session.destroy(() => {
+        res.clearCookie('connect.sid');
+        res.status(204).send();
+      });
+    });
+  });
+
+  app.get('/api/auth/me', (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not signed in" });
+    }
+    res.json(req.user);
+  });
+
+  const requireAuth: RequestHandler = (req, res, next) => {
+    if (isPublicApiPath(req.path) || req.isAuthenticated()) return next();
+    res.status(401).json({ error: "Sign in required" });
+  };
+  app.use('/api', requireAuth);
+}
@@ -0,0 +1,149 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import fs from "fs";
+import path from "path";
+import { storage } from "./storage";
+import { log } from "./vite";
+import {
+  CREDENTIALS,
+  type CredentialName,
+  type CredentialStatus
+} from "@shared/credentials";
+import { DEFAULT_WORKSPACE_ID } from "@shared/workspaces";
+
+// Settings that held API keys in plaintext before credentials had their own store
+const LEGACY_CREDENTIAL_SETTINGS: Record<string, CredentialName> = {
+  'openai.apiKey': 'openai',
+  'openai_api_key': 'openai',
+  'gemini_api_key': 'gemini',
+  'llm.local.apiKey': 'local-llm',
+};
+
+const CIPHER = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const HINT_LENGTH = 4;
+
+let encryptionKey: Buffer | undefined;
+
+/**
+ * The server key, from CREDENTIALS_ENCRYPTION_KEY (any passphrase; it's hashed
+ * to 32 bytes). Without it a random key is generated once and kept in
+ * CREDENTIALS_KEY_FILE, so stored keys survive restarts but not a lost file.
+ */
+function getEncryptionKey(): Buffer {
+  if (encryptionKey) return encryptionKey;
+
+  let secret = process.env.CREDENTIALS_ENCRYPTION_KEY;
+  if (!secret) {
+    const keyFile = path.resolve(process.env.CREDENTIALS_KEY_FILE || '.credentials.key');
+    if (fs.existsSync(keyFile)) {
+      secret = fs.readFileSync(keyFile, 'utf8').trim();
+    } else {
+      secret = randomBytes(32).toString('hex');
+      fs.writeFileSync(keyFile, secret, { mode: 0o600 });
+      log(`CREDENTIALS_ENCRYPTION_KEY is not set; generated a credentials key in ${keyFile}`, "credentials");
+    }
+  }
+
+  encryptionKey = createHash('sha256').update(secret).digest();
+  return encryptionKey;
+}
+
+// Stored as iv:authTag:ciphertext, all base64
+function encrypt(value: string): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(CIPHER, getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join(':');
+}
+
+function decrypt(stored: string): string {
+  const [iv, authTag, encrypted] = stored.split(':').map(part => Buffer.from(part, 'base64'));
+  const decipher = createDecipheriv(CIPHER, getEncryptionKey(), iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
+
+// Short values are masked completely
+function hintFor(value: string): string {
+  return value.length >= HINT_LENGTH * 3 ? value.slice(-HINT_LENGTH) : '';
+}
+
+function mask(hint: string): string {
+  return `••••${hint}`;
+}
+
+function envValue(name: CredentialName): string | undefined {
+  const definition = CREDENTIALS.find(credential => credential.name === name)!;
+  return process.env[definition.envVar]?.trim() || undefined;
+}
+
+/**
+ * Resolve a credential: the environment variable wins, then the stored value.
+ * A stored value that can't be decrypted (the server key changed) counts as unset.
+ */
+export async function getCredential(name: CredentialName): Promise<string | undefined> {
+  const fromEnv = envValue(name);
+  if (fromEnv) return fromEnv;
+
+  const stored = await storage.getCredential(name);
+  if (!stored) return undefined;
+  try {
+    return decrypt(stored.encryptedValue);
+  } catch (error) {
+    log(`Could not decrypt the stored ${name} credential; was the server key changed? ${(error as Error).message}`, "credentials");
+    return undefined;
+  }
+}
+
+export async function setCredential(name: CredentialName, value: string): Promise<void> {
+  const trimmed = value.trim();
+  await storage.saveCredential({
+    name,
+    encryptedValue: encrypt(trimmed),
+    hint: hintFor(trimmed)
+  });
+}
+
+export async function deleteCredential(name: CredentialName): Promise<void> {
+  await storage.deleteCredential(name);
+}
+
+export async function getCredentialStatuses(): Promise<CredentialStatus[]> {
+  const stored = await storage.getAllCredentials();
+
+  return CREDENTIALS.map(definition => {
+    const fromEnv = envValue(definition.name);
+    const saved = stored.find(credential => credential.name === definition.name);
+    return {
+      name: definition.name,
+      label: definition.label,
+      envVar: definition.envVar,
+      source: fromEnv ? 'environment' : saved ? 'stored' : null,
+      masked: fromEnv ? mask(hintFor(fromEnv)) : saved ? mask(saved.hint) : null,
+      updatedAt: saved ? saved.updatedAt.toISOString() : null
+    };
+  });
+}
+
+// True for settings keys that used to hold API keys; these can no longer be written as settings
+export function isLegacyCredentialSetting(key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(LEGACY_CREDENTIAL_SETTINGS, key);
+}
+
+/**
+ * Move API keys saved as plaintext settings into the encrypted store and
+ * delete the settings. An already stored credential is never overwritten.
+ */
+export async function migrateLegacyCredentials(): Promise<void> {
+  for (const [key, name] of Object.entries(LEGACY_CREDENTIAL_SETTINGS)) {
+    // Keys were only ever saved before workspaces existed
+    const setting = await storage.getSetting(key, DEFAULT_WORKSPACE_ID);
+    if (!setting) continue;
+
+    if (setting.value?.trim() && !(await storage.getCredential(name))) {
+      await setCredential(name, setting.value);
+      log(`Moved the ${name} API key from settings into encrypted credentials`, "credentials");
+    }
+    await storage.deleteSetting(key, DEFAULT_WORKSPACE_ID);
+  }
+}
@@ -5,7 +5,7 @@ const { Pool } = pg;
 import { log } from './vite';
 
 // Create database connection
-const pool = new Pool({
+export const pool = new Pool({
   connectionString: process.env.DATABASE_URL,
 });
 
@@ -36,17 +36,8 @@ export async function initDatabase() {
       await runMigrations();
     } catch (migrationError) {
       log(`Migration warning: ${(migrationError as Error).message}`, 'db');
-      log('Continuing without migrations...', 'db');
-      
-      // Create tables directly if migrations fail
-      try {
-        log('Attempting to create tables directly...', 'db');
-        await createTablesDirectly();
-        log('Tables created successfully', 'db');
-      } catch (tableError) {
-        log(`Table creation warning: ${(tableError as Error).message}`, 'db');
-        log('Tables may already exist, continuing...', 'db');
-      }
+      // The schema comes from shared/schema.ts; a hand-written copy here would drift from it
+      log('Continuing without migrations; run `npm run db:push` if tables are missing', 'db');
     }
     
     return true;
@@ -55,65 +46,3 @@ export async function initDatabase() {
     throw error;
   }
 }
-
-// Create tables directly if migrations fail
-async function createTablesDirectly() {
-  // Create users table
-  await pool.query(`
-    CREATE TABLE IF NOT EXISTS users (
-      id SERIAL PRIMARY KEY,
-      username TEXT NOT NULL UNIQUE,
-      password_hash TEXT NOT NULL
-    )
-  `);
-  
-  // Create use_cases table
-  await pool.query(`
-    CREATE TABLE IF NOT EXISTS use_cases (
-      id SERIAL PRIMARY KEY,
-      title TEXT NOT NULL,
-      description TEXT,
-      conversation_flow TEXT NOT NULL,
-      node_positions TEXT,
-      created_at TIMESTAMP WITH TIME ZONE NOT NULL,
-      updated_at TIMESTAMP WITH TIME ZONE NOT NULL
-    )
-  `);
-  
-  // Create flow_nodes table
-  await pool.query(`
-    CREATE TABLE IF NOT EXISTS flow_nodes (
-      id SERIAL PRIMARY KEY,
-      use_case_id INTEGER NOT NULL REFERENCES use_cases(id),
-      step_number INTEGER NOT NULL,
-      step_type TEXT,
-      messages TEXT NOT NULL,
-      next_node_id INTEGER,
-      position_x REAL,
-      position_y REAL
-    )
-  `);
-  
-  // Create settings table
-  await pool.query(`
-    CREATE TABLE IF NOT EXISTS settings (
-      id SERIAL PRIMARY KEY,
-      key TEXT NOT NULL UNIQUE,
-      value TEXT,
-      created_at TIMESTAMP WITH TIME ZONE NOT NULL,
-      updated_at TIMESTAMP WITH TIME ZONE NOT NULL
-    )
-  `);
-  
-  // Create customer_journeys table
-  await pool.query(`
-    CREATE TABLE IF NOT EXISTS customer_journeys (
-      id SERIAL PRIMARY KEY,
-      title TEXT NOT NULL,
-      nodes JSONB NOT NULL,
-      edges JSONB NOT NULL,
-      created_at TIMESTAMP WITH TIME ZONE NOT NULL,
-      updated_at TIMESTAMP WITH TIME ZONE NOT NULL
-    )
-  `);
-}
\ No newline at end of file
@@ -1,26 +1,53 @@
 import { db } from './db';
 import { 
   users, 
+  workspaces,
+  workspaceMembers,
   useCases, 
   flowNodes,
+  simulationRuns,
+  promptTemplates,
+  aiUsage,
+  aiResponseCache,
   settings,
+  credentials,
   customerJourneys,
   customers,
   actionPlans,
   agentJourneys,
+  revisions,
   type User, 
   type InsertUser, 
+  type Workspace,
+  type InsertWorkspace,
+  type WorkspaceMember,
+  type InsertWorkspaceMember,
+  type WorkspaceMembership,
+  type WorkspaceMemberView,
   type UseCase, 
   type InsertUseCase, 
   type UpdateUseCase,
+  type MessageSentiment,
   type FlowNode,
   type InsertFlowNode,
+  type SimulationRun,
+  type InsertSimulationRun,
+  type PromptTemplate,
+  type InsertPromptTemplate,
+  type AiUsage,
+  type InsertAiUsage,
+  type AiUsageSummary,
+  type AiResponseCache,
+  type InsertAiResponseCache,
   type Setting,
   type InsertSetting,
   type UpdateSetting,
+  type Credential,
+  type InsertCredential,
   type CustomerJourney,
   type InsertCustomerJourney,
   type UpdateCustomerJourney,
+  type JourneyStepSentiment,
   type Customer,
   type InsertCustomer,
   type UpdateCustomer,
@@ -29,10 +56,19 @@ import {
   type UpdateActionPlan,
   type AgentJourney,
   type InsertAgentJourney,
-  type UpdateAgentJourney
+  type UpdateAgentJourney,
+  type Revision,
+  type InsertRevision,
+  type RevisionSummary
 } from "@shared/schema";
-import { eq } from 'drizzle-orm';
-import { IStorage } from './storage';
+import type { RevisionEntityType } from "@shared/revisions";
+import type { TrashEntityType, TrashItem } from "@shared/trash";
+import { eq, and, desc, gt, gte, isNull, isNotNull, sql } from 'drizzle-orm';
+import { IStorage, type RecordScope } from './storage';
+import { DEFAULT_WORKSPACE_ID } from '@shared/workspaces';
+
+// The database itself or an open transaction on it
+type DbExecutor = Pick<typeof db, 'update' | 'delete'>;
 
 export class DbStorage implements IStorage {
   // User methods
@@ -41,6 +77,10 @@ export class DbStorage implements IStorage {
     return results.length ? results[0] : undefined;
   }
 
+  async getAllUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(users.username);
+  }
+
   async getUserByUsername(username: string): Promise<User | undefined> {
     const results = await db.select().from(users).where(eq(users.username, username));
     return results.length ? results[0] : undefined;
@@ -51,18 +91,96 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
+  // Workspace methods
+  async getWorkspace(id: number): Promise<Workspace | undefined> {
+    const results = await db.select().from(workspaces).where(eq(workspaces.id, id));
+    return results.length ? results[0] : undefined;
+  }
+
+  async getAllWorkspaces(): Promise<Workspace[]> {
+    return await db.select().from(workspaces).orderBy(workspaces.id);
+  }
+
+  async getWorkspacesForUser(userId: number): Promise<WorkspaceMembership[]> {
+    return await db.select({
+      id: workspaces.id,
+      name: workspaces.name,
+      createdAt: workspaces.createdAt,
+      role: workspaceMembers.role
+    })
+      .from(workspaceMembers)
+      .innerJoin(workspaces, eq(workspaceMembers.workspaceId, workspaces.id))
+      .where(eq(workspaceMembers.userId, userId))
+      .orderBy(workspaces.name);
+  }
+
+  async createWorkspace(insertWorkspace: InsertWorkspace, ownerId: number): Promise<Workspace> {
+    const result = await db.insert(workspaces).values(insertWorkspace).returning();
+    await this.saveWorkspaceMember({ workspaceId: result[0].id, userId: ownerId, role: 'admin' });
+    await this.seedDefaultSettings(result[0].id);
+    return result[0];
+  }
+
+  async updateWorkspace(id: number, updateData: InsertWorkspace): Promise<Workspace> {
+    const result = await db.update(workspaces)
+      .set({ name: updateData.name })
+      .where(eq(workspaces.id, id))
+      .returning();
+    
+    if (!result[0]) {
+      throw new Error(`Workspace with id ${id} not found`);
+    }
+    return result[0];
+  }
+
+  async getWorkspaceMembers(workspaceId: number): Promise<WorkspaceMemberView[]> {
+    return await db.select({
+      userId: users.id,
+      username: users.username,
+      role: workspaceMembers.role,
+      joinedAt: workspaceMembers.createdAt
+    })
+      .from(workspaceMembers)
+      .innerJoin(users, eq(workspaceMembers.userId, users.id))
+      .where(eq(workspaceMembers.workspaceId, workspaceId))
+      .orderBy(users.username);
+  }
+
+  async getWorkspaceMember(workspaceId: number, userId: number): Promise<WorkspaceMember | undefined> {
+    const results = await db.select()
+      .from(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+    return results.length ? results[0] : undefined;
+  }
+
+  async saveWorkspaceMember(member: InsertWorkspaceMember): Promise<WorkspaceMember> {
+    const result = await db.insert(workspaceMembers)
+      .values(member)
+      .onConflictDoUpdate({
+        target: [workspaceMembers.workspaceId, workspaceMembers.userId],
+        set: { role: member.role }
+      })
+      .returning();
+    return result[0];
+  }
+
+  async removeWorkspaceMember(workspaceId: number, userId: number): Promise<void> {
+    await db.delete(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+  }
+
   // Use case methods
-  async getAllUseCases(): Promise<UseCase[]> {
-    const results = await db.select().from(useCases).orderBy(useCases.updatedAt);
+  async getAllUseCases(workspaceId: number): Promise<UseCase[]> {
+    const results = await db.select().from(useCases).where(and(eq(useCases.workspaceId, workspaceId), isNull(useCases.deletedAt))).orderBy(useCases.updatedAt);
     return results;
   }
 
-  async getUseCase(id: number): Promise<UseCase | undefined> {
-    const results = await db.select().from(useCases).where(eq(useCases.id, id));
+  async getUseCase(id: number, workspaceId: number): Promise<UseCase | undefined> {
+    const results = await db.select().from(useCases).where(and(eq(useCases.id, id), eq(useCases.workspaceId, workspaceId), isNull(useCases.deletedAt)));
     return results.length ? results[0] : undefined;
   }
 
-  async createUseCase(insertUseCase: InsertUseCase): Promise<UseCase> {
+  async createUseCase(insertUseCase: InsertUseCase, { workspaceId, userId }: RecordScope): Promise<UseCase> {
     const now = new Date();
     const result = await db.insert(useCases).values({
       ...insertUseCase,
@@ -79,14 +197,17 @@ export class DbStorage implements IStorage {
       estimatedImpact: insertUseCase.estimatedImpact ?? null,
       conversationFlow: insertUseCase.conversationFlow ?? null,
       nodePositions: insertUseCase.nodePositions ?? null,
+      workspaceId,
+      createdBy: userId ?? null,
+      updatedBy: userId ?? null,
       createdAt: now,
       updatedAt: now
     }).returning();
     return result[0];
   }
 
-  async updateUseCase(id: number, updateData: UpdateUseCase): Promise<UseCase> {
-    const existingUseCase = await this.getUseCase(id);
+  async updateUseCase(id: number, updateData: UpdateUseCase, { workspaceId, userId }: RecordScope): Promise<UseCase> {
+    const existingUseCase = await this.getUseCase(id, workspaceId);
     if (!existingUseCase) {
       throw new Error(`Use case with id ${id} not found`);
     }
@@ -94,6 +215,7 @@ export class DbStorage implements IStorage {
     const result = await db.update(useCases)
       .set({
         ...updateData,
+        ...(userId !== undefined && { updatedBy: userId }),
         updatedAt: new Date()
       })
       .where(eq(useCases.id, id))
@@ -102,12 +224,21 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
-  async deleteUseCase(id: number): Promise<void> {
-    // First delete any associated flow nodes
-    await db.delete(flowNodes).where(eq(flowNodes.useCaseId, id));
+  // Scores aren't an edit, so updatedAt is left alone
+  async saveUseCaseSentiment(id: number, sentiment: MessageSentiment[]): Promise<UseCase> {
+    const result = await db.update(useCases)
+      .set({ sentiment })
+      .where(eq(useCases.id, id))
+      .returning();
     
-    // Then delete the use case
-    await db.delete(useCases).where(eq(useCases.id, id));
+    if (!result[0]) {
+      throw new Error(`Use case with id ${id} not found`);
+    }
+    return result[0];
+  }
+
+  async deleteUseCase(id: number, workspaceId: number): Promise<void> {
+    await this.setDeletedAt('use-case', id, workspaceId, new Date());
   }
 
   // Flow node methods
@@ -150,21 +281,130 @@ export class DbStorage implements IStorage {
     await db.delete(flowNodes).where(eq(flowNodes.id, id));
   }
 
+  // Simulation run methods
+  async getSimulationRunsForUseCase(useCaseId: number): Promise<SimulationRun[]> {
+    const results = await db.select()
+      .from(simulationRuns)
+      .where(eq(simulationRuns.useCaseId, useCaseId))
+      .orderBy(simulationRuns.createdAt);
+
+    return results;
+  }
+
+  async createSimulationRun(insertRun: InsertSimulationRun): Promise<SimulationRun> {
+    const result = await db.insert(simulationRuns).values(insertRun).returning();
+    return result[0];
+  }
+
+  // Prompt template methods
+  async getLatestPromptTemplates(): Promise<PromptTemplate[]> {
+    const results = await db.select()
+      .from(promptTemplates)
+      .orderBy(promptTemplates.name, desc(promptTemplates.version));
+
+    // Rows come newest first within each name, so keep the first of each
+    const latest = new Map<string, PromptTemplate>();
+    results.forEach(template => {
+      if (!latest.has(template.name)) {
+        latest.set(template.name, template);
+      }
+    });
+    return Array.from(latest.values());
+  }
+
+  async getPromptTemplateVersions(name: string): Promise<PromptTemplate[]> {
+    const results = await db.select()
+      .from(promptTemplates)
+      .where(eq(promptTemplates.name, name))
+      .orderBy(desc(promptTemplates.version));
+
+    return results;
+  }
+
+  async createPromptTemplateVersion(insertTemplate: InsertPromptTemplate): Promise<PromptTemplate> {
+    const [latest] = await this.getPromptTemplateVersions(insertTemplate.name);
+    const result = await db.insert(promptTemplates).values({
+      ...insertTemplate,
+      version: (latest?.version ?? 0) + 1
+    }).returning();
+    return result[0];
+  }
+
+  // AI usage methods
+  async recordAiUsage(insertUsage: InsertAiUsage): Promise<AiUsage> {
+    const result = await db.insert(aiUsage).values(insertUsage).returning();
+    return result[0];
+  }
+
+  async getAiUsageSummary(since: Date, workspaceId: number): Promise<AiUsageSummary[]> {
+    const results = await db.select({
+      feature: aiUsage.feature,
+      calls: sql<number>`count(*)::int`,
+      failures: sql<number>`count(*) filter (where not ${aiUsage.success})::int`,
+      promptTokens: sql<number>`coalesce(sum(${aiUsage.promptTokens}), 0)::int`,
+      completionTokens: sql<number>`coalesce(sum(${aiUsage.completionTokens}), 0)::int`,
+      estimatedCost: sql<number>`coalesce(sum(${aiUsage.estimatedCost}), 0)::float8`,
+      averageLatencyMs: sql<number>`round(avg(${aiUsage.latencyMs}))::int`
+    })
+      .from(aiUsage)
+      .where(and(gte(aiUsage.createdAt, since), eq(aiUsage.workspaceId, workspaceId)))
+      .groupBy(aiUsage.feature);
+
+    return results;
+  }
+
+  async getRecentAiUsage(limit: number, workspaceId: number): Promise<AiUsage[]> {
+    const results = await db.select()
+      .from(aiUsage)
+      .where(eq(aiUsage.workspaceId, workspaceId))
+      .orderBy(desc(aiUsage.id))
+      .limit(limit);
+
+    return results;
+  }
+
+  // AI response cache methods
+  async getCachedAiResponse(key: string): Promise<AiResponseCache | undefined> {
+    const results = await db.select()
+      .from(aiResponseCache)
+      .where(and(eq(aiResponseCache.key, key), gt(aiResponseCache.expiresAt, new Date())));
+    return results.length ? results[0] : undefined;
+  }
+
+  async setCachedAiResponse(entry: InsertAiResponseCache): Promise<AiResponseCache> {
+    const result = await db.insert(aiResponseCache)
+      .values(entry)
+      .onConflictDoUpdate({
+        target: aiResponseCache.key,
+        set: { response: entry.response, expiresAt: entry.expiresAt, createdAt: new Date() }
+      })
+      .returning();
+    return result[0];
+  }
+
+  async clearAiResponseCache(workspaceId: number): Promise<number> {
+    const result = await db.delete(aiResponseCache)
+      .where(eq(aiResponseCache.workspaceId, workspaceId))
+      .returning({ key: aiResponseCache.key });
+    return result.length;
+  }
+
   // Settings methods
-  async getAllSettings(): Promise<Setting[]> {
-    const results = await db.select().from(settings);
+  async getAllSettings(workspaceId: number): Promise<Setting[]> {
+    const results = await db.select().from(settings).where(eq(settings.workspaceId, workspaceId));
     return results;
   }
 
-  async getSetting(key: string): Promise<Setting | undefined> {
-    const results = await db.select().from(settings).where(eq(settings.key, key));
+  async getSetting(key: string, workspaceId: number): Promise<Setting | undefined> {
+    const results = await db.select().from(settings).where(and(eq(settings.key, key), eq(settings.workspaceId, workspaceId)));
     return results.length ? results[0] : undefined;
   }
 
-  async createSetting(insertSetting: InsertSetting): Promise<Setting> {
+  async createSetting(insertSetting: InsertSetting, workspaceId: number): Promise<Setting> {
     const now = new Date();
     const result = await db.insert(settings).values({
       ...insertSetting,
+      workspaceId,
       value: insertSetting.value ?? null,
       createdAt: now,
       updatedAt: now
@@ -172,8 +412,8 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
-  async updateSetting(key: string, updateData: UpdateSetting): Promise<Setting> {
-    const existingSetting = await this.getSetting(key);
+  async updateSetting(key: string, updateData: UpdateSetting, workspaceId: number): Promise<Setting> {
+    const existingSetting = await this.getSetting(key, workspaceId);
     if (!existingSetting) {
       throw new Error(`Setting with key '${key}' not found`);
     }
@@ -183,41 +423,70 @@ export class DbStorage implements IStorage {
         ...updateData,
         updatedAt: new Date()
       })
-      .where(eq(settings.key, key))
+      .where(and(eq(settings.key, key), eq(settings.workspaceId, workspaceId)))
       .returning();
     
     return result[0];
   }
 
-  async deleteSetting(key: string): Promise<void> {
-    await db.delete(settings).where(eq(settings.key, key));
+  async deleteSetting(key: string, workspaceId: number): Promise<void> {
+    await db.delete(settings).where(and(eq(settings.key, key), eq(settings.workspaceId, workspaceId)));
+  }
+  
+  // Credential methods
+  async getAllCredentials(): Promise<Credential[]> {
+    return await db.select().from(credentials);
+  }
+
+  async getCredential(name: string): Promise<Credential | undefined> {
+    const results = await db.select().from(credentials).where(eq(credentials.name, name));
+    return results.length ? results[0] : undefined;
+  }
+
+  async saveCredential(credential: InsertCredential): Promise<Credential> {
+    const result = await db.insert(credentials)
+      .values(credential)
+      .onConflictDoUpdate({
+        target: credentials.name,
+        set: { encryptedValue: credential.encryptedValue, hint: credential.hint, updatedAt: new Date() }
+      })
+      .returning();
+    return result[0];
+  }
+
+  async deleteCredential(name: string): Promise<void> {
+    await db.delete(credentials).where(eq(credentials.name, name));
   }
   
   // Customer Journey methods
-  async getAllCustomerJourneys(): Promise<CustomerJourney[]> {
+  async getAllCustomerJourneys(workspaceId: number): Promise<CustomerJourney[]> {
     const results = await db.select()
       .from(customerJourneys)
+      .where(and(eq(customerJourneys.workspaceId, workspaceId), isNull(customerJourneys.deletedAt)))
       .orderBy(customerJourneys.updatedAt);
     return results;
   }
   
-  async getCustomerJourney(id: number): Promise<CustomerJourney | undefined> {
-    const results = await db.select().from(customerJourneys).where(eq(customerJourneys.id, id));
+  async getCustomerJourney(id: number, workspaceId: number): Promise<CustomerJourney | undefined> {
+    const results = await db.select().from(customerJourneys).where(and(eq(customerJourneys.id, id), eq(customerJourneys.workspaceId, workspaceId), isNull(customerJourneys.deletedAt)));
     return results.length ? results[0] : undefined;
   }
   
-  async createCustomerJourney(journeyData: InsertCustomerJourney): Promise<CustomerJourney> {
+  async createCustomerJourney(journeyData: InsertCustomerJourney, { workspaceId, userId }: RecordScope): Promise<CustomerJourney> {
     const now = new Date();
     const result = await db.insert(customerJourneys).values({
       ...journeyData,
+      workspaceId,
+      createdBy: userId ?? null,
+      updatedBy: userId ?? null,
       createdAt: now,
       updatedAt: now
     }).returning();
     return result[0];
   }
   
-  async updateCustomerJourney(id: number, updateData: UpdateCustomerJourney): Promise<CustomerJourney> {
-    const existingJourney = await this.getCustomerJourney(id);
+  async updateCustomerJourney(id: number, updateData: UpdateCustomerJourney, { workspaceId, userId }: RecordScope): Promise<CustomerJourney> {
+    const existingJourney = await this.getCustomerJourney(id, workspaceId);
     if (!existingJourney) {
       throw new Error(`Customer journey with id ${id} not found`);
     }
@@ -225,6 +494,7 @@ export class DbStorage implements IStorage {
     const result = await db.update(customerJourneys)
       .set({
         ...updateData,
+        ...(userId !== undefined && { updatedBy: userId }),
         updatedAt: new Date()
       })
       .where(eq(customerJourneys.id, id))
@@ -233,35 +503,51 @@ export class DbStorage implements IStorage {
     return result[0];
   }
   
-  async deleteCustomerJourney(id: number): Promise<void> {
-    await db.delete(customerJourneys).where(eq(customerJourneys.id, id));
+  async saveCustomerJourneySentiment(id: number, sentiment: JourneyStepSentiment[]): Promise<CustomerJourney> {
+    const result = await db.update(customerJourneys)
+      .set({ sentiment })
+      .where(eq(customerJourneys.id, id))
+      .returning();
+    
+    if (!result[0]) {
+      throw new Error(`Customer journey with id ${id} not found`);
+    }
+    return result[0];
+  }
+  
+  async deleteCustomerJourney(id: number, workspaceId: number): Promise<void> {
+    await this.setDeletedAt('customer-journey', id, workspaceId, new Date());
   }
   
   // Customer methods
-  async getAllCustomers(): Promise<Customer[]> {
+  async getAllCustomers(workspaceId: number): Promise<Customer[]> {
     const results = await db.select()
       .from(customers)
+      .where(and(eq(customers.workspaceId, workspaceId), isNull(customers.deletedAt)))
       .orderBy(customers.companyName);
     return results;
   }
   
-  async getCustomer(id: number): Promise<Customer | undefined> {
-    const results = await db.select().from(customers).where(eq(customers.id, id));
+  async getCustomer(id: number, workspaceId: number): Promise<Customer | undefined> {
+    const results = await db.select().from(customers).where(and(eq(customers.id, id), eq(customers.workspaceId, workspaceId), isNull(customers.deletedAt)));
     return results.length ? results[0] : undefined;
   }
   
-  async createCustomer(customerData: InsertCustomer): Promise<Customer> {
+  async createCustomer(customerData: InsertCustomer, { workspaceId, userId }: RecordScope): Promise<Customer> {
     const now = new Date();
     const result = await db.insert(customers).values({
       ...customerData,
+      workspaceId,
+      createdBy: userId ?? null,
+      updatedBy: userId ?? null,
       createdAt: now,
       updatedAt: now
     }).returning();
     return result[0];
   }
   
-  async updateCustomer(id: number, updateData: UpdateCustomer): Promise<Customer> {
-    const existingCustomer = await this.getCustomer(id);
+  async updateCustomer(id: number, updateData: UpdateCustomer, { workspaceId, userId }: RecordScope): Promise<Customer> {
+    const existingCustomer = await this.getCustomer(id, workspaceId);
     if (!existingCustomer) {
       throw new Error(`Customer with id ${id} not found`);
     }
@@ -269,6 +555,7 @@ export class DbStorage implements IStorage {
     const result = await db.update(customers)
       .set({
         ...updateData,
+        ...(userId !== undefined && { updatedBy: userId }),
         updatedAt: new Date()
       })
       .where(eq(customers.id, id))
@@ -277,24 +564,25 @@ export class DbStorage implements IStorage {
     return result[0];
   }
   
-  async deleteCustomer(id: number): Promise<void> {
-    await db.delete(customers).where(eq(customers.id, id));
+  async deleteCustomer(id: number, workspaceId: number): Promise<void> {
+    await this.setDeletedAt('customer', id, workspaceId, new Date());
   }
   
   // Action Plan methods
-  async getAllActionPlans(): Promise<ActionPlan[]> {
+  async getAllActionPlans(workspaceId: number): Promise<ActionPlan[]> {
     const results = await db.select()
       .from(actionPlans)
+      .where(and(eq(actionPlans.workspaceId, workspaceId), isNull(actionPlans.deletedAt)))
       .orderBy(actionPlans.updatedAt);
     return results;
   }
   
-  async getActionPlan(id: number): Promise<ActionPlan | undefined> {
-    const results = await db.select().from(actionPlans).where(eq(actionPlans.id, id));
+  async getActionPlan(id: number, workspaceId: number): Promise<ActionPlan | undefined> {
+    const results = await db.select().from(actionPlans).where(and(eq(actionPlans.id, id), eq(actionPlans.workspaceId, workspaceId), isNull(actionPlans.deletedAt)));
     return results.length ? results[0] : undefined;
   }
   
-  async createActionPlan(planData: InsertActionPlan): Promise<ActionPlan> {
+  async createActionPlan(planData: InsertActionPlan, { workspaceId, userId }: RecordScope): Promise<ActionPlan> {
     const now = new Date();
     
     console.log("DbStorage createActionPlan - Received aiGoals:", JSON.stringify(planData.aiGoals, null, 2));
@@ -335,6 +623,9 @@ export class DbStorage implements IStorage {
       ...planData,
       aiGoals: aiGoals,
       successMetrics: Array.isArray(planData.successMetrics) ? planData.successMetrics : [],
+      workspaceId,
+      createdBy: userId ?? null,
+      updatedBy: userId ?? null,
       createdAt: now,
       updatedAt: now
     };
@@ -347,8 +638,8 @@ export class DbStorage implements IStorage {
     return result[0];
   }
   
-  async updateActionPlan(id: number, updateData: UpdateActionPlan): Promise<ActionPlan> {
-    const existingPlan = await this.getActionPlan(id);
+  async updateActionPlan(id: number, updateData: Partial<UpdateActionPlan>, { workspaceId, userId }: RecordScope): Promise<ActionPlan> {
+    const existingPlan = await this.getActionPlan(id, workspaceId);
     if (!existingPlan) {
       throw new Error(`Action plan with id ${id} not found`);
     }
@@ -396,6 +687,7 @@ export class DbStorage implements IStorage {
       successMetrics: updateData.successMetrics !== undefined 
         ? (Array.isArray(updateData.successMetrics) ? updateData.successMetrics : []) 
         : existingPlan.successMetrics,
+      ...(userId !== undefined && { updatedBy: userId }),
       updatedAt: new Date()
     };
     
@@ -411,13 +703,19 @@ export class DbStorage implements IStorage {
     return result[0];
   }
   
-  async deleteActionPlan(id: number): Promise<void> {
-    await db.delete(actionPlans).where(eq(actionPlans.id, id));
+  async deleteActionPlan(id: number, workspaceId: number): Promise<void> {
+    await this.setDeletedAt('action-plan', id, workspaceId, new Date());
   }
 
   // Function to seed initial data after migrations
   async seedInitialData(): Promise<void> {
-    const existingUseCases = await this.getAllUseCases();
+    // The migration creates the default workspace; a fresh database needs it too
+    await db.insert(workspaces)
+      .values({ id: DEFAULT_WORKSPACE_ID, name: 'Default workspace' })
+      .onConflictDoNothing();
+    await db.execute(sql`select setval(pg_get_serial_sequence('workspaces', 'id'), greatest((select max(id) from workspaces), 1))`);
+
+    const existingUseCases = await this.getAllUseCases(DEFAULT_WORKSPACE_ID);
     
     // Only seed if there are no existing use cases
     if (existingUseCases.length === 0) {
@@ -425,28 +723,29 @@ export class DbStorage implements IStorage {
     }
 
     // Seed default settings if they don't exist
-    await this.seedDefaultSettings();
+    await this.seedDefaultSettings(DEFAULT_WORKSPACE_ID);
   }
 
   // Helper method to seed default settings
-  private async seedDefaultSettings(): Promise<void> {
+  private async seedDefaultSettings(workspaceId: number): Promise<void> {
     const defaultSettings = [
-      { key: 'openai_api_key', value: '' },
       { key: 'openai_system_prompt', value: 'You are a helpful assistant that responds to customer requests. Your goal is to understand the customer needs and provide clear, concise and helpful responses.' },
       { key: 'openai_user_prompt', value: 'Please respond to the following customer message in a professional and helpful manner:' },
       { key: 'agent_persona', value: 'Friendly, professional, and solution-oriented customer service representative who communicates clearly and efficiently while maintaining a positive tone.' }
     ];
 
     for (const setting of defaultSettings) {
-      const existingSetting = await this.getSetting(setting.key);
+      const existingSetting = await this.getSetting(setting.key, workspaceId);
       if (!existingSetting) {
-        await this.createSetting(setting);
+        await this.createSetting(setting, workspaceId);
       }
     }
   }
 
   // Helper method to add sample data
   private async createSampleUseCases() {
+    const scope: RecordScope = { workspaceId: DEFAULT_WORKSPACE_ID };
+
     // Sample use case 1: Customer Order Inquiry
     await this.createUseCase({
       title: "Customer Order Inquiry",
@@ -472,7 +771,7 @@ Agent: I've upgraded your shipping to express delivery. The additional charge ha
 →
 Customer: Great, thank you. When will I receive the tracking number?
 Agent: You'll receive an email with the tracking information as soon as your order ships, which should be within 24 hours. Is there anything else I can help you with today?`
-    });
+    }, scope);
     
     // Sample use case 2: Product Recommendation
     await this.createUseCase({
@@ -503,7 +802,7 @@ Agent: Great choice! I'll add the TechPro X5 to your cart with the promotional i
 →
 Customer: I'll check out now.
 Agent: Perfect! I'll guide you through our quick checkout process. Would you prefer standard shipping or expedited delivery?`
-    });
+    }, scope);
     
     // Sample use case 3: Account Setup
     await this.createUseCase({
@@ -530,14 +829,15 @@ Agent: Great! Your account has been created successfully. Would you like to set
 →
 Customer: Yes, that sounds like a good idea.
 Agent: Excellent choice! I'll guide you through the two-factor authentication setup. Would you prefer to use SMS or an authenticator app for receiving codes?`
-    });
+    }, scope);
   }
 
   // Agent Journey methods
-  async getAllAgentJourneys(): Promise<AgentJourney[]> {
+  async getAllAgentJourneys(workspaceId: number): Promise<AgentJourney[]> {
     try {
       const results = await db.select()
         .from(agentJourneys)
+        .where(and(eq(agentJourneys.workspaceId, workspaceId), isNull(agentJourneys.deletedAt)))
         .orderBy(agentJourneys.updatedAt);
       return results;
     } catch (error) {
@@ -546,9 +846,9 @@ Agent: Excellent choice! I'll guide you through the two-factor authentication se
     }
   }
   
-  async getAgentJourney(id: number): Promise<AgentJourney | undefined> {
+  async getAgentJourney(id: number, workspaceId: number): Promise<AgentJourney | undefined> {
     try {
-      const results = await db.select().from(agentJourneys).where(eq(agentJourneys.id, id));
+      const results = await db.select().from(agentJourneys).where(and(eq(agentJourneys.id, id), eq(agentJourneys.workspaceId, workspaceId), isNull(agentJourneys.deletedAt)));
       return results.length ? results[0] : undefined;
     } catch (error) {
       console.error(`Error in getAgentJourney(${id}):`, error);
@@ -556,7 +856,7 @@ Agent: Excellent choice! I'll guide you through the two-factor authentication se
     }
   }
   
-  async createAgentJourney(journeyData: InsertAgentJourney): Promise<AgentJourney> {
+  async createAgentJourney(journeyData: InsertAgentJourney, { workspaceId, userId }: RecordScope): Promise<AgentJourney> {
     const now = new Date();
     
     console.log('Creating agent journey with title:', journeyData.title);
@@ -574,6 +874,9 @@ Agent: Excellent choice! I'll guide you through the two-factor authentication se
         contextManagement: journeyData.contextManagement || null,
         escalationRules: journeyData.escalationRules || null,
         errorMonitoring: journeyData.errorMonitoring || null,
+        workspaceId,
+        createdBy: userId ?? null,
+        updatedBy: userId ?? null,
         createdAt: now,
         updatedAt: now
       };
@@ -631,8 +934,8 @@ Agent: Excellent choice! I'll guide you through the two-factor authentication se
     }
   }
   
-  async updateAgentJourney(id: number, updateData: UpdateAgentJourney): Promise<AgentJourney> {
-    const existingJourney = await this.getAgentJourney(id);
+  async updateAgentJourney(id: number, updateData: UpdateAgentJourney, { workspaceId, userId }: RecordScope): Promise<AgentJourney> {
+    const existingJourney = await this.getAgentJourney(id, workspaceId);
     if (!existingJourney) {
       throw new Error(`Agent journey with id ${id} not found`);
     }
@@ -656,6 +959,7 @@ Agent: Excellent choice! I'll guide you through the two-factor authentication se
       if (updateData.contextManagement !== undefined) updateFields.contextManagement = updateData.contextManagement || null;
       if (updateData.escalationRules !== undefined) updateFields.escalationRules = updateData.escalationRules || null;
       if (updateData.errorMonitoring !== undefined) updateFields.errorMonitoring = updateData.errorMonitoring || null;
+      if (userId !== undefined) updateFields.updatedBy = userId;
       
       // Handle special JSON fields
       
@@ -711,7 +1015,213 @@ Agent: Excellent choice! I'll guide you through the two-factor authentication se
     }
   }
   
-  async deleteAgentJourney(id: number): Promise<void> {
-    await db.delete(agentJourneys).where(eq(agentJourneys.id, id));
+  async deleteAgentJourney(id: number, workspaceId: number): Promise<void> {
+    await this.setDeletedAt('agent-journey', id, workspaceId, new Date());
+  }
+
+  // Revision methods
+  async getRevisions(entityType: RevisionEntityType, entityId: number, workspaceId: number): Promise<RevisionSummary[]> {
+    const results = await db.select({
+      id: revisions.id,
+      workspaceId: revisions.workspaceId,
+      entityType: revisions.entityType,
+      entityId: revisions.entityId,
+      label: revisions.label,
+      restoredFromId: revisions.restoredFromId,
+      createdBy: revisions.createdBy,
+      createdAt: revisions.createdAt
+    })
+      .from(revisions)
+      .where(and(
+        eq(revisions.entityType, entityType),
+        eq(revisions.entityId, entityId),
+        eq(revisions.workspaceId, workspaceId)
+      ))
+      .orderBy(desc(revisions.id));
+
+    return results;
+  }
+
+  async getRevision(id: number, workspaceId: number): Promise<Revision | undefined> {
+    const results = await db.select()
+      .from(revisions)
+      .where(and(eq(revisions.id, id), eq(revisions.workspaceId, workspaceId)));
+    return results[0];
+  }
+
+  async createRevision(insertRevision: InsertRevision): Promise<Revision> {
+    const result = await db.insert(revisions).values(insertRevision).returning();
+    return result[0];
+  }
+
+  async updateRevisionLabel(id: number, label: string | null, workspaceId: number): Promise<Revision> {
+    const result = await db.update(revisions)
+      .set({ label })
+      .where(and(eq(revisions.id, id), eq(revisions.workspaceId, workspaceId)))
+      .returning();
+
+    if (!result[0]) {
+      throw new Error(`Revision with id ${id} not found`);
+    }
+    return result[0];
+  }
+
+  private async deleteRevisionsFor(entityType: RevisionEntityType, entityId: number, workspaceId: number, executor: DbExecutor = db): Promise<void> {
+    await executor.delete(revisions).where(and(
+      eq(revisions.entityType, entityType),
+      eq(revisions.entityId, entityId),
+      eq(revisions.workspaceId, workspaceId)
+    ));
+  }
+
+  // Trash methods
+  async getTrash(workspaceId: number): Promise<TrashItem[]> {
+    const useCaseRows = await db.select({ id: useCases.id, title: useCases.title, createdBy: useCases.createdBy, deletedAt: useCases.deletedAt })
+      .from(useCases)
+      .where(and(eq(useCases.workspaceId, workspaceId), isNotNull(useCases.deletedAt)));
+    const customerJourneyRows = await db.select({ id: customerJourneys.id, title: customerJourneys.title, createdBy: customerJourneys.createdBy, deletedAt: customerJourneys.deletedAt })
+      .from(customerJourneys)
+      .where(and(eq(customerJourneys.workspaceId, workspaceId), isNotNull(customerJourneys.deletedAt)));
+    const agentJourneyRows = await db.select({ id: agentJourneys.id, title: agentJourneys.title, createdBy: agentJourneys.createdBy, deletedAt: agentJourneys.deletedAt })
+      .from(agentJourneys)
+      .where(and(eq(agentJourneys.workspaceId, workspaceId), isNotNull(agentJourneys.deletedAt)));
+    const actionPlanRows = await db.select({ id: actionPlans.id, title: actionPlans.title, createdBy: actionPlans.createdBy, deletedAt: actionPlans.deletedAt })
+      .from(actionPlans)
+      .where(and(eq(actionPlans.workspaceId, workspaceId), isNotNull(actionPlans.deletedAt)));
+    const customerRows = await db.select({ id: customers.id, title: customers.companyName, createdBy: customers.createdBy, deletedAt: customers.deletedAt })
+      .from(customers)
+      .where(and(eq(customers.workspaceId, workspaceId), isNotNull(customers.deletedAt)));
+
+    const tag = (entityType: TrashEntityType, rows: { id: number; title: string; createdBy: number | null; deletedAt: Date | null }[]): TrashItem[] =>
+      rows.map(row => ({ ...row, entityType, deletedAt: row.deletedAt! }));
+    return [
+      ...tag('use-case', useCaseRows),
+      ...tag('customer-journey', customerJourneyRows),
+      ...tag('agent-journey', agentJourneyRows),
+      ...tag('action-plan', actionPlanRows),
+      ...tag('customer', customerRows)
+    ].sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+  }
+
+  async getTrashItem(entityType: TrashEntityType, id: number, workspaceId: number): Promise<TrashItem | undefined> {
+    let rows: { id: number; title: string; createdBy: number | null; deletedAt: Date | null }[];
+    switch (entityType) {
+      case 'use-case':
+        rows = await db.select({ id: useCases.id, title: useCases.title, createdBy: useCases.createdBy, deletedAt: useCases.deletedAt })
+          .from(useCases)
+          .where(and(eq(useCases.id, id), eq(useCases.workspaceId, workspaceId), isNotNull(useCases.deletedAt)));
+        break;
+      case 'customer-journey':
+        rows = await db.select({ id: customerJourneys.id, title: customerJourneys.title, createdBy: customerJourneys.createdBy, deletedAt: customerJourneys.deletedAt })
+          .from(customerJourneys)
+          .where(and(eq(customerJourneys.id, id), eq(customerJourneys.workspaceId, workspaceId), isNotNull(customerJourneys.deletedAt)));
+        break;
+      case 'agent-journey':
+        rows = await db.select({ id: agentJourneys.id, title: agentJourneys.title, createdBy: agentJourneys.createdBy, deletedAt: agentJourneys.deletedAt })
+          .from(agentJourneys)
+          .where(and(eq(agentJourneys.id, id), eq(agentJourneys.workspaceId, workspaceId), isNotNull(agentJourneys.deletedAt)));
+        break;
+      case 'action-plan':
+        rows = await db.select({ id: actionPlans.id, title: actionPlans.title, createdBy: actionPlans.createdBy, deletedAt: actionPlans.deletedAt })
+          .from(actionPlans)
+          .where(and(eq(actionPlans.id, id), eq(actionPlans.workspaceId, workspaceId), isNotNull(actionPlans.deletedAt)));
+        break;
+      case 'customer':
+        rows = await db.select({ id: customers.id, title: customers.companyName, createdBy: customers.createdBy, deletedAt: customers.deletedAt })
+          .from(customers)
+          .where(and(eq(customers.id, id), eq(customers.workspaceId, workspaceId), isNotNull(customers.deletedAt)));
+        break;
+    }
+    const row = rows[0];
+    return row && { ...row, entityType, deletedAt: row.deletedAt! };
+  }
+
+  async restoreFromTrash(entityType: TrashEntityType, id: number, workspaceId: number): Promise<boolean> {
+    return db.transaction(tx => this.setDeletedAt(entityType, id, workspaceId, null, tx));
+  }
+
+  async purgeFromTrash(entityType: TrashEntityType, id: number, workspaceId: number): Promise<boolean> {
+    if (!(await this.getTrashItem(entityType, id, workspaceId))) return false;
+    await db.transaction(tx => this.purge(entityType, id, workspaceId, tx));
+    return true;
+  }
+
+  async purgeTrash(deletedBefore: Date, workspaceId: number): Promise<number> {
+    const expired = (await this.getTrash(workspaceId)).filter(item => item.deletedAt < deletedBefore);
+    await db.transaction(async tx => {
+      for (const item of expired) {
+        await this.purge(item.entityType, item.id, workspaceId, tx);
+      }
+    });
+    return expired.length;
+  }
+
+  // Moves a record into the trash (a date) or out of it (null); false if it wasn't on the other side
+  private async setDeletedAt(entityType: TrashEntityType, id: number, workspaceId: number, deletedAt: Date | null, executor: DbExecutor = db): Promise<boolean> {
+    const restoring = deletedAt === null;
+    let results: { id: number }[];
+    switch (entityType) {
+      case 'use-case':
+        results = await executor.update(useCases)
+          .set({ deletedAt })
+          .where(and(eq(useCases.id, id), eq(useCases.workspaceId, workspaceId), restoring ? isNotNull(useCases.deletedAt) : isNull(useCases.deletedAt)))
+          .returning({ id: useCases.id });
+        break;
+      case 'customer-journey':
+        results = await executor.update(customerJourneys)
+          .set({ deletedAt })
+          .where(and(eq(customerJourneys.id, id), eq(customerJourneys.workspaceId, workspaceId), restoring ? isNotNull(customerJourneys.deletedAt) : isNull(customerJourneys.deletedAt)))
+          .returning({ id: customerJourneys.id });
+        break;
+      case 'agent-journey':
+        results = await executor.update(agentJourneys)
+          .set({ deletedAt })
+          .where(and(eq(agentJourneys.id, id), eq(agentJourneys.workspaceId, workspaceId), restoring ? isNotNull(agentJourneys.deletedAt) : isNull(agentJourneys.deletedAt)))
+          .returning({ id: agentJourneys.id });
+        break;
+      case 'action-plan':
+        results = await executor.update(actionPlans)
+          .set({ deletedAt })
+          .where(and(eq(actionPlans.id, id), eq(actionPlans.workspaceId, workspaceId), restoring ? isNotNull(actionPlans.deletedAt) : isNull(actionPlans.deletedAt)))
+          .returning({ id: actionPlans.id });
+        break;
+      case 'customer':
+        results = await executor.update(customers)
+          .set({ deletedAt })
+          .where(and(eq(customers.id, id), eq(customers.workspaceId, workspaceId), restoring ? isNotNull(customers.deletedAt) : isNull(customers.deletedAt)))
+          .returning({ id: customers.id });
+        break;
+    }
+    return results.length > 0;
+  }
+
+  // Deletes a record and its dependent rows; callers run it in a transaction so none are left half-gone
+  private async purge(entityType: TrashEntityType, id: number, workspaceId: number, tx: DbExecutor): Promise<void> {
+    switch (entityType) {
+      case 'use-case':
+        // First delete any associated flow nodes
+        await tx.delete(flowNodes).where(eq(flowNodes.useCaseId, id));
+        await tx.delete(simulationRuns).where(eq(simulationRuns.useCaseId, id));
+        await this.deleteRevisionsFor('use-case', id, workspaceId, tx);
+        await tx.delete(useCases).where(eq(useCases.id, id));
+        break;
+      case 'customer-journey':
+        await this.deleteRevisionsFor('customer-journey', id, workspaceId, tx);
+        await tx.delete(customerJourneys).where(eq(customerJourneys.id, id));
+        break;
+      case 'agent-journey':
+        await this.deleteRevisionsFor('agent-journey', id, workspaceId, tx);
+        await tx.delete(agentJourneys).where(eq(agentJourneys.id, id));
+        break;
+      case 'action-plan':
+        await this.deleteRevisionsFor('action-plan', id, workspaceId, tx);
+        await tx.delete(actionPlans).where(eq(actionPlans.id, id));
+        break;
+      case 'customer':
+        // Plans keep their content but lose the customer the foreign key points at
+        await tx.update(actionPlans).set({ customerId: null }).where(eq(actionPlans.customerId, id));
+        await tx.delete(customers).where(eq(customers.id, id));
+        break;
+    }
   }
-}
\ No newline at end of file
+}
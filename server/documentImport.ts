@@ -0,0 +1,96 @@
+import JSZip from "jszip";
+import { extractText, getDocumentProxy } from "unpdf";
+
+export const DOCUMENT_FORMATS = ['text', 'markdown', 'docx', 'pdf'] as const;
+export type DocumentFormat = typeof DOCUMENT_FORMATS[number];
+
+export interface UploadedDocument {
+  filename?: string;
+  format?: DocumentFormat;
+  content: string;  // The text itself, or base64 for DOCX and PDF
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&apos;': "'",
+};
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&(amp|lt|gt|quot|apos);/g, entity => XML_ENTITIES[entity]);
+}
+
+function detectFormat(document: UploadedDocument): DocumentFormat {
+  if (document.format) return document.format;
+  const extension = document.filename?.split('.').pop()?.toLowerCase();
+  if (extension === 'pdf') return 'pdf';
+  if (extension === 'docx') return 'docx';
+  if (extension === 'md' || extension === 'markdown') return 'markdown';
+  return 'text';
+}
+
+/**
+ * Pull the body text out of a DOCX: one line per paragraph, with tabs and
+ * line breaks kept. Headers, footers and comments are left out.
+ */
+async function readDocxText(base64: string): Promise<string> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(Buffer.from(base64, 'base64'));
+  } catch {
+    throw new Error('The file is not a valid DOCX document');
+  }
+
+  const documentXml = await zip.file('word/document.xml')?.async('string');
+  if (documentXml === undefined) {
+    throw new Error('The DOCX file has no document body');
+  }
+
+  return (documentXml.match(/<w:p[\s>][\s\S]*?<\/w:p>/g) || [])
+    .map(paragraph => (paragraph.match(/<w:t(?:\s[^>]*)?>[^<]*<\/w:t>|<w:tab\/>|<w:br\/>/g) || [])
+      .map(run => run === '<w:tab/>' ? '\t' : run === '<w:br/>' ? '\n' : decodeXmlEntities(run.replace(/<[^>]+>/g, '')))
+      .join(''))
+    .join('\n');
+}
+
+/**
+ * Pull the text layer out of a PDF, a blank line between pages. Scanned PDFs
+ * have no text layer, and there's no OCR to fall back on.
+ */
+async function readPdfText(base64: string): Promise<string> {
+  let pages: string[];
+  try {
+    const pdf = await getDocumentProxy(new Uint8Array(Buffer.from(base64, 'base64')));
+    pages = (await extractText(pdf)).text;
+  } catch {
+    throw new Error('The file is not a valid PDF document');
+  }
+
+  const text = pages.join('\n\n');
+  if (!text.trim()) {
+    throw new Error('The PDF has no text to read; scanned pages need to be typed or pasted in');
+  }
+  return text;
+}
+
+// Read an uploaded document as plain text, collapsing runs of blank lines
+export async function readDocumentText(document: UploadedDocument): Promise<string> {
+  const format = detectFormat(document);
+  const text = format === 'docx'
+    ? await readDocxText(document.content)
+    : format === 'pdf'
+      ? await readPdfText(document.content)
+      : document.content;
+
+  // Binary PDF bytes read as text; the client sends PDFs as base64
+  if (format !== 'pdf' && format !== 'docx' && text.startsWith('%PDF')) {
+    throw new Error("This looks like a PDF; upload it as a .pdf file");
+  }
+
+  return text.replace(/\r\n?/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+}
@@ -0,0 +1,93 @@
+import { z } from "zod";
+import type { LLMProvider } from "./llmProvider";
+import { completeJson, aiFailure } from "./aiResponse";
+import { buildPromptMessages } from "./promptTemplates";
+import { summarizeArticle } from "./gemini";
+
+// Longer documents are summarized section by section before extraction
+export const MAX_DOCUMENT_CHARS = 20000;
+const SECTION_CHARS = 10000;
+
+const extractedFieldsSchema = z.object({
+  problemStatement: z.string().nullish(),
+  proposedSolution: z.string().nullish(),
+  keyObjectives: z.string().nullish(),
+  requiredDataInputs: z.string().nullish(),
+  expectedOutputs: z.string().nullish(),
+  keyStakeholders: z.string().nullish(),
+  scope: z.string().nullish(),
+  potentialRisks: z.string().nullish(),
+  estimatedImpact: z.string().nullish()
+});
+
+export type ExtractedUseCaseFields = Partial<Record<keyof z.infer<typeof extractedFieldsSchema>, string>>;
+
+// Split on paragraph breaks, keeping each section under the limit where paragraphs allow
+function splitIntoSections(text: string): string[] {
+  const sections: string[] = [];
+  let current = '';
+  text.split(/\n\n/).forEach(paragraph => {
+    if (current && current.length + paragraph.length + 2 > SECTION_CHARS) {
+      sections.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  });
+  if (current) sections.push(current);
+
+  // A single huge paragraph still gets cut
+  return sections.flatMap(section => section.length <= SECTION_CHARS
+    ? [section]
+    : Array.from({ length: Math.ceil(section.length / SECTION_CHARS) }, (_, i) => section.slice(i * SECTION_CHARS, (i + 1) * SECTION_CHARS)));
+}
+
+/**
+ * Extract use case fields from a customer document. Fields the document
+ * doesn't cover are left out rather than filled in. The summarizer is only
+ * called when the document is longer than MAX_DOCUMENT_CHARS.
+ */
+export async function extractUseCaseFields(
+  provider: LLMProvider,
+  getSummarizer: () => Promise<LLMProvider>,
+  text: string,
+  context: { title: string; description?: string | null }
+): Promise<{
+  success: boolean;
+  fields?: ExtractedUseCaseFields;
+  summarized?: boolean;
+  error?: string;
+}> {
+  try {
+    let document = text;
+    const summarized = text.length > MAX_DOCUMENT_CHARS;
+    if (summarized) {
+      const summarizer = await getSummarizer();
+      const summaries: string[] = [];
+      for (const section of splitIntoSections(text)) {
+        summaries.push((await summarizeArticle(summarizer, section)).trim());
+      }
+      document = summaries.map((summary, index) => `Section ${index + 1}:\n${summary}`).join('\n\n');
+    }
+
+    const extracted = await completeJson(provider, {
+      messages: await buildPromptMessages('use-case-from-document', {
+        title: context.title,
+        description: context.description,
+        document,
+        summarized: summarized ? 'yes' : undefined
+      }),
+      temperature: 0.2
+    }, extractedFieldsSchema);
+
+    const fields: ExtractedUseCaseFields = {};
+    (Object.keys(extracted) as (keyof ExtractedUseCaseFields)[]).forEach(name => {
+      const value = extracted[name]?.trim();
+      if (value) fields[name] = value;
+    });
+
+    return { success: true, fields, summarized };
+  } catch (error: any) {
+    console.error("Error extracting use case fields from document:", error);
+    return aiFailure(error, "Failed to extract use case fields from the document");
+  }
+}
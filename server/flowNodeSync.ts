@@ -0,0 +1,71 @@
+import { storage } from "./storage";
+import { parseConversationFlowWithTypes } from "@shared/parseConversation";
+import type { UseCase, FlowNode, ParsedFlow } from "@shared/schema";
+
+// Read the diagram positions saved by FlowPreview, keyed by "node-<index>"
+function parseNodePositions(nodePositions: string | null): Record<string, { x: number; y: number }> {
+  if (!nodePositions) return {};
+  try {
+    return JSON.parse(nodePositions);
+  } catch (error) {
+    console.error("Invalid nodePositions JSON, ignoring saved positions:", error);
+    return {};
+  }
+}
+
+// Pick the step a node continues to: the unconditional transition if there
+// is one, otherwise the first branch
+function getNextStepNumber(parsedFlow: ParsedFlow, stepNumber: number): number | undefined {
+  const outgoing = parsedFlow.edges.filter(edge => edge.source === stepNumber);
+  return (outgoing.find(edge => !edge.condition) || outgoing[0])?.target;
+}
+
+/**
+ * Bring the flow_nodes rows for a use case in line with its conversationFlow.
+ * Rows are matched by step number so node ids stay stable across edits;
+ * extra rows are deleted and missing ones created.
+ */
+export async function syncFlowNodes(useCase: UseCase): Promise<FlowNode[]> {
+  const parsedFlow = parseConversationFlowWithTypes(useCase.conversationFlow, useCase.roles);
+  const positions = parseNodePositions(useCase.nodePositions);
+  const existingNodes = await storage.getFlowNodesForUseCase(useCase.id);
+  const existingByStep = new Map(existingNodes.map(node => [node.stepNumber, node]));
+
+  // First pass: write the content of every step
+  const nodesByStep = new Map<number, FlowNode>();
+  for (const step of parsedFlow.steps) {
+    const position = positions[`node-${step.stepNumber - 1}`];
+    const nodeData = {
+      stepType: step.stepType ?? null,
+      customerText: step.messages.filter(m => m.role === 'customer').map(m => m.text).join('\n'),
+      agentText: step.messages.filter(m => m.role === 'agent').map(m => m.text).join('\n'),
+      positionX: position?.x ?? null,
+      positionY: position?.y ?? null,
+    };
+
+    const existing = existingByStep.get(step.stepNumber);
+    const node = existing
+      ? await storage.updateFlowNode(existing.id, nodeData)
+      : await storage.createFlowNode({ ...nodeData, useCaseId: useCase.id, stepNumber: step.stepNumber });
+    nodesByStep.set(step.stepNumber, node);
+  }
+
+  for (const node of existingNodes) {
+    if (!nodesByStep.has(node.stepNumber)) {
+      await storage.deleteFlowNode(node.id);
+    }
+  }
+
+  // Second pass: link nodes now that every step has an id
+  const syncedNodes: FlowNode[] = [];
+  for (const step of parsedFlow.steps) {
+    const node = nodesByStep.get(step.stepNumber)!;
+    const nextStepNumber = getNextStepNumber(parsedFlow, step.stepNumber);
+    const nextNodeId = nextStepNumber !== undefined ? nodesByStep.get(nextStepNumber)?.id ?? null : null;
+    syncedNodes.push(
+      node.nextNodeId === nextNodeId ? node : await storage.updateFlowNode(node.id, { nextNodeId })
+    );
+  }
+
+  return syncedNodes;
+}
@@ -1,12 +1,63 @@
 import * as fs from "fs";
 import { GoogleGenAI } from "@google/genai";
+import { z } from "zod";
+import type { LLMProvider, LLMStreamOptions } from "./llmProvider";
+import { completeJson, AIResponseError } from "./aiResponse";
+import { buildPromptMessages } from "./promptTemplates";
+import type { ParsedFlow, MessageSentiment, JourneyStepSentiment } from "@shared/schema";
 
 // DON'T DELETE THIS COMMENT
 // Follow these instructions when using this blueprint:
 // - Note that the newest Gemini model series is "gemini-2.5-flash" or gemini-2.5-pro"
 //   - do not change this unless explicitly requested by the user
 
-export const GEMINI_API_KEY_SETTING = 'gemini_api_key';
+// Expected shapes of the JSON responses
+const sentimentSchema = z.object({
+    rating: z.number().min(1).max(5),
+    confidence: z.number().min(0).max(1),
+});
+
+const agentSuggestionSchema = z.object({
+    title: z.string().min(1),
+    agentName: z.string().min(1),
+    purpose: z.string(),
+    inputInterpretation: z.string(),
+    guardrails: z.string(),
+    backendSystems: z.array(z.string()),
+    contextManagement: z.string(),
+    escalationRules: z.string(),
+    errorMonitoring: z.string(),
+    notes: z.string(),
+});
+
+const customerJourneySchema = z.object({
+    title: z.string().min(1),
+    description: z.string(),
+    customerPersona: z.string(),
+    businessGoals: z.string(),
+    touchpoints: z.array(z.string()),
+    flow: z.object({
+        nodes: z.array(z.object({
+            id: z.string().min(1),
+            type: z.string(),
+            position: z.object({ x: z.number(), y: z.number() }),
+            data: z.object({
+                label: z.string(),
+                description: z.string().optional(),
+                icon: z.string().optional(),
+                color: z.string().optional(),
+            }),
+        })).min(1),
+        edges: z.array(z.object({
+            id: z.string(),
+            source: z.string(),
+            target: z.string(),
+            type: z.string().optional(),
+            animated: z.boolean().optional(),
+            label: z.string().optional(),
+        })),
+    }),
+});
 
 export async function validateGeminiKey(apiKey: string): Promise<{ valid: boolean; models?: string[]; error?: string }> {
     try {
@@ -58,21 +109,10 @@ export async function validateGeminiKey(apiKey: string): Promise<{ valid: boolea
     }
 }
 
-export async function summarizeArticle(text: string): Promise<string> {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-        throw new Error('Gemini API key not configured');
-    }
-
-    const ai = new GoogleGenAI({ apiKey });
-    const prompt = `Please summarize the following text concisely while maintaining key points:\n\n${text}`;
-
-    const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: prompt,
+export async function summarizeArticle(provider: LLMProvider, text: string): Promise<string> {
+    return provider.complete({
+        messages: await buildPromptMessages('summarize-article', { text }),
     });
-
-    return response.text || "Something went wrong";
 }
 
 export interface Sentiment {
@@ -80,53 +120,92 @@ export interface Sentiment {
     confidence: number;
 }
 
-export async function analyzeSentiment(text: string): Promise<Sentiment> {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-        throw new Error('Gemini API key not configured');
-    }
-
+export async function analyzeSentiment(provider: LLMProvider, text: string): Promise<Sentiment> {
     try {
-        const ai = new GoogleGenAI({ apiKey });
-        const systemPrompt = `You are a sentiment analysis expert. 
-Analyze the sentiment of the text and provide a rating
-from 1 to 5 stars and a confidence score between 0 and 1.
-Respond with JSON in this format: 
-{'rating': number, 'confidence': number}`;
-
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-pro",
-            config: {
-                systemInstruction: systemPrompt,
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: "object",
-                    properties: {
-                        rating: { type: "number" },
-                        confidence: { type: "number" },
-                    },
-                    required: ["rating", "confidence"],
+        return await completeJson(provider, {
+            messages: await buildPromptMessages('sentiment', { text }),
+            jsonSchema: {
+                type: "object",
+                properties: {
+                    rating: { type: "number" },
+                    confidence: { type: "number" },
                 },
+                required: ["rating", "confidence"],
             },
-            contents: text,
-        });
+        }, sentimentSchema);
+    } catch (error) {
+        if (error instanceof AIResponseError) throw error;
+        throw new Error(`Failed to analyze sentiment: ${error}`);
+    }
+}
 
-        const rawJson = response.text;
+// Score each customer message of a flow, in flow order
+export async function scoreFlowSentiment(provider: LLMProvider, parsedFlow: ParsedFlow): Promise<MessageSentiment[]> {
+    const scores: MessageSentiment[] = [];
+    for (const step of parsedFlow.steps) {
+        for (let messageIndex = 0; messageIndex < step.messages.length; messageIndex++) {
+            const message = step.messages[messageIndex];
+            if (message.role !== 'customer' || !message.text.trim()) continue;
+            const { rating, confidence } = await analyzeSentiment(provider, message.text);
+            scores.push({ stepNumber: step.stepNumber, messageIndex, text: message.text, rating, confidence });
+        }
+    }
+    return scores;
+}
 
-        console.log(`Raw JSON: ${rawJson}`);
+interface JourneyNodeLike {
+    id: string;
+    position?: { x: number; y: number };
+    data?: { title?: string; description?: string };
+}
 
-        if (rawJson) {
-            const data: Sentiment = JSON.parse(rawJson);
-            return data;
-        } else {
-            throw new Error("Empty response from model");
-        }
-    } catch (error) {
-        throw new Error(`Failed to analyze sentiment: ${error}`);
+/**
+ * Put journey steps in the order a customer meets them: breadth-first from
+ * the steps nothing leads to, left to right on the canvas where that ties.
+ * Steps that can't be reached come last.
+ */
+function orderJourneyNodes(nodes: JourneyNodeLike[], edges: { source: string; target: string }[]): JourneyNodeLike[] {
+    const byPosition = [...nodes].sort((a, b) =>
+        (a.position?.x ?? 0) - (b.position?.x ?? 0) || (a.position?.y ?? 0) - (b.position?.y ?? 0));
+    const ids = new Set(nodes.map(node => node.id));
+    const validEdges = edges.filter(edge => ids.has(edge.source) && ids.has(edge.target));
+
+    const ordered: JourneyNodeLike[] = [];
+    const visited = new Set<string>();
+    const queue = byPosition.filter(node => !validEdges.some(edge => edge.target === node.id));
+    queue.forEach(node => visited.add(node.id));
+    while (queue.length > 0) {
+        const node = queue.shift()!;
+        ordered.push(node);
+        byPosition
+            .filter(next => !visited.has(next.id) && validEdges.some(edge => edge.source === node.id && edge.target === next.id))
+            .forEach(next => {
+                visited.add(next.id);
+                queue.push(next);
+            });
+    }
+    return [...ordered, ...byPosition.filter(node => !visited.has(node.id))];
+}
+
+// Score each step of a customer journey by what the customer goes through in it
+export async function scoreJourneySentiment(
+    provider: LLMProvider,
+    nodes: JourneyNodeLike[],
+    edges: { source: string; target: string }[]
+): Promise<JourneyStepSentiment[]> {
+    const scores: JourneyStepSentiment[] = [];
+    for (const node of orderJourneyNodes(nodes, edges)) {
+        const title = node.data?.title?.trim() || '';
+        const text = [title, node.data?.description?.trim()].filter(Boolean).join(': ');
+        if (!text) continue;
+        const { rating, confidence } = await analyzeSentiment(provider, text);
+        scores.push({ nodeId: node.id, title, rating, confidence });
     }
+    return scores;
 }
 
 export async function generateUseCaseSuggestions(
+    provider: LLMProvider,
     agentType?: string
 ): Promise<{
     title: string;
@@ -140,13 +219,6 @@ export async function generateUseCaseSuggestions(
     errorMonitoring: string;
     notes: string;
 }> {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-        throw new Error('Gemini API key not configured');
-    }
-
-    const ai = new GoogleGenAI({ apiKey });
-    
     const prompt = `Generate a comprehensive AI agent journey for a ${agentType || 'customer service'} agent. 
     
 Please provide detailed information for each of the following fields:
@@ -163,54 +235,41 @@ Please provide detailed information for each of the following fields:
 
 Respond with a JSON object containing all these fields.`;
 
-    const response = await ai.models.generateContent({
-        model: "gemini-2.5-pro",
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: "object",
-                properties: {
-                    title: { type: "string" },
-                    agentName: { type: "string" },
-                    purpose: { type: "string" },
-                    inputInterpretation: { type: "string" },
-                    guardrails: { type: "string" },
-                    backendSystems: { 
-                        type: "array",
-                        items: { type: "string" }
-                    },
-                    contextManagement: { type: "string" },
-                    escalationRules: { type: "string" },
-                    errorMonitoring: { type: "string" },
-                    notes: { type: "string" }
+    return completeJson(provider, {
+        messages: [{ role: "user", content: prompt }],
+        jsonSchema: {
+            type: "object",
+            properties: {
+                title: { type: "string" },
+                agentName: { type: "string" },
+                purpose: { type: "string" },
+                inputInterpretation: { type: "string" },
+                guardrails: { type: "string" },
+                backendSystems: { 
+                    type: "array",
+                    items: { type: "string" }
                 },
-                required: [
-                    "title", "agentName", "purpose", "inputInterpretation", 
-                    "guardrails", "backendSystems", "contextManagement", 
-                    "escalationRules", "errorMonitoring", "notes"
-                ]
-            }
-        },
-        contents: prompt,
-    });
-
-    if (!response.text) {
-        throw new Error('No response from Gemini API');
-    }
-
-    try {
-        return JSON.parse(response.text);
-    } catch (error) {
-        throw new Error('Failed to parse Gemini response as JSON');
-    }
+                contextManagement: { type: "string" },
+                escalationRules: { type: "string" },
+                errorMonitoring: { type: "string" },
+                notes: { type: "string" }
+            },
+            required: [
+                "title", "agentName", "purpose", "inputInterpretation", 
+                "guardrails", "backendSystems", "contextManagement", 
+                "escalationRules", "errorMonitoring", "notes"
+            ]
+        }
+    }, agentSuggestionSchema);
 }
 
 export async function generateCustomerJourneySuggestion(
-    apiKey: string,
+    provider: LLMProvider,
     journeyType: string,
     customerPersona: string,
     businessGoals: string,
-    touchpoints: string[]
+    touchpoints: string[],
+    stream?: LLMStreamOptions
 ): Promise<{
     title: string;
     description: string;
@@ -239,111 +298,72 @@ export async function generateCustomerJourneySuggestion(
         }>;
     };
 }> {
-    if (!apiKey) {
-        throw new Error('Gemini API key not configured');
-    }
-
-    const ai = new GoogleGenAI({ apiKey });
-    
-    const prompt = `Generate a comprehensive customer journey for a ${journeyType} experience.
-
-Customer Details:
-- Customer Persona: ${customerPersona}
-- Business Goals: ${businessGoals}
-- Key Touchpoints: ${touchpoints.join(', ')}
-
-Please create a detailed customer journey that includes:
-1. A descriptive title
-2. A detailed description of the journey
-3. Customer persona details
-4. Business goals
-5. Key touchpoints array
-6. A flow diagram with nodes and edges
-
-For the flow diagram, create 5-8 nodes representing key stages of the customer journey. Each node should have:
-- id: unique identifier
-- type: one of ["start", "touchpoint", "decision", "experience", "outcome", "end"]
-- position: x,y coordinates (start from x:100, y:100 and space nodes 300px apart horizontally)
-- data: object with label, description, icon, and color
-
-Connect the nodes with edges that show the flow progression. Make it realistic and actionable.
-
-Respond with a JSON object containing all these fields.`;
-
-    const response = await ai.models.generateContent({
-        model: "gemini-2.5-pro",
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: "object",
-                properties: {
-                    title: { type: "string" },
-                    description: { type: "string" },
-                    customerPersona: { type: "string" },
-                    businessGoals: { type: "string" },
-                    touchpoints: {
-                        type: "array",
-                        items: { type: "string" }
-                    },
-                    flow: {
-                        type: "object",
-                        properties: {
-                            nodes: {
-                                type: "array",
-                                items: {
-                                    type: "object",
-                                    properties: {
-                                        id: { type: "string" },
-                                        type: { type: "string" },
-                                        position: {
-                                            type: "object",
-                                            properties: {
-                                                x: { type: "number" },
-                                                y: { type: "number" }
-                                            }
-                                        },
-                                        data: {
-                                            type: "object",
-                                            properties: {
-                                                label: { type: "string" },
-                                                description: { type: "string" },
-                                                icon: { type: "string" },
-                                                color: { type: "string" }
-                                            }
+    return completeJson(provider, {
+        messages: await buildPromptMessages('customer-journey', {
+            journeyType,
+            customerPersona,
+            businessGoals,
+            touchpoints: touchpoints.join(', ')
+        }),
+        jsonSchema: {
+            type: "object",
+            properties: {
+                title: { type: "string" },
+                description: { type: "string" },
+                customerPersona: { type: "string" },
+                businessGoals: { type: "string" },
+                touchpoints: {
+                    type: "array",
+                    items: { type: "string" }
+                },
+                flow: {
+                    type: "object",
+                    properties: {
+                        nodes: {
+                            type: "array",
+                            items: {
+                                type: "object",
+                                properties: {
+                                    id: { type: "string" },
+                                    type: { type: "string" },
+                                    position: {
+                                        type: "object",
+                                        properties: {
+                                            x: { type: "number" },
+                                            y: { type: "number" }
+                                        }
+                                    },
+                                    data: {
+                                        type: "object",
+                                        properties: {
+                                            label: { type: "string" },
+                                            description: { type: "string" },
+                                            icon: { type: "string" },
+                                            color: { type: "string" }
                                         }
                                     }
                                 }
-                            },
-                            edges: {
-                                type: "array",
-                                items: {
-                                    type: "object",
-                                    properties: {
-                                        id: { type: "string" },
-                                        source: { type: "string" },
-                                        target: { type: "string" },
-                                        type: { type: "string" },
-                                        animated: { type: "boolean" },
-                                        label: { type: "string" }
-                                    }
+                            }
+                        },
+                        edges: {
+                            type: "array",
+                            items: {
+                                type: "object",
+                                properties: {
+                                    id: { type: "string" },
+                                    source: { type: "string" },
+                                    target: { type: "string" },
+                                    type: { type: "string" },
+                                    animated: { type: "boolean" },
+                                    label: { type: "string" }
                                 }
                             }
                         }
                     }
-                },
-                required: ["title", "description", "customerPersona", "businessGoals", "touchpoints", "flow"]
-            }
+                }
+            },
+            required: ["title", "description", "customerPersona", "businessGoals", "touchpoints", "flow"]
         },
-        contents: prompt,
-    });
-
-    if (!response.text) {
-        throw new Error('No response from Gemini API');
-    }
-
-    try {
-        return JSON.parse(response.text);
-    } catch (error) {
-        throw new Error('Failed to parse Gemini response as JSON');
-    }
+        ...stream
+    }, customerJourneySchema);
 }
\ No newline at end of file
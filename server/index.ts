@@ -4,9 +4,12 @@ import { setupVite, serveStatic, log } from "./vite";
 import { initDatabase } from "./db";
 import { seedInitialData } from "./storage";
 import { initializeStorage } from "./storage-setup";
+import { migrateLegacyCredentials } from "./credentials";
+import { scheduleTrashPurge } from "./trash";
 
 const app = express();
-app.use(express.json());
+// Transcript imports post whole chat exports, well past the 100kb default
+app.use(express.json({ limit: '5mb' }));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -51,10 +54,16 @@ app.use((req, res, next) => {
     initializeStorage();
     log('Storage initialized successfully', 'server');
     
+    // Move any API keys still saved as plaintext settings into encrypted credentials
+    await migrateLegacyCredentials();
+    
     // Seed initial data if database is empty
     log('Seeding initial data...', 'server');
     await seedInitialData();
     log('Data seeding completed', 'server');
+    
+    // Deleted records past the trash retention period are purged for good
+    scheduleTrashPurge();
   } catch (error) {
     log(`Initialization failed: ${(error as Error).message}`, 'server');
     process.exit(1);
@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AI_FEATURES, AI_MONTHLY_BUDGET_SETTING, aiFeatureSettingKey, type AIFeature, type LLMProviderId } from "@shared/aiFeatures";
+import { DEFAULT_WORKSPACE_ID } from "@shared/workspaces";
+import { MemStorage, setStorage, storage } from "./storage";
+import { getLLMProvider, StubProvider, type LLMRequest } from "./llmProvider";
+
+const request: LLMRequest = { messages: [{ role: 'user', content: 'Summarize this article' }] };
+
+async function useProvider(feature: AIFeature, provider: LLMProviderId, workspaceId = DEFAULT_WORKSPACE_ID) {
+  await storage.createSetting({ key: aiFeatureSettingKey(feature), value: JSON.stringify({ provider }) }, workspaceId);
+}
+
+beforeEach(() => {
+  setStorage(new MemStorage());
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('StubProvider', () => {
+  it.each(AI_FEATURES.map(feature => feature.id))('answers %s with a JSON object when asked for JSON', async (feature) => {
+    const response = await new StubProvider(feature).complete({ ...request, json: true });
+
+    expect(JSON.parse(response)).toEqual(expect.any(Object));
+  });
+
+  it('answers text features with plain text', async () => {
+    const response = await new StubProvider('summarize-article').complete(request);
+
+    expect(response).toMatch(/^This document describes/);
+  });
+
+  it('gives the same answer every time', async () => {
+    const stub = new StubProvider('use-case-suggestions');
+
+    expect(await stub.complete(request)).toBe(await stub.complete(request));
+  });
+
+  it('streams the response in chunks that add up to it', async () => {
+    const chunks: string[] = [];
+
+    const response = await new StubProvider('summarize-article').complete({ ...request, onToken: chunk => chunks.push(chunk) });
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join('')).toBe(response);
+  });
+
+  it('stops streaming once the request is abandoned', async () => {
+    const controller = new AbortController();
+    const onToken = vi.fn(() => controller.abort());
+
+    await expect(new StubProvider('summarize-article').complete({ ...request, onToken, signal: controller.signal }))
+      .rejects.toThrow('Request was cancelled');
+    expect(onToken).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports token usage', async () => {
+    const onUsage = vi.fn();
+
+    const response = await new StubProvider('summarize-article').complete({ ...request, onUsage });
+    expect(onUsage).toHaveBeenCalledWith({
+      promptTokens: Math.ceil(request.messages[0].content.length / 4),
+      completionTokens: Math.ceil(response.length / 4)
+    });
+  });
+});
+
+describe('getLLMProvider', () => {
+  it("uses the stub when it's the configured provider, with usage and caching in front", async () => {
+    await useProvider('summarize-article', 'stub');
+
+    const { provider, error } = await getLLMProvider('summarize-article', { workspaceId: DEFAULT_WORKSPACE_ID, entity: { type: 'use-case', id: 3 } });
+    expect(error).toBeUndefined();
+    expect(provider).toMatchObject({ id: 'stub', model: 'stub' });
+
+    const response = await provider!.complete(request);
+    await expect(provider!.complete(request)).resolves.toBe(response);
+    const usage = await storage.getRecentAiUsage(10, DEFAULT_WORKSPACE_ID);
+    expect(usage).toHaveLength(1);
+    expect(usage[0]).toMatchObject({ feature: 'summarize-article', entityType: 'use-case', entityId: 3 });
+  });
+
+  it('is not stopped by a spent budget when the stub is configured', async () => {
+    await useProvider('sentiment', 'stub');
+    await storage.createSetting({ key: AI_MONTHLY_BUDGET_SETTING, value: '0' }, DEFAULT_WORKSPACE_ID);
+
+    const { provider } = await getLLMProvider('sentiment', { workspaceId: DEFAULT_WORKSPACE_ID });
+    expect(provider?.id).toBe('stub');
+  });
+
+  it('refuses a paid provider once the budget is spent', async () => {
+    vi.stubEnv('OPENAI_API_KEY', 'sk-test');
+    await useProvider('summarize-article', 'openai');
+    await storage.createSetting({ key: AI_MONTHLY_BUDGET_SETTING, value: '0' }, DEFAULT_WORKSPACE_ID);
+
+    const { provider, error } = await getLLMProvider('summarize-article', { workspaceId: DEFAULT_WORKSPACE_ID });
+    expect(provider).toBeUndefined();
+    expect(error).toContain('Monthly AI budget');
+  });
+
+  it('explains a missing API key', async () => {
+    vi.stubEnv('OPENAI_API_KEY', '');
+    await useProvider('summarize-article', 'openai');
+
+    const { provider, error } = await getLLMProvider('summarize-article', { workspaceId: DEFAULT_WORKSPACE_ID });
+    expect(provider).toBeUndefined();
+    expect(error).toContain('OpenAI API key not configured');
+  });
+
+  it('reads the provider from the workspace asking for it', async () => {
+    const other = await storage.createWorkspace({ name: 'Other' }, 1);
+    await useProvider('sentiment', 'stub', other.id);
+
+    const { provider } = await getLLMProvider('sentiment', { workspaceId: other.id });
+    expect(provider?.id).toBe('stub');
+  });
+});
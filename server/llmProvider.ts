@@ -0,0 +1,464 @@
+import OpenAI from "openai";
+import { GoogleGenAI } from "@google/genai";
+import { storage } from "./storage";
+import { getCredential } from "./credentials";
+import { checkAiBudget, UsageTrackingProvider, type AIUsageEntity } from "./aiUsage";
+import { CachingProvider } from "./aiCache";
+import {
+  LLM_PROVIDERS,
+  AI_FEATURES,
+  LOCAL_LLM_BASE_URL_SETTING,
+  aiFeatureSettingKey,
+  parseFeatureConfig,
+  type AIFeature,
+  type AIFeatureConfig,
+  type LLMProviderId
+} from "@shared/aiFeatures";
+import { DEFAULT_WORKSPACE_ID } from "@shared/workspaces";
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequest {
+  messages: LLMMessage[];
+  json?: boolean;  // Ask for a single JSON object as the response
+  jsonSchema?: Record<string, unknown>;  // Response schema, for providers that can enforce one
+  temperature?: number;
+  maxTokens?: number;
+  onToken?: (text: string) => void;  // Stream the response; called with each chunk as it arrives
+  signal?: AbortSignal;  // Abandons the request, e.g. when the client goes away
+  onUsage?: (usage: LLMUsage) => void;  // Called with the token counts once the response is complete
+  isUsable?: (response: string) => boolean;  // Responses it rejects are never cached
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+// What a caller needs to stream a response or abandon it
+export type LLMStreamOptions = Pick<LLMRequest, 'onToken' | 'signal'>;
+
+// A chat model behind one vendor's API; every AI feature talks to this instead of an SDK
+export interface LLMProvider {
+  readonly id: LLMProviderId;
+  readonly model: string;
+  complete(request: LLMRequest): Promise<string>;
+}
+
+// OpenAI, or any server speaking the same chat completions API (Ollama, llama.cpp, vLLM)
+export class OpenAIProvider implements LLMProvider {
+  private client: OpenAI;
+
+  constructor(
+    readonly id: 'openai' | 'local',
+    readonly model: string,
+    apiKey: string,
+    baseURL?: string
+  ) {
+    this.client = new OpenAI({ apiKey, baseURL });
+  }
+
+  async complete(request: LLMRequest): Promise<string> {
+    const params = {
+      model: this.model,
+      messages: request.messages,
+      ...(request.json ? { response_format: { type: "json_object" as const } } : {}),
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      ...(request.maxTokens !== undefined ? { max_tokens: request.maxTokens } : {})
+    };
+
+    let content: string | null | undefined;
+    if (request.onToken) {
+      const stream = await this.client.chat.completions.create(
+        { ...params, stream: true, stream_options: { include_usage: true } },
+        { signal: request.signal }
+      );
+      content = '';
+      for await (const chunk of stream) {
+        const text = chunk.choices[0]?.delta?.content;
+        if (text) {
+          content += text;
+          request.onToken(text);
+        }
+        // Usage arrives on a final chunk with no choices
+        if (chunk.usage) {
+          request.onUsage?.({ promptTokens: chunk.usage.prompt_tokens, completionTokens: chunk.usage.completion_tokens });
+        }
+      }
+    } else {
+      const response = await this.client.chat.completions.create(params, { signal: request.signal });
+      content = response.choices[0]?.message.content;
+      if (response.usage) {
+        request.onUsage?.({ promptTokens: response.usage.prompt_tokens, completionTokens: response.usage.completion_tokens });
+      }
+    }
+
+    if (!content) {
+      throw new Error(`Empty response from ${this.id === 'local' ? 'local model' : 'OpenAI'}`);
+    }
+    return content;
+  }
+}
+
+export class GeminiProvider implements LLMProvider {
+  readonly id = 'gemini' as const;
+  private client: GoogleGenAI;
+
+  constructor(readonly model: string, apiKey: string) {
+    this.client = new GoogleGenAI({ apiKey });
+  }
+
+  async complete(request: LLMRequest): Promise<string> {
+    // Gemini takes system messages as a separate instruction and calls the assistant "model"
+    const systemInstruction = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+    const contents = request.messages
+      .filter(message => message.role !== 'system')
+      .map(message => ({
+        role: message.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: message.content }]
+      }));
+
+    const params = {
+      model: this.model,
+      contents,
+      config: {
+        ...(systemInstruction ? { systemInstruction } : {}),
+        ...(request.json ? { responseMimeType: "application/json" } : {}),
+        ...(request.jsonSchema ? { responseSchema: request.jsonSchema } : {}),
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        ...(request.maxTokens !== undefined ? { maxOutputTokens: request.maxTokens } : {}),
+        ...(request.signal ? { abortSignal: request.signal } : {})
+      }
+    };
+
+    let text: string | undefined;
+    let usageMetadata: { promptTokenCount?: number; candidatesTokenCount?: number } | undefined;
+    if (request.onToken) {
+      text = '';
+      for await (const chunk of await this.client.models.generateContentStream(params)) {
+        if (chunk.text) {
+          text += chunk.text;
+          request.onToken(chunk.text);
+        }
+        // Each chunk carries the running totals
+        usageMetadata = chunk.usageMetadata ?? usageMetadata;
+      }
+    } else {
+      const response = await this.client.models.generateContent(params);
+      text = response.text;
+      usageMetadata = response.usageMetadata;
+    }
+    if (usageMetadata) {
+      request.onUsage?.({
+        promptTokens: usageMetadata.promptTokenCount ?? 0,
+        completionTokens: usageMetadata.candidatesTokenCount ?? 0
+      });
+    }
+
+    if (!text) {
+      throw new Error('Empty response from Gemini');
+    }
+    return text;
+  }
+}
+
+// Canned responses shaped like each feature's real output, so the AI features
+// can be exercised offline and in tests with predictable results
+const STUB_RESPONSES: Record<AIFeature, unknown> = {
+  'use-case-suggestions': {
+    title: "Order Status Assistant",
+    description: "Help customers check the status of an order and resolve delivery questions without waiting for an agent."
+  },
+  'use-case-details': {
+    problemStatement: "Customers contact support to ask where their order is.",
+    proposedSolution: "A conversational assistant that looks up orders and explains delivery status.",
+    keyObjectives: "Answer most order status questions without an agent.",
+    requiredDataInputs: "Order management system, carrier tracking data.",
+    expectedOutputs: "Order status, delivery estimate, escalation when needed.",
+    keyStakeholders: "Customer support, operations, IT.",
+    scope: "Order status and delivery questions; returns are out of scope.",
+    potentialRisks: "Stale tracking data, order lookup failures.",
+    estimatedImpact: "Fewer order status contacts reaching agents."
+  },
+  'use-case-from-document': {
+    problemStatement: "Customers contact support to ask where their order is, which takes up most of the agents' day.",
+    proposedSolution: null,
+    keyObjectives: "Answer most order status questions without an agent.",
+    requiredDataInputs: "Order management system, carrier tracking data.",
+    expectedOutputs: null,
+    keyStakeholders: "Customer support, operations.",
+    scope: "Order status questions only.",
+    potentialRisks: null,
+    estimatedImpact: null
+  },
+  'agent-persona': "A friendly, concise support assistant who confirms details before acting and explains next steps clearly.",
+  'conversation-flow': "Customer: Hi, where is my order?\nAgent: I can help with that. What is your order number?\n→\nCustomer: It's 12345.\nAgent: Thanks! Order 12345 is on its way and should arrive tomorrow.",
+  'utterance-variations': {
+    variations: [
+      "Where's my order?",
+      "Can you tell me where my order is?",
+      "I'd like to check on my order",
+      "has my order shipped yet",
+      "What's the status of my order?",
+      "Any update on my order?",
+      "I want to track my order",
+      "When will my order arrive?",
+      "My order hasn't arrived",
+      "Could you look up my order for me?"
+    ]
+  },
+  'customer-role-play': {
+    customerPersona: "A busy customer checking on a delayed order from their phone.",
+    transcript: [
+      { role: "customer", text: "Hi, I need help with my order", stepNumber: 1, offScript: false },
+      { role: "agent", text: "I can help with that. What is your order number?", stepNumber: 1 },
+      { role: "customer", text: "Can I also change the delivery address?", offScript: true, note: "Address changes aren't covered by the flow" }
+    ]
+  },
+  'flow-critique': {
+    findings: [
+      { stepNumber: 1, severity: "warning", message: "The agent asks for the order number without saying why it's needed." },
+      { severity: "info", message: "The persona is friendly, but the replies read as terse." }
+    ]
+  },
+  'journey-summary': "Customers discover the service, compare options, purchase online and receive follow-up support after delivery.",
+  'ai-journey': {
+    steps: [
+      { id: "node1", type: "Entry Point", title: "Discover", description: "Customer finds the service." },
+      { id: "node2", type: "Consideration", title: "Compare", description: "Customer compares options." },
+      { id: "node3", type: "Purchase", title: "Buy", description: "Customer completes the purchase." }
+    ],
+    connections: [
+      { source: "node1", target: "node2" },
+      { source: "node2", target: "node3" }
+    ]
+  },
+  'journey-from-use-case': {
+    steps: [
+      { id: "node1", type: "Entry Point", title: "Contact", description: "Customer starts a chat." },
+      { id: "node2", type: "Support", title: "Resolve", description: "Assistant answers the question." },
+      { id: "node3", type: "Feedback", title: "Rate", description: "Customer rates the experience." }
+    ],
+    connections: [
+      { source: "node1", target: "node2" },
+      { source: "node2", target: "node3" }
+    ]
+  },
+  'customer-journey': {
+    title: "Online Purchase Journey",
+    description: "From first visit to post-purchase support.",
+    customerPersona: "Price-conscious online shopper",
+    businessGoals: "Increase conversion",
+    touchpoints: ["Website", "Chat", "Email"],
+    flow: {
+      nodes: [
+        { id: "1", type: "start", position: { x: 100, y: 100 }, data: { label: "Visit site" } },
+        { id: "2", type: "end", position: { x: 400, y: 100 }, data: { label: "Purchase" } }
+      ],
+      edges: [{ id: "e1-2", source: "1", target: "2" }]
+    }
+  },
+  'action-plan-from-use-case': {
+    title: "Order Status Assistant Rollout",
+    industry: "Retail",
+    primaryChannel: "chat",
+    interactionVolume: "10,000 per month",
+    currentAutomation: "Low",
+    biggestChallenge: "High volume of repetitive order questions",
+    repetitiveProcesses: "Order status lookups",
+    aiGoals: ["Deflect order status contacts", "Reduce wait times"],
+    autonomyLevel: "semi-autonomous",
+    currentPlatforms: "Help desk, order management system",
+    teamComfort: "yes",
+    apisAvailable: "yes",
+    successMetrics: ["Containment rate", "CSAT"]
+  },
+  'action-plan-suggestions': "## Recommendations\n\nStart with order status questions, measure containment weekly and expand to returns once the assistant is stable.",
+  'agent-journey-suggestion': {
+    title: "Order Support Agent",
+    agentName: "OrderBot",
+    purpose: "Answer order status questions.",
+    notes: "Generated by the offline stub provider.",
+    summary: "Greets the customer, looks up the order and reports its status.",
+    inputInterpretation: "Extracts order numbers from customer messages.",
+    guardrails: "Never shares another customer's order details.",
+    backendSystems: ["Order management system", "Carrier tracking API"],
+    contextManagement: "Keeps the order number for the rest of the session.",
+    escalationRules: "Hands over to an agent after two failed lookups.",
+    errorMonitoring: "Logs failed lookups for review.",
+    nodesSuggestion: [
+      { type: "start", label: "Start", content: "Conversation begins", position: { x: 100, y: 100 } },
+      { type: "agent", label: "Look up order", content: "Find the order", position: { x: 100, y: 250 } },
+      { type: "end", label: "End", content: "Conversation ends", position: { x: 100, y: 400 } }
+    ]
+  },
+  'summarize-article': "This document describes how customers check order status and when they need an agent.",
+  'sentiment': { rating: 3, confidence: 1 }
+};
+
+// Pause between streamed stub chunks, long enough to see the output build up
+const STUB_STREAM_DELAY_MS = 20;
+
+// Deterministic provider for air-gapped installs and tests; never calls out
+export class StubProvider implements LLMProvider {
+  readonly id = 'stub' as const;
+  readonly model = 'stub';
+
+  constructor(private feature: AIFeature) {}
+
+  async complete(request: LLMRequest): Promise<string> {
+    const stubResponse = STUB_RESPONSES[this.feature];
+    const response = typeof stubResponse === 'string' && !request.json
+      ? stubResponse
+      : JSON.stringify(typeof stubResponse === 'string' ? { text: stubResponse } : stubResponse);
+
+    // Stream word by word so the streaming UI can be tried offline too
+    if (request.onToken) {
+      for (const chunk of response.match(/\S+\s*|\s+/g) || []) {
+        if (request.signal?.aborted) {
+          throw new Error('Request was cancelled');
+        }
+        request.onToken(chunk);
+        await new Promise(resolve => setTimeout(resolve, STUB_STREAM_DELAY_MS));
+      }
+    }
+
+    // Roughly four characters to a token, so the usage ledger has something to show
+    const promptLength = request.messages.reduce((total, message) => total + message.content.length, 0);
+    request.onUsage?.({
+      promptTokens: Math.ceil(promptLength / 4),
+      completionTokens: Math.ceil(response.length / 4)
+    });
+    return response;
+  }
+}
+
+// The environment variable, then the setting; the same order credentials resolve in
+async function readConfig(settingKey: string, envVar: string, workspaceId: number): Promise<string | undefined> {
+  const fromEnv = process.env[envVar]?.trim();
+  if (fromEnv) return fromEnv;
+  const setting = await storage.getSetting(settingKey, workspaceId);
+  return setting?.value?.trim() || undefined;
+}
+
+// Set for the whole server: the local model gets the server's local-llm key
+export async function getLocalBaseUrl(): Promise<string | undefined> {
+  return readConfig(LOCAL_LLM_BASE_URL_SETTING, 'LOCAL_LLM_BASE_URL', DEFAULT_WORKSPACE_ID);
+}
+
+export async function getFeatureConfig(feature: AIFeature, workspaceId: number): Promise<AIFeatureConfig> {
+  const setting = await storage.getSetting(aiFeatureSettingKey(feature), workspaceId);
+  return parseFeatureConfig(feature, setting?.value);
+}
+
+/**
+ * Build the provider a workspace has configured for a feature in Settings,
+ * with every call recorded in its usage ledger against `options.entity`. Identical requests are
+ * answered from the response cache unless `options.forceRegenerate` is set. Returns an
+ * error message, suitable for a 400 response, when the provider isn't set up
+ * or the monthly budget has been spent.
+ */
+export async function getLLMProvider(
+  feature: AIFeature,
+  options: { workspaceId: number; entity?: AIUsageEntity; forceRegenerate?: boolean }
+): Promise<{
+  provider?: LLMProvider;
+  error?: string;
+}> {
+  const config = await getFeatureConfig(feature, options.workspaceId);
+  const budgetError = await checkAiBudget(config.provider, options.workspaceId);
+  if (budgetError) {
+    return { error: budgetError };
+  }
+
+  const { provider, error } = await createLLMProvider(feature, config);
+  if (!provider) {
+    return { error };
+  }
+  return {
+    provider: new CachingProvider(
+      new UsageTrackingProvider(provider, feature, options.workspaceId, options.entity),
+      feature,
+      options.workspaceId,
+      options.forceRegenerate
+    )
+  };
+}
+
+async function createLLMProvider(feature: AIFeature, { provider, model }: AIFeatureConfig): Promise<{
+  provider?: LLMProvider;
+  error?: string;
+}> {
+
+  switch (provider) {
+    case 'openai': {
+      const apiKey = await getCredential('openai');
+      if (!apiKey) {
+        return { error: "OpenAI API key not configured. Please add it in Settings." };
+      }
+      return { provider: new OpenAIProvider('openai', model, apiKey) };
+    }
+    case 'gemini': {
+      const apiKey = await getCredential('gemini');
+      if (!apiKey) {
+        return { error: "Gemini API key not configured. Please add it in Settings." };
+      }
+      return { provider: new GeminiProvider(model, apiKey) };
+    }
+    case 'local': {
+      const baseUrl = await getLocalBaseUrl();
+      if (!baseUrl) {
+        return { error: "Local model endpoint not configured. Please add its base URL in Settings." };
+      }
+      // Local servers usually ignore the key, but the client requires one
+      const apiKey = await getCredential('local-llm') || 'local';
+      return { provider: new OpenAIProvider('local', model, apiKey, baseUrl) };
+    }
+    case 'stub':
+      return { provider: new StubProvider(feature) };
+  }
+}
+
+export function isAIFeature(value: string): value is AIFeature {
+  return AI_FEATURES.some(feature => feature.id === value);
+}
+
+export function isLLMProviderId(value: string): value is LLMProviderId {
+  return LLM_PROVIDERS.some(provider => provider.id === value);
+}
+
+// Ignores case in the host and trailing slashes
+export function sameBaseUrl(a: string, b: string): boolean {
+  const normalize = (url: string) => {
+    try {
+      const parsed = new URL(url.trim());
+      return `${parsed.protocol}//${parsed.host}${parsed.pathname.replace(/\/+$/, '')}`;
+    } catch {
+      return url.trim().replace(/\/+$/, '');
+    }
+  };
+  return normalize(a) === normalize(b);
+}
+
+// Check that an OpenAI-compatible endpoint answers and list the models it serves
+export async function validateLocalEndpoint(baseUrl: string, apiKey?: string): Promise<{ valid: boolean; models?: string[]; error?: string }> {
+  try {
+    const client = new OpenAI({ apiKey: apiKey || 'local', baseURL: baseUrl });
+    const response = await client.models.list();
+    return {
+      valid: true,
+      models: response.data.map(model => model.id)
+    };
+  } catch (error: any) {
+    return {
+      valid: false,
+      error: error.message || 'Failed to reach the local model endpoint'
+    };
+  }
+}
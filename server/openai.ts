@@ -1,7 +1,101 @@
 import OpenAI from "openai";
-
-// Constants for the OpenAI integration
-export const OPENAI_API_KEY_SETTING = 'openai.apiKey';
+import { z } from "zod";
+import type { LLMProvider, LLMStreamOptions } from "./llmProvider";
+import { completeJson, aiFailure, AIResponseError } from "./aiResponse";
+import { buildPromptMessages } from "./promptTemplates";
+import type { ParsedFlow, RolePlayTurn, RolePlayResult, FlowFinding } from "@shared/schema";
+
+// Expected shapes of the JSON responses
+const useCaseSuggestionsSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().min(1)
+});
+
+const journeyStepsSchema = z.object({
+  steps: z.array(z.object({
+    id: z.string().min(1),
+    type: z.string().min(1),
+    title: z.string().min(1),
+    description: z.string().default('')
+  })).min(1),
+  connections: z.array(z.object({
+    source: z.string(),
+    target: z.string()
+  }))
+}).superRefine((journey, ctx) => {
+  // A connection to a missing step would leave a dangling edge on the canvas
+  const ids = new Set(journey.steps.map(step => step.id));
+  journey.connections.forEach((connection, index) => {
+    [connection.source, connection.target].forEach(id => {
+      if (!ids.has(id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['connections', index],
+          message: `refers to step "${id}", which is not in steps`
+        });
+      }
+    });
+  });
+});
+
+const utteranceVariationsSchema = z.object({
+  variations: z.array(z.string().trim().min(1)).min(1)
+});
+
+const rolePlaySchema = z.object({
+  customerPersona: z.string().optional(),
+  transcript: z.array(z.object({
+    role: z.enum(['customer', 'agent']),
+    text: z.string().min(1),
+    stepNumber: z.number().int().nullish(),
+    offScript: z.boolean().optional(),
+    note: z.string().optional()
+  })).min(1)
+});
+
+const flowCritiqueSchema = z.object({
+  findings: z.array(z.object({
+    stepNumber: z.number().int().nullish(),
+    severity: z.enum(['error', 'warning', 'info']),
+    message: z.string().trim().min(1)
+  }))
+});
+
+const actionPlanSchema = z.object({
+  title: z.string().min(1),
+  industry: z.string(),
+  primaryChannel: z.string(),
+  interactionVolume: z.string(),
+  currentAutomation: z.string(),
+  biggestChallenge: z.string(),
+  repetitiveProcesses: z.string(),
+  aiGoals: z.array(z.string()),
+  autonomyLevel: z.string(),
+  currentPlatforms: z.string(),
+  teamComfort: z.string(),
+  apisAvailable: z.string(),
+  successMetrics: z.array(z.string())
+});
+
+const agentJourneySchema = z.object({
+  title: z.string().min(1),
+  agentName: z.string().min(1),
+  purpose: z.string(),
+  notes: z.string(),
+  summary: z.string(),
+  inputInterpretation: z.string(),
+  guardrails: z.string(),
+  backendSystems: z.array(z.string()),
+  contextManagement: z.string(),
+  escalationRules: z.string(),
+  errorMonitoring: z.string(),
+  nodesSuggestion: z.array(z.object({
+    type: z.string(),
+    label: z.string(),
+    content: z.string(),
+    position: z.object({ x: z.number(), y: z.number() })
+  })).min(1)
+});
 
 // Function to validate an OpenAI API key
 export async function validateOpenAIKey(apiKey: string): Promise<{ valid: boolean; models?: string[]; error?: string }> {
@@ -28,7 +122,7 @@ export async function validateOpenAIKey(apiKey: string): Promise<{ valid: boolea
 
 // Get suggestions for use case modification based on title and description
 export async function getUseCaseSuggestions(
-  apiKey: string, 
+  provider: LLMProvider,
   title: string, 
   description: string,
   agentPersona?: string
@@ -43,137 +137,66 @@ export async function getUseCaseSuggestions(
   error?: string 
 }> {
   try {
-    const openai = new OpenAI({ apiKey });
-    
-    // Prepare the prompt
-    let prompt = `You are an expert in designing conversational flows for customer service scenarios. 
-Given the following use case title and description, suggest improvements to make it more specific, 
-detailed, and effective for a customer service scenario. Respond with JSON format containing ONLY 
-an improved title and description. DO NOT include agent persona or conversation flow in your response.
-
-Current Title: "${title}"
-Current Description: "${description}"`;
-
-    // Include agent persona if available (as reference only)
-    if (agentPersona) {
-      prompt += `\nCurrent Agent Persona (for reference only, do not modify): "${agentPersona}"`;
-    }
-
-    prompt += `\n
-Provide suggestions in this JSON format:
-{
-  "title": "Improved title here",
-  "description": "Improved detailed description here"
-}
-
-The title should be concise but descriptive (maximum 5-7 words). 
-The description should provide context and goals, be comprehensive but concise (2-3 sentences maximum).
-IMPORTANT: Do not include "agentPersona" or "conversationFlow" fields in your response.`;
-
-    // Make a request to OpenAI
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-      messages: [
-        { role: "system", content: "You are an AI expert in designing customer service conversation flows." },
-        { role: "user", content: prompt }
-      ],
-      response_format: { type: "json_object" },
+    // Make a request to the model
+    const suggestions = await completeJson(provider, {
+      messages: await buildPromptMessages('use-case-suggestions', { title, description, agentPersona }),
       temperature: 0.7
-    });
-    
-    // Parse the response
-    const content = response.choices[0].message.content;
-    const suggestions = JSON.parse(content || '{}');
+    }, useCaseSuggestionsSchema);
     
     return { 
       success: true,
       suggestions
     };
   } catch (error: any) {
-    // Handle errors from the OpenAI API
-    return {
-      success: false,
-      error: error.message || "Failed to get suggestions"
-    };
+    // Handle errors from the provider
+    return aiFailure(error, "Failed to get suggestions");
   }
 }
 
 // Get suggestions for agent persona based on title and description
 export async function getConversationFlowSuggestion(
-  apiKey: string, 
+  provider: LLMProvider,
   title: string, 
   description: string,
   currentFlow: string,
   agentPersona: string,
   additionalInstructions?: string,
-  useCase?: any // Additional use case details
+  useCase?: any, // Additional use case details
+  stream?: LLMStreamOptions
 ): Promise<{ 
   success: boolean; 
   suggestion?: string;
   error?: string 
 }> {
   try {
-    const openai = new OpenAI({ apiKey });
-    
-    // Prepare the prompt
-    let prompt = `You are an expert in conversational AI design and flow optimization. 
-Review the following conversation flow between a Customer and an Agent. 
-Suggest improvements to make the conversation more natural, effective, and helpful.
-
-Use Case Title: "${title}"
-Use Case Description: "${description}"
-Agent Persona: "${agentPersona}"`;
-
     // Add detailed use case information if available
-    if (useCase) {
-      prompt += `\n
-Detailed Use Case Information:
-- Problem Statement: ${useCase.problemStatement || 'Not specified'}
-- Proposed Solution: ${useCase.proposedSolution || 'Not specified'}
-- Key Objectives: ${useCase.keyObjectives || 'Not specified'}
-- Required Data Inputs: ${useCase.requiredDataInputs || 'Not specified'}
-- Expected Outputs: ${useCase.expectedOutputs || 'Not specified'}
-- Key Stakeholders: ${useCase.keyStakeholders || 'Not specified'}
-- Scope: ${useCase.scope || 'Not specified'}
-- Potential Risks: ${useCase.potentialRisks || 'Not specified'}
-- Estimated Impact: ${useCase.estimatedImpact || 'Not specified'}`;
-    }
-
-    prompt += `\n
-Current Conversation Flow:
-\`\`\`
-${currentFlow}
-\`\`\`
-
-Please analyze this conversation flow and provide an improved version that:
-1. Maintains the same general structure and purpose
-2. Makes dialogue more natural and conversational
-3. Ensures the agent's responses align with the provided Agent Persona
-4. Improves clarity and addresses potential points of confusion
-5. Adds appropriate follow-up questions or clarifications where needed
-6. Enhances the logical flow between conversation steps
-7. Incorporates relevant aspects from the detailed use case information (if provided)`;
-
-    // Add additional instructions if provided
-    if (additionalInstructions && additionalInstructions.trim() !== '') {
-      prompt += `\n\nADDITIONAL INSTRUCTIONS:
-${additionalInstructions}`;
-    }
-
-    prompt += `\n\nReturn ONLY the improved conversation flow in the same format with Customer/Agent labels and → arrows for step separation.
-Do not include explanations or analysis - just provide the complete improved flow.`;
-
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-      messages: [
-        { role: "system", content: "You are an expert in conversational AI design and natural dialogue patterns." },
-        { role: "user", content: prompt }
-      ],
+    const useCaseDetails = useCase ? [
+      `- Problem Statement: ${useCase.problemStatement || 'Not specified'}`,
+      `- Proposed Solution: ${useCase.proposedSolution || 'Not specified'}`,
+      `- Key Objectives: ${useCase.keyObjectives || 'Not specified'}`,
+      `- Required Data Inputs: ${useCase.requiredDataInputs || 'Not specified'}`,
+      `- Expected Outputs: ${useCase.expectedOutputs || 'Not specified'}`,
+      `- Key Stakeholders: ${useCase.keyStakeholders || 'Not specified'}`,
+      `- Scope: ${useCase.scope || 'Not specified'}`,
+      `- Potential Risks: ${useCase.potentialRisks || 'Not specified'}`,
+      `- Estimated Impact: ${useCase.estimatedImpact || 'Not specified'}`
+    ].join('\n') : undefined;
+
+    const response = await provider.complete({
+      messages: await buildPromptMessages('conversation-flow', {
+        title,
+        description,
+        agentPersona,
+        useCaseDetails,
+        currentFlow,
+        additionalInstructions
+      }),
       temperature: 0.7,
-      max_tokens: 2000
+      maxTokens: 2000,
+      ...stream
     });
 
-    const suggestion = response.choices[0].message.content?.trim();
+    const suggestion = response.trim();
     
     if (!suggestion) {
       throw new Error('No suggestion was generated');
@@ -185,31 +208,27 @@ Do not include explanations or analysis - just provide the complete improved flo
     };
   } catch (error: any) {
     console.error('Error getting conversation flow suggestion:', error);
-    return { 
-      success: false, 
-      error: error.message || 'Failed to generate conversation flow suggestion'
-    };
+    return aiFailure(error, 'Failed to generate conversation flow suggestion');
   }
 }
 
 // Generate a summary for a customer journey based on its metadata and nodes
 export async function generateJourneySummary(
-  apiKey: string,
+  provider: LLMProvider,
   journey: {
     title: string;
     customerName?: string;
     workflowIntent?: string;
     notes?: string;
     nodes: any[];
-  }
+  },
+  stream?: LLMStreamOptions
 ): Promise<{
   success: boolean;
   summary?: string;
   error?: string;
 }> {
   try {
-    const openai = new OpenAI({ apiKey });
-    
     // Extract node information
     const nodeInfo = journey.nodes.map((node: any) => ({
       type: node.data?.stepType || 'Unknown',
@@ -217,43 +236,22 @@ export async function generateJourneySummary(
       description: node.data?.description || ''
     }));
     
-    // Prepare the prompt
-    const prompt = `You are an expert in analyzing customer journey maps and workflow processes.
-Based on the following customer journey information, generate a concise and informative summary (100-150 words).
-
-Journey Title: "${journey.title}"
-${journey.customerName ? `Customer Name: "${journey.customerName}"` : ''}
-${journey.workflowIntent ? `Workflow Intent: "${journey.workflowIntent}"` : ''}
-${journey.notes ? `Notes: "${journey.notes}"` : ''}
-
-Journey Flow Nodes:
-${nodeInfo.map((node: any, index: number) => 
-  `${index + 1}. ${node.type}: "${node.title}" - ${node.description}`
-).join('\n')}
-
-The summary should:
-1. Capture the main purpose of this customer journey
-2. Identify the key stages in the workflow
-3. Highlight any important aspects of the customer experience
-4. Be written in clear, professional language
-5. Be useful for someone who needs a quick understanding of this journey flow
-
-Your summary should be a single paragraph without bullet points or numbered lists.`;
-
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-      messages: [
-        { 
-          role: "system", 
-          content: "You are an expert in customer experience analysis and workflow optimization." 
-        },
-        { role: "user", content: prompt }
-      ],
+    const response = await provider.complete({
+      messages: await buildPromptMessages('journey-summary', {
+        title: journey.title,
+        customerName: journey.customerName,
+        workflowIntent: journey.workflowIntent,
+        notes: journey.notes,
+        nodes: nodeInfo.map((node: any, index: number) =>
+          `${index + 1}. ${node.type}: "${node.title}" - ${node.description}`
+        ).join('\n')
+      }),
       temperature: 0.7,
-      max_tokens: 300
+      maxTokens: 300,
+      ...stream
     });
 
-    const summary = response.choices[0].message.content?.trim();
+    const summary = response.trim();
     
     if (!summary) {
       throw new Error('No summary was generated');
@@ -265,16 +263,13 @@ Your summary should be a single paragraph without bullet points or numbered list
     };
   } catch (error: any) {
     console.error('Error generating journey summary:', error);
-    return {
-      success: false,
-      error: error.message || 'Failed to generate journey summary'
-    };
+    return aiFailure(error, 'Failed to generate journey summary');
   }
 }
 
 // Generate a complete journey flow based on a description
 export async function generateAIJourney(
-  apiKey: string,
+  provider: LLMProvider,
   description: string
 ): Promise<{
   success: boolean;
@@ -285,63 +280,13 @@ export async function generateAIJourney(
   error?: string;
 }> {
   try {
-    const openai = new OpenAI({ apiKey });
-    
-    // Prepare the prompt
-    const prompt = `You are an expert in designing customer journey maps. Create a detailed customer journey based on the following description:
-
-Description: "${description}"
-
-Generate a complete customer journey map with appropriate stages that makes sense for this scenario. 
-Each step should have a type, title, and brief description.
-
-Respond with JSON in the following format:
-{
-  "steps": [
-    {
-      "id": "node1",
-      "type": "Entry Point",
-      "title": "Step Title",
-      "description": "Brief description of this step"
-    },
-    ... more steps ...
-  ],
-  "connections": [
-    { 
-      "source": "node1", 
-      "target": "node2" 
-    },
-    ... more connections ...
-  ]
-}
-
-The journey should have 5-8 logical steps. Each step should have a descriptive title and a concise description.
-Valid step types include: "Entry Point", "Awareness", "Research", "Consideration", "Evaluation", "Decision", "Purchase", "Onboarding", "Support", "Feedback", "Retention".
-Connections should form a logical flow from one step to the next.`;
-
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-      messages: [
-        { 
-          role: "system", 
-          content: "You are an expert in customer experience design and journey mapping." 
-        },
-        { role: "user", content: prompt }
-      ],
-      response_format: { type: "json_object" },
+    const journeyData = await completeJson(provider, {
+      messages: await buildPromptMessages('ai-journey', { description }),
       temperature: 0.7
-    });
-
-    const content = response.choices[0].message.content;
-    
-    if (!content) {
-      throw new Error('No journey was generated');
-    }
-    
-    const journeyData = JSON.parse(content);
+    }, journeyStepsSchema);
     
     // Transform the returned data into ReactFlow nodes and edges
-    const nodes: any[] = journeyData.steps.map((step: any, index: number) => {
+    const nodes: any[] = journeyData.steps.map((step, index) => {
       // Calculate position - place nodes in a horizontal line
       const position = {
         x: 100 + (index * 250),
@@ -360,7 +305,7 @@ Connections should form a logical flow from one step to the next.`;
       };
     });
     
-    const edges: any[] = journeyData.connections.map((connection: any, index: number) => ({
+    const edges: any[] = journeyData.connections.map(connection => ({
       id: `e${connection.source}-${connection.target}`,
       source: connection.source,
       target: connection.target,
@@ -382,15 +327,12 @@ Connections should form a logical flow from one step to the next.`;
     };
   } catch (error: any) {
     console.error('Error generating AI journey:', error);
-    return {
-      success: false,
-      error: error.message || 'Failed to generate AI journey'
-    };
+    return aiFailure(error, 'Failed to generate AI journey');
   }
 }
 
 export async function getAgentPersonaSuggestion(
-  apiKey: string, 
+  provider: LLMProvider,
   title: string, 
   description: string,
   currentPersona?: string
@@ -400,48 +342,13 @@ export async function getAgentPersonaSuggestion(
   error?: string 
 }> {
   try {
-    const openai = new OpenAI({ apiKey });
-    
-    // Prepare the prompt
-    let prompt = `You are an expert in designing conversational AI agent personas. 
-Given the following use case title and description, suggest a detailed agent persona 
-that would be effective for this scenario. The agent persona should define the tone, 
-personality, knowledge areas, and behavior of the AI assistant when interacting with users.
-
-Current Title: "${title}"
-Current Description: "${description}"`;
-
-    // Include current persona if available
-    if (currentPersona && currentPersona.trim() !== '') {
-      prompt += `\nCurrent Agent Persona: "${currentPersona}"
-      
-Analyze the current persona and suggest improvements or an alternative approach that might 
-better serve this use case. If the current persona is already good, enhance it with additional details.`;
-    }
-
-    prompt += `\n
-Create a comprehensive agent persona that includes:
-1. The agent's personality traits (friendly, professional, empathetic, etc.)
-2. Communication style and tone of voice
-3. Level of formality
-4. Key knowledge areas relevant to the use case
-5. How the agent should handle difficult situations or questions
-6. Any specific phrases or language patterns the agent should use
-
-Provide a cohesive paragraph (200-300 words) that covers these aspects and creates a clear 
-picture of how the agent should interact with users.`;
-
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-      messages: [
-        { role: "system", content: "You are an expert in creating effective agent personas for conversational AI assistants." },
-        { role: "user", content: prompt }
-      ],
+    const response = await provider.complete({
+      messages: await buildPromptMessages('agent-persona', { title, description, currentPersona }),
       temperature: 0.7,
-      max_tokens: 1000
+      maxTokens: 1000
     });
 
-    const suggestion = response.choices[0].message.content?.trim();
+    const suggestion = response.trim();
     
     if (!suggestion) {
       throw new Error('No suggestion was generated');
@@ -453,17 +360,194 @@ picture of how the agent should interact with users.`;
     };
   } catch (error: any) {
     console.error('Error getting agent persona suggestion:', error);
-    return { 
-      success: false, 
-      error: error.message || 'Failed to generate agent persona suggestion'
+    return aiFailure(error, 'Failed to generate agent persona suggestion');
+  }
+}
+
+// Generate alternative phrasings of a customer turn for NLU training
+export async function generateUtteranceVariations(
+  provider: LLMProvider,
+  utterance: string,
+  intent?: string,
+  context?: { title?: string; description?: string },
+  count: number = 10
+): Promise<{
+  success: boolean;
+  variations?: string[];
+  error?: string
+}> {
+  try {
+    const result = await completeJson(provider, {
+      messages: await buildPromptMessages('utterance-variations', {
+        count,
+        utterance,
+        intent,
+        title: context?.title,
+        description: context?.description
+      }),
+      temperature: 0.9
+    }, utteranceVariationsSchema);
+    
+    return {
+      success: true,
+      variations: result.variations
+    };
+  } catch (error: any) {
+    console.error('Error generating utterance variations:', error);
+    return aiFailure(error, 'Failed to generate utterance variations');
+  }
+}
+
+// Describe the designed flow step by step so the model can follow the script
+function describeFlowScript(parsedFlow: ParsedFlow): string {
+  return parsedFlow.steps.map(step => {
+    const header = `Step ${step.stepNumber}${step.name ? ` "${step.name}"` : ''}${step.stepType ? ` (${step.stepType})` : ''}`;
+    const messages = step.messages.map(message => `  ${message.role}: ${message.text}`);
+    const next = parsedFlow.edges
+      .filter(edge => edge.source === step.stepNumber)
+      .map(edge => `Step ${edge.target}${edge.condition ? ` if ${edge.condition}` : ''}`);
+    return [header, ...messages, `  next: ${next.length > 0 ? next.join('; ') : 'end of conversation'}`].join('\n');
+  }).join('\n\n');
+}
+
+/**
+ * Check the model's step matches against the flow: a turn only counts as
+ * on script if its step is the current one or reachable from it. Customer
+ * turns that aren't are marked off-script; agent turns just lose the match.
+ */
+function annotateRolePlay(parsedFlow: ParsedFlow, rawTurns: z.infer<typeof rolePlaySchema>['transcript']): Omit<RolePlayResult, 'customerPersona'> {
+  const stepNumbers = new Set(parsedFlow.steps.map(step => step.stepNumber));
+  const transcript: RolePlayTurn[] = [];
+  let currentStep: number | undefined;
+
+  rawTurns.forEach(raw => {
+    const role = raw?.role === 'agent' ? 'agent' : 'customer';
+    const text = String(raw?.text ?? '').trim();
+    if (!text) return;
+
+    const claimedStep = Number(raw.stepNumber);
+    const hasClaim = !raw.offScript && stepNumbers.has(claimedStep);
+    const reachable = currentStep === undefined
+      ? claimedStep === parsedFlow.steps[0]?.stepNumber
+      : claimedStep === currentStep || parsedFlow.edges.some(edge => edge.source === currentStep && edge.target === claimedStep);
+
+    if (hasClaim && reachable) {
+      currentStep = claimedStep;
+      transcript.push({ role, text, stepNumber: claimedStep, offScript: false });
+    } else if (role === 'customer') {
+      const note = hasClaim
+        ? `Matches step ${claimedStep}, which the flow can't reach from ${currentStep !== undefined ? `step ${currentStep}` : 'the start'}`
+        : String(raw.note || 'Not handled by the designed flow');
+      transcript.push({ role, text, offScript: true, note });
+    } else {
+      transcript.push({ role, text, offScript: false });
+    }
+  });
+
+  const customerTurns = transcript.filter(turn => turn.role === 'customer');
+  const handled = customerTurns.filter(turn => !turn.offScript).length;
+
+  return {
+    transcript,
+    coverageScore: customerTurns.length > 0 ? Math.round((handled / customerTurns.length) * 100) : 0,
+    stepsCovered: Array.from(new Set(transcript.map(turn => turn.stepNumber).filter((n): n is number => n !== undefined)))
+  };
+}
+
+// Have the model play a customer against the designed agent script and
+// report where the customer went beyond what the flow handles
+export async function simulateCustomerRolePlay(
+  provider: LLMProvider,
+  parsedFlow: ParsedFlow,
+  context: { title: string; description?: string | null; agentPersona?: string },
+  customerPersona?: string,
+  maxCustomerTurns: number = 8
+): Promise<{
+  success: boolean;
+  result?: RolePlayResult;
+  error?: string
+}> {
+  try {
+    if (parsedFlow.steps.length === 0) {
+      throw new Error('The use case has no conversation steps to test');
+    }
+
+    const result = await completeJson(provider, {
+      messages: await buildPromptMessages('customer-role-play', {
+        title: context.title,
+        description: context.description,
+        agentPersona: context.agentPersona,
+        flowScript: describeFlowScript(parsedFlow),
+        customerPersona,
+        maxCustomerTurns
+      }),
+      temperature: 0.8
+    }, rolePlaySchema);
+
+    return {
+      success: true,
+      result: {
+        customerPersona: customerPersona?.trim() || result.customerPersona || '',
+        ...annotateRolePlay(parsedFlow, result.transcript)
+      }
     };
+  } catch (error: any) {
+    console.error('Error simulating customer role-play:', error);
+    return aiFailure(error, 'Failed to simulate customer role-play');
+  }
+}
+
+// Critique a flow against the agent persona, as findings tied to its steps.
+// Findings for steps that don't exist are kept as flow-wide ones.
+export async function critiqueConversationFlow(
+  provider: LLMProvider,
+  parsedFlow: ParsedFlow,
+  context: { title: string; description?: string | null; agentPersona?: string },
+  knownFindings: FlowFinding[] = []
+): Promise<{
+  success: boolean;
+  findings?: FlowFinding[];
+  error?: string
+}> {
+  try {
+    if (parsedFlow.steps.length === 0) {
+      throw new Error('The use case has no conversation steps to review');
+    }
+
+    const result = await completeJson(provider, {
+      messages: await buildPromptMessages('flow-critique', {
+        title: context.title,
+        description: context.description,
+        agentPersona: context.agentPersona,
+        flowScript: describeFlowScript(parsedFlow),
+        knownIssues: knownFindings
+          .map(finding => `- ${finding.stepNumber !== undefined ? `Step ${finding.stepNumber}: ` : ''}${finding.message}`)
+          .join('\n')
+      }),
+      temperature: 0.3
+    }, flowCritiqueSchema);
+
+    const stepNumbers = new Set(parsedFlow.steps.map(step => step.stepNumber));
+    return {
+      success: true,
+      findings: result.findings.map(finding => ({
+        rule: 'critique',
+        severity: finding.severity,
+        message: finding.message,
+        stepNumber: finding.stepNumber != null && stepNumbers.has(finding.stepNumber) ? finding.stepNumber : undefined,
+        source: 'ai' as const
+      }))
+    };
+  } catch (error: any) {
+    console.error('Error critiquing conversation flow:', error);
+    return aiFailure(error, 'Failed to review conversation flow');
   }
 }
 
 // Generate suggestions for improving an action plan
 // Generate action plan from use case data
 export async function generateActionPlanFromUseCase(
-  apiKey: string,
+  provider: LLMProvider,
   useCase: {
     id: number;
     title: string;
@@ -499,8 +583,6 @@ export async function generateActionPlanFromUseCase(
   error?: string;
 }> {
   try {
-    const openai = new OpenAI({ apiKey });
-    
     // Format the use case data for the prompt
     const useCaseData = {
       id: useCase.id,
@@ -518,75 +600,10 @@ export async function generateActionPlanFromUseCase(
       estimatedImpact: useCase.estimatedImpact || "Not provided"
     };
     
-    const prompt = `
-You are an AI deployment specialist. You need to create an action plan based on the provided use case. The plan should be focused on implementing conversational AI.
-
-USE CASE INFORMATION:
-- Title: ${useCaseData.title}
-- Description: ${useCaseData.description}
-- Customer: ${useCaseData.customer}
-- Problem Statement: ${useCaseData.problemStatement}
-- Proposed AI Solution: ${useCaseData.proposedSolution}
-- Key Objectives: ${useCaseData.keyObjectives}
-- Required Data Inputs: ${useCaseData.requiredDataInputs}
-- Expected Outputs: ${useCaseData.expectedOutputs}
-- Key Stakeholders: ${useCaseData.keyStakeholders}
-- Scope: ${useCaseData.scope}
-- Potential Risks: ${useCaseData.potentialRisks}
-- Estimated Impact: ${useCaseData.estimatedImpact}
-
-Based on this information, generate a complete action plan with the following sections:
-1. Industry - Infer the industry from the context
-2. Primary Customer Interaction Channel - What would be the main channel for this solution? (chat, voice, email, etc)
-3. Estimated Monthly Interaction Volume - Provide a reasonable estimate based on the context
-4. Current Automation Level - Infer from the problem statement
-5. Biggest Challenge the organization is facing
-6. Repetitive Processes that could be automated
-7. AI Goals (list 3-5 specific goals as an array) - These should be specific and achievable
-8. Recommended Autonomy Level - (supervised, semi-autonomous, or fully autonomous)
-9. Current Platforms being used (infer from the case)
-10. Team Readiness - "yes" if team seems ready for AI, "no" if training would be required
-11. APIs Availability - "yes" if data seems readily available through APIs, "no" otherwise
-12. Success Metrics (list 3-5 specific metrics as an array) - These should be measurable KPIs
-
-Format your response as a JSON object with the following structure:
-{
-  "title": string, // A good title for the action plan
-  "industry": string,
-  "primaryChannel": string,
-  "interactionVolume": string,
-  "currentAutomation": string,
-  "biggestChallenge": string,
-  "repetitiveProcesses": string,
-  "aiGoals": string[], // Array of goal statements
-  "autonomyLevel": string,
-  "currentPlatforms": string,
-  "teamComfort": string, // "yes" or "no"
-  "apisAvailable": string, // "yes" or "no"
-  "successMetrics": string[] // Array of metric statements
-}
-
-Keep all suggestions grounded in the information provided in the use case, making reasonable inferences where needed.
-`;
-
-    // Call the OpenAI API with the prompt
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-      messages: [
-        { role: "system", content: "You are an AI implementation specialist who helps create action plans for AI deployment projects." },
-        { role: "user", content: prompt }
-      ],
-      response_format: { type: "json_object" },
+    const actionPlan = await completeJson(provider, {
+      messages: await buildPromptMessages('action-plan-from-use-case', useCaseData),
       temperature: 0.7
-    });
-
-    const content = response.choices[0].message.content;
-    if (!content) {
-      throw new Error("Empty response from OpenAI");
-    }
-
-    // Parse the JSON response
-    const actionPlan = JSON.parse(content);
+    }, actionPlanSchema);
     
     return {
       success: true,
@@ -594,15 +611,12 @@ Keep all suggestions grounded in the information provided in the use case, makin
     };
   } catch (error: any) {
     console.error('Error generating action plan from use case:', error);
-    return {
-      success: false,
-      error: error.message || 'Failed to generate action plan from use case'
-    };
+    return aiFailure(error, 'Failed to generate action plan from use case');
   }
 }
 
 export async function generateActionPlanSuggestions(
-  apiKey: string,
+  provider: LLMProvider,
   actionPlan: {
     title: string;
     industry?: string | null;
@@ -617,15 +631,14 @@ export async function generateActionPlanSuggestions(
     teamComfort?: string | null;
     apisAvailable?: string | null;
     successMetrics: string[];
-  }
+  },
+  stream?: LLMStreamOptions
 ): Promise<{
   success: boolean;
   suggestions?: string;
   error?: string;
 }> {
   try {
-    const openai = new OpenAI({ apiKey });
-    
     // Clean up and prepare the action plan data for the prompt
     const cleanPlan = {
       title: actionPlan.title,
@@ -643,64 +656,14 @@ export async function generateActionPlanSuggestions(
       successMetrics: actionPlan.successMetrics.length > 0 ? actionPlan.successMetrics.join(", ") : "Not specified"
     };
     
-    // Create a prompt that includes all the necessary context
-    const prompt = `You are an expert consultant on implementing AI solutions for businesses. 
-You've been asked to review an AI Action Plan for a business and provide strategic suggestions 
-for improvement.
-
-Here is the current Action Plan:
-
-PLAN TITLE: ${cleanPlan.title}
-
-BUSINESS DISCOVERY:
-- Industry: ${cleanPlan.industry}
-- Primary Channel for Customer Interaction: ${cleanPlan.primaryChannel}
-- Monthly Interaction Volume: ${cleanPlan.interactionVolume}
-- Current Automation: ${cleanPlan.currentAutomation}
-
-PAIN POINT ASSESSMENT:
-- Biggest Challenge: ${cleanPlan.biggestChallenge}
-- Repetitive Processes: ${cleanPlan.repetitiveProcesses}
-
-AI AGENT GOALS:
-- Goals: ${cleanPlan.aiGoals}
-- Desired Autonomy Level: ${cleanPlan.autonomyLevel}
-
-SYSTEM & INTEGRATION READINESS:
-- Current Platforms: ${cleanPlan.currentPlatforms}
-- Team Comfort with No-Code/Low-Code Tools: ${cleanPlan.teamComfort}
-- APIs Available: ${cleanPlan.apisAvailable}
-
-SUCCESS METRICS:
-- Key Success Metrics: ${cleanPlan.successMetrics}
-
-Based on this information, provide thoughtful suggestions to improve this action plan and increase its chances of success. 
-Your response should include:
-
-1. Strategic recommendations (2-3 specific, actionable suggestions)
-2. Implementation considerations based on their tech stack and team comfort
-3. Risk mitigation strategies
-4. Any additional data points they should collect before proceeding
-5. Suggestions for phased implementation to ensure early wins
-
-Provide your recommendations in a well-organized, professional format with clear headings. Keep your suggestions specific, 
-practical, and tailored to this business's unique needs based on their inputs.`;
-
-    // Make the API call to OpenAI
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-      messages: [
-        { 
-          role: "system", 
-          content: "You are an expert consultant specializing in AI implementation strategies for businesses." 
-        },
-        { role: "user", content: prompt }
-      ],
+    const response = await provider.complete({
+      messages: await buildPromptMessages('action-plan-suggestions', cleanPlan),
       temperature: 0.7,
-      max_tokens: 1200
+      maxTokens: 1200,
+      ...stream
     });
 
-    const suggestions = response.choices[0].message.content?.trim();
+    const suggestions = response.trim();
     
     if (!suggestions) {
       throw new Error('No suggestions were generated');
@@ -712,15 +675,12 @@ practical, and tailored to this business's unique needs based on their inputs.`;
     };
   } catch (error: any) {
     console.error('Error generating action plan suggestions:', error);
-    return {
-      success: false,
-      error: error.message || 'Failed to generate action plan suggestions'
-    };
+    return aiFailure(error, 'Failed to generate action plan suggestions');
   }
 }
 // Generate journey flow from use case
 export async function generateJourneyFromUseCase(
-  apiKey: string,
+  provider: LLMProvider,
   useCase: {
     id: number;
     title: string;
@@ -745,8 +705,6 @@ export async function generateJourneyFromUseCase(
   error?: string;
 }> {
   try {
-    const openai = new OpenAI({ apiKey });
-    
     // Prepare a comprehensive description from use case fields
     const descriptionParts = [
       `Title: ${useCase.title}`,
@@ -759,61 +717,13 @@ export async function generateJourneyFromUseCase(
       useCase.scope ? `Scope: ${useCase.scope}` : null
     ].filter(Boolean).join('\n\n');
     
-    // Prepare the prompt
-    const prompt = `You are an expert in designing customer journey maps. Create a detailed customer journey based on the following use case:
-
-${descriptionParts}
-
-Generate a complete customer journey map with appropriate stages that best fit this use case.
-Each step should have a type, title, and brief description that relates directly to the use case.
-
-Respond with JSON in the following format:
-{
-  "steps": [
-    {
-      "id": "node1",
-      "type": "Entry Point",
-      "title": "Step Title",
-      "description": "Brief description of this step"
-    },
-    ... more steps ...
-  ],
-  "connections": [
-    { 
-      "source": "node1", 
-      "target": "node2" 
-    },
-    ... more connections ...
-  ]
-}
-
-The journey should have 5-8 logical steps. Each step should have a descriptive title and a concise description.
-Valid step types include: "Entry Point", "Awareness", "Research", "Consideration", "Evaluation", "Decision", "Purchase", "Onboarding", "Support", "Feedback", "Retention".
-Connections should form a logical flow from one step to the next.`;
-
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-      messages: [
-        { 
-          role: "system", 
-          content: "You are an expert in customer experience design and journey mapping." 
-        },
-        { role: "user", content: prompt }
-      ],
-      response_format: { type: "json_object" },
+    const journeyData = await completeJson(provider, {
+      messages: await buildPromptMessages('journey-from-use-case', { useCaseDetails: descriptionParts }),
       temperature: 0.7
-    });
-
-    const content = response.choices[0].message.content;
-    
-    if (!content) {
-      throw new Error('No journey was generated');
-    }
-    
-    const journeyData = JSON.parse(content);
+    }, journeyStepsSchema);
     
     // Transform the returned data into ReactFlow nodes and edges
-    const nodes: any[] = journeyData.steps.map((step: any, index: number) => {
+    const nodes: any[] = journeyData.steps.map((step, index) => {
       // Calculate position - place nodes in a horizontal line
       const position = {
         x: 100 + (index * 250),
@@ -832,7 +742,7 @@ Connections should form a logical flow from one step to the next.`;
       };
     });
     
-    const edges: any[] = journeyData.connections.map((connection: any, index: number) => ({
+    const edges: any[] = journeyData.connections.map(connection => ({
       id: `e${connection.source}-${connection.target}`,
       source: connection.source,
       target: connection.target,
@@ -854,15 +764,12 @@ Connections should form a logical flow from one step to the next.`;
     };
   } catch (error: any) {
     console.error('Error generating journey from use case:', error);
-    return {
-      success: false,
-      error: error.message || 'Failed to generate journey from use case'
-    };
+    return aiFailure(error, 'Failed to generate journey from use case');
   }
 }
 
-// Generate an example agent journey with OpenAI
-export async function generateAgentJourneySuggestion(agentType?: string): Promise<{
+// Generate an example agent journey
+export async function generateAgentJourneySuggestion(provider: LLMProvider, agentType?: string): Promise<{
   title: string;
   agentName: string;
   purpose: string;
@@ -877,63 +784,16 @@ export async function generateAgentJourneySuggestion(agentType?: string): Promis
   nodesSuggestion: { type: string; label: string; content: string; position: { x: number; y: number } }[];
 }> {
   try {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OpenAI API key not configured');
-    }
-
-    const openai = new OpenAI({ apiKey });
-    
-    // Create a prompt based on the agent type or make a general request
-    const agentContext = agentType 
-      ? `Create an example agent journey for a ${agentType} AI agent.` 
-      : 'Create an example agent journey for an AI assistant that helps users.';
-    
-    const prompt = `
-${agentContext}
-
-Please provide a comprehensive example of an agent journey with all these details:
-1. A concise title for the journey
-2. A name for the agent
-3. The purpose of this agent journey (2-3 sentences)
-4. Brief notes about implementation (1-2 sentences)
-5. A high-level summary of the journey flow (2-3 sentences)
-6. How the agent interprets user input (2-3 sentences)
-7. Guardrails and safety measures for the agent (2-3 sentences)
-8. A list of 3-5 backend systems the agent might integrate with (just names)
-9. How the agent manages context during conversations (2-3 sentences)
-10. Rules for when to escalate to human agents (2-3 sentences)
-11. How errors are monitored and handled (2-3 sentences)
-12. A suggestion of 4-6 nodes that would make up this journey, including:
-   - Type of each node (start, agent, system, guardrail, decision, escalation, end)
-   - Label for each node
-   - Brief description of what happens in that node
-   - A suggested x,y position for the node in a flow diagram
-
-Format your response as a JSON object with these keys:
-title, agentName, purpose, notes, summary, inputInterpretation, guardrails, backendSystems (array), contextManagement, escalationRules, errorMonitoring, nodesSuggestion (an array of objects with type, label, content, and position properties).
-
-Make the example realistic and practical, with specific details that would be useful in a production AI agent.
-`;
-
-    // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        { role: "system", content: "You are an AI expert that helps design agent journeys and workflows." },
-        { role: "user", content: prompt }
-      ],
-      response_format: { type: "json_object" }
-    });
-
-    // Parse the generated content
-    const responseText = response.choices[0].message.content || '';
-    const journeySuggestion = JSON.parse(responseText);
+    const journeySuggestion = await completeJson(provider, {
+      messages: await buildPromptMessages('agent-journey-suggestion', { agentType })
+    }, agentJourneySchema);
 
     // Return the suggestion
     return journeySuggestion;
   } catch (error: any) {
     console.error('Error generating agent journey suggestion:', error);
+    // Keep the validation details for the route to report
+    if (error instanceof AIResponseError) throw error;
     throw new Error(`Failed to generate agent journey suggestion: ${error.message}`);
   }
 }
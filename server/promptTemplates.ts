@@ -0,0 +1,724 @@
+import { storage } from "./storage";
+import { AI_FEATURES, type AIFeature } from "@shared/aiFeatures";
+import type { PromptTemplate } from "@shared/schema";
+import type { LLMMessage } from "./llmProvider";
+
+export type PromptValues = Record<string, string | number | null | undefined>;
+
+export interface PromptPlaceholder {
+  name: string;
+  description: string;
+  sample: string;  // Used for previews
+}
+
+interface PromptTemplateDefault {
+  system: string;
+  user: string;
+  placeholders: PromptPlaceholder[];
+}
+
+// A template as the Settings page sees it; version 0 is the built-in default
+export interface PromptTemplateView {
+  name: AIFeature;
+  label: string;
+  version: number;
+  systemPrompt: string;
+  userPrompt: string;
+  placeholders: PromptPlaceholder[];
+  updatedAt: Date | null;
+}
+
+const USE_CASE_DETAILS_SAMPLE = `Title: Order Status Inquiry
+
+Customer: Acme Retail
+
+Description: Customers ask where their order is
+
+Problem Statement: Agents spend hours a day answering order status questions`;
+
+/**
+ * Built-in prompts for every AI feature. Placeholders are written {{name}};
+ * {{#name}}...{{/name}} is kept only when the value is non-empty and
+ * {{^name}}...{{/name}} only when it's empty.
+ */
+const PROMPT_TEMPLATE_DEFAULTS: Record<AIFeature, PromptTemplateDefault> = {
+  'use-case-suggestions': {
+    system: "You are an AI expert in designing customer service conversation flows.",
+    user: `You are an expert in designing conversational flows for customer service scenarios.
+Given the following use case title and description, suggest improvements to make it more specific,
+detailed, and effective for a customer service scenario. Respond with JSON format containing ONLY
+an improved title and description. DO NOT include agent persona or conversation flow in your response.
+
+Current Title: "{{title}}"
+Current Description: "{{description}}"{{#agentPersona}}
+Current Agent Persona (for reference only, do not modify): "{{agentPersona}}"{{/agentPersona}}
+
+Provide suggestions in this JSON format:
+{
+  "title": "Improved title here",
+  "description": "Improved detailed description here"
+}
+
+The title should be concise but descriptive (maximum 5-7 words).
+The description should provide context and goals, be comprehensive but concise (2-3 sentences maximum).
+IMPORTANT: Do not include "agentPersona" or "conversationFlow" fields in your response.`,
+    placeholders: [
+      { name: 'title', description: 'Use case title', sample: 'Order Status Inquiry' },
+      { name: 'description', description: 'Use case description', sample: 'Customers ask where their order is' },
+      { name: 'agentPersona', description: 'Agent persona, if set', sample: 'Friendly and concise support assistant' },
+    ],
+  },
+  'use-case-details': {
+    system: "You are an AI expert in defining comprehensive use cases.",
+    user: `You are an AI use case definition expert. Based on the following basic information,
+generate detailed fields for a comprehensive AI use case definition.
+
+Title: "{{title}}"
+Description: "{{description}}"
+{{#customer}}Customer: "{{customer}}"{{/customer}}
+
+For each of the following fields, provide concise but comprehensive information:
+1. Problem Statement: A clear articulation of the problem being solved
+2. Proposed AI Solution: How AI can address this problem
+3. Key Objectives & Success Metrics: Quantifiable goals and how success will be measured
+4. Required Data Inputs: Data sources, types, and availability status needed
+5. Expected Outputs & Actions: What outputs and actions the AI will produce
+6. Key Stakeholders: Business and technical stakeholders involved
+7. High-Level Scope: Define inclusions and exclusions for this use case
+8. Potential Risks & Dependencies: Identify risks and dependencies
+9. Estimated Impact/Value: Quantify the expected impact or value
+
+Respond ONLY with a JSON object containing these fields:
+{
+  "problemStatement": "...",
+  "proposedSolution": "...",
+  "keyObjectives": "...",
+  "requiredDataInputs": "...",
+  "expectedOutputs": "...",
+  "keyStakeholders": "...",
+  "scope": "...",
+  "potentialRisks": "...",
+  "estimatedImpact": "..."
+}
+
+Each field should contain 2-4 detailed sentences of specific information without being overly verbose.`,
+    placeholders: [
+      { name: 'title', description: 'Use case title', sample: 'Order Status Inquiry' },
+      { name: 'description', description: 'Use case description', sample: 'Customers ask where their order is' },
+      { name: 'customer', description: 'Customer name, if set', sample: 'Acme Retail' },
+    ],
+  },
+  'use-case-from-document': {
+    system: "You are an AI expert in defining comprehensive use cases. You only report what a document says.",
+    user: `A customer sent the following document{{#summarized}} (summarized section by section because it is long){{/summarized}}
+for the use case "{{title}}"{{#description}} - {{description}}{{/description}}.
+Extract what it says about each of these use case fields:
+1. problemStatement: The problem being solved
+2. proposedSolution: How AI or automation should address it
+3. keyObjectives: Goals and how success will be measured
+4. requiredDataInputs: Data sources, systems and their availability
+5. expectedOutputs: Outputs and actions the solution should produce
+6. keyStakeholders: Business and technical stakeholders
+7. scope: What is in and out of scope
+8. potentialRisks: Risks, constraints and dependencies
+9. estimatedImpact: Expected impact or value
+
+Use only information from the document, in 1-4 sentences per field. Set a field to null when the
+document doesn't cover it; never invent details.
+
+Document:
+\`\`\`
+{{document}}
+\`\`\`
+
+Respond ONLY with a JSON object containing these fields:
+{
+  "problemStatement": "..." or null,
+  "proposedSolution": "..." or null,
+  "keyObjectives": "..." or null,
+  "requiredDataInputs": "..." or null,
+  "expectedOutputs": "..." or null,
+  "keyStakeholders": "..." or null,
+  "scope": "..." or null,
+  "potentialRisks": "..." or null,
+  "estimatedImpact": "..." or null
+}`,
+    placeholders: [
+      { name: 'title', description: 'Use case title', sample: 'Order Status Inquiry' },
+      { name: 'description', description: 'Use case description', sample: 'Customers ask where their order is' },
+      { name: 'document', description: 'Document text, or its section summaries', sample: 'RFP: Order status automation. Our support team handles 10,000 order questions a month...' },
+      { name: 'summarized', description: 'Set when the document was too long and was summarized first', sample: '' },
+    ],
+  },
+  'agent-persona': {
+    system: "You are an expert in creating effective agent personas for conversational AI assistants.",
+    user: `You are an expert in designing conversational AI agent personas.
+Given the following use case title and description, suggest a detailed agent persona
+that would be effective for this scenario. The agent persona should define the tone,
+personality, knowledge areas, and behavior of the AI assistant when interacting with users.
+
+Current Title: "{{title}}"
+Current Description: "{{description}}"{{#currentPersona}}
+Current Agent Persona: "{{currentPersona}}"
+
+Analyze the current persona and suggest improvements or an alternative approach that might
+better serve this use case. If the current persona is already good, enhance it with additional details.{{/currentPersona}}
+
+Create a comprehensive agent persona that includes:
+1. The agent's personality traits (friendly, professional, empathetic, etc.)
+2. Communication style and tone of voice
+3. Level of formality
+4. Key knowledge areas relevant to the use case
+5. How the agent should handle difficult situations or questions
+6. Any specific phrases or language patterns the agent should use
+
+Provide a cohesive paragraph (200-300 words) that covers these aspects and creates a clear
+picture of how the agent should interact with users.`,
+    placeholders: [
+      { name: 'title', description: 'Use case title', sample: 'Order Status Inquiry' },
+      { name: 'description', description: 'Use case description', sample: 'Customers ask where their order is' },
+      { name: 'currentPersona', description: 'Existing agent persona, if any', sample: 'Friendly and concise support assistant' },
+    ],
+  },
+  'conversation-flow': {
+    system: "You are an expert in conversational AI design and natural dialogue patterns.",
+    user: `You are an expert in conversational AI design and flow optimization.
+Review the following conversation flow between a Customer and an Agent.
+Suggest improvements to make the conversation more natural, effective, and helpful.
+
+Use Case Title: "{{title}}"
+Use Case Description: "{{description}}"
+Agent Persona: "{{agentPersona}}"{{#useCaseDetails}}
+
+Detailed Use Case Information:
+{{useCaseDetails}}{{/useCaseDetails}}
+
+Current Conversation Flow:
+\`\`\`
+{{currentFlow}}
+\`\`\`
+
+Please analyze this conversation flow and provide an improved version that:
+1. Maintains the same general structure and purpose
+2. Makes dialogue more natural and conversational
+3. Ensures the agent's responses align with the provided Agent Persona
+4. Improves clarity and addresses potential points of confusion
+5. Adds appropriate follow-up questions or clarifications where needed
+6. Enhances the logical flow between conversation steps
+7. Incorporates relevant aspects from the detailed use case information (if provided){{#additionalInstructions}}
+
+ADDITIONAL INSTRUCTIONS:
+{{additionalInstructions}}{{/additionalInstructions}}
+
+Return ONLY the improved conversation flow in the same format with Customer/Agent labels and → arrows for step separation.
+Do not include explanations or analysis - just provide the complete improved flow.`,
+    placeholders: [
+      { name: 'title', description: 'Use case title', sample: 'Order Status Inquiry' },
+      { name: 'description', description: 'Use case description', sample: 'Customers ask where their order is' },
+      { name: 'agentPersona', description: 'Agent persona', sample: 'Friendly and concise support assistant' },
+      { name: 'useCaseDetails', description: 'Detailed use case fields as a list, if available', sample: '- Problem Statement: Agents spend hours a day answering order status questions' },
+      { name: 'currentFlow', description: 'The conversation flow being improved', sample: 'Customer: Where is my order?\nAgent: Can I have your order number?' },
+      { name: 'additionalInstructions', description: 'Instructions entered with the request', sample: 'Keep replies under two sentences' },
+    ],
+  },
+  'utterance-variations': {
+    system: "You are an expert in conversational AI and NLU training data.",
+    user: `You are an expert in training data for natural language understanding (NLU) models.
+Write {{count}} different ways a customer might say the following in a chat with a customer service agent.
+
+Customer utterance: "{{utterance}}"{{#intent}}
+Intent: "{{intent}}"{{/intent}}{{#title}}
+Use case: "{{title}}" - {{description}}{{/title}}
+
+Every variation must keep the same meaning and intent as the original. Vary the wording, length,
+formality and sentence structure; include casual phrasing and common typos in a few of them.
+Keep any {slot} annotations such as {order_id} exactly as written.
+
+Provide the variations in this JSON format:
+{
+  "variations": ["First variation", "Second variation"]
+}`,
+    placeholders: [
+      { name: 'count', description: 'Number of variations to write', sample: '10' },
+      { name: 'utterance', description: 'The customer turn to paraphrase', sample: 'Where is my order {order_id}?' },
+      { name: 'intent', description: 'Intent of the turn, if set', sample: 'check_order_status' },
+      { name: 'title', description: 'Use case title', sample: 'Order Status Inquiry' },
+      { name: 'description', description: 'Use case description', sample: 'Customers ask where their order is' },
+    ],
+  },
+  'customer-role-play': {
+    system: "You are a conversation designer who stress-tests chatbot scripts by role-playing realistic customers.",
+    user: `You are testing a designed customer service conversation by role-playing it.
+Use case: "{{title}}"{{#description}} - {{description}}{{/description}}
+{{#agentPersona}}Agent persona: {{agentPersona}}
+{{/agentPersona}}
+The designed conversation (the agent's script) is:
+
+{{flowScript}}
+
+{{#customerPersona}}Play this customer: {{customerPersona}}{{/customerPersona}}{{^customerPersona}}Invent a realistic customer for this use case and describe them in one sentence as "customerPersona".{{/customerPersona}}
+
+Rules:
+1. The customer talks like a real person: they may give details out of order, ask unexpected
+   questions, change their mind or push back. Don't just read the scripted customer lines.
+2. The agent may only say what the script says (filling in slot values), following the
+   "next" transitions. When the customer says something the script doesn't cover, the agent
+   gives a brief generic fallback and the customer turn is off script.
+3. Label every turn with the stepNumber of the script step it corresponds to. Set "offScript": true
+   with a short "note" on customer turns that no scripted step handles at that point.
+4. Stop after at most {{maxCustomerTurns}} customer turns, or when the script ends.
+
+Respond in this JSON format:
+{
+  "customerPersona": "One-sentence description of the customer",
+  "transcript": [
+    { "role": "customer", "text": "...", "stepNumber": 1, "offScript": false },
+    { "role": "agent", "text": "...", "stepNumber": 1 },
+    { "role": "customer", "text": "...", "offScript": true, "note": "Asks about ... which the flow doesn't cover" }
+  ]
+}`,
+    placeholders: [
+      { name: 'title', description: 'Use case title', sample: 'Order Status Inquiry' },
+      { name: 'description', description: 'Use case description', sample: 'Customers ask where their order is' },
+      { name: 'agentPersona', description: 'Agent persona, if set', sample: 'Friendly and concise support assistant' },
+      { name: 'flowScript', description: 'The designed flow, step by step', sample: 'Step 1\n  customer: Where is my order?\n  agent: Can I have your order number?\n  next: end of conversation' },
+      { name: 'customerPersona', description: 'Customer to play, if given', sample: 'An impatient customer on their phone' },
+      { name: 'maxCustomerTurns', description: 'Most customer turns to play', sample: '8' },
+    ],
+  },
+  'flow-critique': {
+    system: "You are a senior conversation designer who reviews chatbot scripts before they ship.",
+    user: `Review the following designed customer service conversation and explain what is wrong with it.
+Use case: "{{title}}"{{#description}} - {{description}}{{/description}}
+{{#agentPersona}}Agent persona: {{agentPersona}}
+{{/agentPersona}}
+The designed conversation is:
+
+{{flowScript}}
+
+Look for:
+1. Agent turns that don't match the agent persona in tone, vocabulary or behaviour
+2. Confusing, robotic or unhelpful agent wording
+3. Information the agent asks for without explaining why, or asks for twice
+4. Likely customer replies or problems the flow doesn't handle
+5. Dead ends and missing confirmations before the agent acts{{#knownIssues}}
+
+These problems were already found by automated checks; don't repeat them:
+{{knownIssues}}{{/knownIssues}}
+
+Report each problem once, tied to the stepNumber it occurs in. Leave stepNumber out for problems
+with the conversation as a whole. Use "error" only for problems that would break the conversation.
+Don't rewrite the flow.
+
+Respond in this JSON format:
+{
+  "findings": [
+    { "stepNumber": 2, "severity": "warning", "message": "What is wrong and why it matters" },
+    { "severity": "info", "message": "A problem with the conversation as a whole" }
+  ]
+}`,
+    placeholders: [
+      { name: 'title', description: 'Use case title', sample: 'Order Status Inquiry' },
+      { name: 'description', description: 'Use case description', sample: 'Customers ask where their order is' },
+      { name: 'agentPersona', description: 'Agent persona, if set', sample: 'Friendly and concise support assistant' },
+      { name: 'flowScript', description: 'The designed flow, step by step', sample: 'Step 1\n  customer: Where is my order?\n  agent: Can I have your order number?\n  next: end of conversation' },
+      { name: 'knownIssues', description: 'Findings from the built-in checks, one per line', sample: '- Step 1: The agent\'s first turn doesn\'t greet the customer' },
+    ],
+  },
+  'journey-summary': {
+    system: "You are an expert in customer experience analysis and workflow optimization.",
+    user: `You are an expert in analyzing customer journey maps and workflow processes.
+Based on the following customer journey information, generate a concise and informative summary (100-150 words).
+
+Journey Title: "{{title}}"
+{{#customerName}}Customer Name: "{{customerName}}"{{/customerName}}
+{{#workflowIntent}}Workflow Intent: "{{workflowIntent}}"{{/workflowIntent}}
+{{#notes}}Notes: "{{notes}}"{{/notes}}
+
+Journey Flow Nodes:
+{{nodes}}
+
+The summary should:
+1. Capture the main purpose of this customer journey
+2. Identify the key stages in the workflow
+3. Highlight any important aspects of the customer experience
+4. Be written in clear, professional language
+5. Be useful for someone who needs a quick understanding of this journey flow
+
+Your summary should be a single paragraph without bullet points or numbered lists.`,
+    placeholders: [
+      { name: 'title', description: 'Journey title', sample: 'Online Purchase' },
+      { name: 'customerName', description: 'Customer name, if set', sample: 'Acme Retail' },
+      { name: 'workflowIntent', description: 'Workflow intent, if set', sample: 'Convert first-time visitors' },
+      { name: 'notes', description: 'Journey notes, if set', sample: 'Mobile traffic is 70% of visits' },
+      { name: 'nodes', description: 'Numbered list of the journey nodes', sample: '1. Entry Point: "Visit site" - Customer lands on the home page\n2. Purchase: "Checkout" - Customer pays' },
+    ],
+  },
+  'ai-journey': {
+    system: "You are an expert in customer experience design and journey mapping.",
+    user: `You are an expert in designing customer journey maps. Create a detailed customer journey based on the following description:
+
+Description: "{{description}}"
+
+Generate a complete customer journey map with appropriate stages that makes sense for this scenario.
+Each step should have a type, title, and brief description.
+
+Respond with JSON in the following format:
+{
+  "steps": [
+    {
+      "id": "node1",
+      "type": "Entry Point",
+      "title": "Step Title",
+      "description": "Brief description of this step"
+    },
+    ... more steps ...
+  ],
+  "connections": [
+    {
+      "source": "node1",
+      "target": "node2"
+    },
+    ... more connections ...
+  ]
+}
+
+The journey should have 5-8 logical steps. Each step should have a descriptive title and a concise description.
+Valid step types include: "Entry Point", "Awareness", "Research", "Consideration", "Evaluation", "Decision", "Purchase", "Onboarding", "Support", "Feedback", "Retention".
+Connections should form a logical flow from one step to the next.`,
+    placeholders: [
+      { name: 'description', description: 'Journey description entered by the user', sample: 'A first-time customer buying running shoes online' },
+    ],
+  },
+  'journey-from-use-case': {
+    system: "You are an expert in customer experience design and journey mapping.",
+    user: `You are an expert in designing customer journey maps. Create a detailed customer journey based on the following use case:
+
+{{useCaseDetails}}
+
+Generate a complete customer journey map with appropriate stages that best fit this use case.
+Each step should have a type, title, and brief description that relates directly to the use case.
+
+Respond with JSON in the following format:
+{
+  "steps": [
+    {
+      "id": "node1",
+      "type": "Entry Point",
+      "title": "Step Title",
+      "description": "Brief description of this step"
+    },
+    ... more steps ...
+  ],
+  "connections": [
+    {
+      "source": "node1",
+      "target": "node2"
+    },
+    ... more connections ...
+  ]
+}
+
+The journey should have 5-8 logical steps. Each step should have a descriptive title and a concise description.
+Valid step types include: "Entry Point", "Awareness", "Research", "Consideration", "Evaluation", "Decision", "Purchase", "Onboarding", "Support", "Feedback", "Retention".
+Connections should form a logical flow from one step to the next.`,
+    placeholders: [
+      { name: 'useCaseDetails', description: 'The use case fields that are filled in', sample: USE_CASE_DETAILS_SAMPLE },
+    ],
+  },
+  'customer-journey': {
+    system: "",
+    user: `Generate a comprehensive customer journey for a {{journeyType}} experience.
+
+Customer Details:
+- Customer Persona: {{customerPersona}}
+- Business Goals: {{businessGoals}}
+- Key Touchpoints: {{touchpoints}}
+
+Please create a detailed customer journey that includes:
+1. A descriptive title
+2. A detailed description of the journey
+3. Customer persona details
+4. Business goals
+5. Key touchpoints array
+6. A flow diagram with nodes and edges
+
+For the flow diagram, create 5-8 nodes representing key stages of the customer journey. Each node should have:
+- id: unique identifier
+- type: one of ["start", "touchpoint", "decision", "experience", "outcome", "end"]
+- position: x,y coordinates (start from x:100, y:100 and space nodes 300px apart horizontally)
+- data: object with label, description, icon, and color
+
+Connect the nodes with edges that show the flow progression. Make it realistic and actionable.
+
+Respond with a JSON object containing all these fields.`,
+    placeholders: [
+      { name: 'journeyType', description: 'Kind of journey', sample: 'e-commerce' },
+      { name: 'customerPersona', description: 'Customer persona', sample: 'Price-conscious online shopper' },
+      { name: 'businessGoals', description: 'Business goals', sample: 'Increase conversion' },
+      { name: 'touchpoints', description: 'Comma-separated touchpoints', sample: 'Website, Chat, Email' },
+    ],
+  },
+  'action-plan-from-use-case': {
+    system: "You are an AI implementation specialist who helps create action plans for AI deployment projects.",
+    user: `You are an AI deployment specialist. You need to create an action plan based on the provided use case. The plan should be focused on implementing conversational AI.
+
+USE CASE INFORMATION:
+- Title: {{title}}
+- Description: {{description}}
+- Customer: {{customer}}
+- Problem Statement: {{problemStatement}}
+- Proposed AI Solution: {{proposedSolution}}
+- Key Objectives: {{keyObjectives}}
+- Required Data Inputs: {{requiredDataInputs}}
+- Expected Outputs: {{expectedOutputs}}
+- Key Stakeholders: {{keyStakeholders}}
+- Scope: {{scope}}
+- Potential Risks: {{potentialRisks}}
+- Estimated Impact: {{estimatedImpact}}
+
+Based on this information, generate a complete action plan with the following sections:
+1. Industry - Infer the industry from the context
+2. Primary Customer Interaction Channel - What would be the main channel for this solution? (chat, voice, email, etc)
+3. Estimated Monthly Interaction Volume - Provide a reasonable estimate based on the context
+4. Current Automation Level - Infer from the problem statement
+5. Biggest Challenge the organization is facing
+6. Repetitive Processes that could be automated
+7. AI Goals (list 3-5 specific goals as an array) - These should be specific and achievable
+8. Recommended Autonomy Level - (supervised, semi-autonomous, or fully autonomous)
+9. Current Platforms being used (infer from the case)
+10. Team Readiness - "yes" if team seems ready for AI, "no" if training would be required
+11. APIs Availability - "yes" if data seems readily available through APIs, "no" otherwise
+12. Success Metrics (list 3-5 specific metrics as an array) - These should be measurable KPIs
+
+Format your response as a JSON object with the following structure:
+{
+  "title": string, // A good title for the action plan
+  "industry": string,
+  "primaryChannel": string,
+  "interactionVolume": string,
+  "currentAutomation": string,
+  "biggestChallenge": string,
+  "repetitiveProcesses": string,
+  "aiGoals": string[], // Array of goal statements
+  "autonomyLevel": string,
+  "currentPlatforms": string,
+  "teamComfort": string, // "yes" or "no"
+  "apisAvailable": string, // "yes" or "no"
+  "successMetrics": string[] // Array of metric statements
+}
+
+Keep all suggestions grounded in the information provided in the use case, making reasonable inferences where needed.`,
+    placeholders: [
+      { name: 'title', description: 'Use case title', sample: 'Order Status Inquiry' },
+      { name: 'description', description: 'Use case description', sample: 'Customers ask where their order is' },
+      { name: 'customer', description: 'Customer name', sample: 'Acme Retail' },
+      { name: 'problemStatement', description: 'Problem statement', sample: 'Agents spend hours a day answering order status questions' },
+      { name: 'proposedSolution', description: 'Proposed AI solution', sample: 'A chat assistant that looks up orders' },
+      { name: 'keyObjectives', description: 'Key objectives', sample: 'Answer 60% of order questions automatically' },
+      { name: 'requiredDataInputs', description: 'Required data inputs', sample: 'Order management system' },
+      { name: 'expectedOutputs', description: 'Expected outputs', sample: 'Order status and delivery date' },
+      { name: 'keyStakeholders', description: 'Key stakeholders', sample: 'Support, operations' },
+      { name: 'scope', description: 'Scope', sample: 'Order status only' },
+      { name: 'potentialRisks', description: 'Potential risks', sample: 'Stale tracking data' },
+      { name: 'estimatedImpact', description: 'Estimated impact', sample: '30% fewer contacts' },
+    ],
+  },
+  'action-plan-suggestions': {
+    system: "You are an expert consultant specializing in AI implementation strategies for businesses.",
+    user: `You are an expert consultant on implementing AI solutions for businesses.
+You've been asked to review an AI Action Plan for a business and provide strategic suggestions
+for improvement.
+
+Here is the current Action Plan:
+
+PLAN TITLE: {{title}}
+
+BUSINESS DISCOVERY:
+- Industry: {{industry}}
+- Primary Channel for Customer Interaction: {{primaryChannel}}
+- Monthly Interaction Volume: {{interactionVolume}}
+- Current Automation: {{currentAutomation}}
+
+PAIN POINT ASSESSMENT:
+- Biggest Challenge: {{biggestChallenge}}
+- Repetitive Processes: {{repetitiveProcesses}}
+
+AI AGENT GOALS:
+- Goals: {{aiGoals}}
+- Desired Autonomy Level: {{autonomyLevel}}
+
+SYSTEM & INTEGRATION READINESS:
+- Current Platforms: {{currentPlatforms}}
+- Team Comfort with No-Code/Low-Code Tools: {{teamComfort}}
+- APIs Available: {{apisAvailable}}
+
+SUCCESS METRICS:
+- Key Success Metrics: {{successMetrics}}
+
+Based on this information, provide thoughtful suggestions to improve this action plan and increase its chances of success.
+Your response should include:
+
+1. Strategic recommendations (2-3 specific, actionable suggestions)
+2. Implementation considerations based on their tech stack and team comfort
+3. Risk mitigation strategies
+4. Any additional data points they should collect before proceeding
+5. Suggestions for phased implementation to ensure early wins
+
+Provide your recommendations in a well-organized, professional format with clear headings. Keep your suggestions specific,
+practical, and tailored to this business's unique needs based on their inputs.`,
+    placeholders: [
+      { name: 'title', description: 'Plan title', sample: 'Order Status Assistant Rollout' },
+      { name: 'industry', description: 'Industry', sample: 'Retail' },
+      { name: 'primaryChannel', description: 'Primary channel', sample: 'chat' },
+      { name: 'interactionVolume', description: 'Monthly interaction volume', sample: '10,000' },
+      { name: 'currentAutomation', description: 'Current automation', sample: 'Low' },
+      { name: 'biggestChallenge', description: 'Biggest challenge', sample: 'Repetitive order questions' },
+      { name: 'repetitiveProcesses', description: 'Repetitive processes', sample: 'Order lookups' },
+      { name: 'aiGoals', description: 'Comma-separated goals', sample: 'Deflect order contacts, Reduce wait times' },
+      { name: 'autonomyLevel', description: 'Desired autonomy level', sample: 'semi-autonomous' },
+      { name: 'currentPlatforms', description: 'Current platforms', sample: 'Help desk' },
+      { name: 'teamComfort', description: 'Team comfort with low-code tools', sample: 'yes' },
+      { name: 'apisAvailable', description: 'Whether APIs are available', sample: 'yes' },
+      { name: 'successMetrics', description: 'Comma-separated metrics', sample: 'Containment rate, CSAT' },
+    ],
+  },
+  'agent-journey-suggestion': {
+    system: "You are an AI expert that helps design agent journeys and workflows.",
+    user: `{{#agentType}}Create an example agent journey for a {{agentType}} AI agent.{{/agentType}}{{^agentType}}Create an example agent journey for an AI assistant that helps users.{{/agentType}}
+
+Please provide a comprehensive example of an agent journey with all these details:
+1. A concise title for the journey
+2. A name for the agent
+3. The purpose of this agent journey (2-3 sentences)
+4. Brief notes about implementation (1-2 sentences)
+5. A high-level summary of the journey flow (2-3 sentences)
+6. How the agent interprets user input (2-3 sentences)
+7. Guardrails and safety measures for the agent (2-3 sentences)
+8. A list of 3-5 backend systems the agent might integrate with (just names)
+9. How the agent manages context during conversations (2-3 sentences)
+10. Rules for when to escalate to human agents (2-3 sentences)
+11. How errors are monitored and handled (2-3 sentences)
+12. A suggestion of 4-6 nodes that would make up this journey, including:
+   - Type of each node (start, agent, system, guardrail, decision, escalation, end)
+   - Label for each node
+   - Brief description of what happens in that node
+   - A suggested x,y position for the node in a flow diagram
+
+Format your response as a JSON object with these keys:
+title, agentName, purpose, notes, summary, inputInterpretation, guardrails, backendSystems (array), contextManagement, escalationRules, errorMonitoring, nodesSuggestion (an array of objects with type, label, content, and position properties).
+
+Make the example realistic and practical, with specific details that would be useful in a production AI agent.`,
+    placeholders: [
+      { name: 'agentType', description: 'Kind of agent, if given', sample: 'travel booking' },
+    ],
+  },
+  'summarize-article': {
+    system: "",
+    user: `Please summarize the following text concisely while maintaining key points:
+
+{{text}}`,
+    placeholders: [
+      { name: 'text', description: 'Text to summarize', sample: 'Our support team handles 10,000 order questions a month...' },
+    ],
+  },
+  'sentiment': {
+    system: `You are a sentiment analysis expert.
+Analyze the sentiment of the text and provide a rating
+from 1 to 5 stars and a confidence score between 0 and 1.
+Respond with JSON in this format:
+{'rating': number, 'confidence': number}`,
+    user: "{{text}}",
+    placeholders: [
+      { name: 'text', description: 'Text to analyze', sample: 'Thanks, that was really quick!' },
+    ],
+  },
+};
+
+const SECTION_PATTERN = /\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g;
+const PLACEHOLDER_PATTERN = /\{\{(\w+)\}\}/g;
+
+export function renderPromptTemplate(template: string, values: PromptValues): string {
+  const isSet = (name: string) => {
+    const value = values[name];
+    return value !== undefined && value !== null && String(value).trim() !== '';
+  };
+
+  return template
+    .replace(SECTION_PATTERN, (_, kind: string, name: string, body: string) =>
+      (kind === '#') === isSet(name) ? body : '')
+    .replace(PLACEHOLDER_PATTERN, (_, name: string) => isSet(name) ? String(values[name]) : '');
+}
+
+/**
+ * Check a template's placeholders against the ones its feature supplies.
+ * Returns a list of problems; an empty list means the template is usable.
+ */
+export function checkPromptTemplate(name: AIFeature, template: string): string[] {
+  const known = PROMPT_TEMPLATE_DEFAULTS[name].placeholders.map(placeholder => placeholder.name);
+  const problems: string[] = [];
+
+  // Whatever is left after removing complete sections and plain placeholders is malformed
+  const leftover = template
+    .replace(SECTION_PATTERN, (_, kind: string, sectionName: string, body: string) => {
+      if (!known.includes(sectionName)) problems.push(`Unknown placeholder {{${sectionName}}}`);
+      return body;
+    })
+    .replace(PLACEHOLDER_PATTERN, (_, placeholder: string) => {
+      if (!known.includes(placeholder)) problems.push(`Unknown placeholder {{${placeholder}}}`);
+      return '';
+    });
+  const unmatched = leftover.match(/\{\{[#^/]\w+\}\}/g);
+  if (unmatched) {
+    problems.push(`Unclosed or unmatched section ${unmatched[0]}`);
+  }
+
+  return Array.from(new Set(problems));
+}
+
+export function getPromptPlaceholders(name: AIFeature): PromptPlaceholder[] {
+  return PROMPT_TEMPLATE_DEFAULTS[name].placeholders;
+}
+
+export function getSamplePromptValues(name: AIFeature): PromptValues {
+  return Object.fromEntries(PROMPT_TEMPLATE_DEFAULTS[name].placeholders.map(placeholder => [placeholder.name, placeholder.sample]));
+}
+
+export function getDefaultPromptTemplate(name: AIFeature): { systemPrompt: string; userPrompt: string } {
+  const { system, user } = PROMPT_TEMPLATE_DEFAULTS[name];
+  return { systemPrompt: system, userPrompt: user };
+}
+
+function toView(name: AIFeature, saved?: PromptTemplate): PromptTemplateView {
+  const feature = AI_FEATURES.find(f => f.id === name)!;
+  return {
+    name,
+    label: feature.label,
+    version: saved?.version ?? 0,
+    ...(saved
+      ? { systemPrompt: saved.systemPrompt, userPrompt: saved.userPrompt }
+      : getDefaultPromptTemplate(name)),
+    placeholders: getPromptPlaceholders(name),
+    updatedAt: saved?.createdAt ?? null
+  };
+}
+
+export async function getPromptTemplateViews(): Promise<PromptTemplateView[]> {
+  const saved = await storage.getLatestPromptTemplates();
+  return AI_FEATURES.map(feature => toView(feature.id, saved.find(template => template.name === feature.id)));
+}
+
+export async function getPromptTemplateView(name: AIFeature): Promise<PromptTemplateView> {
+  const [latest] = await storage.getPromptTemplateVersions(name);
+  return toView(name, latest);
+}
+
+// Render a feature's current prompt into chat messages
+export async function buildPromptMessages(name: AIFeature, values: PromptValues): Promise<LLMMessage[]> {
+  const { systemPrompt, userPrompt } = await getPromptTemplateView(name);
+  const system = renderPromptTemplate(systemPrompt, values).trim();
+  return [
+    ...(system ? [{ role: 'system' as const, content: system }] : []),
+    { role: 'user' as const, content: renderPromptTemplate(userPrompt, values) }
+  ];
+}
@@ -0,0 +1,113 @@
+import { storage, type RecordScope } from "./storage";
+import { syncFlowNodes } from "./flowNodeSync";
+import {
+  updateUseCaseSchema,
+  updateCustomerJourneySchema,
+  updateAgentJourneySchema,
+  updateActionPlanSchema,
+  type UseCase,
+  type CustomerJourney,
+  type AgentJourney,
+  type ActionPlan,
+  type Revision
+} from "@shared/schema";
+import type { RevisionEntityType } from "@shared/revisions";
+
+export type RevisableRecord = UseCase | CustomerJourney | AgentJourney | ActionPlan;
+
+// Dates become strings, the same as when the snapshot comes back out of jsonb
+function toSnapshot(record: RevisableRecord): Record<string, unknown> {
+  return JSON.parse(JSON.stringify(record));
+}
+
+export async function getRevisableRecord(
+  entityType: RevisionEntityType,
+  id: number,
+  workspaceId: number
+): Promise<RevisableRecord | undefined> {
+  switch (entityType) {
+    case 'use-case':
+      return storage.getUseCase(id, workspaceId);
+    case 'customer-journey':
+      return storage.getCustomerJourney(id, workspaceId);
+    case 'agent-journey':
+      return storage.getAgentJourney(id, workspaceId);
+    case 'action-plan':
+      return storage.getActionPlan(id, workspaceId);
+  }
+}
+
+/**
+ * Keep a copy of a record as it was just saved. Pass the record as it was
+ * before the save: if it has no history yet (it predates revisions), that
+ * state is kept first so the edit can still be undone.
+ */
+export async function recordRevision(
+  entityType: RevisionEntityType,
+  record: RevisableRecord,
+  scope: RecordScope,
+  options: { previous?: RevisableRecord; restoredFromId?: number } = {}
+): Promise<Revision> {
+  const { previous, restoredFromId } = options;
+  if (previous && (await storage.getRevisions(entityType, record.id, scope.workspaceId)).length === 0) {
+    await storage.createRevision({
+      workspaceId: scope.workspaceId,
+      entityType,
+      entityId: record.id,
+      snapshot: toSnapshot(previous),
+      createdBy: previous.updatedBy,
+      createdAt: previous.updatedAt
+    });
+  }
+
+  return storage.createRevision({
+    workspaceId: scope.workspaceId,
+    entityType,
+    entityId: record.id,
+    snapshot: toSnapshot(record),
+    restoredFromId: restoredFromId ?? null,
+    createdBy: scope.userId ?? null
+  });
+}
+
+async function customerExists(id: number, workspaceId: number): Promise<boolean> {
+  return !!(await storage.getCustomer(id, workspaceId)) || !!(await storage.getTrashItem('customer', id, workspaceId));
+}
+
+// Only the fields the update routes accept are written back; ids, owners and scores stay as they are
+async function writeSnapshot(revision: Revision, scope: RecordScope): Promise<RevisableRecord> {
+  const { entityId: id, snapshot } = revision;
+  switch (revision.entityType) {
+    case 'use-case': {
+      const useCase = await storage.updateUseCase(id, updateUseCaseSchema.parse(snapshot), scope);
+      await syncFlowNodes(useCase);
+      return useCase;
+    }
+    case 'customer-journey':
+      return storage.updateCustomerJourney(id, updateCustomerJourneySchema.parse(snapshot), scope);
+    case 'agent-journey':
+      return storage.updateAgentJourney(id, updateAgentJourneySchema.parse(snapshot), scope);
+    case 'action-plan': {
+      const actionPlan = updateActionPlanSchema.parse(snapshot);
+      // The customer may have been purged since this version was saved; one in the trash keeps the link
+      if (actionPlan.customerId && !(await customerExists(actionPlan.customerId, scope.workspaceId))) {
+        actionPlan.customerId = null;
+      }
+      return storage.updateActionPlan(id, actionPlan, scope);
+    }
+  }
+}
+
+/**
+ * Put a record back the way it was in a revision. The restore is itself
+ * saved as a new revision, so it can be undone the same way. Undefined when
+ * the record no longer exists.
+ */
+export async function restoreRevision(revision: Revision, scope: RecordScope): Promise<RevisableRecord | undefined> {
+  const current = await getRevisableRecord(revision.entityType, revision.entityId, scope.workspaceId);
+  if (!current) return undefined;
+
+  const restored = await writeSnapshot(revision, scope);
+  await recordRevision(revision.entityType, restored, scope, { previous: current, restoredFromId: revision.id });
+  return restored;
+}
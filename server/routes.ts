@@ -1,4 +1,4 @@
-import express, { type Express } from "express";
+import express, { type Express, type RequestHandler } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { z } from "zod";
@@ -7,6 +7,7 @@ import { sql } from "drizzle-orm";
 import { 
   insertUseCaseSchema, 
   updateUseCaseSchema, 
+  insertSimulationRunSchema,
   insertSettingSchema, 
   updateSettingSchema,
   insertCustomerJourneySchema,
@@ -16,17 +17,46 @@ import {
   insertActionPlanSchema,
   updateActionPlanSchema,
   insertAgentJourneySchema,
-  updateAgentJourneySchema
+  updateAgentJourneySchema,
+  insertPromptTemplateSchema,
+  updateRevisionLabelSchema
 } from "@shared/schema";
-import { validateOpenAIKey, getUseCaseSuggestions, getAgentPersonaSuggestion, getConversationFlowSuggestion, generateJourneySummary, generateAIJourney, generateActionPlanSuggestions, generateActionPlanFromUseCase, generateJourneyFromUseCase, generateAgentJourneySuggestion, OPENAI_API_KEY_SETTING } from "./openai";
-import { validateGeminiKey, generateCustomerJourneySuggestion, GEMINI_API_KEY_SETTING } from "./gemini";
+import { parseConversationFlow, parseConversationFlowWithTypes } from "@shared/parseConversation";
+import { reviewConversationFlow, sortFindings } from "@shared/flowReview";
+import { AI_FEATURES, AI_MONTHLY_BUDGET_SETTING, AI_SERVER_BUDGET_SETTING, AI_CACHE_TTL_SETTING, aiFeatureSettingKey, isAIConfigSetting, isServerAISetting } from "@shared/aiFeatures";
+import { isCredentialName } from "@shared/credentials";
+import { isRevisionEntityType } from "@shared/revisions";
+import { isTrashEntityType, TRASH_RETENTION_SETTING } from "@shared/trash";
+import { DEFAULT_WORKSPACE_ID } from "@shared/workspaces";
+import { validateOpenAIKey, getUseCaseSuggestions, getAgentPersonaSuggestion, getConversationFlowSuggestion, generateJourneySummary, generateAIJourney, generateActionPlanSuggestions, generateActionPlanFromUseCase, generateJourneyFromUseCase, generateAgentJourneySuggestion, generateUtteranceVariations, simulateCustomerRolePlay, critiqueConversationFlow } from "./openai";
+import { validateGeminiKey, generateCustomerJourneySuggestion, scoreFlowSentiment, scoreJourneySentiment } from "./gemini";
+import { getLLMProvider, getFeatureConfig, isAIFeature, isLLMProviderId, validateLocalEndpoint, getLocalBaseUrl, sameBaseUrl } from "./llmProvider";
 import { generateUseCaseDetails } from "./generateUseCaseDetails";
+import { extractUseCaseFields } from "./extractUseCaseFields";
+import { readDocumentText, DOCUMENT_FORMATS } from "./documentImport";
+import { getPromptTemplateViews, getPromptTemplateView, getDefaultPromptTemplate, getSamplePromptValues, renderPromptTemplate, checkPromptTemplate } from "./promptTemplates";
+import { AIResponseError, aiFailure, sendAIFailure } from "./aiResponse";
+import { getMonthlyBudget, getServerMonthlyBudget, getServerMonthlySpend, startOfMonth } from "./aiUsage";
+import { isForceRegenerate, getCacheTtlHours } from "./aiCache";
+import { getCredential, setCredential, deleteCredential, getCredentialStatuses, isLegacyCredentialSetting } from "./credentials";
+import { openEventStream, wantsEventStream, createPartialArrayReader, type EventStream } from "./aiStream";
+import { syncFlowNodes } from "./flowNodeSync";
+import { recordRevision, restoreRevision, getRevisableRecord } from "./revisions";
+import { getTrashRetentionDays, purgeExpiredTrash } from "./trash";
+import { setupAuth } from "./auth";
+import { setupWorkspaces, currentWorkspaceId, recordScope, canDelete, requireRole, requireServerAdmin, isServerAdmin, SERVER_ADMIN_REQUIRED } from "./workspaces";
+import { exportTrainingData, TRAINING_DATA_FORMATS, type TrainingDataFormat } from "./trainingDataExport";
+import { parseTranscript, transcriptToFlow, TRANSCRIPT_FORMATS } from "./transcriptImport";
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Sign-in and workspace roles come first so every route below is covered by them
+  setupAuth(app);
+  setupWorkspaces(app);
+
   // Use Cases APIs
-  app.get('/api/use-cases', async (_req, res) => {
+  app.get('/api/use-cases', async (req, res) => {
     try {
-      const useCases = await storage.getAllUseCases();
+      const useCases = await storage.getAllUseCases(currentWorkspaceId(req));
       res.json(useCases);
     } catch (error) {
       res.status(500).json({ error: (error as Error).message });
@@ -40,7 +70,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid ID format" });
       }
 
-      const useCase = await storage.getUseCase(id);
+      const useCase = await storage.getUseCase(id, currentWorkspaceId(req));
       if (!useCase) {
         return res.status(404).json({ error: "Use case not found" });
       }
@@ -58,21 +88,68 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: result.error.message });
       }
 
-      const newUseCase = await storage.createUseCase(result.data);
-      res.status(201).json(newUseCase);
+      // Reject flows with errors; warnings are returned with the saved use case
+      const { diagnostics } = parseConversationFlow(result.data.conversationFlow, result.data.roles);
+      if (diagnostics.some(d => d.severity === 'error')) {
+        return res.status(400).json({ error: "Conversation flow has errors", diagnostics });
+      }
+
+      const newUseCase = await storage.createUseCase(result.data, recordScope(req));
+      await syncFlowNodes(newUseCase);
+      await recordRevision('use-case', newUseCase, recordScope(req));
+      res.status(201).json({ ...newUseCase, diagnostics });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Start a use case from a real chat transcript (CSV or JSON lines)
+  app.post('/api/use-cases/import-transcript', async (req, res) => {
+    try {
+      const result = z.object({
+        title: z.string().min(1),
+        description: z.string().optional(),
+        content: z.string().min(1),
+        format: z.enum(TRANSCRIPT_FORMATS).optional(),
+        roles: z.array(z.string()).optional()
+      }).safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.message });
+      }
+
+      const { title, description, content, format, roles } = result.data;
+      let conversationFlow: string;
+      try {
+        conversationFlow = transcriptToFlow(parseTranscript(content, format), roles);
+      } catch (error) {
+        return res.status(400).json({ error: `Could not read transcript: ${(error as Error).message}` });
+      }
+
+      const { diagnostics } = parseConversationFlow(conversationFlow, roles);
+      const newUseCase = await storage.createUseCase({
+        title,
+        description: description || '',
+        conversationFlow,
+        roles: roles && roles.length > 0 ? roles : null
+      }, recordScope(req));
+      await syncFlowNodes(newUseCase);
+      await recordRevision('use-case', newUseCase, recordScope(req));
+      res.status(201).json({ ...newUseCase, diagnostics });
     } catch (error) {
       res.status(500).json({ error: (error as Error).message });
     }
   });
 
-  app.put('/api/use-cases/:id', async (req, res) => {
+  // PUT and PATCH both save through here, so the flow check, node sync and
+  // revision can't drift apart between them
+  const updateUseCase: RequestHandler = async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ error: "Invalid ID format" });
       }
 
-      const existingUseCase = await storage.getUseCase(id);
+      const existingUseCase = await storage.getUseCase(id, currentWorkspaceId(req));
       if (!existingUseCase) {
         return res.status(404).json({ error: "Use case not found" });
       }
@@ -82,40 +159,217 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: result.error.message });
       }
 
-      const updatedUseCase = await storage.updateUseCase(id, result.data);
-      res.json(updatedUseCase);
+      // Only a changed flow can be rejected, so saving other fields never
+      // fails because of a flow that was already stored
+      const { diagnostics } = parseConversationFlow(
+        result.data.conversationFlow ?? existingUseCase.conversationFlow,
+        result.data.roles !== undefined ? result.data.roles : existingUseCase.roles
+      );
+      const flowChanged = result.data.conversationFlow !== undefined &&
+        result.data.conversationFlow !== existingUseCase.conversationFlow;
+      if (flowChanged && diagnostics.some(d => d.severity === 'error')) {
+        return res.status(400).json({ error: "Conversation flow has errors", diagnostics });
+      }
+
+      const updatedUseCase = await storage.updateUseCase(id, result.data, recordScope(req));
+      if (result.data.conversationFlow !== undefined || result.data.nodePositions !== undefined || result.data.roles !== undefined) {
+        await syncFlowNodes(updatedUseCase);
+      }
+      await recordRevision('use-case', updatedUseCase, recordScope(req), { previous: existingUseCase });
+      res.json({ ...updatedUseCase, diagnostics });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  };
+
+  app.put('/api/use-cases/:id', updateUseCase);
+  app.patch('/api/use-cases/:id', updateUseCase);
+
+  // Parsed steps of a use case as stored in flow_nodes
+  app.get('/api/use-cases/:id/nodes', async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID format" });
+      }
+
+      const useCase = await storage.getUseCase(id, currentWorkspaceId(req));
+      if (!useCase) {
+        return res.status(404).json({ error: "Use case not found" });
+      }
+
+      // Use cases saved before nodes were synced get their rows on first read
+      let nodes = await storage.getFlowNodesForUseCase(id);
+      if (nodes.length === 0 && useCase.conversationFlow?.trim()) {
+        nodes = await syncFlowNodes(useCase);
+      }
+
+      res.json(nodes);
     } catch (error) {
       res.status(500).json({ error: (error as Error).message });
     }
   });
-  
-  // Add PATCH endpoint for partial updates
-  app.patch('/api/use-cases/:id', async (req, res) => {
+
+  // Paths walked through the use case in the conversation simulator
+  app.get('/api/use-cases/:id/simulations', async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ error: "Invalid ID format" });
       }
 
-      const existingUseCase = await storage.getUseCase(id);
-      if (!existingUseCase) {
+      const useCase = await storage.getUseCase(id, currentWorkspaceId(req));
+      if (!useCase) {
         return res.status(404).json({ error: "Use case not found" });
       }
 
-      // Log incoming data for debugging
-      console.log("PATCH /api/use-cases/:id - Request body:", JSON.stringify(req.body));
+      const runs = await storage.getSimulationRunsForUseCase(id);
+      res.json(runs);
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
 
-      // Try to parse the request body with our schema
-      const result = updateUseCaseSchema.safeParse(req.body);
+  app.post('/api/use-cases/:id/simulations', async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID format" });
+      }
+
+      const result = insertSimulationRunSchema.safeParse({ ...req.body, useCaseId: id });
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.message });
+      }
+
+      const useCase = await storage.getUseCase(id, currentWorkspaceId(req));
+      if (!useCase) {
+        return res.status(404).json({ error: "Use case not found" });
+      }
+
+      const run = await storage.createSimulationRun(result.data);
+      res.status(201).json(run);
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Review the flow with the built-in checks and, if asked, an LLM critique.
+  // A failed critique still returns the checks' findings.
+  app.post('/api/use-cases/:id/review', async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID format" });
+      }
+
+      const schema = z.object({
+        includeAi: z.boolean().optional(),
+        maxAgentWords: z.number().int().positive().optional()
+      });
+      const result = schema.safeParse(req.body ?? {});
       if (!result.success) {
-        console.error("Validation error:", result.error.message);
         return res.status(400).json({ error: result.error.message });
       }
 
-      const updatedUseCase = await storage.updateUseCase(id, result.data);
-      res.json(updatedUseCase);
+      const useCase = await storage.getUseCase(id, currentWorkspaceId(req));
+      if (!useCase) {
+        return res.status(404).json({ error: "Use case not found" });
+      }
+
+      const parsedFlow = parseConversationFlow(useCase.conversationFlow, useCase.roles);
+      const findings = reviewConversationFlow(parsedFlow, { maxAgentWords: result.data.maxAgentWords });
+      if (!result.data.includeAi || parsedFlow.steps.length === 0) {
+        return res.json({ findings });
+      }
+
+      const { provider, error: providerError } = await getLLMProvider('flow-critique', {
+        workspaceId: currentWorkspaceId(req),
+        entity: { type: 'use-case', id },
+        forceRegenerate: isForceRegenerate(req)
+      });
+      if (!provider) {
+        return res.json({ findings, critiqueError: providerError });
+      }
+
+      const agentPersonaSetting = await storage.getSetting('agent_persona', currentWorkspaceId(req));
+      const critique = await critiqueConversationFlow(
+        provider,
+        parsedFlow,
+        {
+          title: useCase.title,
+          description: useCase.description,
+          agentPersona: agentPersonaSetting?.value || undefined
+        },
+        findings
+      );
+
+      res.json(critique.success
+        ? { findings: sortFindings([...findings, ...(critique.findings ?? [])]) }
+        : { findings, critiqueError: critique.error });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Score the sentiment of every customer message in the flow and keep the scores with the use case
+  app.post('/api/use-cases/:id/sentiment', async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID format" });
+      }
+
+      const useCase = await storage.getUseCase(id, currentWorkspaceId(req));
+      if (!useCase) {
+        return res.status(404).json({ error: "Use case not found" });
+      }
+
+      const { provider, error: providerError } = await getLLMProvider('sentiment', {
+        workspaceId: currentWorkspaceId(req),
+        entity: { type: 'use-case', id },
+        forceRegenerate: isForceRegenerate(req)
+      });
+      if (!provider) {
+        return res.status(400).json({ error: providerError });
+      }
+
+      const sentiment = await scoreFlowSentiment(provider, parseConversationFlow(useCase.conversationFlow, useCase.roles));
+      const updatedUseCase = await storage.saveUseCaseSentiment(id, sentiment);
+      res.json({ success: true, useCase: updatedUseCase });
+    } catch (error) {
+      console.error('Error analyzing use case sentiment:', error);
+      if (error instanceof AIResponseError) {
+        return sendAIFailure(res, aiFailure(error, ''), 'Failed to analyze sentiment');
+      }
+      res.status(500).json({ success: false, error: (error as Error).message || 'Failed to analyze sentiment' });
+    }
+  });
+
+  // Download the flow as bot training data (Rasa YAML, Dialogflow CX JSON or chat JSONL)
+  app.get('/api/use-cases/:id/export', async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID format" });
+      }
+
+      const format = (req.query.format as string) || 'jsonl';
+      if (!TRAINING_DATA_FORMATS.includes(format as TrainingDataFormat)) {
+        return res.status(400).json({ error: `Unsupported export format. Use one of: ${TRAINING_DATA_FORMATS.join(', ')}` });
+      }
+
+      const useCase = await storage.getUseCase(id, currentWorkspaceId(req));
+      if (!useCase) {
+        return res.status(404).json({ error: "Use case not found" });
+      }
+
+      const { content, contentType, extension } = exportTrainingData(useCase, format as TrainingDataFormat);
+      const fileName = useCase.title.replace(/[^a-z0-9]/gi, '_').toLowerCase() || `use_case_${id}`;
+      res.setHeader('Content-Type', `${contentType}; charset=utf-8`);
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}_${format}.${extension}"`);
+      res.send(content);
     } catch (error) {
-      console.error("Error in PATCH /api/use-cases/:id:", error);
       res.status(500).json({ error: (error as Error).message });
     }
   });
@@ -127,12 +381,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid ID format" });
       }
 
-      const existingUseCase = await storage.getUseCase(id);
+      const existingUseCase = await storage.getUseCase(id, currentWorkspaceId(req));
       if (!existingUseCase) {
         return res.status(404).json({ error: "Use case not found" });
       }
 
-      await storage.deleteUseCase(id);
+      if (!canDelete(req, existingUseCase)) {
+        return res.status(403).json({ error: "Only the person who created this use case or a workspace admin can delete it" });
+      }
+
+      await storage.deleteUseCase(id, currentWorkspaceId(req));
       res.status(204).send();
     } catch (error) {
       res.status(500).json({ error: (error as Error).message });
@@ -140,10 +398,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Settings APIs
-  app.get('/api/settings', async (_req, res) => {
+  app.get('/api/settings', async (req, res) => {
     try {
-      const settings = await storage.getAllSettings();
-      res.json(settings);
+      const settings = (await storage.getAllSettings(currentWorkspaceId(req))).filter(setting => !isServerAISetting(setting.key));
+      const serverSettings = (await storage.getAllSettings(DEFAULT_WORKSPACE_ID)).filter(setting => isServerAISetting(setting.key));
+      res.json([...settings, ...serverSettings]);
     } catch (error) {
       res.status(500).json({ error: (error as Error).message });
     }
@@ -152,7 +411,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/settings/:key', async (req, res) => {
     try {
       const key = req.params.key;
-      const setting = await storage.getSetting(key);
+      const setting = await storage.getSetting(key, isServerAISetting(key) ? DEFAULT_WORKSPACE_ID : currentWorkspaceId(req));
       
       if (!setting) {
         return res.status(404).json({ error: "Setting not found" });
@@ -170,8 +429,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!result.success) {
         return res.status(400).json({ error: result.error.message });
       }
+      if (isLegacyCredentialSetting(result.data.key)) {
+        return res.status(400).json({ error: "API keys are saved through /api/credentials" });
+      }
+      if (isServerAISetting(result.data.key) && !isServerAdmin(req)) {
+        return res.status(403).json({ error: SERVER_ADMIN_REQUIRED });
+      }
+      if (isAIConfigSetting(result.data.key) && req.workspace?.role !== 'admin') {
+        return res.status(403).json({ error: "Only workspace admins can change AI settings" });
+      }
+      if (result.data.key === TRASH_RETENTION_SETTING && req.workspace?.role !== 'admin') {
+        return res.status(403).json({ error: "Only workspace admins can change how long the trash keeps items" });
+      }
 
-      const newSetting = await storage.createSetting(result.data);
+      const newSetting = await storage.createSetting(result.data, currentWorkspaceId(req));
       res.status(201).json(newSetting);
     } catch (error) {
       res.status(500).json({ error: (error as Error).message });
@@ -181,7 +452,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put('/api/settings/:key', async (req, res) => {
     try {
       const key = req.params.key;
-      const existingSetting = await storage.getSetting(key);
+      if (isLegacyCredentialSetting(key)) {
+        return res.status(400).json({ error: "API keys are saved through /api/credentials" });
+      }
+      if (isServerAISetting(key) && !isServerAdmin(req)) {
+        return res.status(403).json({ error: SERVER_ADMIN_REQUIRED });
+      }
+      if (isAIConfigSetting(key) && req.workspace?.role !== 'admin') {
+        return res.status(403).json({ error: "Only workspace admins can change AI settings" });
+      }
+      if (key === TRASH_RETENTION_SETTING && req.workspace?.role !== 'admin') {
+        return res.status(403).json({ error: "Only workspace admins can change how long the trash keeps items" });
+      }
+      const existingSetting = await storage.getSetting(key, currentWorkspaceId(req));
       
       const result = updateSettingSchema.safeParse(req.body);
       if (!result.success) {
@@ -194,10 +477,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         setting = await storage.createSetting({ 
           key, 
           value: result.data.value 
-        });
+        }, currentWorkspaceId(req));
       } else {
         // Update existing setting
-        setting = await storage.updateSetting(key, result.data);
+        setting = await storage.updateSetting(key, result.data, currentWorkspaceId(req));
       }
       
       res.json(setting);
@@ -209,23 +492,76 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete('/api/settings/:key', async (req, res) => {
     try {
       const key = req.params.key;
-      const existingSetting = await storage.getSetting(key);
+      if (isServerAISetting(key) && !isServerAdmin(req)) {
+        return res.status(403).json({ error: SERVER_ADMIN_REQUIRED });
+      }
+      if (isAIConfigSetting(key) && req.workspace?.role !== 'admin') {
+        return res.status(403).json({ error: "Only workspace admins can change AI settings" });
+      }
+      if (key === TRASH_RETENTION_SETTING && req.workspace?.role !== 'admin') {
+        return res.status(403).json({ error: "Only workspace admins can change how long the trash keeps items" });
+      }
+      const existingSetting = await storage.getSetting(key, currentWorkspaceId(req));
       
       if (!existingSetting) {
         return res.status(404).json({ error: "Setting not found" });
       }
 
-      await storage.deleteSetting(key);
+      await storage.deleteSetting(key, currentWorkspaceId(req));
       res.status(204).send();
     } catch (error) {
       res.status(500).json({ error: (error as Error).message });
     }
   });
 
-  // OpenAI Validation API
+  // Credentials are write-only: responses only ever say where a key comes from and mask it
+  app.get('/api/credentials', async (_req, res) => {
+    try {
+      res.json(await getCredentialStatuses());
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  app.put('/api/credentials/:name', requireServerAdmin, async (req, res) => {
+    try {
+      const { name } = req.params;
+      if (!isCredentialName(name)) {
+        return res.status(404).json({ error: "Unknown credential" });
+      }
+
+      const schema = z.object({ value: z.string().trim().min(1, "A value is required") });
+      const result = schema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.message });
+      }
+
+      await setCredential(name, result.data.value);
+      const statuses = await getCredentialStatuses();
+      res.json(statuses.find(status => status.name === name));
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  app.delete('/api/credentials/:name', requireServerAdmin, async (req, res) => {
+    try {
+      const { name } = req.params;
+      if (!isCredentialName(name)) {
+        return res.status(404).json({ error: "Unknown credential" });
+      }
+
+      await deleteCredential(name);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // OpenAI Validation API; without a key in the body, checks the one in use
   app.post('/api/openai/validate', async (req, res) => {
     try {
-      const { apiKey } = req.body;
+      const apiKey = req.body.apiKey || await getCredential('openai');
       
       if (!apiKey) {
         return res.status(400).json({ error: "API key is required" });
@@ -238,10 +574,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Gemini Validation API
+  // Gemini Validation API; without a key in the body, checks the one in use
   app.post('/api/gemini/validate', async (req, res) => {
     try {
-      const { apiKey } = req.body;
+      const apiKey = req.body.apiKey || await getCredential('gemini');
       
       if (!apiKey) {
         return res.status(400).json({ error: "API key is required" });
@@ -254,8 +590,277 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Gemini Customer Journey Generation API
+  // LLM provider selection per AI feature
+  app.get('/api/llm/features', async (req, res) => {
+    try {
+      const workspaceId = currentWorkspaceId(req);
+      const features = await Promise.all(AI_FEATURES.map(async feature => ({
+        id: feature.id,
+        label: feature.label,
+        config: await getFeatureConfig(feature.id, workspaceId)
+      })));
+      res.json(features);
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  app.put('/api/llm/features/:feature', requireRole('admin'), async (req, res) => {
+    try {
+      const { feature } = req.params;
+      if (!isAIFeature(feature)) {
+        return res.status(404).json({ error: "Unknown AI feature" });
+      }
+
+      const schema = z.object({
+        provider: z.string().refine(isLLMProviderId, { message: "Unsupported provider" }),
+        model: z.string().optional()
+      });
+      const result = schema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.message });
+      }
+
+      // An empty model means the provider's default
+      const workspaceId = currentWorkspaceId(req);
+      const key = aiFeatureSettingKey(feature);
+      const value = JSON.stringify({ provider: result.data.provider, model: result.data.model?.trim() || undefined });
+      if (await storage.getSetting(key, workspaceId)) {
+        await storage.updateSetting(key, { value }, workspaceId);
+      } else {
+        await storage.createSetting({ key, value }, workspaceId);
+      }
+      res.json({ id: feature, config: await getFeatureConfig(feature, workspaceId) });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Local (OpenAI-compatible) endpoint validation
+  app.post('/api/llm/local/validate', requireServerAdmin, async (req, res) => {
+    try {
+      const { baseUrl, apiKey } = req.body;
+
+      if (!baseUrl) {
+        return res.status(400).json({ error: "Base URL is required" });
+      }
+
+      // The stored key only ever goes to the endpoint it was saved for
+      const configuredUrl = await getLocalBaseUrl();
+      const storedKey = configuredUrl && sameBaseUrl(baseUrl, configuredUrl) ? await getCredential('local-llm') : undefined;
+      const validationResult = await validateLocalEndpoint(baseUrl, apiKey || storedKey);
+      res.json(validationResult);
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // AI usage ledger: this month's totals per feature and the budget they count against
+  app.get('/api/ai-usage', async (req, res) => {
+    try {
+      const workspaceId = currentWorkspaceId(req);
+      const since = startOfMonth();
+      const summary = await storage.getAiUsageSummary(since, workspaceId);
+      res.json({
+        since,
+        summary,
+        recent: await storage.getRecentAiUsage(25, workspaceId),
+        monthlyBudget: await getMonthlyBudget(workspaceId),
+        spent: summary.reduce((total, feature) => total + feature.estimatedCost, 0),
+        serverBudget: await getServerMonthlyBudget(),
+        serverSpent: await getServerMonthlySpend(),
+        cacheTtlHours: await getCacheTtlHours(workspaceId)
+      });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  app.put('/api/ai-usage/budget', requireRole('admin'), async (req, res) => {
+    try {
+      const schema = z.object({ monthlyBudget: z.number().nonnegative().nullable() });
+      const result = schema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.message });
+      }
+
+      // No budget means no limit
+      const { monthlyBudget } = result.data;
+      const workspaceId = currentWorkspaceId(req);
+      if (monthlyBudget === null) {
+        await storage.deleteSetting(AI_MONTHLY_BUDGET_SETTING, workspaceId);
+      } else if (await storage.getSetting(AI_MONTHLY_BUDGET_SETTING, workspaceId)) {
+        await storage.updateSetting(AI_MONTHLY_BUDGET_SETTING, { value: String(monthlyBudget) }, workspaceId);
+      } else {
+        await storage.createSetting({ key: AI_MONTHLY_BUDGET_SETTING, value: String(monthlyBudget) }, workspaceId);
+      }
+      res.json({ monthlyBudget });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Caps every workspace together, so self-service workspaces can't run up the server's bill
+  app.put('/api/ai-usage/server-budget', requireServerAdmin, async (req, res) => {
+    try {
+      const schema = z.object({ monthlyBudget: z.number().nonnegative().nullable() });
+      const result = schema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.message });
+      }
+
+      // Server settings live in the default workspace, which a server admin is always working in
+      const { monthlyBudget } = result.data;
+      if (monthlyBudget === null) {
+        await storage.deleteSetting(AI_SERVER_BUDGET_SETTING, DEFAULT_WORKSPACE_ID);
+      } else if (await storage.getSetting(AI_SERVER_BUDGET_SETTING, DEFAULT_WORKSPACE_ID)) {
+        await storage.updateSetting(AI_SERVER_BUDGET_SETTING, { value: String(monthlyBudget) }, DEFAULT_WORKSPACE_ID);
+      } else {
+        await storage.createSetting({ key: AI_SERVER_BUDGET_SETTING, value: String(monthlyBudget) }, DEFAULT_WORKSPACE_ID);
+      }
+      res.json({ monthlyBudget });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // AI response cache: how long identical requests are answered without calling the model
+  app.put('/api/ai-cache/ttl', requireRole('admin'), async (req, res) => {
+    try {
+      const schema = z.object({ ttlHours: z.number().nonnegative() });
+      const result = schema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.message });
+      }
+
+      const value = String(result.data.ttlHours);
+      const workspaceId = currentWorkspaceId(req);
+      if (await storage.getSetting(AI_CACHE_TTL_SETTING, workspaceId)) {
+        await storage.updateSetting(AI_CACHE_TTL_SETTING, { value }, workspaceId);
+      } else {
+        await storage.createSetting({ key: AI_CACHE_TTL_SETTING, value }, workspaceId);
+      }
+      res.json({ ttlHours: result.data.ttlHours });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  app.delete('/api/ai-cache', requireRole('admin'), async (req, res) => {
+    try {
+      const cleared = await storage.clearAiResponseCache(currentWorkspaceId(req));
+      res.json({ cleared });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Prompt template library; saving or restoring always adds a new version
+  const promptTemplateBodySchema = insertPromptTemplateSchema.omit({ name: true });
+
+  app.get('/api/prompt-templates', async (req, res) => {
+    try {
+      res.json(await getPromptTemplateViews());
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  app.get('/api/prompt-templates/:name/versions', async (req, res) => {
+    try {
+      const { name } = req.params;
+      if (!isAIFeature(name)) {
+        return res.status(404).json({ error: "Unknown prompt template" });
+      }
+
+      res.json(await storage.getPromptTemplateVersions(name));
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  app.put('/api/prompt-templates/:name', requireServerAdmin, async (req, res) => {
+    try {
+      const { name } = req.params;
+      if (!isAIFeature(name)) {
+        return res.status(404).json({ error: "Unknown prompt template" });
+      }
+
+      const result = promptTemplateBodySchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.message });
+      }
+
+      const problems = [
+        ...checkPromptTemplate(name, result.data.systemPrompt ?? ''),
+        ...checkPromptTemplate(name, result.data.userPrompt)
+      ];
+      if (problems.length > 0) {
+        return res.status(400).json({ error: problems.join('; ') });
+      }
+
+      await storage.createPromptTemplateVersion({ name, ...result.data });
+      res.json(await getPromptTemplateView(name));
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Restore an earlier version, or the built-in prompt when no version is given
+  app.post('/api/prompt-templates/:name/restore', requireServerAdmin, async (req, res) => {
+    try {
+      const { name } = req.params;
+      if (!isAIFeature(name)) {
+        return res.status(404).json({ error: "Unknown prompt template" });
+      }
+
+      const version = req.body?.version !== undefined ? Number(req.body.version) : undefined;
+      let restored = getDefaultPromptTemplate(name);
+      if (version !== undefined) {
+        const saved = (await storage.getPromptTemplateVersions(name)).find(template => template.version === version);
+        if (!saved) {
+          return res.status(404).json({ error: "Prompt template version not found" });
+        }
+        restored = { systemPrompt: saved.systemPrompt, userPrompt: saved.userPrompt };
+      }
+
+      await storage.createPromptTemplateVersion({ name, ...restored });
+      res.json(await getPromptTemplateView(name));
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Render a draft with sample values so it can be checked before saving
+  app.post('/api/prompt-templates/:name/preview', async (req, res) => {
+    try {
+      const { name } = req.params;
+      if (!isAIFeature(name)) {
+        return res.status(404).json({ error: "Unknown prompt template" });
+      }
+
+      const result = promptTemplateBodySchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.message });
+      }
+
+      const values = { ...getSamplePromptValues(name), ...(req.body.values || {}) };
+      res.json({
+        systemPrompt: renderPromptTemplate(result.data.systemPrompt ?? '', values),
+        userPrompt: renderPromptTemplate(result.data.userPrompt, values),
+        problems: [
+          ...checkPromptTemplate(name, result.data.systemPrompt ?? ''),
+          ...checkPromptTemplate(name, result.data.userPrompt)
+        ]
+      });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Gemini Customer Journey Generation API; streams nodes as they're generated when asked
   app.post('/api/gemini/customer-journey', async (req, res) => {
+    let events: EventStream | undefined;
     try {
       const { journeyType, customerPersona, businessGoals, touchpoints } = req.body;
       
@@ -263,22 +868,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "All fields are required" });
       }
       
-      // Get the Gemini API key from settings
-      const apiKeySetting = await storage.getSetting(GEMINI_API_KEY_SETTING);
-      if (!apiKeySetting || !apiKeySetting.value) {
-        return res.status(400).json({ error: "Gemini API key not configured. Please add it in Settings." });
+      // Get the model configured for this feature
+      const { provider, error: providerError } = await getLLMProvider('customer-journey', { workspaceId: currentWorkspaceId(req), forceRegenerate: isForceRegenerate(req) });
+      if (!provider) {
+        return res.status(400).json({ error: providerError });
+      }
+      
+      if (wantsEventStream(req)) {
+        const stream = openEventStream(res);
+        const readNodes = createPartialArrayReader('nodes', node => stream.send('node', node));
+        events = {
+          ...stream,
+          onToken: (text) => {
+            stream.onToken(text);
+            readNodes(text);
+          }
+        };
       }
       
       const journeyResult = await generateCustomerJourneySuggestion(
-        apiKeySetting.value,
+        provider,
         journeyType,
         customerPersona,
         businessGoals,
-        touchpoints
+        touchpoints,
+        events
       );
       
+      if (events) {
+        return events.done(journeyResult);
+      }
       res.json(journeyResult);
     } catch (error) {
+      if (events) {
+        return events.fail(aiFailure(error, ''), 'Failed to generate customer journey');
+      }
+      if (error instanceof AIResponseError) {
+        return sendAIFailure(res, aiFailure(error, ''), 'Failed to generate customer journey');
+      }
       res.status(500).json({ error: (error as Error).message });
     }
   });
@@ -298,26 +925,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log("Received request for AI suggestions with title:", title);
       console.log("Received request for AI suggestions with description:", description);
-      console.log("Received request for AI suggestions with agentPersona:", agentPersona || "none");
-      
-      // Get the OpenAI API key from settings
-      const apiKeySetting = await storage.getSetting(OPENAI_API_KEY_SETTING);
-      if (!apiKeySetting || !apiKeySetting.value) {
-        return res.status(400).json({ error: "OpenAI API key not configured. Please add it in Settings." });
-      }
+      console.log("Received request for AI suggestions with agentPersona:", agentPersona || "none");
       
-      // Make sure the API key is not empty
-      if (apiKeySetting.value.trim() === '') {
-        return res.status(400).json({ error: "OpenAI API key is empty. Please add a valid key in Settings." });
+      // Get the model configured for this feature
+      const { provider, error: providerError } = await getLLMProvider('use-case-suggestions', { workspaceId: currentWorkspaceId(req), forceRegenerate: isForceRegenerate(req) });
+      if (!provider) {
+        return res.status(400).json({ error: providerError });
       }
       
       const suggestionsResult = await getUseCaseSuggestions(
-        apiKeySetting.value,
+        provider,
         title,
         description,
         agentPersona
       );
       
+      if (!suggestionsResult.success) {
+        return sendAIFailure(res, suggestionsResult, "Failed to get suggestions");
+      }
       res.json(suggestionsResult);
     } catch (error) {
       console.error("Error generating suggestions:", error);
@@ -339,37 +964,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log("Received request for agent persona suggestion with description:", description || "none");
       console.log("Received request for agent persona suggestion with currentPersona:", currentPersona || "none");
       
-      // Get the OpenAI API key from settings
-      const apiKeySetting = await storage.getSetting(OPENAI_API_KEY_SETTING);
-      if (!apiKeySetting || !apiKeySetting.value) {
-        return res.status(400).json({ error: "OpenAI API key not configured. Please add it in Settings." });
-      }
-      
-      // Make sure the API key is not empty
-      if (apiKeySetting.value.trim() === '') {
-        return res.status(400).json({ error: "OpenAI API key is empty. Please add a valid key in Settings." });
+      // Get the model configured for this feature
+      const { provider, error: providerError } = await getLLMProvider('agent-persona', { workspaceId: currentWorkspaceId(req), forceRegenerate: isForceRegenerate(req) });
+      if (!provider) {
+        return res.status(400).json({ error: providerError });
       }
       
-      // Call OpenAI to get agent persona suggestion
+      // Get agent persona suggestion from the model
       const response = await getAgentPersonaSuggestion(
-        apiKeySetting.value,
+        provider,
         title || "",
         description || "",
         currentPersona
       );
       
+      if (!response.success) {
+        return sendAIFailure(res, response, 'Failed to get agent persona suggestion');
+      }
       res.json(response);
     } catch (error) {
       console.error('Error getting agent persona suggestion:', error);
       res.status(500).json({ 
         success: false, 
-        error: (error as Error).message || 'Failed to get agent persona suggestion from OpenAI' 
+        error: (error as Error).message || 'Failed to get agent persona suggestion' 
       });
     }
   });
 
-  // Endpoint for conversation flow suggestions
+  // Endpoint for conversation flow suggestions; streams the flow as it's written when asked
   app.post('/api/openai/conversation-flow', async (req, res) => {
+    let events: EventStream | undefined;
     try {
       const { title, description, currentFlow, agentPersona, additionalInstructions, useCaseId } = req.body;
       
@@ -384,22 +1008,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log("Received request for conversation flow suggestion with additionalInstructions:", additionalInstructions || "none");
       console.log("Received request for conversation flow suggestion with useCaseId:", useCaseId || "none");
       
-      // Get the OpenAI API key from settings
-      const apiKeySetting = await storage.getSetting(OPENAI_API_KEY_SETTING);
-      if (!apiKeySetting || !apiKeySetting.value) {
-        return res.status(400).json({ error: "OpenAI API key not configured. Please add it in Settings." });
-      }
-      
-      // Make sure the API key is not empty
-      if (apiKeySetting.value.trim() === '') {
-        return res.status(400).json({ error: "OpenAI API key is empty. Please add a valid key in Settings." });
+      // Get the model configured for this feature
+      const { provider, error: providerError } = await getLLMProvider('conversation-flow', {
+        workspaceId: currentWorkspaceId(req),
+        entity: useCaseId ? { type: 'use-case', id: parseInt(useCaseId) } : undefined,
+        forceRegenerate: isForceRegenerate(req)
+      });
+      if (!provider) {
+        return res.status(400).json({ error: providerError });
       }
       
       // Get detailed use case information if useCaseId is provided
       let useCase = null;
       if (useCaseId) {
         try {
-          useCase = await storage.getUseCase(parseInt(useCaseId));
+          useCase = await storage.getUseCase(parseInt(useCaseId), currentWorkspaceId(req));
           console.log("Retrieved use case details for suggestion:", useCase ? "Success" : "Not found");
         } catch (error) {
           console.warn("Failed to retrieve use case details:", error);
@@ -407,31 +1030,134 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
-      // Call OpenAI to get conversation flow suggestion
+      events = wantsEventStream(req) ? openEventStream(res) : undefined;
+      
+      // Get conversation flow suggestion from the model
       const response = await getConversationFlowSuggestion(
-        apiKeySetting.value,
+        provider,
         title || "",
         description || "",
         currentFlow,
         agentPersona || "",
         additionalInstructions || "",
-        useCase
+        useCase,
+        events
       );
       
+      if (!response.success) {
+        return events
+          ? events.fail(response, 'Failed to get conversation flow suggestion')
+          : sendAIFailure(res, response, 'Failed to get conversation flow suggestion');
+      }
+      if (events) {
+        return events.done(response);
+      }
       res.json(response);
     } catch (error) {
       console.error('Error getting conversation flow suggestion:', error);
+      if (events) {
+        return events.fail(aiFailure(error, ''), 'Failed to get conversation flow suggestion');
+      }
+      res.status(500).json({ 
+        success: false, 
+        error: (error as Error).message || 'Failed to get conversation flow suggestion' 
+      });
+    }
+  });
+
+  // Endpoint for generating paraphrases of a customer turn
+  app.post('/api/openai/utterance-variations', async (req, res) => {
+    try {
+      const { utterance, intent, title, description } = req.body;
+      
+      // Validate input
+      if (!utterance || typeof utterance !== 'string') {
+        return res.status(400).json({ error: "Utterance is required" });
+      }
+      
+      // Get the model configured for this feature
+      const { provider, error: providerError } = await getLLMProvider('utterance-variations', { workspaceId: currentWorkspaceId(req), forceRegenerate: isForceRegenerate(req) });
+      if (!provider) {
+        return res.status(400).json({ error: providerError });
+      }
+      
+      const response = await generateUtteranceVariations(
+        provider,
+        utterance,
+        intent,
+        { title, description }
+      );
+      
+      if (!response.success) {
+        return sendAIFailure(res, response, 'Failed to generate utterance variations');
+      }
+      res.json(response);
+    } catch (error) {
+      console.error('Error generating utterance variations:', error);
+      res.status(500).json({ 
+        success: false, 
+        error: (error as Error).message || 'Failed to generate utterance variations' 
+      });
+    }
+  });
+
+  // Role-play a customer against a use case's flow to find turns it doesn't handle
+  app.post('/api/openai/simulate-customer', async (req, res) => {
+    try {
+      const { useCaseId, customerPersona, maxTurns } = req.body;
+
+      const id = parseInt(useCaseId);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid use case ID format" });
+      }
+
+      const useCase = await storage.getUseCase(id, currentWorkspaceId(req));
+      if (!useCase) {
+        return res.status(404).json({ error: "Use case not found" });
+      }
+
+      // Get the model configured for this feature
+      const { provider, error: providerError } = await getLLMProvider('customer-role-play', {
+        workspaceId: currentWorkspaceId(req),
+        entity: { type: 'use-case', id },
+        forceRegenerate: isForceRegenerate(req)
+      });
+      if (!provider) {
+        return res.status(400).json({ error: providerError });
+      }
+
+      const agentPersonaSetting = await storage.getSetting('agent_persona', currentWorkspaceId(req));
+      const turnLimit = Math.min(Math.max(parseInt(maxTurns) || 8, 2), 20);
+
+      const response = await simulateCustomerRolePlay(
+        provider,
+        parseConversationFlowWithTypes(useCase.conversationFlow, useCase.roles),
+        {
+          title: useCase.title,
+          description: useCase.description,
+          agentPersona: agentPersonaSetting?.value || undefined
+        },
+        typeof customerPersona === 'string' ? customerPersona : undefined,
+        turnLimit
+      );
+
+      if (!response.success) {
+        return sendAIFailure(res, response, 'Failed to simulate customer role-play');
+      }
+      res.json(response);
+    } catch (error) {
+      console.error('Error simulating customer role-play:', error);
       res.status(500).json({ 
         success: false, 
-        error: (error as Error).message || 'Failed to get conversation flow suggestion from OpenAI' 
+        error: (error as Error).message || 'Failed to simulate customer role-play' 
       });
     }
   });
 
   // Customer Journey APIs
-  app.get('/api/customer-journeys', async (_req, res) => {
+  app.get('/api/customer-journeys', async (req, res) => {
     try {
-      const journeys = await storage.getAllCustomerJourneys();
+      const journeys = await storage.getAllCustomerJourneys(currentWorkspaceId(req));
       res.json(journeys);
     } catch (error) {
       res.status(500).json({ error: (error as Error).message });
@@ -445,7 +1171,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid ID format" });
       }
 
-      const journey = await storage.getCustomerJourney(id);
+      const journey = await storage.getCustomerJourney(id, currentWorkspaceId(req));
       if (!journey) {
         return res.status(404).json({ error: "Customer journey not found" });
       }
@@ -463,7 +1189,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: result.error.message });
       }
 
-      const newJourney = await storage.createCustomerJourney(result.data);
+      const newJourney = await storage.createCustomerJourney(result.data, recordScope(req));
+      await recordRevision('customer-journey', newJourney, recordScope(req));
       res.status(201).json(newJourney);
     } catch (error) {
       res.status(500).json({ error: (error as Error).message });
@@ -477,7 +1204,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid ID format" });
       }
 
-      const existingJourney = await storage.getCustomerJourney(id);
+      const existingJourney = await storage.getCustomerJourney(id, currentWorkspaceId(req));
       if (!existingJourney) {
         return res.status(404).json({ error: "Customer journey not found" });
       }
@@ -487,7 +1214,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: result.error.message });
       }
 
-      const updatedJourney = await storage.updateCustomerJourney(id, result.data);
+      const updatedJourney = await storage.updateCustomerJourney(id, result.data, recordScope(req));
+      await recordRevision('customer-journey', updatedJourney, recordScope(req), { previous: existingJourney });
       res.json(updatedJourney);
     } catch (error) {
       res.status(500).json({ error: (error as Error).message });
@@ -501,58 +1229,71 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid ID format" });
       }
 
-      const existingJourney = await storage.getCustomerJourney(id);
+      const existingJourney = await storage.getCustomerJourney(id, currentWorkspaceId(req));
       if (!existingJourney) {
         return res.status(404).json({ error: "Customer journey not found" });
       }
 
-      await storage.deleteCustomerJourney(id);
+      if (!canDelete(req, existingJourney)) {
+        return res.status(403).json({ error: "Only the person who created this journey or a workspace admin can delete it" });
+      }
+
+      await storage.deleteCustomerJourney(id, currentWorkspaceId(req));
       res.status(204).send();
     } catch (error) {
       res.status(500).json({ error: (error as Error).message });
     }
   });
   
-  // Endpoint for generating journey summaries
+  // Endpoint for generating journey summaries; streams the summary as it's written when asked
   app.post('/api/customer-journeys/:id/generate-summary', async (req, res) => {
+    let events: EventStream | undefined;
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ error: "Invalid ID format" });
       }
 
-      const journey = await storage.getCustomerJourney(id);
+      const journey = await storage.getCustomerJourney(id, currentWorkspaceId(req));
       if (!journey) {
         return res.status(404).json({ error: "Customer journey not found" });
       }
       
-      // Get the OpenAI API key from settings
-      const apiKeySetting = await storage.getSetting(OPENAI_API_KEY_SETTING);
-      if (!apiKeySetting || !apiKeySetting.value) {
-        return res.status(400).json({ error: "OpenAI API key not configured. Please add it in Settings." });
+      // Get the model configured for this feature
+      const { provider, error: providerError } = await getLLMProvider('journey-summary', {
+        workspaceId: currentWorkspaceId(req),
+        entity: { type: 'customer-journey', id },
+        forceRegenerate: isForceRegenerate(req)
+      });
+      if (!provider) {
+        return res.status(400).json({ error: providerError });
       }
       
-      // Make sure the API key is not empty
-      if (apiKeySetting.value.trim() === '') {
-        return res.status(400).json({ error: "OpenAI API key is empty. Please add a valid key in Settings." });
-      }
+      events = wantsEventStream(req) ? openEventStream(res) : undefined;
       
-      // Generate summary using OpenAI
+      // Generate summary using the configured model
       const result = await generateJourneySummary(
-        apiKeySetting.value,
+        provider,
         {
           title: journey.title,
           customerName: journey.customerName || undefined,
           workflowIntent: journey.workflowIntent || undefined,
           notes: journey.notes || undefined,
           nodes: journey.nodes as any[]
-        }
+        },
+        events
       );
       
       if (!result.success || !result.summary) {
-        return res.status(500).json({ 
-          error: result.error || "Failed to generate summary" 
-        });
+        if (events) {
+          return events.fail(result, "Failed to generate summary");
+        }
+        return sendAIFailure(res, result, "Failed to generate summary");
+      }
+      
+      // A cancelled generation never replaces the saved summary
+      if (events?.signal.aborted) {
+        return;
       }
       
       // Update the journey with the generated summary
@@ -564,14 +1305,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         summary: result.summary,
         nodes: journey.nodes as any,
         edges: journey.edges as any
-      });
+      }, recordScope(req));
+      await recordRevision('customer-journey', updatedJourney, recordScope(req), { previous: journey });
       
-      res.json({
+      const response = {
         success: true,
         journey: updatedJourney
-      });
+      };
+      if (events) {
+        return events.done(response);
+      }
+      res.json(response);
     } catch (error) {
       console.error('Error generating journey summary:', error);
+      if (events) {
+        return events.fail(aiFailure(error, ''), 'Failed to generate journey summary');
+      }
       res.status(500).json({ 
         success: false, 
         error: (error as Error).message || 'Failed to generate journey summary' 
@@ -579,6 +1328,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Score the sentiment of every journey step and keep the scores with the journey
+  app.post('/api/customer-journeys/:id/sentiment', async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID format" });
+      }
+
+      const journey = await storage.getCustomerJourney(id, currentWorkspaceId(req));
+      if (!journey) {
+        return res.status(404).json({ error: "Customer journey not found" });
+      }
+      
+      const { provider, error: providerError } = await getLLMProvider('sentiment', {
+        workspaceId: currentWorkspaceId(req),
+        entity: { type: 'customer-journey', id },
+        forceRegenerate: isForceRegenerate(req)
+      });
+      if (!provider) {
+        return res.status(400).json({ error: providerError });
+      }
+      
+      const sentiment = await scoreJourneySentiment(provider, journey.nodes as any[], journey.edges as any[]);
+      const updatedJourney = await storage.saveCustomerJourneySentiment(id, sentiment);
+      res.json({ success: true, journey: updatedJourney });
+    } catch (error) {
+      console.error('Error analyzing journey sentiment:', error);
+      if (error instanceof AIResponseError) {
+        return sendAIFailure(res, aiFailure(error, ''), 'Failed to analyze sentiment');
+      }
+      res.status(500).json({ success: false, error: (error as Error).message || 'Failed to analyze sentiment' });
+    }
+  });
+  
   // Generate AI journey
   app.post('/api/generate-ai-journey', async (req, res) => {
     try {
@@ -588,18 +1371,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Journey description is required" });
       }
       
-      // Get the OpenAI API key from settings
-      const apiKeySetting = await storage.getSetting(OPENAI_API_KEY_SETTING);
-      if (!apiKeySetting || !apiKeySetting.value || apiKeySetting.value.trim() === '') {
-        return res.status(400).json({ error: "OpenAI API key not configured. Please add it in Settings." });
+      // Get the model configured for this feature
+      const { provider, error: providerError } = await getLLMProvider('ai-journey', { workspaceId: currentWorkspaceId(req), forceRegenerate: isForceRegenerate(req) });
+      if (!provider) {
+        return res.status(400).json({ error: providerError });
       }
       
-      const result = await generateAIJourney(apiKeySetting.value, description);
+      const result = await generateAIJourney(provider, description);
       
       if (!result.success || !result.journey) {
-        return res.status(500).json({ 
-          error: result.error || "Failed to generate AI journey" 
-        });
+        return sendAIFailure(res, result, "Failed to generate AI journey");
       }
       
       return res.json({
@@ -622,25 +1403,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Get the use case details
-      const useCase = await storage.getUseCase(parseInt(useCaseId));
+      const useCase = await storage.getUseCase(parseInt(useCaseId), currentWorkspaceId(req));
       if (!useCase) {
         return res.status(404).json({ error: "Use case not found" });
       }
       
-      // Get the OpenAI API key from settings
-      const apiKeySetting = await storage.getSetting(OPENAI_API_KEY_SETTING);
-      if (!apiKeySetting || !apiKeySetting.value || apiKeySetting.value.trim() === '') {
-        return res.status(400).json({ error: "OpenAI API key not configured. Please add it in Settings." });
+      // Get the model configured for this feature
+      const { provider, error: providerError } = await getLLMProvider('journey-from-use-case', {
+        workspaceId: currentWorkspaceId(req),
+        entity: { type: 'use-case', id: useCase.id },
+        forceRegenerate: isForceRegenerate(req)
+      });
+      if (!provider) {
+        return res.status(400).json({ error: providerError });
       }
       
       console.log(`Generating journey from use case: ${useCase.title} (ID: ${useCaseId})`);
       
-      const result = await generateJourneyFromUseCase(apiKeySetting.value, useCase);
+      const result = await generateJourneyFromUseCase(provider, useCase);
       
       if (!result.success || !result.journey) {
-        return res.status(500).json({ 
-          error: result.error || "Failed to generate journey from use case" 
-        });
+        return sendAIFailure(res, result, "Failed to generate journey from use case");
       }
       
       return res.json({
@@ -654,13 +1437,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // App statistics endpoint
-  app.get('/api/statistics', async (_req, res) => {
+  app.get('/api/statistics', async (req, res) => {
     try {
       // Get counts from storage
-      const useCases = await storage.getAllUseCases();
-      const customerJourneys = await storage.getAllCustomerJourneys();
-      const actionPlans = await storage.getAllActionPlans();
-      const agentJourneys = await storage.getAllAgentJourneys();
+      const useCases = await storage.getAllUseCases(currentWorkspaceId(req));
+      const customerJourneys = await storage.getAllCustomerJourneys(currentWorkspaceId(req));
+      const actionPlans = await storage.getAllActionPlans(currentWorkspaceId(req));
+      const agentJourneys = await storage.getAllAgentJourneys(currentWorkspaceId(req));
       
       // Use a simpler approach with hardcoded stats for tables
       const mockTables = [
@@ -714,9 +1497,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Customers APIs
-  app.get('/api/customers', async (_req, res) => {
+  app.get('/api/customers', async (req, res) => {
     try {
-      const customers = await storage.getAllCustomers();
+      const customers = await storage.getAllCustomers(currentWorkspaceId(req));
       res.json(customers);
     } catch (error) {
       res.status(500).json({ error: (error as Error).message });
@@ -730,7 +1513,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid ID format" });
       }
 
-      const customer = await storage.getCustomer(id);
+      const customer = await storage.getCustomer(id, currentWorkspaceId(req));
       if (!customer) {
         return res.status(404).json({ error: "Customer not found" });
       }
@@ -748,7 +1531,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: result.error.message });
       }
 
-      const newCustomer = await storage.createCustomer(result.data);
+      const newCustomer = await storage.createCustomer(result.data, recordScope(req));
       res.status(201).json(newCustomer);
     } catch (error) {
       res.status(500).json({ error: (error as Error).message });
@@ -762,7 +1545,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid ID format" });
       }
 
-      const existingCustomer = await storage.getCustomer(id);
+      const existingCustomer = await storage.getCustomer(id, currentWorkspaceId(req));
       if (!existingCustomer) {
         return res.status(404).json({ error: "Customer not found" });
       }
@@ -772,7 +1555,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: result.error.message });
       }
 
-      const updatedCustomer = await storage.updateCustomer(id, result.data);
+      const updatedCustomer = await storage.updateCustomer(id, result.data, recordScope(req));
       res.json(updatedCustomer);
     } catch (error) {
       res.status(500).json({ error: (error as Error).message });
@@ -786,12 +1569,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid ID format" });
       }
 
-      const existingCustomer = await storage.getCustomer(id);
+      const existingCustomer = await storage.getCustomer(id, currentWorkspaceId(req));
       if (!existingCustomer) {
         return res.status(404).json({ error: "Customer not found" });
       }
 
-      await storage.deleteCustomer(id);
+      if (!canDelete(req, existingCustomer)) {
+        return res.status(403).json({ error: "Only the person who created this customer or a workspace admin can delete it" });
+      }
+
+      await storage.deleteCustomer(id, currentWorkspaceId(req));
       res.status(204).send();
     } catch (error) {
       res.status(500).json({ error: (error as Error).message });
@@ -799,9 +1586,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Action Plan APIs
-  app.get('/api/action-plans', async (_req, res) => {
+  app.get('/api/action-plans', async (req, res) => {
     try {
-      const actionPlans = await storage.getAllActionPlans();
+      const actionPlans = await storage.getAllActionPlans(currentWorkspaceId(req));
       res.json(actionPlans);
     } catch (error) {
       res.status(500).json({ error: (error as Error).message });
@@ -815,7 +1602,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid ID format" });
       }
 
-      const actionPlan = await storage.getActionPlan(id);
+      const actionPlan = await storage.getActionPlan(id, currentWorkspaceId(req));
       if (!actionPlan) {
         return res.status(404).json({ error: "Action plan not found" });
       }
@@ -833,7 +1620,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: result.error.message });
       }
 
-      const newActionPlan = await storage.createActionPlan(result.data);
+      const newActionPlan = await storage.createActionPlan(result.data, recordScope(req));
+      await recordRevision('action-plan', newActionPlan, recordScope(req));
       res.status(201).json(newActionPlan);
     } catch (error) {
       res.status(500).json({ error: (error as Error).message });
@@ -847,7 +1635,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid ID format" });
       }
 
-      const existingActionPlan = await storage.getActionPlan(id);
+      const existingActionPlan = await storage.getActionPlan(id, currentWorkspaceId(req));
       if (!existingActionPlan) {
         return res.status(404).json({ error: "Action plan not found" });
       }
@@ -866,10 +1654,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (updateData.status && Object.keys(updateData).length === 1) {
         console.log("Performing status-only update to:", updateData.status);
         // Handle status-only update without validation
+        // Only the status: writing back the rest of the row would undo changes made since the read
         const updatedActionPlan = await storage.updateActionPlan(id, {
-          ...existingActionPlan,
           status: updateData.status
-        });
+        }, recordScope(req));
+        await recordRevision('action-plan', updatedActionPlan, recordScope(req), { previous: existingActionPlan });
         return res.json(updatedActionPlan);
       } else {
         // Handle normal complete update with validation
@@ -884,7 +1673,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           console.log("Validated aiGoals:", JSON.stringify(result.data.aiGoals, null, 2));
         }
 
-        const updatedActionPlan = await storage.updateActionPlan(id, result.data);
+        const updatedActionPlan = await storage.updateActionPlan(id, result.data, recordScope(req));
+        await recordRevision('action-plan', updatedActionPlan, recordScope(req), { previous: existingActionPlan });
         console.log("Updated action plan:", JSON.stringify(updatedActionPlan, null, 2));
         res.json(updatedActionPlan);
       }
@@ -901,45 +1691,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid ID format" });
       }
 
-      const existingActionPlan = await storage.getActionPlan(id);
+      const existingActionPlan = await storage.getActionPlan(id, currentWorkspaceId(req));
       if (!existingActionPlan) {
         return res.status(404).json({ error: "Action plan not found" });
       }
 
-      await storage.deleteActionPlan(id);
+      if (!canDelete(req, existingActionPlan)) {
+        return res.status(403).json({ error: "Only the person who created this action plan or a workspace admin can delete it" });
+      }
+
+      await storage.deleteActionPlan(id, currentWorkspaceId(req));
       res.status(204).send();
     } catch (error) {
       res.status(500).json({ error: (error as Error).message });
     }
   });
   
-  // Action Plan AI Suggestions endpoint
+  // Action Plan AI Suggestions endpoint; streams the suggestions as they're written when asked
   app.post('/api/action-plans/:id/suggestions', async (req, res) => {
+    let events: EventStream | undefined;
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ error: "Invalid ID format" });
       }
 
-      const actionPlan = await storage.getActionPlan(id);
+      const actionPlan = await storage.getActionPlan(id, currentWorkspaceId(req));
       if (!actionPlan) {
         return res.status(404).json({ error: "Action plan not found" });
       }
       
-      // Get the OpenAI API key from settings
-      const apiKeySetting = await storage.getSetting(OPENAI_API_KEY_SETTING);
-      if (!apiKeySetting || !apiKeySetting.value) {
-        return res.status(400).json({ error: "OpenAI API key not configured. Please add it in Settings." });
+      // Get the model configured for this feature
+      const { provider, error: providerError } = await getLLMProvider('action-plan-suggestions', {
+        workspaceId: currentWorkspaceId(req),
+        entity: { type: 'action-plan', id },
+        forceRegenerate: isForceRegenerate(req)
+      });
+      if (!provider) {
+        return res.status(400).json({ error: providerError });
       }
       
-      // Make sure the API key is not empty
-      if (apiKeySetting.value.trim() === '') {
-        return res.status(400).json({ error: "OpenAI API key is empty. Please add a valid key in Settings." });
-      }
+      events = wantsEventStream(req) ? openEventStream(res) : undefined;
       
-      // Call OpenAI to generate suggestions
+      // Call the model to generate suggestions
       const result = await generateActionPlanSuggestions(
-        apiKeySetting.value,
+        provider,
         {
           title: actionPlan.title,
           industry: actionPlan.industry,
@@ -954,22 +1750,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
           teamComfort: actionPlan.teamComfort,
           apisAvailable: actionPlan.apisAvailable,
           successMetrics: actionPlan.successMetrics
-        }
+        },
+        events
       );
       
       if (!result.success) {
-        return res.status(500).json({ 
-          success: false,
-          error: result.error || "Failed to generate action plan suggestions" 
-        });
+        if (events) {
+          return events.fail(result, "Failed to generate action plan suggestions");
+        }
+        return sendAIFailure(res, result, "Failed to generate action plan suggestions");
       }
       
-      return res.json({
+      const response = {
         success: true,
         suggestions: result.suggestions
-      });
+      };
+      if (events) {
+        return events.done(response);
+      }
+      return res.json(response);
     } catch (error) {
       console.error("Error generating action plan suggestions:", error);
+      if (events) {
+        return events.fail(aiFailure(error, ''), "Failed to generate action plan suggestions");
+      }
       return res.status(500).json({ error: (error as Error).message });
     }
   });
@@ -982,20 +1786,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid ID format" });
       }
 
-      const useCase = await storage.getUseCase(id);
+      const useCase = await storage.getUseCase(id, currentWorkspaceId(req));
       if (!useCase) {
         return res.status(404).json({ error: "Use case not found" });
       }
 
-      // Get the OpenAI API key from settings
-      const apiKeySetting = await storage.getSetting(OPENAI_API_KEY_SETTING);
-      if (!apiKeySetting || !apiKeySetting.value) {
-        return res.status(400).json({ error: "OpenAI API key not configured. Please add it in Settings." });
-      }
-      
-      // Make sure the API key is not empty
-      if (apiKeySetting.value.trim() === '') {
-        return res.status(400).json({ error: "OpenAI API key is empty. Please add a valid key in Settings." });
+      // Get the model configured for this feature
+      const { provider, error: providerError } = await getLLMProvider('use-case-details', {
+        workspaceId: currentWorkspaceId(req),
+        entity: { type: 'use-case', id },
+        forceRegenerate: isForceRegenerate(req)
+      });
+      if (!provider) {
+        return res.status(400).json({ error: providerError });
       }
 
       // Log the request for debugging
@@ -1003,17 +1806,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Generate detailed suggestions
       const result = await generateUseCaseDetails(
-        apiKeySetting.value,
+        provider,
         useCase.title,
         useCase.description || "",
         useCase.customer || ""
       );
       
       if (!result.success || !result.suggestions) {
-        return res.status(500).json({ 
-          success: false, 
-          error: result.error || "Failed to generate use case details" 
-        });
+        return sendAIFailure(res, result, "Failed to generate use case details");
       }
       
       res.json({
@@ -1029,6 +1829,84 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Propose use case fields from an uploaded document (text, Markdown or base64 DOCX).
+  // Nothing is saved; the client reviews each field and saves the ones it accepts.
+  app.post('/api/use-cases/:id/extract-from-document', async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID format" });
+      }
+
+      const result = z.object({
+        filename: z.string().optional(),
+        format: z.enum(DOCUMENT_FORMATS).optional(),
+        content: z.string().min(1, "The document is empty")
+      }).safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.message });
+      }
+
+      const useCase = await storage.getUseCase(id, currentWorkspaceId(req));
+      if (!useCase) {
+        return res.status(404).json({ error: "Use case not found" });
+      }
+
+      let text: string;
+      try {
+        text = await readDocumentText(result.data);
+      } catch (error) {
+        return res.status(400).json({ error: `Could not read document: ${(error as Error).message}` });
+      }
+      if (!text) {
+        return res.status(400).json({ error: "The document has no text" });
+      }
+
+      // Get the model configured for this feature
+      const { provider, error: providerError } = await getLLMProvider('use-case-from-document', {
+        workspaceId: currentWorkspaceId(req),
+        entity: { type: 'use-case', id },
+        forceRegenerate: isForceRegenerate(req)
+      });
+      if (!provider) {
+        return res.status(400).json({ error: providerError });
+      }
+
+      const extraction = await extractUseCaseFields(
+        provider,
+        async () => {
+          const summarizer = await getLLMProvider('summarize-article', {
+            workspaceId: currentWorkspaceId(req),
+            entity: { type: 'use-case', id },
+            forceRegenerate: isForceRegenerate(req)
+          });
+          if (!summarizer.provider) {
+            throw new Error(summarizer.error);
+          }
+          return summarizer.provider;
+        },
+        text,
+        { title: useCase.title, description: useCase.description }
+      );
+
+      if (!extraction.success || !extraction.fields) {
+        return sendAIFailure(res, extraction, "Failed to extract use case fields from the document");
+      }
+
+      res.json({
+        success: true,
+        fields: extraction.fields,
+        summarized: extraction.summarized
+      });
+    } catch (error: any) {
+      console.error("Error extracting use case fields from document:", error);
+      res.status(500).json({ 
+        success: false, 
+        error: error.message || "Failed to extract use case fields from the document"
+      });
+    }
+  });
+  
   // Generate Action Plan from Use Case
   app.post('/api/use-cases/:id/generate-action-plan', async (req, res) => {
     try {
@@ -1037,20 +1915,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid ID format" });
       }
 
-      const useCase = await storage.getUseCase(id);
+      const useCase = await storage.getUseCase(id, currentWorkspaceId(req));
       if (!useCase) {
         return res.status(404).json({ error: "Use case not found" });
       }
       
-      // Get the OpenAI API key from settings
-      const apiKeySetting = await storage.getSetting(OPENAI_API_KEY_SETTING);
-      if (!apiKeySetting || !apiKeySetting.value) {
-        return res.status(400).json({ error: "OpenAI API key not configured. Please add it in Settings." });
-      }
-      
-      // Make sure the API key is not empty
-      if (apiKeySetting.value.trim() === '') {
-        return res.status(400).json({ error: "OpenAI API key is empty. Please add a valid key in Settings." });
+      // Get the model configured for this feature
+      const { provider, error: providerError } = await getLLMProvider('action-plan-from-use-case', {
+        workspaceId: currentWorkspaceId(req),
+        entity: { type: 'use-case', id },
+        forceRegenerate: isForceRegenerate(req)
+      });
+      if (!provider) {
+        return res.status(400).json({ error: providerError });
       }
       
       // Log the request for debugging
@@ -1058,7 +1935,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Generate action plan from use case
       const result = await generateActionPlanFromUseCase(
-        apiKeySetting.value,
+        provider,
         {
           id: useCase.id,
           title: useCase.title,
@@ -1077,10 +1954,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       );
       
       if (!result.success || !result.actionPlan) {
-        return res.status(500).json({ 
-          success: false, 
-          error: result.error || "Failed to generate action plan from use case" 
-        });
+        return sendAIFailure(res, result, "Failed to generate action plan from use case");
       }
       
       res.json({
@@ -1097,10 +1971,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Health check endpoint for monitoring
-  app.get('/api/health', async (_req, res) => {
+  app.get('/api/health', async (req, res) => {
     try {
-      // Check database connection by performing a simple query
-      await storage.getAllSettings();
+      // Check database connection by performing a simple query; there's no workspace when signed out
+      await storage.getAllSettings(DEFAULT_WORKSPACE_ID);
       
       // Return health status and system info
       res.json({
@@ -1123,9 +1997,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Create HTTP server
   // Agent Journey APIs
-  app.get('/api/agent-journeys', async (_req, res) => {
+  app.get('/api/agent-journeys', async (req, res) => {
     try {
-      const journeys = await storage.getAllAgentJourneys();
+      const journeys = await storage.getAllAgentJourneys(currentWorkspaceId(req));
       res.json(journeys);
     } catch (error) {
       res.status(500).json({ error: (error as Error).message });
@@ -1133,27 +2007,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // AI Suggestion endpoint for agent journeys - must come before :id route
-  app.get('/api/agent-journeys/suggestion', async (req, res) => {
+  // A GET, but it calls the model and spends budget
+  app.get('/api/agent-journeys/suggestion', requireRole('editor'), async (req, res) => {
     try {
       // Extract agent type from query if provided
       const agentType = req.query.type as string | undefined;
       
       console.log(`Generating AI suggestion for agent journey${agentType ? ` with type: ${agentType}` : ''}`);
       
-      // Check for OpenAI API key
-      if (!process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY.trim() === '') {
-        return res.status(400).json({ 
-          error: "OpenAI API key not configured. Please check your environment variables." 
-        });
+      // Get the model configured for this feature
+      const { provider, error: providerError } = await getLLMProvider('agent-journey-suggestion', { workspaceId: currentWorkspaceId(req), forceRegenerate: isForceRegenerate(req) });
+      if (!provider) {
+        return res.status(400).json({ error: providerError });
       }
       
-      // Generate suggestion using OpenAI
-      const suggestion = await generateAgentJourneySuggestion(agentType);
+      // Generate the suggestion
+      const suggestion = await generateAgentJourneySuggestion(provider, agentType);
       
       // Return the suggested journey data
       res.json(suggestion);
     } catch (error) {
       console.error('Error generating agent journey suggestion:', error);
+      if (error instanceof AIResponseError) {
+        return sendAIFailure(res, aiFailure(error, ''), 'Failed to generate agent journey suggestion');
+      }
       res.status(500).json({ 
         error: `Failed to generate agent journey suggestion: ${(error as Error).message}` 
       });
@@ -1167,7 +2044,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid ID format" });
       }
 
-      const journey = await storage.getAgentJourney(id);
+      const journey = await storage.getAgentJourney(id, currentWorkspaceId(req));
       if (!journey) {
         return res.status(404).json({ error: "Agent journey not found" });
       }
@@ -1200,7 +2077,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: result.error.message });
       }
 
-      const newJourney = await storage.createAgentJourney(result.data);
+      const newJourney = await storage.createAgentJourney(result.data, recordScope(req));
+      await recordRevision('agent-journey', newJourney, recordScope(req));
       res.status(201).json(newJourney);
     } catch (error) {
       console.error('Error creating agent journey:', error);
@@ -1217,7 +2095,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid ID format" });
       }
 
-      const existingJourney = await storage.getAgentJourney(id);
+      const existingJourney = await storage.getAgentJourney(id, currentWorkspaceId(req));
       if (!existingJourney) {
         return res.status(404).json({ error: "Agent journey not found" });
       }
@@ -1240,7 +2118,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: result.error.message });
       }
 
-      const updatedJourney = await storage.updateAgentJourney(id, result.data);
+      const updatedJourney = await storage.updateAgentJourney(id, result.data, recordScope(req));
+      await recordRevision('agent-journey', updatedJourney, recordScope(req), { previous: existingJourney });
       res.json(updatedJourney);
     } catch (error) {
       console.error('Error updating agent journey:', error);
@@ -1257,7 +2136,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid ID format" });
       }
 
-      const existingJourney = await storage.getAgentJourney(id);
+      const existingJourney = await storage.getAgentJourney(id, currentWorkspaceId(req));
       if (!existingJourney) {
         return res.status(404).json({ error: "Agent journey not found" });
       }
@@ -1280,7 +2159,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: result.error.message });
       }
 
-      const updatedJourney = await storage.updateAgentJourney(id, result.data);
+      const updatedJourney = await storage.updateAgentJourney(id, result.data, recordScope(req));
+      await recordRevision('agent-journey', updatedJourney, recordScope(req), { previous: existingJourney });
       res.json(updatedJourney);
     } catch (error) {
       console.error('Error updating agent journey:', error);
@@ -1295,18 +2175,198 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid ID format" });
       }
 
-      const existingJourney = await storage.getAgentJourney(id);
+      const existingJourney = await storage.getAgentJourney(id, currentWorkspaceId(req));
       if (!existingJourney) {
         return res.status(404).json({ error: "Agent journey not found" });
       }
 
-      await storage.deleteAgentJourney(id);
+      if (!canDelete(req, existingJourney)) {
+        return res.status(403).json({ error: "Only the person who created this journey or a workspace admin can delete it" });
+      }
+
+      await storage.deleteAgentJourney(id, currentWorkspaceId(req));
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Revision history of use cases, journeys and action plans; every save above adds one
+  app.get('/api/revisions', async (req, res) => {
+    try {
+      const { entityType } = req.query;
+      const entityId = parseInt(String(req.query.entityId));
+      if (!isRevisionEntityType(entityType) || isNaN(entityId)) {
+        return res.status(400).json({ error: "entityType and entityId are required" });
+      }
+
+      const record = await getRevisableRecord(entityType, entityId, currentWorkspaceId(req));
+      if (!record) {
+        return res.status(404).json({ error: "Record not found" });
+      }
+
+      res.json(await storage.getRevisions(entityType, entityId, currentWorkspaceId(req)));
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  app.get('/api/revisions/:id', async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID format" });
+      }
+
+      const revision = await storage.getRevision(id, currentWorkspaceId(req));
+      if (!revision) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+
+      res.json(revision);
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Name a version, or clear its name with null
+  app.patch('/api/revisions/:id', async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID format" });
+      }
+
+      const result = updateRevisionLabelSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.message });
+      }
+
+      if (!(await storage.getRevision(id, currentWorkspaceId(req)))) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+
+      const { snapshot: _snapshot, ...summary } = await storage.updateRevisionLabel(id, result.data.label, currentWorkspaceId(req));
+      res.json(summary);
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Returns the record as restored
+  app.post('/api/revisions/:id/restore', async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID format" });
+      }
+
+      const revision = await storage.getRevision(id, currentWorkspaceId(req));
+      if (!revision) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+
+      const restored = await restoreRevision(revision, recordScope(req));
+      if (!restored) {
+        return res.status(404).json({ error: "Record not found" });
+      }
+
+      res.json(restored);
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Trash: deleted use cases, journeys, action plans and customers until they're restored or purged
+  app.get('/api/trash', async (req, res) => {
+    try {
+      const workspaceId = currentWorkspaceId(req);
+      // Don't wait for the hourly purge to stop showing expired items
+      await purgeExpiredTrash(workspaceId);
+      res.json({
+        items: await storage.getTrash(workspaceId),
+        retentionDays: await getTrashRetentionDays(workspaceId)
+      });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  app.post('/api/trash/:entityType/:id/restore', async (req, res) => {
+    try {
+      const { entityType } = req.params;
+      const id = parseInt(req.params.id);
+      if (!isTrashEntityType(entityType) || isNaN(id)) {
+        return res.status(400).json({ error: "Invalid trash item" });
+      }
+
+      if (!(await storage.restoreFromTrash(entityType, id, currentWorkspaceId(req)))) {
+        return res.status(404).json({ error: "Item not found in the trash" });
+      }
+
       res.status(204).send();
     } catch (error) {
       res.status(500).json({ error: (error as Error).message });
     }
   });
 
+  // Purging is the delete that can't be undone, so it follows the same rule as deleting
+  app.delete('/api/trash/:entityType/:id', async (req, res) => {
+    try {
+      const { entityType } = req.params;
+      const id = parseInt(req.params.id);
+      if (!isTrashEntityType(entityType) || isNaN(id)) {
+        return res.status(400).json({ error: "Invalid trash item" });
+      }
+
+      const workspaceId = currentWorkspaceId(req);
+      const item = await storage.getTrashItem(entityType, id, workspaceId);
+      if (!item) {
+        return res.status(404).json({ error: "Item not found in the trash" });
+      }
+
+      if (!canDelete(req, item)) {
+        return res.status(403).json({ error: "Only the person who created this item or a workspace admin can purge it" });
+      }
+
+      await storage.purgeFromTrash(entityType, id, workspaceId);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  app.delete('/api/trash', requireRole('admin'), async (req, res) => {
+    try {
+      const purged = await storage.purgeTrash(new Date(), currentWorkspaceId(req));
+      res.json({ purged });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // 0 keeps deleted items until someone purges them
+  app.put('/api/trash/retention', requireRole('admin'), async (req, res) => {
+    try {
+      const schema = z.object({ retentionDays: z.number().int().nonnegative() });
+      const result = schema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.message });
+      }
+
+      const value = String(result.data.retentionDays);
+      const workspaceId = currentWorkspaceId(req);
+      if (await storage.getSetting(TRASH_RETENTION_SETTING, workspaceId)) {
+        await storage.updateSetting(TRASH_RETENTION_SETTING, { value }, workspaceId);
+      } else {
+        await storage.createSetting({ key: TRASH_RETENTION_SETTING, value }, workspaceId);
+      }
+      res.json({ retentionDays: result.data.retentionDays });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -1,25 +1,52 @@
 import { 
   users, 
+  workspaces,
+  workspaceMembers,
   useCases, 
   flowNodes,
+  simulationRuns,
+  promptTemplates,
+  aiUsage,
+  aiResponseCache,
   settings,
+  credentials,
   customerJourneys,
   customers,
   actionPlans,
   agentJourneys,
+  revisions,
   type User, 
   type InsertUser, 
+  type Workspace,
+  type InsertWorkspace,
+  type WorkspaceMember,
+  type InsertWorkspaceMember,
+  type WorkspaceMembership,
+  type WorkspaceMemberView,
   type UseCase, 
   type InsertUseCase, 
   type UpdateUseCase,
+  type MessageSentiment,
   type FlowNode,
   type InsertFlowNode,
+  type SimulationRun,
+  type InsertSimulationRun,
+  type PromptTemplate,
+  type InsertPromptTemplate,
+  type AiUsage,
+  type InsertAiUsage,
+  type AiUsageSummary,
+  type AiResponseCache,
+  type InsertAiResponseCache,
   type Setting,
   type InsertSetting,
   type UpdateSetting,
+  type Credential,
+  type InsertCredential,
   type CustomerJourney,
   type InsertCustomerJourney,
   type UpdateCustomerJourney,
+  type JourneyStepSentiment,
   type Customer,
   type InsertCustomer,
   type UpdateCustomer,
@@ -28,22 +55,60 @@ import {
   type UpdateActionPlan,
   type AgentJourney,
   type InsertAgentJourney,
-  type UpdateAgentJourney
+  type UpdateAgentJourney,
+  type Revision,
+  type InsertRevision,
+  type RevisionSummary
 } from "@shared/schema";
+import { DEFAULT_WORKSPACE_ID } from "@shared/workspaces";
+import type { RevisionEntityType } from "@shared/revisions";
+import type { TrashEntityType, TrashItem } from "@shared/trash";
+
+// Where a record lives and who is changing it
+export interface RecordScope {
+  workspaceId: number;
+  userId?: number;
+}
+
+// What the trash needs from a record; customers are listed by company name, everything else by title
+type TrashableRecord = {
+  id: number;
+  workspaceId: number;
+  title?: string;
+  companyName?: string;
+  createdBy: number | null;
+  deletedAt: Date | null;
+};
 
 // Storage interface
 export interface IStorage {
   // User management
   getUser(id: number): Promise<User | undefined>;
+  getAllUsers(): Promise<User[]>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   
-  // Use case management
-  getAllUseCases(): Promise<UseCase[]>;
-  getUseCase(id: number): Promise<UseCase | undefined>;
-  createUseCase(useCase: InsertUseCase): Promise<UseCase>;
-  updateUseCase(id: number, useCase: UpdateUseCase): Promise<UseCase>;
-  deleteUseCase(id: number): Promise<void>;
+  // Workspace management
+  getWorkspace(id: number): Promise<Workspace | undefined>;
+  getAllWorkspaces(): Promise<Workspace[]>;
+  getWorkspacesForUser(userId: number): Promise<WorkspaceMembership[]>;
+  createWorkspace(workspace: InsertWorkspace, ownerId: number): Promise<Workspace>;  // The owner joins as admin
+  updateWorkspace(id: number, workspace: InsertWorkspace): Promise<Workspace>;
+  getWorkspaceMembers(workspaceId: number): Promise<WorkspaceMemberView[]>;
+  getWorkspaceMember(workspaceId: number, userId: number): Promise<WorkspaceMember | undefined>;
+  saveWorkspaceMember(member: InsertWorkspaceMember): Promise<WorkspaceMember>;  // Adds the member or changes their role
+  removeWorkspaceMember(workspaceId: number, userId: number): Promise<void>;
+  
+  // Use case management. Here and below, records outside the given workspace
+  // are treated as missing; scope.userId records who made the change. Deleting
+  // a use case, journey, customer or action plan moves it to the trash, and
+  // records in the trash are treated as missing too.
+  getAllUseCases(workspaceId: number): Promise<UseCase[]>;
+  getUseCase(id: number, workspaceId: number): Promise<UseCase | undefined>;
+  createUseCase(useCase: InsertUseCase, scope: RecordScope): Promise<UseCase>;
+  updateUseCase(id: number, useCase: UpdateUseCase, scope: RecordScope): Promise<UseCase>;
+  saveUseCaseSentiment(id: number, sentiment: MessageSentiment[]): Promise<UseCase>;
+  deleteUseCase(id: number, workspaceId: number): Promise<void>;
   
   // Flow node management (for potential future feature)
   getFlowNodesForUseCase(useCaseId: number): Promise<FlowNode[]>;
@@ -51,85 +116,160 @@ export interface IStorage {
   updateFlowNode(id: number, flowNode: Partial<FlowNode>): Promise<FlowNode>;
   deleteFlowNode(id: number): Promise<void>;
   
-  // Settings management
-  getAllSettings(): Promise<Setting[]>;
-  getSetting(key: string): Promise<Setting | undefined>;
-  createSetting(setting: InsertSetting): Promise<Setting>;
-  updateSetting(key: string, setting: UpdateSetting): Promise<Setting>;
-  deleteSetting(key: string): Promise<void>;
+  // Simulation runs recorded by the conversation simulator
+  getSimulationRunsForUseCase(useCaseId: number): Promise<SimulationRun[]>;
+  createSimulationRun(run: InsertSimulationRun): Promise<SimulationRun>;
+  
+  // Prompt template versions; the highest version of a name is the one in use
+  getLatestPromptTemplates(): Promise<PromptTemplate[]>;
+  getPromptTemplateVersions(name: string): Promise<PromptTemplate[]>;
+  createPromptTemplateVersion(template: InsertPromptTemplate): Promise<PromptTemplate>;
+  
+  // AI usage ledger
+  recordAiUsage(usage: InsertAiUsage): Promise<AiUsage>;
+  getAiUsageSummary(since: Date, workspaceId: number): Promise<AiUsageSummary[]>;
+  getRecentAiUsage(limit: number, workspaceId: number): Promise<AiUsage[]>;
+  
+  // AI response cache
+  getCachedAiResponse(key: string): Promise<AiResponseCache | undefined>;
+  setCachedAiResponse(entry: InsertAiResponseCache): Promise<AiResponseCache>;
+  clearAiResponseCache(workspaceId: number): Promise<number>;
+  
+  // Settings management; each workspace has its own
+  getAllSettings(workspaceId: number): Promise<Setting[]>;
+  getSetting(key: string, workspaceId: number): Promise<Setting | undefined>;
+  createSetting(setting: InsertSetting, workspaceId: number): Promise<Setting>;
+  updateSetting(key: string, setting: UpdateSetting, workspaceId: number): Promise<Setting>;
+  deleteSetting(key: string, workspaceId: number): Promise<void>;
+  
+  // Credentials (values are already encrypted)
+  getAllCredentials(): Promise<Credential[]>;
+  getCredential(name: string): Promise<Credential | undefined>;
+  saveCredential(credential: InsertCredential): Promise<Credential>;
+  deleteCredential(name: string): Promise<void>;
   
   // Customer Journey management
-  getAllCustomerJourneys(): Promise<CustomerJourney[]>;
-  getCustomerJourney(id: number): Promise<CustomerJourney | undefined>;
-  createCustomerJourney(journey: InsertCustomerJourney): Promise<CustomerJourney>;
-  updateCustomerJourney(id: number, journey: UpdateCustomerJourney): Promise<CustomerJourney>;
-  deleteCustomerJourney(id: number): Promise<void>;
+  getAllCustomerJourneys(workspaceId: number): Promise<CustomerJourney[]>;
+  getCustomerJourney(id: number, workspaceId: number): Promise<CustomerJourney | undefined>;
+  createCustomerJourney(journey: InsertCustomerJourney, scope: RecordScope): Promise<CustomerJourney>;
+  updateCustomerJourney(id: number, journey: UpdateCustomerJourney, scope: RecordScope): Promise<CustomerJourney>;
+  saveCustomerJourneySentiment(id: number, sentiment: JourneyStepSentiment[]): Promise<CustomerJourney>;
+  deleteCustomerJourney(id: number, workspaceId: number): Promise<void>;
   
   // Customer management
-  getAllCustomers(): Promise<Customer[]>;
-  getCustomer(id: number): Promise<Customer | undefined>;
-  createCustomer(customer: InsertCustomer): Promise<Customer>;
-  updateCustomer(id: number, customer: UpdateCustomer): Promise<Customer>;
-  deleteCustomer(id: number): Promise<void>;
+  getAllCustomers(workspaceId: number): Promise<Customer[]>;
+  getCustomer(id: number, workspaceId: number): Promise<Customer | undefined>;
+  createCustomer(customer: InsertCustomer, scope: RecordScope): Promise<Customer>;
+  updateCustomer(id: number, customer: UpdateCustomer, scope: RecordScope): Promise<Customer>;
+  deleteCustomer(id: number, workspaceId: number): Promise<void>;
   
   // Action Plan management
-  getAllActionPlans(): Promise<ActionPlan[]>;
-  getActionPlan(id: number): Promise<ActionPlan | undefined>;
-  createActionPlan(actionPlan: InsertActionPlan): Promise<ActionPlan>;
-  updateActionPlan(id: number, actionPlan: UpdateActionPlan): Promise<ActionPlan>;
-  deleteActionPlan(id: number): Promise<void>;
+  getAllActionPlans(workspaceId: number): Promise<ActionPlan[]>;
+  getActionPlan(id: number, workspaceId: number): Promise<ActionPlan | undefined>;
+  createActionPlan(actionPlan: InsertActionPlan, scope: RecordScope): Promise<ActionPlan>;
+  updateActionPlan(id: number, actionPlan: Partial<UpdateActionPlan>, scope: RecordScope): Promise<ActionPlan>;
+  deleteActionPlan(id: number, workspaceId: number): Promise<void>;
   
   // Agent Journey management
-  getAllAgentJourneys(): Promise<AgentJourney[]>;
-  getAgentJourney(id: number): Promise<AgentJourney | undefined>;
-  createAgentJourney(journey: InsertAgentJourney): Promise<AgentJourney>;
-  updateAgentJourney(id: number, journey: UpdateAgentJourney): Promise<AgentJourney>;
-  deleteAgentJourney(id: number): Promise<void>;
+  getAllAgentJourneys(workspaceId: number): Promise<AgentJourney[]>;
+  getAgentJourney(id: number, workspaceId: number): Promise<AgentJourney | undefined>;
+  createAgentJourney(journey: InsertAgentJourney, scope: RecordScope): Promise<AgentJourney>;
+  updateAgentJourney(id: number, journey: UpdateAgentJourney, scope: RecordScope): Promise<AgentJourney>;
+  deleteAgentJourney(id: number, workspaceId: number): Promise<void>;
+  
+  // Revision history; purging a record from the trash deletes its revisions
+  getRevisions(entityType: RevisionEntityType, entityId: number, workspaceId: number): Promise<RevisionSummary[]>;  // Newest first
+  getRevision(id: number, workspaceId: number): Promise<Revision | undefined>;
+  createRevision(revision: InsertRevision): Promise<Revision>;
+  updateRevisionLabel(id: number, label: string | null, workspaceId: number): Promise<Revision>;
+  
+  // Trash. Purging removes a record for good, along with its flow nodes,
+  // simulation runs and revisions; action plans lose a purged customer.
+  getTrash(workspaceId: number): Promise<TrashItem[]>;  // Most recently deleted first
+  getTrashItem(entityType: TrashEntityType, id: number, workspaceId: number): Promise<TrashItem | undefined>;
+  restoreFromTrash(entityType: TrashEntityType, id: number, workspaceId: number): Promise<boolean>;  // False if it isn't in the trash
+  purgeFromTrash(entityType: TrashEntityType, id: number, workspaceId: number): Promise<boolean>;
+  purgeTrash(deletedBefore: Date, workspaceId: number): Promise<number>;  // How many records were purged
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private workspaces: Map<number, Workspace>;
+  private workspaceMembers: Map<number, WorkspaceMember>;
   private useCases: Map<number, UseCase>;
   private flowNodes: Map<number, FlowNode>;
-  private settings: Map<string, Setting>;
+  private simulationRuns: Map<number, SimulationRun>;
+  private promptTemplates: Map<number, PromptTemplate>;
+  private aiUsage: Map<number, AiUsage>;
+  private aiResponseCache: Map<string, AiResponseCache>;
+  private settings: Map<string, Setting>;  // Keyed by workspace id and setting key
+  private credentials: Map<string, Credential>;
   private customerJourneys: Map<number, CustomerJourney>;
   private customers: Map<number, Customer>;
   private actionPlans: Map<number, ActionPlan>;
   private agentJourneys: Map<number, AgentJourney>;
+  private revisions: Map<number, Revision>;
   
   private userCurrentId: number;
+  private workspaceCurrentId: number;
+  private workspaceMemberCurrentId: number;
   private useCaseCurrentId: number;
   private flowNodeCurrentId: number;
+  private simulationRunCurrentId: number;
+  private promptTemplateCurrentId: number;
+  private aiUsageCurrentId: number;
   private settingCurrentId: number;
   private customerJourneyCurrentId: number;
   private customerCurrentId: number;
   private actionPlanCurrentId: number;
   private agentJourneyCurrentId: number;
+  private revisionCurrentId: number;
 
   constructor() {
     this.users = new Map();
+    this.workspaces = new Map();
+    this.workspaceMembers = new Map();
     this.useCases = new Map();
     this.flowNodes = new Map();
+    this.simulationRuns = new Map();
+    this.promptTemplates = new Map();
+    this.aiUsage = new Map();
+    this.aiResponseCache = new Map();
     this.settings = new Map();
+    this.credentials = new Map();
     this.customerJourneys = new Map();
     this.customers = new Map();
     this.actionPlans = new Map();
     this.agentJourneys = new Map();
+    this.revisions = new Map();
     
     this.userCurrentId = 1;
+    this.workspaceCurrentId = 1;
+    this.workspaceMemberCurrentId = 1;
     this.useCaseCurrentId = 1;
     this.flowNodeCurrentId = 1;
+    this.simulationRunCurrentId = 1;
+    this.promptTemplateCurrentId = 1;
+    this.aiUsageCurrentId = 1;
     this.settingCurrentId = 1;
     this.customerJourneyCurrentId = 1;
     this.customerCurrentId = 1;
     this.actionPlanCurrentId = 1;
     this.agentJourneyCurrentId = 1;
+    this.revisionCurrentId = 1;
+    
+    this.workspaces.set(DEFAULT_WORKSPACE_ID, {
+      id: DEFAULT_WORKSPACE_ID,
+      name: 'Default workspace',
+      createdAt: new Date()
+    });
+    this.workspaceCurrentId = DEFAULT_WORKSPACE_ID + 1;
     
     // Add some sample use cases for testing
     this.addSampleUseCases();
     
     // Add default settings
-    this.addDefaultSettings();
+    this.addDefaultSettings(DEFAULT_WORKSPACE_ID);
   }
 
   // User methods
@@ -137,6 +277,10 @@ export class MemStorage implements IStorage {
     return this.users.get(id);
   }
 
+  async getAllUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+
   async getUserByUsername(username: string): Promise<User | undefined> {
     return Array.from(this.users.values()).find(
       (user) => user.username === username,
@@ -150,18 +294,94 @@ export class MemStorage implements IStorage {
     return user;
   }
 
+  // Workspace methods
+  async getWorkspace(id: number): Promise<Workspace | undefined> {
+    return this.workspaces.get(id);
+  }
+
+  async getAllWorkspaces(): Promise<Workspace[]> {
+    return Array.from(this.workspaces.values());
+  }
+
+  async getWorkspacesForUser(userId: number): Promise<WorkspaceMembership[]> {
+    const memberships: WorkspaceMembership[] = [];
+    this.workspaceMembers.forEach(member => {
+      const workspace = this.workspaces.get(member.workspaceId);
+      if (member.userId === userId && workspace) {
+        memberships.push({ ...workspace, role: member.role });
+      }
+    });
+    return memberships.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async createWorkspace(insertWorkspace: InsertWorkspace, ownerId: number): Promise<Workspace> {
+    const id = this.workspaceCurrentId++;
+    const workspace: Workspace = { id, name: insertWorkspace.name, createdAt: new Date() };
+    this.workspaces.set(id, workspace);
+    await this.saveWorkspaceMember({ workspaceId: id, userId: ownerId, role: 'admin' });
+    this.addDefaultSettings(id);
+    return workspace;
+  }
+
+  async updateWorkspace(id: number, updateData: InsertWorkspace): Promise<Workspace> {
+    const existingWorkspace = this.workspaces.get(id);
+    if (!existingWorkspace) {
+      throw new Error(`Workspace with id ${id} not found`);
+    }
+    
+    const updatedWorkspace: Workspace = { ...existingWorkspace, name: updateData.name };
+    this.workspaces.set(id, updatedWorkspace);
+    return updatedWorkspace;
+  }
+
+  async getWorkspaceMembers(workspaceId: number): Promise<WorkspaceMemberView[]> {
+    const members: WorkspaceMemberView[] = [];
+    this.workspaceMembers.forEach(member => {
+      const user = this.users.get(member.userId);
+      if (member.workspaceId === workspaceId && user) {
+        members.push({ userId: user.id, username: user.username, role: member.role, joinedAt: member.createdAt });
+      }
+    });
+    return members.sort((a, b) => a.username.localeCompare(b.username));
+  }
+
+  async getWorkspaceMember(workspaceId: number, userId: number): Promise<WorkspaceMember | undefined> {
+    return Array.from(this.workspaceMembers.values()).find(
+      (member) => member.workspaceId === workspaceId && member.userId === userId,
+    );
+  }
+
+  async saveWorkspaceMember(insertMember: InsertWorkspaceMember): Promise<WorkspaceMember> {
+    const existingMember = await this.getWorkspaceMember(insertMember.workspaceId, insertMember.userId);
+    const member: WorkspaceMember = existingMember
+      ? { ...existingMember, role: insertMember.role }
+      : { ...insertMember, id: this.workspaceMemberCurrentId++, createdAt: new Date() };
+    this.workspaceMembers.set(member.id, member);
+    return member;
+  }
+
+  async removeWorkspaceMember(workspaceId: number, userId: number): Promise<void> {
+    const member = await this.getWorkspaceMember(workspaceId, userId);
+    if (member) {
+      this.workspaceMembers.delete(member.id);
+    }
+  }
+
   // Use case methods
-  async getAllUseCases(): Promise<UseCase[]> {
-    return Array.from(this.useCases.values()).sort((a, b) => 
+  async getAllUseCases(workspaceId: number): Promise<UseCase[]> {
+    return Array.from(this.useCases.values())
+      .filter(record => record.workspaceId === workspaceId && !record.deletedAt)
+      .sort((a, b) => 
       new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
     );
   }
 
-  async getUseCase(id: number): Promise<UseCase | undefined> {
-    return this.useCases.get(id);
+  async getUseCase(id: number, workspaceId: number): Promise<UseCase | undefined> {
+    const record = this.useCases.get(id);
+    return record?.workspaceId === workspaceId && !record.deletedAt ? record : undefined;
   }
 
-  async createUseCase(insertUseCase: InsertUseCase): Promise<UseCase> {
+  async createUseCase(insertUseCase: InsertUseCase, { workspaceId, userId }: RecordScope): Promise<UseCase> {
     const id = this.useCaseCurrentId++;
     const now = new Date();
     const useCase: UseCase = {
@@ -183,15 +403,21 @@ export class MemStorage implements IStorage {
       
       conversationFlow: insertUseCase.conversationFlow,
       nodePositions: insertUseCase.nodePositions ?? null,
+      roles: insertUseCase.roles ?? null,
+      sentiment: null,
+      workspaceId,
+      createdBy: userId ?? null,
+      updatedBy: userId ?? null,
       createdAt: now,
-      updatedAt: now
+      updatedAt: now,
+      deletedAt: null
     };
     this.useCases.set(id, useCase);
     return useCase;
   }
 
-  async updateUseCase(id: number, updateData: UpdateUseCase): Promise<UseCase> {
-    const existingUseCase = this.useCases.get(id);
+  async updateUseCase(id: number, updateData: UpdateUseCase, { workspaceId, userId }: RecordScope): Promise<UseCase> {
+    const existingUseCase = await this.getUseCase(id, workspaceId);
     if (!existingUseCase) {
       throw new Error(`Use case with id ${id} not found`);
     }
@@ -218,6 +444,7 @@ export class MemStorage implements IStorage {
       potentialRisks: updateData.potentialRisks ?? existingUseCase.potentialRisks,
       estimatedImpact: updateData.estimatedImpact ?? existingUseCase.estimatedImpact,
       
+      updatedBy: userId ?? existingUseCase.updatedBy,
       updatedAt: new Date()
     };
     
@@ -225,7 +452,26 @@ export class MemStorage implements IStorage {
     return updatedUseCase;
   }
 
-  async deleteUseCase(id: number): Promise<void> {
+  // Scores aren't an edit, so updatedAt is left alone
+  async saveUseCaseSentiment(id: number, sentiment: MessageSentiment[]): Promise<UseCase> {
+    const existingUseCase = this.useCases.get(id);
+    if (!existingUseCase) {
+      throw new Error(`Use case with id ${id} not found`);
+    }
+    
+    const updatedUseCase: UseCase = { ...existingUseCase, sentiment };
+    this.useCases.set(id, updatedUseCase);
+    return updatedUseCase;
+  }
+
+  async deleteUseCase(id: number, workspaceId: number): Promise<void> {
+    const useCase = await this.getUseCase(id, workspaceId);
+    if (useCase) {
+      this.useCases.set(id, { ...useCase, deletedAt: new Date() });
+    }
+  }
+
+  private purgeUseCase(id: number): void {
     this.useCases.delete(id);
     // Also delete associated flow nodes
     Array.from(this.flowNodes.entries()).forEach(([nodeId, node]) => {
@@ -233,6 +479,12 @@ export class MemStorage implements IStorage {
         this.flowNodes.delete(nodeId);
       }
     });
+    Array.from(this.simulationRuns.entries()).forEach(([runId, run]) => {
+      if (run.useCaseId === id) {
+        this.simulationRuns.delete(runId);
+      }
+    });
+    this.deleteRevisionsFor('use-case', id);
   }
 
   // Flow node methods
@@ -277,32 +529,176 @@ export class MemStorage implements IStorage {
   async deleteFlowNode(id: number): Promise<void> {
     this.flowNodes.delete(id);
   }
+
+  // Simulation run methods
+  async getSimulationRunsForUseCase(useCaseId: number): Promise<SimulationRun[]> {
+    return Array.from(this.simulationRuns.values())
+      .filter(run => run.useCaseId === useCaseId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createSimulationRun(insertRun: InsertSimulationRun): Promise<SimulationRun> {
+    const id = this.simulationRunCurrentId++;
+    const run: SimulationRun = {
+      id,
+      useCaseId: insertRun.useCaseId,
+      path: insertRun.path,
+      completed: insertRun.completed ?? false,
+      createdAt: new Date()
+    };
+    this.simulationRuns.set(id, run);
+    return run;
+  }
+  
+  // Prompt template methods
+  async getLatestPromptTemplates(): Promise<PromptTemplate[]> {
+    const latest = new Map<string, PromptTemplate>();
+    this.promptTemplates.forEach(template => {
+      const current = latest.get(template.name);
+      if (!current || template.version > current.version) {
+        latest.set(template.name, template);
+      }
+    });
+    return Array.from(latest.values());
+  }
+
+  async getPromptTemplateVersions(name: string): Promise<PromptTemplate[]> {
+    return Array.from(this.promptTemplates.values())
+      .filter(template => template.name === name)
+      .sort((a, b) => b.version - a.version);
+  }
+
+  async createPromptTemplateVersion(insertTemplate: InsertPromptTemplate): Promise<PromptTemplate> {
+    const [latest] = await this.getPromptTemplateVersions(insertTemplate.name);
+    const id = this.promptTemplateCurrentId++;
+    const template: PromptTemplate = {
+      id,
+      name: insertTemplate.name,
+      version: (latest?.version ?? 0) + 1,
+      systemPrompt: insertTemplate.systemPrompt ?? '',
+      userPrompt: insertTemplate.userPrompt,
+      createdAt: new Date()
+    };
+    this.promptTemplates.set(id, template);
+    return template;
+  }
+  
+  // AI usage methods
+  async recordAiUsage(insertUsage: InsertAiUsage): Promise<AiUsage> {
+    const id = this.aiUsageCurrentId++;
+    const usage: AiUsage = {
+      id,
+      feature: insertUsage.feature,
+      provider: insertUsage.provider,
+      model: insertUsage.model,
+      promptTokens: insertUsage.promptTokens ?? 0,
+      completionTokens: insertUsage.completionTokens ?? 0,
+      estimatedCost: insertUsage.estimatedCost ?? 0,
+      latencyMs: insertUsage.latencyMs,
+      success: insertUsage.success,
+      error: insertUsage.error ?? null,
+      entityType: insertUsage.entityType ?? null,
+      entityId: insertUsage.entityId ?? null,
+      workspaceId: insertUsage.workspaceId,
+      createdAt: new Date()
+    };
+    this.aiUsage.set(id, usage);
+    return usage;
+  }
+
+  async getAiUsageSummary(since: Date, workspaceId: number): Promise<AiUsageSummary[]> {
+    const summaries = new Map<string, AiUsageSummary & { totalLatencyMs: number }>();
+    this.aiUsage.forEach(usage => {
+      if (usage.createdAt < since || usage.workspaceId !== workspaceId) return;
+      const summary = summaries.get(usage.feature) || {
+        feature: usage.feature,
+        calls: 0,
+        failures: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        estimatedCost: 0,
+        averageLatencyMs: 0,
+        totalLatencyMs: 0
+      };
+      summary.calls++;
+      summary.failures += usage.success ? 0 : 1;
+      summary.promptTokens += usage.promptTokens;
+      summary.completionTokens += usage.completionTokens;
+      summary.estimatedCost += usage.estimatedCost;
+      summary.totalLatencyMs += usage.latencyMs;
+      summaries.set(usage.feature, summary);
+    });
+    return Array.from(summaries.values()).map(({ totalLatencyMs, ...summary }) => ({
+      ...summary,
+      averageLatencyMs: Math.round(totalLatencyMs / summary.calls)
+    }));
+  }
+
+  async getRecentAiUsage(limit: number, workspaceId: number): Promise<AiUsage[]> {
+    return Array.from(this.aiUsage.values())
+      .filter(usage => usage.workspaceId === workspaceId)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+  
+  // AI response cache methods
+  async getCachedAiResponse(key: string): Promise<AiResponseCache | undefined> {
+    const entry = this.aiResponseCache.get(key);
+    if (entry && entry.expiresAt <= new Date()) {
+      this.aiResponseCache.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async setCachedAiResponse(insertEntry: InsertAiResponseCache): Promise<AiResponseCache> {
+    const entry: AiResponseCache = { ...insertEntry, createdAt: new Date() };
+    this.aiResponseCache.set(entry.key, entry);
+    return entry;
+  }
+
+  async clearAiResponseCache(workspaceId: number): Promise<number> {
+    let cleared = 0;
+    this.aiResponseCache.forEach((entry, key) => {
+      if (entry.workspaceId === workspaceId) {
+        this.aiResponseCache.delete(key);
+        cleared++;
+      }
+    });
+    return cleared;
+  }
   
   // Settings methods
-  async getAllSettings(): Promise<Setting[]> {
-    return Array.from(this.settings.values());
+  private settingMapKey(key: string, workspaceId: number): string {
+    return `${workspaceId}:${key}`;
   }
 
-  async getSetting(key: string): Promise<Setting | undefined> {
-    return this.settings.get(key);
+  async getAllSettings(workspaceId: number): Promise<Setting[]> {
+    return Array.from(this.settings.values()).filter(setting => setting.workspaceId === workspaceId);
   }
 
-  async createSetting(insertSetting: InsertSetting): Promise<Setting> {
+  async getSetting(key: string, workspaceId: number): Promise<Setting | undefined> {
+    return this.settings.get(this.settingMapKey(key, workspaceId));
+  }
+
+  async createSetting(insertSetting: InsertSetting, workspaceId: number): Promise<Setting> {
     const id = this.settingCurrentId++;
     const now = new Date();
     const setting: Setting = {
       ...insertSetting,
       id,
+      workspaceId,
       value: insertSetting.value ?? null,
       createdAt: now,
       updatedAt: now
     };
-    this.settings.set(setting.key, setting);
+    this.settings.set(this.settingMapKey(setting.key, workspaceId), setting);
     return setting;
   }
 
-  async updateSetting(key: string, updateData: UpdateSetting): Promise<Setting> {
-    const existingSetting = this.settings.get(key);
+  async updateSetting(key: string, updateData: UpdateSetting, workspaceId: number): Promise<Setting> {
+    const mapKey = this.settingMapKey(key, workspaceId);
+    const existingSetting = this.settings.get(mapKey);
     if (!existingSetting) {
       throw new Error(`Setting with key '${key}' not found`);
     }
@@ -313,26 +709,48 @@ export class MemStorage implements IStorage {
       updatedAt: new Date()
     };
     
-    this.settings.set(key, updatedSetting);
+    this.settings.set(mapKey, updatedSetting);
     return updatedSetting;
   }
 
-  async deleteSetting(key: string): Promise<void> {
-    this.settings.delete(key);
+  async deleteSetting(key: string, workspaceId: number): Promise<void> {
+    this.settings.delete(this.settingMapKey(key, workspaceId));
+  }
+  
+  // Credential methods
+  async getAllCredentials(): Promise<Credential[]> {
+    return Array.from(this.credentials.values());
+  }
+
+  async getCredential(name: string): Promise<Credential | undefined> {
+    return this.credentials.get(name);
+  }
+
+  async saveCredential(insertCredential: InsertCredential): Promise<Credential> {
+    const credential: Credential = { ...insertCredential, updatedAt: new Date() };
+    this.credentials.set(credential.name, credential);
+    return credential;
+  }
+
+  async deleteCredential(name: string): Promise<void> {
+    this.credentials.delete(name);
   }
 
   // Customer Journey methods
-  async getAllCustomerJourneys(): Promise<CustomerJourney[]> {
-    return Array.from(this.customerJourneys.values()).sort((a, b) => 
+  async getAllCustomerJourneys(workspaceId: number): Promise<CustomerJourney[]> {
+    return Array.from(this.customerJourneys.values())
+      .filter(record => record.workspaceId === workspaceId && !record.deletedAt)
+      .sort((a, b) => 
       new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
     );
   }
 
-  async getCustomerJourney(id: number): Promise<CustomerJourney | undefined> {
-    return this.customerJourneys.get(id);
+  async getCustomerJourney(id: number, workspaceId: number): Promise<CustomerJourney | undefined> {
+    const record = this.customerJourneys.get(id);
+    return record?.workspaceId === workspaceId && !record.deletedAt ? record : undefined;
   }
 
-  async createCustomerJourney(insertJourney: InsertCustomerJourney): Promise<CustomerJourney> {
+  async createCustomerJourney(insertJourney: InsertCustomerJourney, { workspaceId, userId }: RecordScope): Promise<CustomerJourney> {
     const id = this.customerJourneyCurrentId++;
     const now = new Date();
     const journey: CustomerJourney = {
@@ -344,15 +762,20 @@ export class MemStorage implements IStorage {
       summary: insertJourney.summary || null,
       nodes: insertJourney.nodes,
       edges: insertJourney.edges,
+      sentiment: null,
+      workspaceId,
+      createdBy: userId ?? null,
+      updatedBy: userId ?? null,
       createdAt: now,
-      updatedAt: now
+      updatedAt: now,
+      deletedAt: null
     };
     this.customerJourneys.set(id, journey);
     return journey;
   }
 
-  async updateCustomerJourney(id: number, updateData: UpdateCustomerJourney): Promise<CustomerJourney> {
-    const existingJourney = this.customerJourneys.get(id);
+  async updateCustomerJourney(id: number, updateData: UpdateCustomerJourney, { workspaceId, userId }: RecordScope): Promise<CustomerJourney> {
+    const existingJourney = await this.getCustomerJourney(id, workspaceId);
     if (!existingJourney) {
       throw new Error(`Customer journey with id ${id} not found`);
     }
@@ -360,6 +783,7 @@ export class MemStorage implements IStorage {
     const updatedJourney: CustomerJourney = {
       ...existingJourney,
       ...updateData,
+      updatedBy: userId ?? existingJourney.updatedBy,
       updatedAt: new Date()
     };
     
@@ -367,22 +791,39 @@ export class MemStorage implements IStorage {
     return updatedJourney;
   }
 
-  async deleteCustomerJourney(id: number): Promise<void> {
-    this.customerJourneys.delete(id);
+  async saveCustomerJourneySentiment(id: number, sentiment: JourneyStepSentiment[]): Promise<CustomerJourney> {
+    const existingJourney = this.customerJourneys.get(id);
+    if (!existingJourney) {
+      throw new Error(`Customer journey with id ${id} not found`);
+    }
+    
+    const updatedJourney: CustomerJourney = { ...existingJourney, sentiment };
+    this.customerJourneys.set(id, updatedJourney);
+    return updatedJourney;
+  }
+  
+  async deleteCustomerJourney(id: number, workspaceId: number): Promise<void> {
+    const journey = await this.getCustomerJourney(id, workspaceId);
+    if (journey) {
+      this.customerJourneys.set(id, { ...journey, deletedAt: new Date() });
+    }
   }
   
   // Customer methods
-  async getAllCustomers(): Promise<Customer[]> {
-    return Array.from(this.customers.values()).sort((a, b) => 
+  async getAllCustomers(workspaceId: number): Promise<Customer[]> {
+    return Array.from(this.customers.values())
+      .filter(record => record.workspaceId === workspaceId && !record.deletedAt)
+      .sort((a, b) => 
       a.companyName.localeCompare(b.companyName)
     );
   }
   
-  async getCustomer(id: number): Promise<Customer | undefined> {
-    return this.customers.get(id);
+  async getCustomer(id: number, workspaceId: number): Promise<Customer | undefined> {
+    const record = this.customers.get(id);
+    return record?.workspaceId === workspaceId && !record.deletedAt ? record : undefined;
   }
   
-  async createCustomer(insertCustomer: InsertCustomer): Promise<Customer> {
+  async createCustomer(insertCustomer: InsertCustomer, { workspaceId, userId }: RecordScope): Promise<Customer> {
     const id = this.customerCurrentId++;
     const now = new Date();
     const customer: Customer = {
@@ -392,15 +833,19 @@ export class MemStorage implements IStorage {
       primaryContactName: insertCustomer.primaryContactName,
       primaryContactPhone: insertCustomer.primaryContactPhone || null,
       primaryContactEmail: insertCustomer.primaryContactEmail,
+      workspaceId,
+      createdBy: userId ?? null,
+      updatedBy: userId ?? null,
       createdAt: now,
-      updatedAt: now
+      updatedAt: now,
+      deletedAt: null
     };
     this.customers.set(id, customer);
     return customer;
   }
   
-  async updateCustomer(id: number, updateData: UpdateCustomer): Promise<Customer> {
-    const existingCustomer = this.customers.get(id);
+  async updateCustomer(id: number, updateData: UpdateCustomer, { workspaceId, userId }: RecordScope): Promise<Customer> {
+    const existingCustomer = await this.getCustomer(id, workspaceId);
     if (!existingCustomer) {
       throw new Error(`Customer with id ${id} not found`);
     }
@@ -408,6 +853,7 @@ export class MemStorage implements IStorage {
     const updatedCustomer: Customer = {
       ...existingCustomer,
       ...updateData,
+      updatedBy: userId ?? existingCustomer.updatedBy,
       updatedAt: new Date()
     };
     
@@ -415,22 +861,28 @@ export class MemStorage implements IStorage {
     return updatedCustomer;
   }
   
-  async deleteCustomer(id: number): Promise<void> {
-    this.customers.delete(id);
+  async deleteCustomer(id: number, workspaceId: number): Promise<void> {
+    const customer = await this.getCustomer(id, workspaceId);
+    if (customer) {
+      this.customers.set(id, { ...customer, deletedAt: new Date() });
+    }
   }
   
   // Action Plan methods
-  async getAllActionPlans(): Promise<ActionPlan[]> {
-    return Array.from(this.actionPlans.values()).sort((a, b) => 
+  async getAllActionPlans(workspaceId: number): Promise<ActionPlan[]> {
+    return Array.from(this.actionPlans.values())
+      .filter(record => record.workspaceId === workspaceId && !record.deletedAt)
+      .sort((a, b) => 
       new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
     );
   }
   
-  async getActionPlan(id: number): Promise<ActionPlan | undefined> {
-    return this.actionPlans.get(id);
+  async getActionPlan(id: number, workspaceId: number): Promise<ActionPlan | undefined> {
+    const record = this.actionPlans.get(id);
+    return record?.workspaceId === workspaceId && !record.deletedAt ? record : undefined;
   }
   
-  async createActionPlan(insertActionPlan: InsertActionPlan): Promise<ActionPlan> {
+  async createActionPlan(insertActionPlan: InsertActionPlan, { workspaceId, userId }: RecordScope): Promise<ActionPlan> {
     const id = this.actionPlanCurrentId++;
     const now = new Date();
     const actionPlan: ActionPlan = {
@@ -450,16 +902,20 @@ export class MemStorage implements IStorage {
       apisAvailable: insertActionPlan.apisAvailable || null,
       successMetrics: Array.isArray(insertActionPlan.successMetrics) ? insertActionPlan.successMetrics : [],
       status: insertActionPlan.status || 'draft',
+      workspaceId,
+      createdBy: userId ?? null,
+      updatedBy: userId ?? null,
       createdAt: now,
-      updatedAt: now
+      updatedAt: now,
+      deletedAt: null
     };
     
     this.actionPlans.set(id, actionPlan);
     return actionPlan;
   }
   
-  async updateActionPlan(id: number, updateData: UpdateActionPlan): Promise<ActionPlan> {
-    const existingPlan = this.actionPlans.get(id);
+  async updateActionPlan(id: number, updateData: Partial<UpdateActionPlan>, { workspaceId, userId }: RecordScope): Promise<ActionPlan> {
+    const existingPlan = await this.getActionPlan(id, workspaceId);
     if (!existingPlan) {
       throw new Error(`Action plan with id ${id} not found`);
     }
@@ -478,6 +934,7 @@ export class MemStorage implements IStorage {
       ...updateData,
       aiGoals,
       successMetrics,
+      updatedBy: userId ?? existingPlan.updatedBy,
       updatedAt: new Date()
     };
     
@@ -485,22 +942,28 @@ export class MemStorage implements IStorage {
     return updatedPlan;
   }
   
-  async deleteActionPlan(id: number): Promise<void> {
-    this.actionPlans.delete(id);
+  async deleteActionPlan(id: number, workspaceId: number): Promise<void> {
+    const actionPlan = await this.getActionPlan(id, workspaceId);
+    if (actionPlan) {
+      this.actionPlans.set(id, { ...actionPlan, deletedAt: new Date() });
+    }
   }
   
   // Agent Journey methods
-  async getAllAgentJourneys(): Promise<AgentJourney[]> {
-    return Array.from(this.agentJourneys.values()).sort((a, b) => 
+  async getAllAgentJourneys(workspaceId: number): Promise<AgentJourney[]> {
+    return Array.from(this.agentJourneys.values())
+      .filter(record => record.workspaceId === workspaceId && !record.deletedAt)
+      .sort((a, b) => 
       new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
     );
   }
 
-  async getAgentJourney(id: number): Promise<AgentJourney | undefined> {
-    return this.agentJourneys.get(id);
+  async getAgentJourney(id: number, workspaceId: number): Promise<AgentJourney | undefined> {
+    const record = this.agentJourneys.get(id);
+    return record?.workspaceId === workspaceId && !record.deletedAt ? record : undefined;
   }
 
-  async createAgentJourney(insertJourney: InsertAgentJourney): Promise<AgentJourney> {
+  async createAgentJourney(insertJourney: InsertAgentJourney, { workspaceId, userId }: RecordScope): Promise<AgentJourney> {
     const id = this.agentJourneyCurrentId++;
     const now = new Date();
     const journey: AgentJourney = {
@@ -518,15 +981,19 @@ export class MemStorage implements IStorage {
       errorMonitoring: insertJourney.errorMonitoring || null,
       nodes: insertJourney.nodes,
       edges: insertJourney.edges,
+      workspaceId,
+      createdBy: userId ?? null,
+      updatedBy: userId ?? null,
       createdAt: now,
-      updatedAt: now
+      updatedAt: now,
+      deletedAt: null
     };
     this.agentJourneys.set(id, journey);
     return journey;
   }
 
-  async updateAgentJourney(id: number, updateData: UpdateAgentJourney): Promise<AgentJourney> {
-    const existingJourney = this.agentJourneys.get(id);
+  async updateAgentJourney(id: number, updateData: UpdateAgentJourney, { workspaceId, userId }: RecordScope): Promise<AgentJourney> {
+    const existingJourney = await this.getAgentJourney(id, workspaceId);
     if (!existingJourney) {
       throw new Error(`Agent journey with id ${id} not found`);
     }
@@ -540,6 +1007,7 @@ export class MemStorage implements IStorage {
       ...existingJourney,
       ...updateData,
       backendSystems,
+      updatedBy: userId ?? existingJourney.updatedBy,
       updatedAt: new Date()
     };
     
@@ -547,25 +1015,166 @@ export class MemStorage implements IStorage {
     return updatedJourney;
   }
 
-  async deleteAgentJourney(id: number): Promise<void> {
-    this.agentJourneys.delete(id);
+  async deleteAgentJourney(id: number, workspaceId: number): Promise<void> {
+    const journey = await this.getAgentJourney(id, workspaceId);
+    if (journey) {
+      this.agentJourneys.set(id, { ...journey, deletedAt: new Date() });
+    }
+  }
+  
+  // Revision methods
+  async getRevisions(entityType: RevisionEntityType, entityId: number, workspaceId: number): Promise<RevisionSummary[]> {
+    return Array.from(this.revisions.values())
+      .filter(revision => revision.entityType === entityType && revision.entityId === entityId && revision.workspaceId === workspaceId)
+      .sort((a, b) => b.id - a.id)
+      .map(({ snapshot: _snapshot, ...summary }) => summary);
+  }
+
+  async getRevision(id: number, workspaceId: number): Promise<Revision | undefined> {
+    const revision = this.revisions.get(id);
+    return revision?.workspaceId === workspaceId ? revision : undefined;
+  }
+
+  async createRevision(insertRevision: InsertRevision): Promise<Revision> {
+    const id = this.revisionCurrentId++;
+    const revision: Revision = {
+      id,
+      workspaceId: insertRevision.workspaceId,
+      entityType: insertRevision.entityType,
+      entityId: insertRevision.entityId,
+      snapshot: insertRevision.snapshot,
+      label: insertRevision.label ?? null,
+      restoredFromId: insertRevision.restoredFromId ?? null,
+      createdBy: insertRevision.createdBy ?? null,
+      createdAt: insertRevision.createdAt ?? new Date()
+    };
+    this.revisions.set(id, revision);
+    return revision;
+  }
+
+  async updateRevisionLabel(id: number, label: string | null, workspaceId: number): Promise<Revision> {
+    const existingRevision = await this.getRevision(id, workspaceId);
+    if (!existingRevision) {
+      throw new Error(`Revision with id ${id} not found`);
+    }
+    
+    const updatedRevision: Revision = { ...existingRevision, label };
+    this.revisions.set(id, updatedRevision);
+    return updatedRevision;
+  }
+
+  private deleteRevisionsFor(entityType: RevisionEntityType, entityId: number): void {
+    Array.from(this.revisions.entries()).forEach(([revisionId, revision]) => {
+      if (revision.entityType === entityType && revision.entityId === entityId) {
+        this.revisions.delete(revisionId);
+      }
+    });
+  }
+  
+  // Trash methods
+  private trashTables(): Record<TrashEntityType, { records: Map<number, TrashableRecord>; purge: (id: number) => void }> {
+    return {
+      'use-case': { records: this.useCases, purge: id => this.purgeUseCase(id) },
+      'customer-journey': {
+        records: this.customerJourneys,
+        purge: id => {
+          this.customerJourneys.delete(id);
+          this.deleteRevisionsFor('customer-journey', id);
+        }
+      },
+      'agent-journey': {
+        records: this.agentJourneys,
+        purge: id => {
+          this.agentJourneys.delete(id);
+          this.deleteRevisionsFor('agent-journey', id);
+        }
+      },
+      'action-plan': {
+        records: this.actionPlans,
+        purge: id => {
+          this.actionPlans.delete(id);
+          this.deleteRevisionsFor('action-plan', id);
+        }
+      },
+      'customer': {
+        records: this.customers,
+        purge: id => {
+          this.customers.delete(id);
+          this.actionPlans.forEach(plan => {
+            if (plan.customerId === id) this.actionPlans.set(plan.id, { ...plan, customerId: null });
+          });
+        }
+      },
+    };
+  }
+
+  private getTrashed(entityType: TrashEntityType, id: number, workspaceId: number): TrashableRecord | undefined {
+    const record = this.trashTables()[entityType].records.get(id);
+    return record?.workspaceId === workspaceId && record.deletedAt ? record : undefined;
+  }
+
+  private toTrashItem(entityType: TrashEntityType, record: TrashableRecord): TrashItem {
+    return {
+      entityType,
+      id: record.id,
+      title: record.title ?? record.companyName ?? '',
+      createdBy: record.createdBy,
+      deletedAt: record.deletedAt!
+    };
+  }
+
+  async getTrash(workspaceId: number): Promise<TrashItem[]> {
+    const items: TrashItem[] = [];
+    Object.entries(this.trashTables()).forEach(([entityType, table]) => {
+      table.records.forEach(record => {
+        if (record.workspaceId === workspaceId && record.deletedAt) {
+          items.push(this.toTrashItem(entityType as TrashEntityType, record));
+        }
+      });
+    });
+    return items.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+  }
+
+  async getTrashItem(entityType: TrashEntityType, id: number, workspaceId: number): Promise<TrashItem | undefined> {
+    const record = this.getTrashed(entityType, id, workspaceId);
+    return record && this.toTrashItem(entityType, record);
+  }
+
+  async restoreFromTrash(entityType: TrashEntityType, id: number, workspaceId: number): Promise<boolean> {
+    const record = this.getTrashed(entityType, id, workspaceId);
+    if (!record) return false;
+    this.trashTables()[entityType].records.set(id, { ...record, deletedAt: null });
+    return true;
+  }
+
+  async purgeFromTrash(entityType: TrashEntityType, id: number, workspaceId: number): Promise<boolean> {
+    if (!this.getTrashed(entityType, id, workspaceId)) return false;
+    this.trashTables()[entityType].purge(id);
+    return true;
+  }
+
+  async purgeTrash(deletedBefore: Date, workspaceId: number): Promise<number> {
+    const expired = (await this.getTrash(workspaceId)).filter(item => item.deletedAt < deletedBefore);
+    expired.forEach(item => this.trashTables()[item.entityType].purge(item.id));
+    return expired.length;
   }
   
   // Helper method to add default settings
-  private addDefaultSettings(): void {
+  private addDefaultSettings(workspaceId: number): void {
     const defaultSettings = [
-      { key: 'openai_api_key', value: '' },
       { key: 'openai_system_prompt', value: 'You are a helpful assistant that responds to customer requests. Your goal is to understand the customer needs and provide clear, concise and helpful responses.' },
       { key: 'openai_user_prompt', value: 'Please respond to the following customer message in a professional and helpful manner:' }
     ];
 
     for (const setting of defaultSettings) {
-      this.createSetting(setting);
+      this.createSetting(setting, workspaceId);
     }
   }
   
   // Helper method to add sample data
   private addSampleUseCases() {
+    const scope: RecordScope = { workspaceId: DEFAULT_WORKSPACE_ID };
+
     // First, make sure we have some sample customers
     const acmeCustomer = this.createCustomer({
       companyName: "Acme Corp",
@@ -573,7 +1182,7 @@ export class MemStorage implements IStorage {
       primaryContactName: "John Smith",
       primaryContactEmail: "john@acme.example.com",
       primaryContactPhone: "555-123-4567"
-    });
+    }, scope);
     
     const techCorpCustomer = this.createCustomer({
       companyName: "TechCorp Inc",
@@ -581,7 +1190,7 @@ export class MemStorage implements IStorage {
       primaryContactName: "Jane Doe",
       primaryContactEmail: "jane@techcorp.example.com",
       primaryContactPhone: "555-987-6543"
-    });
+    }, scope);
     
     const globalCustomer = this.createCustomer({
       companyName: "Global Enterprises",
@@ -589,7 +1198,7 @@ export class MemStorage implements IStorage {
       primaryContactName: "Robert Johnson",
       primaryContactEmail: "robert@global.example.com",
       primaryContactPhone: "555-456-7890"
-    });
+    }, scope);
     
     // Sample use case 1: Customer Order Inquiry
     this.createUseCase({
@@ -622,7 +1231,7 @@ Agent: I've upgraded your shipping to express delivery. The additional charge ha
 →
 Customer: Great, thank you. When will I receive the tracking number?
 Agent: You'll receive an email with the tracking information as soon as your order ships, which should be within 24 hours. Is there anything else I can help you with today?`
-    });
+    }, scope);
     
     // Sample use case 2: Product Recommendation
     this.createUseCase({
@@ -658,7 +1267,7 @@ Agent: Great choice! I'll add the TechPro X5 to your cart with the promotional i
 →
 Customer: I'll check out now.
 Agent: Perfect! I'll guide you through our quick checkout process. Would you prefer standard shipping or expedited delivery?`
-    });
+    }, scope);
     
     // Sample use case 3: Account Setup
     this.createUseCase({
@@ -679,7 +1288,7 @@ Agent: Great! Your account has been created successfully. Would you like to set
 →
 Customer: Yes, that sounds like a good idea.
 Agent: Excellent choice! I'll guide you through the two-factor authentication setup. Would you prefer to use SMS or an authenticator app for receiving codes?`
-    });
+    }, scope);
   }
 }
 
@@ -0,0 +1,245 @@
+import { parseConversationFlow } from "@shared/parseConversation";
+import type { UseCase, ParsedFlow, ConversationStep, Message } from "@shared/schema";
+
+export const TRAINING_DATA_FORMATS = ['rasa', 'dialogflow-cx', 'jsonl'] as const;
+export type TrainingDataFormat = typeof TRAINING_DATA_FORMATS[number];
+
+// Upper bound on enumerated paths so heavily branched flows stay exportable
+const MAX_PATHS = 100;
+
+const SLOT_PATTERN = /\{([A-Za-z_][\w.-]*)(?::([^}]*))?\}/g;
+
+// "Track My Order!" -> "track_my_order"
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+function getIntentName(step: ConversationStep, message: Message, customerIndex: number): string {
+  if (message.intent) return slugify(message.intent);
+  const base = step.name ? slugify(step.name) : `step_${step.stepNumber}`;
+  return customerIndex === 0 ? base : `${base}_${customerIndex + 1}`;
+}
+
+function getResponseName(step: ConversationStep, agentIndex: number): string {
+  const base = step.name ? slugify(step.name) : `step_${step.stepNumber}`;
+  return `utter_${base}${agentIndex === 0 ? '' : `_${agentIndex + 1}`}`;
+}
+
+interface ExportTurn {
+  kind: 'intent' | 'response';
+  name: string;
+  message: Message;
+}
+
+// Customer and agent turns of a step, each with the name it's exported under
+function getTurns(step: ConversationStep): ExportTurn[] {
+  let customerIndex = 0;
+  let agentIndex = 0;
+  return step.messages.flatMap((message): ExportTurn[] => {
+    if (message.role === 'customer') {
+      return [{ kind: 'intent', name: getIntentName(step, message, customerIndex++), message }];
+    }
+    if (message.role === 'agent') {
+      return [{ kind: 'response', name: getResponseName(step, agentIndex++), message }];
+    }
+    return [];
+  });
+}
+
+/**
+ * Walk every path from the first step to a step with no way out. A step is
+ * never visited twice on the same path, so loops end where they turn back.
+ */
+function enumeratePaths(parsedFlow: ParsedFlow): ConversationStep[][] {
+  if (parsedFlow.steps.length === 0) return [];
+
+  const stepsByNumber = new Map(parsedFlow.steps.map(step => [step.stepNumber, step]));
+  const paths: ConversationStep[][] = [];
+
+  const walk = (path: ConversationStep[]) => {
+    if (paths.length >= MAX_PATHS) return;
+    const current = path[path.length - 1];
+    // A branch and the fall-through can lead to the same step; walk it once
+    const next = Array.from(new Set(parsedFlow.edges
+      .filter(edge => edge.source === current.stepNumber)
+      .map(edge => stepsByNumber.get(edge.target)!)))
+      .filter(step => !path.includes(step));
+
+    if (next.length === 0) {
+      paths.push(path);
+      return;
+    }
+    next.forEach(step => walk([...path, step]));
+  };
+
+  walk([parsedFlow.steps[0]]);
+  return paths;
+}
+
+// Every phrasing of a customer turn, original first
+function getExamples(message: Message): string[] {
+  return [message.text, ...(message.variations || [])];
+}
+
+// YAML double-quoted scalars accept JSON string escapes
+const yamlString = (value: string) => JSON.stringify(value);
+
+function toRasa(useCase: UseCase, parsedFlow: ParsedFlow): string {
+  const intents = new Map<string, string[]>();
+  const responses = new Map<string, string[]>();
+  parsedFlow.steps.forEach(step => {
+    getTurns(step).forEach(turn => {
+      const target = turn.kind === 'intent' ? intents : responses;
+      const texts = turn.kind === 'intent'
+        // Rasa marks entities as [value](entity); slots without an example stay as plain words
+        ? getExamples(turn.message).map(text => text.replace(SLOT_PATTERN, (_, name, value) => value ? `[${value.trim()}](${name})` : name))
+        // Responses fill slots with Rasa's own {slot} syntax
+        : [turn.message.text.replace(SLOT_PATTERN, (_, name) => `{${name}}`)];
+      target.set(turn.name, [...(target.get(turn.name) || []), ...texts]);
+    });
+  });
+
+  const lines: string[] = [
+    `# Training data exported from use case "${useCase.title}"`,
+    'version: "3.1"',
+    '',
+    'nlu:'
+  ];
+  intents.forEach((examples, intent) => {
+    lines.push(`- intent: ${intent}`, '  examples: |');
+    Array.from(new Set(examples)).forEach(example => lines.push(`    - ${example.replace(/\s+/g, ' ')}`));
+  });
+
+  lines.push('', 'responses:');
+  responses.forEach((texts, name) => {
+    lines.push(`  ${name}:`);
+    texts.forEach(text => lines.push(`  - text: ${yamlString(text)}`));
+  });
+
+  const slots = Array.from(new Set(parsedFlow.slots.map(slot => slot.name)));
+  if (slots.length > 0) {
+    lines.push('', 'entities:');
+    slots.forEach(slot => lines.push(`  - ${slot}`));
+    lines.push('', 'slots:');
+    slots.forEach(slot => lines.push(
+      `  ${slot}:`,
+      '    type: text',
+      '    mappings:',
+      '    - type: from_entity',
+      `      entity: ${slot}`
+    ));
+  }
+
+  lines.push('', 'stories:');
+  enumeratePaths(parsedFlow).forEach((path, index) => {
+    lines.push(`- story: ${yamlString(`${useCase.title} path ${index + 1}`)}`, '  steps:');
+    path.forEach(step => {
+      getTurns(step).forEach(turn => {
+        lines.push(turn.kind === 'intent' ? `  - intent: ${turn.name}` : `  - action: ${turn.name}`);
+      });
+    });
+  });
+
+  return lines.join('\n') + '\n';
+}
+
+function toDialogflowCx(useCase: UseCase, parsedFlow: ParsedFlow) {
+  const pageName = (step: ConversationStep) => step.name || `Step ${step.stepNumber}`;
+
+  const intents = new Map<string, string[]>();
+  parsedFlow.steps.forEach(step => {
+    getTurns(step).forEach(turn => {
+      if (turn.kind !== 'intent') return;
+      intents.set(turn.name, [...(intents.get(turn.name) || []), ...getExamples(turn.message)]);
+    });
+  });
+
+  // Training phrase parts carry the parameter for annotated slot values
+  const toParts = (text: string) => {
+    const parts: Array<{ text: string; parameterId?: string }> = [];
+    let lastIndex = 0;
+    for (const match of Array.from(text.matchAll(SLOT_PATTERN))) {
+      const index = match.index ?? 0;
+      if (index > lastIndex) parts.push({ text: text.substring(lastIndex, index) });
+      parts.push({ text: match[2]?.trim() || match[1], parameterId: match[1] });
+      lastIndex = index + match[0].length;
+    }
+    if (lastIndex < text.length) parts.push({ text: text.substring(lastIndex) });
+    return parts;
+  };
+
+  return {
+    displayName: useCase.title,
+    description: useCase.description || '',
+    intents: Array.from(intents.entries()).map(([displayName, phrases]) => ({
+      displayName,
+      trainingPhrases: Array.from(new Set(phrases)).map(phrase => ({ parts: toParts(phrase), repeatCount: 1 })),
+      parameters: Array.from(new Set(phrases.flatMap(phrase => Array.from(phrase.matchAll(SLOT_PATTERN)).map(m => m[1]))))
+        .map(id => ({ id, entityType: '@sys.any' }))
+    })),
+    flow: {
+      displayName: useCase.title,
+      startPage: parsedFlow.steps[0] ? pageName(parsedFlow.steps[0]) : undefined,
+      pages: parsedFlow.steps.map(step => {
+        const turns = getTurns(step);
+        const customerIntent = turns.find(turn => turn.kind === 'intent')?.name;
+        return {
+          displayName: pageName(step),
+          entryFulfillment: {
+            messages: turns
+              .filter(turn => turn.kind === 'response')
+              .map(turn => ({
+                text: { text: [turn.message.text.replace(SLOT_PATTERN, (_, name) => `$session.params.${name}`)] }
+              }))
+          },
+          transitionRoutes: parsedFlow.edges
+            .filter(edge => edge.source === step.stepNumber)
+            .map(edge => {
+              const target = parsedFlow.steps.find(s => s.stepNumber === edge.target)!;
+              return {
+                ...(customerIntent ? { intent: customerIntent } : {}),
+                ...(edge.condition ? { condition: edge.condition } : {}),
+                targetPage: pageName(target)
+              };
+            })
+        };
+      })
+    }
+  };
+}
+
+function toJsonl(parsedFlow: ParsedFlow): string {
+  const roleMap: Record<string, string> = { customer: 'user', agent: 'assistant', supervisor: 'assistant' };
+  return enumeratePaths(parsedFlow)
+    .map(path => ({
+      messages: path.flatMap(step => step.messages)
+        .filter(message => roleMap[message.role])
+        .map(message => ({
+          role: roleMap[message.role],
+          content: message.text.replace(SLOT_PATTERN, (_, name, value) => value?.trim() || `{${name}}`)
+        }))
+    }))
+    .filter(conversation => conversation.messages.length > 0)
+    .map(conversation => JSON.stringify(conversation))
+    .join('\n') + '\n';
+}
+
+/**
+ * Convert a use case's conversation flow into bot training data
+ */
+export function exportTrainingData(useCase: UseCase, format: TrainingDataFormat): {
+  content: string;
+  contentType: string;
+  extension: string;
+} {
+  const parsedFlow = parseConversationFlow(useCase.conversationFlow, useCase.roles);
+
+  switch (format) {
+    case 'rasa':
+      return { content: toRasa(useCase, parsedFlow), contentType: 'text/yaml', extension: 'yml' };
+    case 'dialogflow-cx':
+      return { content: JSON.stringify(toDialogflowCx(useCase, parsedFlow), null, 2), contentType: 'application/json', extension: 'json' };
+    case 'jsonl':
+      return { content: toJsonl(parsedFlow), contentType: 'application/jsonl', extension: 'jsonl' };
+  }
+}
@@ -0,0 +1,219 @@
+import { parseConversationFlowWithTypes, resolveRoles } from "@shared/parseConversation";
+
+export const TRANSCRIPT_FORMATS = ['csv', 'jsonl'] as const;
+export type TranscriptFormat = typeof TRANSCRIPT_FORMATS[number];
+
+export interface TranscriptTurn {
+  speaker: string;
+  timestamp?: string;
+  text: string;
+}
+
+// Column / property names accepted for each field, compared case-insensitively
+const SPEAKER_FIELDS = ['speaker', 'role', 'author', 'sender', 'from', 'participant', 'name'];
+const TIMESTAMP_FIELDS = ['timestamp', 'time', 'date', 'datetime', 'created_at', 'createdat', 'sent_at'];
+const TEXT_FIELDS = ['text', 'message', 'content', 'body', 'utterance', 'transcript'];
+
+// Speaker labels that clearly identify one side of the conversation
+const CUSTOMER_SPEAKERS = ['customer', 'user', 'visitor', 'client', 'caller', 'guest', 'end user', 'end-user', 'contact'];
+const AGENT_SPEAKERS = ['agent', 'assistant', 'bot', 'rep', 'representative', 'support', 'operator', 'advisor', 'associate'];
+
+function pickField(record: Record<string, unknown>, names: string[]): string | undefined {
+  const key = Object.keys(record).find(k => names.includes(k.trim().toLowerCase()));
+  const value = key !== undefined ? record[key] : undefined;
+  return value === undefined || value === null ? undefined : String(value);
+}
+
+// Split CSV text into rows, honouring quoted fields with embedded commas,
+// doubled quotes and line breaks
+function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+function toTurn(record: Record<string, unknown>, location: string): TranscriptTurn | null {
+  const speaker = pickField(record, SPEAKER_FIELDS)?.trim();
+  const text = pickField(record, TEXT_FIELDS)?.trim();
+  if (!speaker) {
+    throw new Error(`${location} has no speaker (expected one of: ${SPEAKER_FIELDS.join(', ')})`);
+  }
+  // Empty messages (attachments, typing events) carry nothing to design from
+  if (!text) return null;
+  return { speaker, text, timestamp: pickField(record, TIMESTAMP_FIELDS)?.trim() || undefined };
+}
+
+/**
+ * Read a transcript export into turns. JSON lines (or a JSON array) of
+ * objects and CSV with a header row are supported; the format is detected
+ * from the content when not given.
+ */
+export function parseTranscript(content: string, format?: TranscriptFormat): TranscriptTurn[] {
+  const trimmed = content.replace(/^﻿/, '').trim();
+  if (!trimmed) {
+    throw new Error("Transcript is empty");
+  }
+
+  const resolvedFormat = format || (trimmed.startsWith('{') || trimmed.startsWith('[') ? 'jsonl' : 'csv');
+  const turns: (TranscriptTurn | null)[] = [];
+
+  if (resolvedFormat === 'jsonl') {
+    if (trimmed.startsWith('[')) {
+      let records: unknown;
+      try {
+        records = JSON.parse(trimmed);
+      } catch (error) {
+        throw new Error(`Invalid JSON: ${(error as Error).message}`);
+      }
+      if (!Array.isArray(records)) {
+        throw new Error("Expected a JSON array of messages");
+      }
+      records.forEach((record, index) => turns.push(toTurn(record, `Message ${index + 1}`)));
+    } else {
+      trimmed.split(/\r?\n/).forEach((line, index) => {
+        if (!line.trim()) return;
+        let record: Record<string, unknown>;
+        try {
+          record = JSON.parse(line);
+        } catch (error) {
+          throw new Error(`Line ${index + 1} is not valid JSON: ${(error as Error).message}`);
+        }
+        turns.push(toTurn(record, `Line ${index + 1}`));
+      });
+    }
+  } else {
+    const [header, ...rows] = parseCsvRows(trimmed);
+    if (!header || !pickField(Object.fromEntries(header.map(h => [h, h])), TEXT_FIELDS)) {
+      throw new Error(`CSV needs a header row with a text column (one of: ${TEXT_FIELDS.join(', ')})`);
+    }
+    rows.forEach((row, index) => {
+      const record = Object.fromEntries(header.map((column, i) => [column, row[i] ?? '']));
+      turns.push(toTurn(record, `Row ${index + 2}`));
+    });
+  }
+
+  const result = turns.filter((turn): turn is TranscriptTurn => turn !== null);
+  if (result.length === 0) {
+    throw new Error("Transcript has no messages");
+  }
+
+  // Exports are not always in chronological order; sort when every timestamp parses
+  const times = result.map(turn => turn.timestamp ? Date.parse(turn.timestamp) : NaN);
+  if (times.every(time => !isNaN(time))) {
+    return result
+      .map((turn, index) => ({ turn, time: times[index], index }))
+      .sort((a, b) => a.time - b.time || a.index - b.index)
+      .map(entry => entry.turn);
+  }
+  return result;
+}
+
+/**
+ * Decide which conversation role each speaker plays. Known labels and
+ * role names map directly; of the remaining speakers, the first one to
+ * talk is taken as the customer unless a customer was already found.
+ */
+function assignRoles(turns: TranscriptTurn[], roles: string[]): Map<string, string> {
+  const assignments = new Map<string, string>();
+  const unknown: string[] = [];
+
+  turns.forEach(({ speaker }) => {
+    if (assignments.has(speaker) || unknown.includes(speaker)) return;
+    const lower = speaker.toLowerCase();
+    const role = roles.find(r => r.toLowerCase() === lower)
+      || (CUSTOMER_SPEAKERS.includes(lower) ? 'Customer' : undefined)
+      || (AGENT_SPEAKERS.includes(lower) ? 'Agent' : undefined);
+    if (role) {
+      assignments.set(speaker, role);
+    } else {
+      unknown.push(speaker);
+    }
+  });
+
+  let hasCustomer = Array.from(assignments.values()).includes('Customer');
+  unknown.forEach(speaker => {
+    assignments.set(speaker, hasCustomer ? 'Agent' : 'Customer');
+    hasCustomer = true;
+  });
+
+  return assignments;
+}
+
+/**
+ * Convert transcript turns into conversation flow text. Consecutive turns
+ * by the same speaker are merged, and a new step starts at every customer
+ * turn so each step holds one customer message and the replies to it.
+ * Step types come from the same heuristics the flow preview uses.
+ */
+export function transcriptToFlow(turns: TranscriptTurn[], roles?: string[] | null): string {
+  const resolvedRoles = resolveRoles(roles);
+  const speakerRoles = assignRoles(turns, resolvedRoles);
+
+  const messages: { role: string; text: string }[] = [];
+  turns.forEach(turn => {
+    const role = speakerRoles.get(turn.speaker)!;
+    // Flow messages are single lines, so fold line breaks into the text
+    const text = turn.text.replace(/\s*\r?\n\s*/g, ' ');
+    const last = messages[messages.length - 1];
+    if (last && last.role === role) {
+      last.text += ` ${text}`;
+    } else {
+      messages.push({ role, text });
+    }
+  });
+
+  const steps: string[][] = [];
+  messages.forEach(message => {
+    if (steps.length === 0 || message.role === 'Customer') {
+      steps.push([]);
+    }
+    steps[steps.length - 1].push(`${message.role}: ${message.text}`);
+  });
+
+  const plainFlow = steps.map(lines => lines.join('\n')).join('\n→\n');
+  const parsedFlow = parseConversationFlowWithTypes(plainFlow, resolvedRoles);
+
+  return steps
+    .map((lines, index) => {
+      const stepType = parsedFlow.steps[index]?.stepType;
+      const header = stepType ? `[${stepType}]` : '';
+      return index === 0
+        ? [header, ...lines].filter(Boolean).join('\n')
+        : [`→ ${header}`.trim(), ...lines].join('\n');
+    })
+    .join('\n');
+}
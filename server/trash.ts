@@ -0,0 +1,38 @@
+import { storage } from "./storage";
+import { log } from "./vite";
+import { TRASH_RETENTION_SETTING, parseTrashRetentionDays } from "@shared/trash";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+export async function getTrashRetentionDays(workspaceId: number): Promise<number> {
+  const setting = await storage.getSetting(TRASH_RETENTION_SETTING, workspaceId);
+  return parseTrashRetentionDays(setting?.value);
+}
+
+// Purge whatever has been in a workspace's trash longer than it keeps things
+export async function purgeExpiredTrash(workspaceId: number): Promise<number> {
+  const days = await getTrashRetentionDays(workspaceId);
+  if (days === 0) return 0;
+  return storage.purgeTrash(new Date(Date.now() - days * DAY_MS), workspaceId);
+}
+
+// Run the purge for every workspace now and then hourly; call once storage is ready
+export function scheduleTrashPurge() {
+  const purgeAll = async () => {
+    try {
+      for (const workspace of await storage.getAllWorkspaces()) {
+        const purged = await purgeExpiredTrash(workspace.id);
+        if (purged > 0) {
+          log(`Purged ${purged} expired item(s) from the trash of workspace ${workspace.id}`, 'trash');
+        }
+      }
+    } catch (error) {
+      console.error("Error purging expired trash:", error);
+    }
+  };
+
+  purgeAll();
+  // Don't keep the process alive just for this
+  setInterval(purgeAll, PURGE_INTERVAL_MS).unref();
+}
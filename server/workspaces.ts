@@ -0,0 +1,271 @@
+import type { Express, Request, RequestHandler } from "express";
+import { storage, type RecordScope } from "./storage";
+import { currentUserId, isPublicApiPath } from "./auth";
+import {
+  insertWorkspaceSchema,
+  addWorkspaceMemberSchema,
+  updateWorkspaceMemberSchema,
+  type WorkspaceMembership
+} from "@shared/schema";
+import { DEFAULT_WORKSPACE_ID, hasWorkspaceRole, WORKSPACE_ROLE_LABELS, type WorkspaceRole } from "@shared/workspaces";
+
+interface ActiveWorkspace {
+  id: number;
+  role: WorkspaceRole;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      workspace?: ActiveWorkspace;
+    }
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    workspaceId: number;
+  }
+}
+
+// The workspace the request works in; only valid behind the checks in setupWorkspaces
+export function currentWorkspaceId(req: Request): number {
+  return req.workspace!.id;
+}
+
+export function recordScope(req: Request): RecordScope {
+  return { workspaceId: currentWorkspaceId(req), userId: currentUserId(req) };
+}
+
+// Creators and workspace admins may delete; so may anyone, for records saved before sign-in existed
+export function canDelete(req: Request, record: { createdBy: number | null }): boolean {
+  return record.createdBy === null
+    || record.createdBy === currentUserId(req)
+    || hasWorkspaceRole(req.workspace?.role, 'admin');
+}
+
+export function requireRole(minimum: WorkspaceRole): RequestHandler {
+  return (req, res, next) => {
+    if (hasWorkspaceRole(req.workspace?.role, minimum)) return next();
+    res.status(403).json({ error: `This requires the ${WORKSPACE_ROLE_LABELS[minimum]} role in this workspace` });
+  };
+}
+
+export const SERVER_ADMIN_REQUIRED = "Only admins of the default workspace can change settings shared by the whole server";
+
+// API keys and prompt templates are shared by every workspace on the server
+export function isServerAdmin(req: Request): boolean {
+  return req.workspace?.id === DEFAULT_WORKSPACE_ID && req.workspace.role === 'admin';
+}
+
+export const requireServerAdmin: RequestHandler = (req, res, next) => {
+  if (isServerAdmin(req)) return next();
+  res.status(403).json({ error: SERVER_ADMIN_REQUIRED });
+};
+
+/**
+ * Someone without a workspace gets one: the first account takes over the
+ * default workspace (and everything saved before workspaces existed), anyone
+ * later gets a workspace of their own.
+ */
+async function createFirstWorkspace(userId: number, username: string): Promise<ActiveWorkspace> {
+  const defaultMembers = await storage.getWorkspaceMembers(DEFAULT_WORKSPACE_ID);
+  if (defaultMembers.length === 0 && await storage.getWorkspace(DEFAULT_WORKSPACE_ID)) {
+    await storage.saveWorkspaceMember({ workspaceId: DEFAULT_WORKSPACE_ID, userId, role: 'admin' });
+    return { id: DEFAULT_WORKSPACE_ID, role: 'admin' };
+  }
+  const workspace = await storage.createWorkspace({ name: `${username}'s workspace` }, userId);
+  return { id: workspace.id, role: 'admin' };
+}
+
+// The workspace picked in this session while the user is still a member, otherwise their first
+async function resolveWorkspace(req: Request): Promise<ActiveWorkspace> {
+  const userId = currentUserId(req);
+  if (req.session.workspaceId !== undefined) {
+    const member = await storage.getWorkspaceMember(req.session.workspaceId, userId);
+    if (member) return { id: member.workspaceId, role: member.role };
+  }
+
+  const [first] = await storage.getWorkspacesForUser(userId);
+  const workspace = first ? { id: first.id, role: first.role } : await createFirstWorkspace(userId, req.user!.username);
+  req.session.workspaceId = workspace.id;
+  return workspace;
+}
+
+async function countAdmins(workspaceId: number): Promise<number> {
+  const members = await storage.getWorkspaceMembers(workspaceId);
+  return members.filter(member => member.role === 'admin').length;
+}
+
+/**
+ * Resolve the active workspace for every signed-in /api request and enforce
+ * roles: viewers may read, everything else needs an editor. Routes needing
+ * more add requireRole. Call right after setupAuth.
+ */
+export function setupWorkspaces(app: Express) {
+  app.use('/api', async (req, res, next) => {
+    if (isPublicApiPath(req.path)) return next();
+    try {
+      req.workspace = await resolveWorkspace(req);
+      next();
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  app.use('/api', (req, res, next) => {
+    // Workspace routes check roles themselves; a viewer can still switch or leave
+    if (isPublicApiPath(req.path) || req.path.startsWith('/workspace')) return next();
+    const readOnly = req.method === 'GET' || req.method === 'HEAD';
+    return requireRole(readOnly ? 'viewer' : 'editor')(req, res, next);
+  });
+
+  app.get('/api/workspaces', async (req, res) => {
+    try {
+      const workspaces = await storage.getWorkspacesForUser(currentUserId(req));
+      res.json({ workspaces, activeWorkspaceId: currentWorkspaceId(req) });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  app.post('/api/workspaces', async (req, res) => {
+    try {
+      const result = insertWorkspaceSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.errors[0]?.message ?? result.error.message });
+      }
+
+      const workspace = await storage.createWorkspace(result.data, currentUserId(req));
+      req.session.workspaceId = workspace.id;
+      const membership: WorkspaceMembership = { ...workspace, role: 'admin' };
+      res.status(201).json(membership);
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  app.post('/api/workspaces/:id/select', async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID format" });
+      }
+
+      const membership = (await storage.getWorkspacesForUser(currentUserId(req))).find(workspace => workspace.id === id);
+      if (!membership) {
+        return res.status(404).json({ error: "Workspace not found" });
+      }
+
+      req.session.workspaceId = membership.id;
+      res.json(membership);
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Rename the active workspace
+  app.put('/api/workspace', requireRole('admin'), async (req, res) => {
+    try {
+      const result = insertWorkspaceSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.errors[0]?.message ?? result.error.message });
+      }
+
+      const workspace = await storage.updateWorkspace(currentWorkspaceId(req), result.data);
+      res.json(workspace);
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Any member may see who else is in the workspace; the names label created-by/modified-by
+  app.get('/api/workspace/members', async (req, res) => {
+    try {
+      res.json(await storage.getWorkspaceMembers(currentWorkspaceId(req)));
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  app.post('/api/workspace/members', requireRole('admin'), async (req, res) => {
+    try {
+      const result = addWorkspaceMemberSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.errors[0]?.message ?? result.error.message });
+      }
+
+      const workspaceId = currentWorkspaceId(req);
+      const user = await storage.getUserByUsername(result.data.username);
+      if (!user) {
+        return res.status(400).json({ error: "No account with that username" });
+      }
+      if (await storage.getWorkspaceMember(workspaceId, user.id)) {
+        return res.status(409).json({ error: "That user is already a member of this workspace" });
+      }
+
+      await storage.saveWorkspaceMember({ workspaceId, userId: user.id, role: result.data.role });
+      const members = await storage.getWorkspaceMembers(workspaceId);
+      res.status(201).json(members.find(member => member.userId === user.id));
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  app.put('/api/workspace/members/:userId', requireRole('admin'), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      if (isNaN(userId)) {
+        return res.status(400).json({ error: "Invalid ID format" });
+      }
+
+      const result = updateWorkspaceMemberSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.errors[0]?.message ?? result.error.message });
+      }
+
+      const workspaceId = currentWorkspaceId(req);
+      const existingMember = await storage.getWorkspaceMember(workspaceId, userId);
+      if (!existingMember) {
+        return res.status(404).json({ error: "Member not found" });
+      }
+      if (existingMember.role === 'admin' && result.data.role !== 'admin' && await countAdmins(workspaceId) === 1) {
+        return res.status(400).json({ error: "A workspace needs at least one admin" });
+      }
+
+      await storage.saveWorkspaceMember({ workspaceId, userId, role: result.data.role });
+      const members = await storage.getWorkspaceMembers(workspaceId);
+      res.json(members.find(member => member.userId === userId));
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Admins remove members; anyone may remove themselves to leave
+  app.delete('/api/workspace/members/:userId', async (req, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      if (isNaN(userId)) {
+        return res.status(400).json({ error: "Invalid ID format" });
+      }
+
+      if (userId !== currentUserId(req) && !hasWorkspaceRole(req.workspace?.role, 'admin')) {
+        return res.status(403).json({ error: `This requires the ${WORKSPACE_ROLE_LABELS.admin} role in this workspace` });
+      }
+
+      const workspaceId = currentWorkspaceId(req);
+      const existingMember = await storage.getWorkspaceMember(workspaceId, userId);
+      if (!existingMember) {
+        return res.status(404).json({ error: "Member not found" });
+      }
+      if (existingMember.role === 'admin' && await countAdmins(workspaceId) === 1) {
+        return res.status(400).json({ error: "A workspace needs at least one admin" });
+      }
+
+      await storage.removeWorkspaceMember(workspaceId, userId);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+}
@@ -0,0 +1,126 @@
+// LLM providers the AI features can run on; only paid providers count against the budget
+export const LLM_PROVIDERS = [
+  { id: 'openai', label: 'OpenAI', defaultModel: 'gpt-4o', paid: true },
+  { id: 'gemini', label: 'Google Gemini', defaultModel: 'gemini-2.5-pro', paid: true },
+  { id: 'local', label: 'Local (OpenAI-compatible)', defaultModel: 'llama3.1', paid: false },
+  { id: 'stub', label: 'Offline stub', defaultModel: 'stub', paid: false },
+] as const;
+
+export type LLMProviderId = typeof LLM_PROVIDERS[number]['id'];
+
+// Every AI feature, with the provider it used before providers were configurable
+export const AI_FEATURES = [
+  { id: 'use-case-suggestions', label: 'Use case suggestions', defaultProvider: 'openai' },
+  { id: 'use-case-details', label: 'Use case details', defaultProvider: 'openai' },
+  { id: 'use-case-from-document', label: 'Use case fields from document', defaultProvider: 'openai' },
+  { id: 'agent-persona', label: 'Agent persona', defaultProvider: 'openai' },
+  { id: 'conversation-flow', label: 'Conversation flow improvements', defaultProvider: 'openai' },
+  { id: 'utterance-variations', label: 'Utterance variations', defaultProvider: 'openai' },
+  { id: 'customer-role-play', label: 'Customer role-play', defaultProvider: 'openai' },
+  { id: 'flow-critique', label: 'Conversation review', defaultProvider: 'openai' },
+  { id: 'journey-summary', label: 'Customer journey summary', defaultProvider: 'openai' },
+  { id: 'ai-journey', label: 'Customer journey from description', defaultProvider: 'openai' },
+  { id: 'journey-from-use-case', label: 'Customer journey from use case', defaultProvider: 'openai' },
+  { id: 'customer-journey', label: 'Customer journey suggestion', defaultProvider: 'gemini' },
+  { id: 'action-plan-from-use-case', label: 'Action plan from use case', defaultProvider: 'openai' },
+  { id: 'action-plan-suggestions', label: 'Action plan recommendations', defaultProvider: 'openai' },
+  { id: 'agent-journey-suggestion', label: 'Agent journey suggestion', defaultProvider: 'openai' },
+  { id: 'summarize-article', label: 'Document summaries', defaultProvider: 'gemini', defaultModel: 'gemini-2.5-flash' },
+  { id: 'sentiment', label: 'Sentiment analysis', defaultProvider: 'gemini' },
+] as const;
+
+export type AIFeature = typeof AI_FEATURES[number]['id'];
+
+export interface AIFeatureConfig {
+  provider: LLMProviderId;
+  model: string;
+}
+
+// Settings keys; a feature's choice is stored as JSON under its own key
+export const AI_FEATURE_SETTING_PREFIX = 'llm.feature.';
+export const LOCAL_LLM_BASE_URL_SETTING = 'llm.local.baseUrl';
+export const AI_MONTHLY_BUDGET_SETTING = 'llm.budget.monthly';  // USD; unset means no limit
+export const AI_SERVER_BUDGET_SETTING = 'llm.budget.serverMonthly';  // USD across every workspace; unset means no limit
+export const AI_CACHE_TTL_SETTING = 'llm.cache.ttlHours';  // 0 turns the response cache off
+export const DEFAULT_AI_CACHE_TTL_HOURS = 24;
+
+export function aiFeatureSettingKey(feature: AIFeature): string {
+  return `${AI_FEATURE_SETTING_PREFIX}${feature}`;
+}
+
+// Provider choices, budget and cache settings all live under llm.; only admins may change them
+export function isAIConfigSetting(key: string): boolean {
+  return key.startsWith('llm.');
+}
+
+// Shared by every workspace, since they decide where the server's API keys get sent and what they may spend;
+// kept in the default workspace
+const SERVER_AI_SETTINGS: string[] = [LOCAL_LLM_BASE_URL_SETTING, AI_SERVER_BUDGET_SETTING];
+
+export function isServerAISetting(key: string): boolean {
+  return SERVER_AI_SETTINGS.includes(key);
+}
+
+export function getDefaultFeatureConfig(feature: AIFeature): AIFeatureConfig {
+  const definition = AI_FEATURES.find(f => f.id === feature)!;
+  const provider = LLM_PROVIDERS.find(p => p.id === definition.defaultProvider)!;
+  return {
+    provider: provider.id,
+    model: 'defaultModel' in definition ? definition.defaultModel : provider.defaultModel
+  };
+}
+
+// Read a stored feature setting, falling back to the default for anything missing or invalid
+export function parseFeatureConfig(feature: AIFeature, value: string | null | undefined): AIFeatureConfig {
+  const fallback = getDefaultFeatureConfig(feature);
+  if (!value) return fallback;
+  try {
+    const parsed = JSON.parse(value);
+    const provider = LLM_PROVIDERS.find(p => p.id === parsed?.provider);
+    if (!provider) return fallback;
+    const model = typeof parsed.model === 'string' && parsed.model.trim() !== ''
+      ? parsed.model.trim()
+      : provider.id === fallback.provider ? fallback.model : provider.defaultModel;
+    return { provider: provider.id, model };
+  } catch {
+    return fallback;
+  }
+}
+
+// List prices in USD per million tokens, matched against the model name by longest prefix
+const MODEL_PRICES: { prefix: string; prompt: number; completion: number }[] = [
+  { prefix: 'gpt-4o-mini', prompt: 0.15, completion: 0.6 },
+  { prefix: 'gpt-4o', prompt: 2.5, completion: 10 },
+  { prefix: 'gpt-4.1-mini', prompt: 0.4, completion: 1.6 },
+  { prefix: 'gpt-4.1', prompt: 2, completion: 8 },
+  { prefix: 'gemini-2.5-flash', prompt: 0.3, completion: 2.5 },
+  { prefix: 'gemini-2.5-pro', prompt: 1.25, completion: 10 },
+];
+
+// Charged for paid models that aren't listed, so they can't run up a bill the budget never sees
+const UNLISTED_MODEL_PRICE = {
+  prompt: Math.max(...MODEL_PRICES.map(p => p.prompt)),
+  completion: Math.max(...MODEL_PRICES.map(p => p.completion)),
+};
+
+// Estimated cost of a call to a paid model in USD; unlisted models are priced like the dearest listed one
+export function estimateCost(model: string, promptTokens: number, completionTokens: number): number {
+  const price = MODEL_PRICES
+    .filter(p => model.startsWith(p.prefix))
+    .sort((a, b) => b.prefix.length - a.prefix.length)[0] ?? UNLISTED_MODEL_PRICE;
+  return (promptTokens * price.prompt + completionTokens * price.completion) / 1_000_000;
+}
+
+export function isPaidProvider(provider: string): boolean {
+  return LLM_PROVIDERS.some(p => p.id === provider && p.paid);
+}
+
+// Error code for AI output that still didn't match the expected shape after repair attempts
+export const INVALID_AI_RESPONSE = 'invalid_ai_response';
+
+export interface AIFailure {
+  success: false;
+  error: string;
+  code?: typeof INVALID_AI_RESPONSE;
+  issues?: string[];
+}
@@ -0,0 +1,22 @@
+// Secrets the server can hold, each with the environment variable that overrides the stored value
+export const CREDENTIALS = [
+  { name: 'openai', label: 'OpenAI API key', envVar: 'OPENAI_API_KEY' },
+  { name: 'gemini', label: 'Gemini API key', envVar: 'GEMINI_API_KEY' },
+  { name: 'local-llm', label: 'Local model API key', envVar: 'LOCAL_LLM_API_KEY' },
+] as const;
+
+export type CredentialName = typeof CREDENTIALS[number]['name'];
+
+// What the API says about a credential; the value itself never leaves the server
+export interface CredentialStatus {
+  name: CredentialName;
+  label: string;
+  envVar: string;
+  source: 'environment' | 'stored' | null;  // Where the value in use comes from, or null if unset
+  masked: string | null;  // e.g. "••••1a2b"
+  updatedAt: string | null;  // When the stored value was last changed
+}
+
+export function isCredentialName(value: string): value is CredentialName {
+  return CREDENTIALS.some(credential => credential.name === value);
+}
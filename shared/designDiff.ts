@@ -0,0 +1,249 @@
+import type { ConversationStep, FlowEdge } from './schema';
+import { parseConversationFlow } from './parseConversation';
+import { diffSequence } from './revisions';
+
+// The parts of a React Flow node and edge that are saved with a journey
+export interface JourneyGraphNode {
+  id: string;
+  type?: string;
+  position?: { x: number; y: number };
+  style?: unknown;
+  data?: Record<string, unknown>;
+}
+
+export interface JourneyGraphEdge {
+  id?: string;
+  source: string;
+  target: string;
+  sourceHandle?: string | null;
+  targetHandle?: string | null;
+  type?: string;
+  label?: unknown;
+  animated?: boolean;
+  data?: unknown;
+}
+
+export type GraphChangeKind = 'added' | 'removed' | 'edited' | 'moved' | 'unchanged';
+
+export interface GraphNodeChange {
+  id: string;
+  kind: GraphChangeKind;  // "edited" wins when a node was both edited and moved
+  moved: boolean;
+  editedFields: string[];  // "type", "style" or a key of the node's data
+  before?: JourneyGraphNode;
+  after?: JourneyGraphNode;
+}
+
+export interface GraphEdgeChange {
+  key: string;
+  kind: Exclude<GraphChangeKind, 'moved'>;
+  editedFields: string[];
+  before?: JourneyGraphEdge;
+  after?: JourneyGraphEdge;
+}
+
+export interface GraphChangeCounts {
+  added: number;
+  removed: number;
+  edited: number;
+  moved: number;
+}
+
+export interface JourneyGraphDiff {
+  nodes: GraphNodeChange[];
+  edges: GraphEdgeChange[];
+  counts: { nodes: GraphChangeCounts; edges: GraphChangeCounts };
+}
+
+// Snap-to-grid and rounding nudge nodes by fractions of a pixel
+const MOVE_TOLERANCE = 1;
+
+const EDGE_FIELDS = ['label', 'type', 'animated', 'data'] as const;
+
+// JSON with sorted keys, so the same value always compares equal; functions and undefined drop out
+function canonical(value: unknown): string {
+  return JSON.stringify(value ?? null, (_key, v) => {
+    if (v && typeof v === 'object' && !Array.isArray(v)) {
+      return Object.fromEntries(Object.keys(v).sort().map(k => [k, v[k]]));
+    }
+    return v;
+  }) ?? 'null';
+}
+
+function asList<T>(value: unknown): T[] {
+  return Array.isArray(value) ? value as T[] : [];
+}
+
+// A short name for a node, whichever journey editor made it
+export function journeyNodeLabel(node: JourneyGraphNode): string {
+  const data = node.data ?? {};
+  for (const key of ['title', 'label', 'stepType']) {
+    if (typeof data[key] === 'string' && data[key]) return data[key] as string;
+  }
+  return node.type ? `${node.type} node` : node.id;
+}
+
+function editedNodeFields(before: JourneyGraphNode, after: JourneyGraphNode): string[] {
+  const fields: string[] = [];
+  if ((before.type ?? null) !== (after.type ?? null)) fields.push('type');
+  if (canonical(before.style) !== canonical(after.style)) fields.push('style');
+  const beforeData = before.data ?? {};
+  const afterData = after.data ?? {};
+  const keys = Array.from(new Set([...Object.keys(beforeData), ...Object.keys(afterData)])).sort();
+  for (const key of keys) {
+    if (canonical(beforeData[key]) !== canonical(afterData[key])) fields.push(key);
+  }
+  return fields;
+}
+
+function wasMoved(before: JourneyGraphNode, after: JourneyGraphNode): boolean {
+  const from = before.position ?? { x: 0, y: 0 };
+  const to = after.position ?? { x: 0, y: 0 };
+  return Math.abs(from.x - to.x) > MOVE_TOLERANCE || Math.abs(from.y - to.y) > MOVE_TOLERANCE;
+}
+
+/**
+ * Edges are matched by the handles they connect rather than by id: some
+ * editors generate a fresh id whenever an edge is redrawn. Parallel edges
+ * between the same handles are told apart by their order.
+ */
+function keyEdges(edges: JourneyGraphEdge[]): Map<string, JourneyGraphEdge> {
+  const keyed = new Map<string, JourneyGraphEdge>();
+  for (const edge of edges) {
+    const base = `${edge.source}:${edge.sourceHandle ?? ''}->${edge.target}:${edge.targetHandle ?? ''}`;
+    let key = base;
+    for (let n = 2; keyed.has(key); n++) key = `${base}#${n}`;
+    keyed.set(key, edge);
+  }
+  return keyed;
+}
+
+function countChanges(changes: { kind: GraphChangeKind; moved?: boolean }[]): GraphChangeCounts {
+  return {
+    added: changes.filter(c => c.kind === 'added').length,
+    removed: changes.filter(c => c.kind === 'removed').length,
+    edited: changes.filter(c => c.kind === 'edited').length,
+    moved: changes.filter(c => c.moved).length,
+  };
+}
+
+// Compare two versions of a journey's nodes and edges; pass the saved JSON as-is
+export function diffJourneyGraphs(
+  before: { nodes?: unknown; edges?: unknown },
+  after: { nodes?: unknown; edges?: unknown }
+): JourneyGraphDiff {
+  const beforeNodes = new Map(asList<JourneyGraphNode>(before.nodes).map(node => [node.id, node]));
+  const afterNodes = asList<JourneyGraphNode>(after.nodes);
+
+  const nodes: GraphNodeChange[] = afterNodes.map(node => {
+    const previous = beforeNodes.get(node.id);
+    if (!previous) return { id: node.id, kind: 'added', moved: false, editedFields: [], after: node };
+    const editedFields = editedNodeFields(previous, node);
+    const moved = wasMoved(previous, node);
+    const kind = editedFields.length > 0 ? 'edited' : moved ? 'moved' : 'unchanged';
+    return { id: node.id, kind, moved, editedFields, before: previous, after: node };
+  });
+  const afterIds = new Set(afterNodes.map(node => node.id));
+  beforeNodes.forEach((node, id) => {
+    if (!afterIds.has(id)) nodes.push({ id, kind: 'removed', moved: false, editedFields: [], before: node });
+  });
+
+  const beforeEdges = keyEdges(asList<JourneyGraphEdge>(before.edges));
+  const afterEdges = keyEdges(asList<JourneyGraphEdge>(after.edges));
+  const edges: GraphEdgeChange[] = [];
+  afterEdges.forEach((edge, key) => {
+    const previous = beforeEdges.get(key);
+    if (!previous) {
+      edges.push({ key, kind: 'added', editedFields: [], after: edge });
+      return;
+    }
+    const editedFields = EDGE_FIELDS.filter(field => canonical(previous[field]) !== canonical(edge[field]));
+    edges.push({ key, kind: editedFields.length > 0 ? 'edited' : 'unchanged', editedFields, before: previous, after: edge });
+  });
+  beforeEdges.forEach((edge, key) => {
+    if (!afterEdges.has(key)) edges.push({ key, kind: 'removed', editedFields: [], before: edge });
+  });
+
+  return { nodes, edges, counts: { nodes: countChanges(nodes), edges: countChanges(edges) } };
+}
+
+export type FlowStepChangeKind = 'added' | 'removed' | 'edited' | 'unchanged';
+
+export interface FlowStepChange {
+  kind: FlowStepChangeKind;
+  before?: ConversationStep;
+  after?: ConversationStep;
+}
+
+// "Customer: text" lines for a step, with its intent and variations, for a line diff
+export function flowStepLines(step: ConversationStep): string[] {
+  const lines: string[] = [];
+  for (const message of step.messages) {
+    const role = message.role.charAt(0).toUpperCase() + message.role.slice(1);
+    lines.push(`${role}: ${message.text}`);
+    if (message.intent) lines.push(`@intent: ${message.intent}`);
+    for (const variation of message.variations ?? []) lines.push(`~ ${variation}`);
+  }
+  return lines;
+}
+
+export function flowStepTitle(step: ConversationStep): string {
+  return step.name || step.stepType || `Step ${step.stepNumber}`;
+}
+
+/**
+ * What a step says and where it can branch to. Step numbers are left out,
+ * since inserting one step renumbers every step after it; branches are
+ * identified by the name of the step they go to.
+ */
+function stepFingerprint(step: ConversationStep, steps: ConversationStep[], edges: FlowEdge[]): string {
+  const branches = edges
+    .filter(edge => edge.source === step.stepNumber)
+    .map(edge => ({ to: steps.find(s => s.stepNumber === edge.target)?.name, condition: edge.condition }))
+    .filter(branch => branch.to || branch.condition);
+  return canonical({ type: step.stepType, name: step.name, lines: flowStepLines(step), branches });
+}
+
+/**
+ * Step-by-step comparison of two conversation flows. Steps are lined up by
+ * content; a removed step followed by an added one in the same place is
+ * reported as a single edited step.
+ */
+export function diffFlowSteps(
+  before: { conversationFlow?: string | null; roles?: string[] | null },
+  after: { conversationFlow?: string | null; roles?: string[] | null }
+): FlowStepChange[] {
+  const beforeFlow = parseConversationFlow(before.conversationFlow, before.roles);
+  const afterFlow = parseConversationFlow(after.conversationFlow, after.roles);
+  const fingerprints = new Map<ConversationStep, string>();
+  beforeFlow.steps.forEach(step => fingerprints.set(step, stepFingerprint(step, beforeFlow.steps, beforeFlow.edges)));
+  afterFlow.steps.forEach(step => fingerprints.set(step, stepFingerprint(step, afterFlow.steps, afterFlow.edges)));
+
+  const sequence = diffSequence(beforeFlow.steps, afterFlow.steps, step => fingerprints.get(step)!);
+  const changes: FlowStepChange[] = [];
+  let removed: ConversationStep[] = [];
+  let added: ConversationStep[] = [];
+  const flushRun = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let i = 0; i < paired; i++) changes.push({ kind: 'edited', before: removed[i], after: added[i] });
+    removed.slice(paired).forEach(step => changes.push({ kind: 'removed', before: step }));
+    added.slice(paired).forEach(step => changes.push({ kind: 'added', after: step }));
+    removed = [];
+    added = [];
+  };
+
+  let beforeIndex = 0;
+  for (const { kind, item } of sequence) {
+    if (kind === 'removed') {
+      removed.push(item);
+      beforeIndex++;
+    } else if (kind === 'added') {
+      added.push(item);
+    } else {
+      flushRun();
+      changes.push({ kind: 'unchanged', before: beforeFlow.steps[beforeIndex++], after: item });
+    }
+  }
+  flushRun();
+  return changes;
+}
@@ -0,0 +1,172 @@
+import type { ParsedFlow, ConversationStep, Message, FlowFinding } from './schema';
+
+export interface FlowReviewOptions {
+  maxAgentWords?: number;  // Agent turns longer than this are flagged
+}
+
+export const DEFAULT_MAX_AGENT_WORDS = 50;
+
+const GREETING_PATTERN = /\b(hi|hello|hey|welcome|greetings|good (morning|afternoon|evening)|thanks? (you )?for (contacting|reaching|calling|chatting))\b/i;
+const CLOSING_PATTERN = /\b(goodbye|bye|take care|have an? (great|good|nice|wonderful)|anything else|is there anything|glad (i|we) could help|thank(s| you))\b/i;
+const ESCALATION_PATTERN = /\b(escalat\w*|transfer\w*|human agent|live agent|real person|supervisor|manager|specialist)\b/i;
+
+function isAgent(message: Message): boolean {
+  return message.role === 'agent';
+}
+
+// Slot annotations like {order_id:12345} count as a single word
+function countWords(text: string): number {
+  return text.replace(/\{[^}]*\}/g, 'slot').split(/\s+/).filter(Boolean).length;
+}
+
+function excerpt(text: string, length = 40): string {
+  return text.length > length ? `${text.slice(0, length).trimEnd()}…` : text;
+}
+
+function successorsOf(parsedFlow: ParsedFlow, step: ConversationStep): ConversationStep[] {
+  return parsedFlow.edges
+    .filter(edge => edge.source === step.stepNumber)
+    .map(edge => parsedFlow.steps.find(s => s.stepNumber === edge.target))
+    .filter((s): s is ConversationStep => !!s);
+}
+
+function predecessorsOf(parsedFlow: ParsedFlow, step: ConversationStep): ConversationStep[] {
+  return parsedFlow.edges
+    .filter(edge => edge.target === step.stepNumber)
+    .map(edge => parsedFlow.steps.find(s => s.stepNumber === edge.source))
+    .filter((s): s is ConversationStep => !!s);
+}
+
+function checkGreeting(parsedFlow: ParsedFlow): FlowFinding[] {
+  const opening = parsedFlow.steps.find(step => step.messages.some(isAgent));
+  if (!opening) return [];
+  const greets = opening.messages.filter(isAgent).some(message => GREETING_PATTERN.test(message.text));
+  return greets ? [] : [{
+    rule: 'missing-greeting',
+    severity: 'warning',
+    message: "The agent's first turn doesn't greet the customer",
+    stepNumber: opening.stepNumber,
+    source: 'lint'
+  }];
+}
+
+/**
+ * Every step the conversation can end on should close it politely. A
+ * message-less end step (e.g. an Exit Point) is judged by the agent's
+ * last words in the steps leading to it.
+ */
+function checkClosing(parsedFlow: ParsedFlow): FlowFinding[] {
+  const findings: FlowFinding[] = [];
+  parsedFlow.steps
+    .filter(step => successorsOf(parsedFlow, step).length === 0)
+    .forEach(step => {
+      const closingSteps = step.messages.length > 0 ? [step] : predecessorsOf(parsedFlow, step);
+      const lastAgentMessages = closingSteps
+        .map(s => s.messages.filter(isAgent).pop())
+        .filter((message): message is Message => !!message);
+      if (lastAgentMessages.length === 0 || lastAgentMessages.some(message => !CLOSING_PATTERN.test(message.text))) {
+        findings.push({
+          rule: 'missing-closing',
+          severity: 'warning',
+          message: 'The conversation can end here without the agent closing it',
+          stepNumber: step.stepNumber,
+          source: 'lint'
+        });
+      }
+    });
+  return findings;
+}
+
+function checkAgentTurnLength(parsedFlow: ParsedFlow, maxAgentWords: number): FlowFinding[] {
+  const findings: FlowFinding[] = [];
+  parsedFlow.steps.forEach(step => {
+    step.messages.filter(isAgent).forEach(message => {
+      const words = countWords(message.text);
+      if (words > maxAgentWords) {
+        findings.push({
+          rule: 'long-agent-turn',
+          severity: 'warning',
+          message: `Agent turn is ${words} words long (limit ${maxAgentWords}): "${excerpt(message.text)}"`,
+          stepNumber: step.stepNumber,
+          source: 'lint'
+        });
+      }
+    });
+  });
+  return findings;
+}
+
+function checkEscalation(parsedFlow: ParsedFlow): FlowFinding[] {
+  const escalates = parsedFlow.steps.some(step =>
+    step.stepType === 'Escalation Point' ||
+    step.messages.some(message => message.role === 'supervisor' || (isAgent(message) && ESCALATION_PATTERN.test(message.text)))
+  );
+  return escalates ? [] : [{
+    rule: 'no-escalation',
+    severity: 'warning',
+    message: 'The flow never offers a way to reach a human when the agent cannot help',
+    source: 'lint'
+  }];
+}
+
+/**
+ * A customer question is answered when the agent speaks after it in the same
+ * step, or when every step that can follow opens with the agent.
+ */
+function checkUnansweredQuestions(parsedFlow: ParsedFlow): FlowFinding[] {
+  const findings: FlowFinding[] = [];
+  parsedFlow.steps.forEach(step => {
+    step.messages.forEach((message, index) => {
+      if (message.role !== 'customer' || !message.text.includes('?')) return;
+      if (step.messages.slice(index + 1).some(isAgent)) return;
+
+      const next = successorsOf(parsedFlow, step);
+      if (next.length > 0 && next.every(s => s.messages.length > 0 && isAgent(s.messages[0]))) return;
+
+      findings.push({
+        rule: 'unanswered-question',
+        severity: 'warning',
+        message: `The agent never answers the customer's question: "${excerpt(message.text)}"`,
+        stepNumber: step.stepNumber,
+        source: 'lint'
+      });
+    });
+  });
+  return findings;
+}
+
+function checkAgentBookendedSteps(parsedFlow: ParsedFlow): FlowFinding[] {
+  return parsedFlow.steps
+    .filter(step => step.messages.length > 0 && isAgent(step.messages[0]) && isAgent(step.messages[step.messages.length - 1]))
+    .map(step => ({
+      rule: 'agent-bookended-step',
+      severity: 'info' as const,
+      message: step.messages.some(message => message.role === 'customer')
+        ? 'Step starts and ends with the agent, so it answers no customer turn of its own'
+        : 'Step has only agent turns; the customer never gets to reply',
+      stepNumber: step.stepNumber,
+      source: 'lint' as const
+    }));
+}
+
+/**
+ * Run the built-in checks over a parsed flow. Findings are ordered with
+ * flow-wide ones first, then by step.
+ */
+export function reviewConversationFlow(parsedFlow: ParsedFlow, options: FlowReviewOptions = {}): FlowFinding[] {
+  if (parsedFlow.steps.length === 0) return [];
+  const maxAgentWords = options.maxAgentWords ?? DEFAULT_MAX_AGENT_WORDS;
+
+  return sortFindings([
+    ...checkGreeting(parsedFlow),
+    ...checkClosing(parsedFlow),
+    ...checkAgentTurnLength(parsedFlow, maxAgentWords),
+    ...checkEscalation(parsedFlow),
+    ...checkUnansweredQuestions(parsedFlow),
+    ...checkAgentBookendedSteps(parsedFlow)
+  ]);
+}
+
+export function sortFindings(findings: FlowFinding[]): FlowFinding[] {
+  return [...findings].sort((a, b) => (a.stepNumber ?? 0) - (b.stepNumber ?? 0));
+}
@@ -0,0 +1,592 @@
+import { ParsedFlow, Message, ConversationStep, FlowEdge, FlowDiagnostic, FlowSlot } from './schema';
+
+/**
+ * Parse a conversation flow text into structured data
+ *
+ * Format expectations:
+ * - Customer: [text]
+ * - Agent: [text]
+ * - <Role>: [text] for any other role configured on the use case
+ * - → (arrow) indicates a new flow step
+ * - → [Step Type] Step Name starts a typed and/or named step
+ * - → goto [Step Name] if <condition> adds a branch from the current step
+ * - → end stops the current step from falling through to the next one
+ * - @intent: name and "~ alternative phrasing" lines after a Customer message
+ *   give the turn an NLU intent and utterance variations
+ * - {slot} or {slot:example} inside a message marks a variable; customer
+ *   messages and annotations with an example value collect it, anything
+ *   else requires it
+ *
+ * Shared by the client (preview, inline diagnostics) and the server
+ * (validation on save). Anything the parser skips or cannot resolve is
+ * reported in `diagnostics` with its line and column.
+ */
+
+// Step types that are allowed to have no Customer/Agent messages
+const SPECIAL_STEP_TYPES = ['Entry Point', 'Exit Point', 'Integration', 'Decision Point', 'Escalation Point'];
+
+// Matches "goto [Step Name]" with an optional "if <condition>" suffix
+const GOTO_PATTERN = /^goto\s*\[([^\]]+)\]\s*(?:if\s+(.+))?$/i;
+
+// Matches a step header such as "[Decision Point] Verify Identity"
+const HEADER_PATTERN = /^\[([^\]]+)\]\s*(.*)$/;
+
+// Matches the intent line of a customer turn, e.g. "@intent: track_order"
+const INTENT_PATTERN = /^@intent:\s*(.*)$/i;
+
+// Matches slot annotations such as "{order_id}" or "{customer_name:John}"
+const SLOT_PATTERN = /\{([A-Za-z_][\w.-]*)(?::([^}]*))?\}/g;
+
+interface RawLine {
+  text: string;    // Trimmed line content
+  line: number;    // 1-based line number in the flow text
+  column: number;  // 1-based column of the first non-whitespace character
+}
+
+interface RawBranch {
+  target: string;
+  condition?: string;
+  line: number;
+  column: number;
+}
+
+interface SlotUse {
+  name: string;
+  example?: string;
+  collected: boolean;
+  line: number;
+  column: number;
+}
+
+interface RawStep {
+  lines: RawLine[];
+  type?: string;
+  name?: string;
+  branches: RawBranch[];
+  terminal: boolean;
+  line: number;
+  column: number;
+}
+
+// Roles available when a use case doesn't define its own
+export const DEFAULT_ROLES = ['Customer', 'Agent', 'System', 'Supervisor', 'Bot-Internal'];
+
+/**
+ * Normalize a use case's role list: fall back to the defaults when none are
+ * set, drop blanks and duplicates, and always keep Customer and Agent
+ */
+export function resolveRoles(roles?: string[] | null): string[] {
+  const configured = (roles || []).map(role => role.trim()).filter(Boolean);
+  if (configured.length === 0) {
+    return DEFAULT_ROLES;
+  }
+
+  const resolved: string[] = [];
+  ['Customer', 'Agent', ...configured].forEach(role => {
+    if (!resolved.some(existing => existing.toLowerCase() === role.toLowerCase())) {
+      resolved.push(role);
+    }
+  });
+  return resolved;
+}
+
+/**
+ * Find the role whose "<Role>:" label starts the line, if any.
+ * Longer role names are tried first so "Bot-Internal:" never matches a "Bot" role.
+ */
+export function matchRoleLabel(line: string, roles: string[]): string | undefined {
+  const lower = line.toLowerCase();
+  return [...roles]
+    .sort((a, b) => b.length - a.length)
+    .find(role => lower.startsWith(`${role.toLowerCase()}:`));
+}
+
+/**
+ * Split the flow text into raw steps, collecting step headers and
+ * branch directives from the arrow lines as we go
+ */
+function splitIntoRawSteps(text: string, roles: string[], diagnostics: FlowDiagnostic[]): RawStep[] {
+  const rawSteps: RawStep[] = [];
+  // The first step has no arrow, so it is located at its first line of text
+  let current: RawStep = { lines: [], branches: [], terminal: false, line: 0, column: 0 };
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    const lineNumber = index + 1;
+    const column = rawLine.length - rawLine.trimStart().length + 1;
+
+    if (!line.startsWith('→')) {
+      if (current.line === 0 && line) {
+        current.line = lineNumber;
+        current.column = column;
+      }
+      current.lines.push({ text: line, line: lineNumber, column });
+      return;
+    }
+
+    const header = line.substring(1).trim();
+
+    // Branch directives belong to the step we're currently in
+    const gotoMatch = header.match(GOTO_PATTERN);
+    if (gotoMatch) {
+      current.branches.push({
+        target: gotoMatch[1].trim(),
+        condition: gotoMatch[2]?.trim() || undefined,
+        line: lineNumber,
+        column: rawLine.indexOf('[') + 2
+      });
+      return;
+    }
+
+    if (/^goto\b/i.test(header)) {
+      diagnostics.push({
+        line: lineNumber,
+        column,
+        severity: 'error',
+        message: 'Malformed goto, expected "→ goto [Step Name]" optionally followed by "if <condition>"'
+      });
+      return;
+    }
+
+    if (header.toLowerCase() === 'end') {
+      current.terminal = true;
+      return;
+    }
+
+    // Any other arrow starts a new step
+    rawSteps.push(current);
+    current = { lines: [], branches: [], terminal: false, line: lineNumber, column };
+
+    const headerMatch = header.match(HEADER_PATTERN);
+    if (headerMatch) {
+      current.type = headerMatch[1].trim();
+      current.name = headerMatch[2].trim() || undefined;
+    } else if (header && matchRoleLabel(header, roles)) {
+      // "→ Customer: ..." keeps the message on the arrow line
+      current.lines.push({ text: header, line: lineNumber, column: rawLine.indexOf(header) + 1 });
+    } else if (header) {
+      current.name = header;
+    }
+  });
+  rawSteps.push(current);
+
+  // Support the older style where the [Step Type] sits on the line after the arrow
+  rawSteps.forEach(step => {
+    if (step.type) return;
+    const firstIndex = step.lines.findIndex(line => line.text !== '');
+    if (firstIndex === -1) return;
+    const headerMatch = step.lines[firstIndex].text.match(HEADER_PATTERN);
+    if (headerMatch && !headerMatch[2]) {
+      step.type = headerMatch[1].trim();
+      step.lines.splice(firstIndex, 1);
+    }
+  });
+
+  // Drop empty chunks (e.g. text that starts with an arrow)
+  return rawSteps.filter(step =>
+    step.type || step.name || step.branches.length > 0 || step.lines.some(line => line.text !== '')
+  );
+}
+
+/**
+ * Extract role-labelled messages from the lines of a single step,
+ * keeping them in the order they appear. Message roles are the
+ * lower-cased role names, e.g. "customer" or "bot-internal".
+ */
+function parseMessages(lines: RawLine[], roles: string[], diagnostics: FlowDiagnostic[]): Message[] {
+  const messages: Message[] = [];
+  let currentRole = '';
+  let currentText = '';
+  let currentLabel: RawLine | null = null;
+  let currentIntent: string | undefined;
+  let currentVariations: string[] = [];
+
+  const flush = () => {
+    if (currentRole && currentText.trim()) {
+      messages.push({
+        role: currentRole,
+        text: currentText.trim(),
+        ...(currentLabel ? { line: currentLabel.line } : {}),
+        ...(currentIntent ? { intent: currentIntent } : {}),
+        ...(currentVariations.length > 0 ? { variations: currentVariations } : {})
+      });
+    } else if (currentLabel) {
+      diagnostics.push({
+        line: currentLabel.line,
+        column: currentLabel.column,
+        severity: 'warning',
+        message: `Empty ${currentLabel.text.substring(0, currentLabel.text.indexOf(':') + 1)} message will be ignored`
+      });
+    }
+    currentText = '';
+    currentLabel = null;
+    currentIntent = undefined;
+    currentVariations = [];
+  };
+
+  for (const line of lines) {
+    const role = matchRoleLabel(line.text, roles);
+    const intentMatch = line.text.match(INTENT_PATTERN);
+    const isVariation = line.text.startsWith('~');
+
+    if ((intentMatch || isVariation) && currentRole !== 'customer') {
+      diagnostics.push({
+        line: line.line,
+        column: line.column,
+        severity: 'warning',
+        message: `${intentMatch ? 'Intent' : 'Variation'} lines only apply to Customer messages and will be ignored`
+      });
+    } else if (intentMatch) {
+      currentIntent = intentMatch[1].trim() || undefined;
+    } else if (isVariation) {
+      const variation = line.text.substring(1).trim();
+      if (variation) currentVariations.push(variation);
+    } else if (role) {
+      flush();
+      currentRole = role.toLowerCase();
+      currentText = line.text.substring(role.length + 1).trim() + ' ';
+      currentLabel = line;
+    } else if (currentRole && line.text) {
+      currentText += line.text + ' ';
+    } else if (line.text) {
+      diagnostics.push({
+        line: line.line,
+        column: line.column,
+        severity: 'warning',
+        message: 'Text outside a role-labelled message (e.g. "Customer:") will be ignored'
+      });
+    }
+  }
+  flush();
+
+  return messages;
+}
+
+/**
+ * Find the slot annotations in the messages of a single step, in order
+ */
+function findSlotUses(lines: RawLine[], roles: string[]): SlotUse[] {
+  const uses: SlotUse[] = [];
+  let currentRole = '';
+
+  for (const line of lines) {
+    const role = matchRoleLabel(line.text, roles);
+    if (role) {
+      currentRole = role.toLowerCase();
+    }
+    if (!currentRole) continue;  // Text outside a message is ignored
+
+    for (const match of Array.from(line.text.matchAll(SLOT_PATTERN))) {
+      const example = match[2]?.trim() || undefined;
+      uses.push({
+        name: match[1],
+        example,
+        collected: currentRole === 'customer' || example !== undefined,
+        line: line.line,
+        column: line.column + (match.index ?? 0)
+      });
+    }
+  }
+
+  return uses;
+}
+
+/**
+ * Work out which slots are collected before they are needed. A slot counts as
+ * available at a step only if it is collected on every path leading there, so
+ * a value gathered on one branch can't be relied on after the branches rejoin.
+ */
+function analyzeSlots(steps: ConversationStep[], edges: FlowEdge[], usesByStep: SlotUse[][], diagnostics: FlowDiagnostic[]): FlowSlot[] {
+  const allSlots = new Set(usesByStep.flat().map(use => use.name));
+  if (allSlots.size === 0) return [];
+
+  // Start every step but the first at "everything available" and narrow down
+  const availableAt = steps.map((_, index) => new Set(index === 0 ? [] : allSlots));
+  let changed = true;
+  while (changed) {
+    changed = false;
+    steps.forEach((step, index) => {
+      if (index === 0) return;
+      const incoming = edges.filter(edge => edge.target === step.stepNumber);
+      if (incoming.length === 0) return;
+
+      const available = new Set(allSlots);
+      incoming.forEach(edge => {
+        const sourceIndex = edge.source - 1;
+        const fromSource = new Set([...Array.from(availableAt[sourceIndex]), ...steps[sourceIndex].collectedSlots]);
+        Array.from(available).forEach(name => {
+          if (!fromSource.has(name)) available.delete(name);
+        });
+      });
+
+      if (available.size !== availableAt[index].size) {
+        availableAt[index] = available;
+        changed = true;
+      }
+    });
+  }
+
+  const slots = new Map<string, FlowSlot>();
+  steps.forEach((step, index) => {
+    const collectedSoFar = new Set(availableAt[index]);
+    usesByStep[index].forEach(use => {
+      const slot = slots.get(use.name) || { name: use.name, usedBeforeCollected: false };
+      slot.example = slot.example ?? use.example;
+
+      if (use.collected) {
+        slot.collectedAt = slot.collectedAt ?? step.stepNumber;
+        collectedSoFar.add(use.name);
+      } else {
+        slot.firstUsedAt = slot.firstUsedAt ?? step.stepNumber;
+        if (!collectedSoFar.has(use.name)) {
+          slot.usedBeforeCollected = true;
+          diagnostics.push({
+            line: use.line,
+            column: use.column,
+            severity: 'warning',
+            message: `Slot "${use.name}" is used before it is collected on every path to this step`
+          });
+        }
+      }
+
+      slots.set(use.name, slot);
+    });
+  });
+
+  return Array.from(slots.values());
+}
+
+/**
+ * Parses a conversation flow text into structured data,
+ * strictly respecting the format with role labels (Customer:, Agent:, ...)
+ * and arrow (→) step separators
+ */
+export function parseConversationFlow(text: string | null | undefined, roles?: string[] | null): ParsedFlow {
+  if (!text || text.trim() === '') {
+    return { steps: [], edges: [], diagnostics: [], slots: [] };
+  }
+
+  const diagnostics: FlowDiagnostic[] = [];
+  const resolvedRoles = resolveRoles(roles);
+  const rawSteps = splitIntoRawSteps(text, resolvedRoles, diagnostics);
+
+  const candidates = rawSteps.map((raw, index) => {
+    const messages = parseMessages(raw.lines, resolvedRoles, diagnostics);
+
+    // Create a standardized step type based on position, content, or explicit type
+    let stepType = raw.type || "Conversation Step";
+    if (!raw.type) {
+      if (index === 0) {
+        stepType = "Customer Inquiry";
+      } else if (index === rawSteps.length - 1) {
+        stepType = "Completion";
+      }
+    }
+
+    return { raw, messages, stepType };
+  });
+
+  // Include steps with at least one valid message OR special step types with no messages
+  const kept = candidates.filter(candidate => {
+    const keep = candidate.messages.length > 0 || SPECIAL_STEP_TYPES.includes(candidate.stepType);
+    if (!keep) {
+      diagnostics.push({
+        line: candidate.raw.line,
+        column: candidate.raw.column,
+        severity: 'warning',
+        message: `Step ${candidate.raw.name ? `"${candidate.raw.name}" ` : ''}has no messages and will be skipped`
+      });
+    }
+    return keep;
+  });
+
+  const usesByStep = kept.map(candidate => findSlotUses(candidate.raw.lines, resolvedRoles));
+
+  const steps: ConversationStep[] = kept.map((candidate, index) => {
+    // A slot the step collects before using it doesn't count as required
+    const collectedSlots: string[] = [];
+    const requiredSlots: string[] = [];
+    usesByStep[index].forEach(use => {
+      if (use.collected) {
+        if (!collectedSlots.includes(use.name)) collectedSlots.push(use.name);
+      } else if (!collectedSlots.includes(use.name) && !requiredSlots.includes(use.name)) {
+        requiredSlots.push(use.name);
+      }
+    });
+
+    return {
+      messages: candidate.messages,
+      stepType: candidate.stepType,
+      stepNumber: index + 1,
+      ...(candidate.raw.name ? { name: candidate.raw.name } : {}),
+      collectedSlots,
+      requiredSlots
+    };
+  });
+
+  // Resolve step names (case-insensitive) to step numbers for branch targets
+  const stepNumbersByName = new Map<string, number>();
+  kept.forEach((candidate, index) => {
+    const name = steps[index].name;
+    if (!name) return;
+    if (stepNumbersByName.has(name.toLowerCase())) {
+      diagnostics.push({
+        line: candidate.raw.line,
+        column: candidate.raw.column,
+        severity: 'warning',
+        message: `Duplicate step name "${name}", goto will use the first step with this name`
+      });
+      return;
+    }
+    stepNumbersByName.set(name.toLowerCase(), steps[index].stepNumber);
+  });
+
+  const edges: FlowEdge[] = [];
+  kept.forEach((candidate, index) => {
+    const source = steps[index].stepNumber;
+
+    candidate.raw.branches.forEach(branch => {
+      const target = stepNumbersByName.get(branch.target.toLowerCase());
+      if (target === undefined) {
+        diagnostics.push({
+          line: branch.line,
+          column: branch.column,
+          severity: 'error',
+          message: `goto target "${branch.target}" does not match any step name`
+        });
+        return;
+      }
+      edges.push({ source, target, ...(branch.condition ? { condition: branch.condition } : {}) });
+    });
+
+    // An unconditional goto or an explicit "→ end" replaces the fall-through to the next step
+    const hasUnconditionalGoto = candidate.raw.branches.some(branch => !branch.condition);
+    if (index < steps.length - 1 && !candidate.raw.terminal && !hasUnconditionalGoto) {
+      edges.push({ source, target: steps[index + 1].stepNumber });
+    }
+  });
+
+  const slots = analyzeSlots(steps, edges, usesByStep, diagnostics);
+
+  diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+
+  return { steps, edges, diagnostics, slots };
+}
+
+/**
+ * Rewrite the "@intent:" and "~" lines of the message whose role label is on
+ * `messageLine`, leaving the rest of the flow text untouched. The new lines
+ * go right after the message's own text.
+ */
+export function setTurnVariations(
+  text: string,
+  messageLine: number,
+  intent: string | undefined,
+  variations: string[],
+  roles?: string[] | null
+): string {
+  const lines = text.split(/\r?\n/);
+  const resolvedRoles = resolveRoles(roles);
+  const start = messageLine - 1;
+
+  // The message runs until the next role label or arrow line
+  let end = start + 1;
+  while (end < lines.length) {
+    const line = lines[end].trim();
+    if (line.startsWith('→') || matchRoleLabel(line, resolvedRoles)) break;
+    end++;
+  }
+
+  const isAnnotation = (line: string) => INTENT_PATTERN.test(line.trim()) || line.trim().startsWith('~');
+  const body = lines.slice(start, end).filter(line => !isAnnotation(line));
+
+  // Keep trailing blank lines after the new annotations so spacing between messages is preserved
+  let lastContent = body.length - 1;
+  while (lastContent > 0 && body[lastContent].trim() === '') lastContent--;
+
+  const annotations = [
+    ...(intent?.trim() ? [`@intent: ${intent.trim()}`] : []),
+    ...variations.map(variation => variation.trim()).filter(Boolean).map(variation => `~ ${variation}`)
+  ];
+
+  return [
+    ...lines.slice(0, start),
+    ...body.slice(0, lastContent + 1),
+    ...annotations,
+    ...body.slice(lastContent + 1),
+    ...lines.slice(end)
+  ].join('\n');
+}
+
+/**
+ * Parse a conversation flow text and detect step types
+ * This is a more advanced version for future enhancement
+ */
+export function parseConversationFlowWithTypes(text: string | null | undefined, roles?: string[] | null): ParsedFlow {
+  const basicParsed = parseConversationFlow(text, roles);
+  
+  // Enhance with step type detection
+  const enhancedSteps = basicParsed.steps.map((step, index, allSteps) => {
+    // Check for special step types - preserve them
+    const stepType = step.stepType || '';
+    const isSpecialStepType = SPECIAL_STEP_TYPES.includes(stepType);
+    if (isSpecialStepType) {
+      return step; // Keep special step types as is
+    }
+    
+    // Only analyze content for steps with messages
+    if (step.messages && step.messages.length > 0) {
+      // Extract text for all messages to analyze content
+      const allText = step.messages.map(msg => msg.text).join(' ').toLowerCase();
+      
+      // First step is usually an inquiry
+      if (index === 0) {
+        return { ...step, stepType: "Customer Inquiry" };
+      }
+      
+      // Last step is usually completion or checkout
+      if (index === allSteps.length - 1) {
+        return { ...step, stepType: "Completion" };
+      }
+      
+      // Detect escalation situations
+      if (
+        allText.includes("escalate") || 
+        allText.includes("supervisor") ||
+        allText.includes("manager") ||
+        allText.includes("human agent") ||
+        allText.includes("speak to someone") ||
+        allText.includes("transfer") ||
+        allText.includes("complaint") ||
+        allText.includes("unhappy") ||
+        allText.includes("frustrated")
+      ) {
+        return { ...step, stepType: "Escalation Point" };
+      }
+      
+      // Detect step type based on content
+      if (allText.includes("price") || allText.includes("cost") || allText.includes("$")) {
+        return { ...step, stepType: "Price Inquiry" };
+      }
+      
+      if (allText.includes("buy") || allText.includes("purchase")) {
+        return { ...step, stepType: "Purchase Decision" };
+      }
+      
+      if (allText.includes("need") || allText.includes("want") || 
+          allText.includes("recommend") || allText.includes("suggest")) {
+        return { ...step, stepType: "Requirement Gathering" };
+      }
+    }
+    
+    // Default
+    return { ...step, stepType: step.stepType || "Conversation Step" };
+  });
+  
+  return {
+    steps: enhancedSteps,
+    edges: basicParsed.edges,
+    diagnostics: basicParsed.diagnostics,
+    slots: basicParsed.slots
+  };
+}
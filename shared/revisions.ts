@@ -0,0 +1,133 @@
+import {
+  updateUseCaseSchema,
+  updateCustomerJourneySchema,
+  updateAgentJourneySchema,
+  updateActionPlanSchema
+} from "./schema";
+
+// Design artifacts that keep a revision history
+export const REVISION_ENTITY_TYPES = ['use-case', 'customer-journey', 'agent-journey', 'action-plan'] as const;
+export type RevisionEntityType = typeof REVISION_ENTITY_TYPES[number];
+
+export const REVISION_ENTITY_LABELS: Record<RevisionEntityType, string> = {
+  'use-case': 'Use case',
+  'customer-journey': 'Customer journey',
+  'agent-journey': 'Agent journey',
+  'action-plan': 'Action plan',
+};
+
+export function isRevisionEntityType(value: unknown): value is RevisionEntityType {
+  return typeof value === 'string' && (REVISION_ENTITY_TYPES as readonly string[]).includes(value);
+}
+
+// The fields a restore writes back: whatever the update routes accept
+export const REVISION_FIELDS: Record<RevisionEntityType, string[]> = {
+  'use-case': Object.keys(updateUseCaseSchema.shape),
+  'customer-journey': Object.keys(updateCustomerJourneySchema.shape),
+  'agent-journey': Object.keys(updateAgentJourneySchema.shape),
+  'action-plan': Object.keys(updateActionPlanSchema.shape),
+};
+
+const FIELD_LABEL_OVERRIDES: Record<string, string> = {
+  aiGoals: 'AI goals',
+  apisAvailable: 'APIs available',
+};
+
+// "problemStatement" -> "Problem statement"
+export function revisionFieldLabel(field: string): string {
+  if (FIELD_LABEL_OVERRIDES[field]) return FIELD_LABEL_OVERRIDES[field];
+  const words = field.replace(/([A-Z])/g, ' $1').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+// Text as-is, anything else as indented JSON so it diffs line by line; empty and missing read the same
+export function formatRevisionValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value, null, 2);
+}
+
+export interface RevisionFieldChange {
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+}
+
+// Fields that differ between two versions of the same record, in schema order
+export function diffRevisionSnapshots(
+  entityType: RevisionEntityType,
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): RevisionFieldChange[] {
+  return REVISION_FIELDS[entityType]
+    .map(field => ({
+      field,
+      label: revisionFieldLabel(field),
+      before: formatRevisionValue(before[field]),
+      after: formatRevisionValue(after[field]),
+    }))
+    .filter(change => change.before !== change.after);
+}
+
+export type SequenceChangeKind = 'same' | 'added' | 'removed';
+
+export interface SequenceChange<T> {
+  kind: SequenceChangeKind;
+  item: T;
+}
+
+// Above this many item pairs the table gets too big; everything is shown as replaced instead
+const MAX_DIFF_CELLS = 1_000_000;
+
+/**
+ * Line up two lists via their longest common subsequence. Items are the same
+ * when their keys are equal; "same" entries carry the item from `after`.
+ */
+export function diffSequence<T>(before: T[], after: T[], key: (item: T) => string): SequenceChange<T>[] {
+  const a = before.map(key);
+  const b = after.map(key);
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...before.map(item => ({ kind: 'removed' as const, item })),
+      ...after.map(item => ({ kind: 'added' as const, item })),
+    ];
+  }
+
+  // common[i][j] is the LCS length of a[i..] and b[j..]
+  const common: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i][j] = a[i] === b[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const changes: SequenceChange<T>[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      changes.push({ kind: 'same', item: after[j] });
+      i++;
+      j++;
+    } else if (common[i + 1][j] >= common[i][j + 1]) {
+      changes.push({ kind: 'removed', item: before[i++] });
+    } else {
+      changes.push({ kind: 'added', item: after[j++] });
+    }
+  }
+  while (i < a.length) changes.push({ kind: 'removed', item: before[i++] });
+  while (j < b.length) changes.push({ kind: 'added', item: after[j++] });
+  return changes;
+}
+
+export interface LineDiff {
+  kind: SequenceChangeKind;
+  text: string;
+}
+
+export function diffLines(before: string, after: string): LineDiff[] {
+  const a = before === '' ? [] : before.split('\n');
+  const b = after === '' ? [] : after.split('\n');
+  return diffSequence(a, b, line => line).map(({ kind, item }) => ({ kind, text: item }));
+}
@@ -1,8 +1,10 @@
-import { pgTable, text, serial, integer, boolean, timestamp, real, json, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, real, json, jsonb, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { WORKSPACE_ROLES, type WorkspaceRole } from "./workspaces";
+import type { RevisionEntityType } from "./revisions";
 
-// User model (for potential future auth)
+// User accounts; the password column holds a salted scrypt hash, never the password itself
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
@@ -14,6 +16,52 @@ export const insertUserSchema = createInsertSchema(users).pick({
   password: true,
 });
 
+// What the login and sign-up forms send; the password is hashed before it reaches storage
+export const loginSchema = z.object({
+  username: z.string().trim().min(3, "Username must be at least 3 characters").max(50),
+  password: z.string().min(8, "Password must be at least 8 characters").max(200),
+});
+
+// Workspaces isolate teams: every design artifact and setting belongs to exactly one
+export const workspaces = pgTable("workspaces", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertWorkspaceSchema = createInsertSchema(workspaces, {
+  name: z.string().trim().min(1, "A workspace name is required").max(100),
+}).pick({
+  name: true,
+});
+
+export const workspaceMembers = pgTable("workspace_members", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id, { onDelete: 'cascade' }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  role: text("role").notNull().$type<WorkspaceRole>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  workspaceUserUnique: unique().on(table.workspaceId, table.userId),
+}));
+
+export const insertWorkspaceMemberSchema = createInsertSchema(workspaceMembers, {
+  role: z.enum(WORKSPACE_ROLES),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Members are added by username, since that's all anyone knows about another account
+export const addWorkspaceMemberSchema = z.object({
+  username: z.string().trim().min(1, "A username is required"),
+  role: z.enum(WORKSPACE_ROLES),
+});
+
+export const updateWorkspaceMemberSchema = z.object({
+  role: z.enum(WORKSPACE_ROLES),
+});
+
 // Conversation/UseCase model
 export const useCases = pgTable("use_cases", {
   id: serial("id").primaryKey(),
@@ -34,11 +82,19 @@ export const useCases = pgTable("use_cases", {
   
   conversationFlow: text("conversation_flow"),
   nodePositions: text("node_positions"),  // Store node positions as JSON string
+  roles: json("roles").$type<string[]>(),  // Speaker labels allowed in the flow; defaults apply when null
+  sentiment: json("sentiment").$type<MessageSentiment[]>(),  // Scores from the last sentiment analysis
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id),
+  createdBy: integer("created_by").references(() => users.id),  // Null for records made before sign-in existed
+  updatedBy: integer("updated_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  deletedAt: timestamp("deleted_at"),  // Set while the record is in the trash
 });
 
-export const insertUseCaseSchema = createInsertSchema(useCases).pick({
+export const insertUseCaseSchema = createInsertSchema(useCases, {
+  roles: z.array(z.string()).nullable().optional(),
+}).pick({
   title: true,
   description: true,
   customer: true,
@@ -53,9 +109,12 @@ export const insertUseCaseSchema = createInsertSchema(useCases).pick({
   estimatedImpact: true,
   conversationFlow: true,
   nodePositions: true,
+  roles: true,
 });
 
-export const updateUseCaseSchema = createInsertSchema(useCases).pick({
+export const updateUseCaseSchema = createInsertSchema(useCases, {
+  roles: z.array(z.string()).nullable().optional(),
+}).pick({
   title: true,
   description: true,
   customer: true,
@@ -70,6 +129,7 @@ export const updateUseCaseSchema = createInsertSchema(useCases).pick({
   estimatedImpact: true,
   conversationFlow: true,
   nodePositions: true,
+  roles: true,
 });
 
 // Flow Node model (for storing parsed conversation nodes)
@@ -96,14 +156,34 @@ export const insertFlowNodeSchema = createInsertSchema(flowNodes).pick({
   positionY: true,
 });
 
+// Simulation run model: one walkthrough of a use case in the conversation simulator
+export const simulationRuns = pgTable("simulation_runs", {
+  id: serial("id").primaryKey(),
+  useCaseId: integer("use_case_id").notNull(),
+  path: json("path").$type<number[]>().notNull(),  // stepNumbers in the order they were visited
+  completed: boolean("completed").notNull().default(false),  // Reached a step with no way out
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertSimulationRunSchema = createInsertSchema(simulationRuns, {
+  path: z.array(z.number().int().positive()).min(1),
+}).pick({
+  useCaseId: true,
+  path: true,
+  completed: true,
+});
+
 // Settings model for app configuration
 export const settings = pgTable("settings", {
   id: serial("id").primaryKey(),
-  key: text("key").notNull().unique(),
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id),
+  key: text("key").notNull(),
   value: text("value"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+}, (table) => ({
+  workspaceKeyUnique: unique().on(table.workspaceId, table.key),
+}));
 
 export const insertSettingSchema = createInsertSchema(settings).pick({
   key: true,
@@ -114,6 +194,75 @@ export const updateSettingSchema = createInsertSchema(settings).pick({
   value: true,
 });
 
+// API keys and other secrets, encrypted with the server's key; kept apart from settings so they're never listed
+export const credentials = pgTable("credentials", {
+  name: text("name").primaryKey(),
+  encryptedValue: text("encrypted_value").notNull(),
+  hint: text("hint").notNull(),  // Last few characters, to tell keys apart without revealing them
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertCredentialSchema = createInsertSchema(credentials).omit({
+  updatedAt: true,
+});
+
+// Prompt template model: every edit of an AI feature's prompt is saved as a new version
+export const promptTemplates = pgTable("prompt_templates", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),  // The AI feature the prompt belongs to
+  version: integer("version").notNull(),
+  systemPrompt: text("system_prompt").notNull().default(""),
+  userPrompt: text("user_prompt").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  nameVersionUnique: unique().on(table.name, table.version),
+}));
+
+export const insertPromptTemplateSchema = createInsertSchema(promptTemplates, {
+  userPrompt: z.string().min(1, "User prompt is required"),
+}).pick({
+  name: true,
+  systemPrompt: true,
+  userPrompt: true,
+});
+
+// AI usage ledger: one row per model call, successful or not
+export const aiUsage = pgTable("ai_usage", {
+  id: serial("id").primaryKey(),
+  feature: text("feature").notNull(),
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  promptTokens: integer("prompt_tokens").notNull().default(0),
+  completionTokens: integer("completion_tokens").notNull().default(0),
+  estimatedCost: real("estimated_cost").notNull().default(0),  // USD, at the prices when the call was made
+  latencyMs: integer("latency_ms").notNull(),
+  success: boolean("success").notNull(),
+  error: text("error"),
+  entityType: text("entity_type"),  // What the call was made for: use-case, customer-journey, action-plan, ...
+  entityId: integer("entity_id"),
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id),  // Budgets and spend are per workspace
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertAiUsageSchema = createInsertSchema(aiUsage).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Cached AI responses, keyed by a hash of the provider, model and full request
+export const aiResponseCache = pgTable("ai_response_cache", {
+  key: text("key").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id),
+  feature: text("feature").notNull(),
+  response: text("response").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertAiResponseCacheSchema = createInsertSchema(aiResponseCache).omit({
+  createdAt: true,
+});
+
 // Customer Journey model
 export const customerJourneys = pgTable("customer_journeys", {
   id: serial("id").primaryKey(),
@@ -124,8 +273,13 @@ export const customerJourneys = pgTable("customer_journeys", {
   summary: text("summary"), // AI-generated journey summary
   nodes: json("nodes").notNull(), // Storing ReactFlow nodes
   edges: json("edges").notNull(), // Storing ReactFlow edges
+  sentiment: json("sentiment").$type<JourneyStepSentiment[]>(), // Scores from the last sentiment analysis
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id),
+  createdBy: integer("created_by").references(() => users.id),
+  updatedBy: integer("updated_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  deletedAt: timestamp("deleted_at"),
 });
 
 export const insertCustomerJourneySchema = createInsertSchema(customerJourneys).pick({
@@ -151,6 +305,24 @@ export const updateCustomerJourneySchema = createInsertSchema(customerJourneys).
 // Types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, 'password'>;  // Safe to send to the client
+
+export type InsertWorkspace = z.infer<typeof insertWorkspaceSchema>;
+export type Workspace = typeof workspaces.$inferSelect;
+export type InsertWorkspaceMember = z.infer<typeof insertWorkspaceMemberSchema>;
+export type WorkspaceMember = typeof workspaceMembers.$inferSelect;
+
+// A workspace as one of its members sees it
+export interface WorkspaceMembership extends Workspace {
+  role: WorkspaceRole;
+}
+
+export interface WorkspaceMemberView {
+  userId: number;
+  username: string;
+  role: WorkspaceRole;
+  joinedAt: Date;
+}
 
 export type InsertUseCase = z.infer<typeof insertUseCaseSchema>;
 export type UpdateUseCase = z.infer<typeof updateUseCaseSchema>;
@@ -159,29 +331,134 @@ export type UseCase = typeof useCases.$inferSelect;
 export type InsertFlowNode = z.infer<typeof insertFlowNodeSchema>;
 export type FlowNode = typeof flowNodes.$inferSelect;
 
+export type InsertSimulationRun = z.infer<typeof insertSimulationRunSchema>;
+export type SimulationRun = typeof simulationRuns.$inferSelect;
+
+export type InsertPromptTemplate = z.infer<typeof insertPromptTemplateSchema>;
+export type PromptTemplate = typeof promptTemplates.$inferSelect;
+
+export type InsertAiUsage = z.infer<typeof insertAiUsageSchema>;
+export type AiUsage = typeof aiUsage.$inferSelect;
+
+export type InsertAiResponseCache = z.infer<typeof insertAiResponseCacheSchema>;
+export type AiResponseCache = typeof aiResponseCache.$inferSelect;
+
+// Usage totals for one AI feature over a period
+export interface AiUsageSummary {
+  feature: string;
+  calls: number;
+  failures: number;
+  promptTokens: number;
+  completionTokens: number;
+  estimatedCost: number;
+  averageLatencyMs: number;
+}
+
 export type InsertSetting = z.infer<typeof insertSettingSchema>;
 export type UpdateSetting = z.infer<typeof updateSettingSchema>;
 export type Setting = typeof settings.$inferSelect;
 
+export type InsertCredential = z.infer<typeof insertCredentialSchema>;
+export type Credential = typeof credentials.$inferSelect;
+
 export type InsertCustomerJourney = z.infer<typeof insertCustomerJourneySchema>;
 export type UpdateCustomerJourney = z.infer<typeof updateCustomerJourneySchema>;
 export type CustomerJourney = typeof customerJourneys.$inferSelect;
 
 // Flow and conversation types
 export interface Message {
-  role: string;  // "customer" or "agent"
+  role: string;  // Lower-cased role label, e.g. "customer", "agent" or "bot-internal"
   text: string;
+  line?: number;  // 1-based line of the message's role label in the flow text
+  intent?: string;  // NLU intent of a customer turn, from "@intent: name"
+  variations?: string[];  // Alternative customer phrasings, from "~ ..." lines
 }
 
 export interface ConversationStep {
   messages: Message[];
   stepType?: string;
   stepNumber: number;
+  name?: string;  // Optional label used as a goto target, e.g. "→ [Decision Point] Verify Identity"
+  collectedSlots: string[];  // Slots this step gathers, e.g. {order_id} said by the customer
+  requiredSlots: string[];   // Slots this step uses before collecting them itself
   position?: { x: number; y: number };
 }
 
+// A transition between two steps, referenced by stepNumber
+export interface FlowEdge {
+  source: number;
+  target: number;
+  condition?: string;  // Set for "→ goto [Step Name] if <condition>" branches
+}
+
+// A problem found while parsing the flow text; line and column are 1-based
+export interface FlowDiagnostic {
+  line: number;
+  column: number;
+  severity: "error" | "warning";
+  message: string;
+}
+
+// A slot/variable annotated in message text as {name} or {name:example}
+export interface FlowSlot {
+  name: string;
+  example?: string;      // First example value, e.g. "John" in {customer_name:John}
+  collectedAt?: number;  // stepNumber of the first step that collects the slot
+  firstUsedAt?: number;  // stepNumber of the first step that requires the slot
+  usedBeforeCollected: boolean;  // Required on some path before it is collected
+}
+
 export interface ParsedFlow {
   steps: ConversationStep[];
+  edges: FlowEdge[];
+  diagnostics: FlowDiagnostic[];
+  slots: FlowSlot[];
+}
+
+// One turn of an LLM customer role-play against the designed agent script
+export interface RolePlayTurn {
+  role: "customer" | "agent";
+  text: string;
+  stepNumber?: number;  // Step the turn was matched to, if it is on script
+  offScript: boolean;   // Customer said something the flow doesn't handle at this point
+  note?: string;        // Why the turn was marked off-script
+}
+
+export interface RolePlayResult {
+  customerPersona: string;
+  transcript: RolePlayTurn[];
+  coverageScore: number;  // Percentage of customer turns the flow handled
+  stepsCovered: number[]; // stepNumbers reached during the role-play
+}
+
+// Sentiment ratings run from 1 (very negative) to 5 (very positive)
+export interface MessageSentiment {
+  stepNumber: number;
+  messageIndex: number;  // Position of the customer message within its step
+  text: string;          // The text that was scored, so edited messages can be told apart
+  rating: number;
+  confidence: number;
+}
+
+export interface JourneyStepSentiment {
+  nodeId: string;
+  title: string;
+  rating: number;
+  confidence: number;
+}
+
+// A problem found when reviewing a flow, by the built-in checks or the LLM critique
+export interface FlowFinding {
+  rule: string;           // e.g. "missing-greeting", or "critique" for LLM findings
+  severity: "error" | "warning" | "info";
+  message: string;
+  stepNumber?: number;    // Unset for findings about the flow as a whole
+  source: "lint" | "ai";
+}
+
+export interface FlowReviewResult {
+  findings: FlowFinding[];
+  critiqueError?: string;  // Set when the LLM critique was requested but failed
 }
 
 // Customers model
@@ -192,8 +469,12 @@ export const customers = pgTable("customers", {
   primaryContactName: text("primary_contact_name").notNull(),
   primaryContactPhone: text("primary_contact_phone"),
   primaryContactEmail: text("primary_contact_email").notNull(),
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id),
+  createdBy: integer("created_by").references(() => users.id),
+  updatedBy: integer("updated_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  deletedAt: timestamp("deleted_at"),
 });
 
 export const insertCustomerSchema = createInsertSchema(customers).pick({
@@ -247,8 +528,12 @@ export const actionPlans = pgTable("action_plans", {
   // Plan status
   status: text("status").default("draft").notNull(),
   
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id),
+  createdBy: integer("created_by").references(() => users.id),
+  updatedBy: integer("updated_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  deletedAt: timestamp("deleted_at"),
 });
 
 export const insertActionPlanSchema = createInsertSchema(actionPlans).pick({
@@ -313,8 +598,12 @@ export const agentJourneys = pgTable("agent_journeys", {
   // Store nodes and edges as JSON
   nodes: json("nodes").default('[]'), 
   edges: json("edges").default('[]'),
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id),
+  createdBy: integer("created_by").references(() => users.id),
+  updatedBy: integer("updated_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  deletedAt: timestamp("deleted_at"),
 });
 
 export const insertAgentJourneySchema = createInsertSchema(agentJourneys).pick({
@@ -352,3 +641,25 @@ export const updateAgentJourneySchema = createInsertSchema(agentJourneys).pick({
 export type InsertAgentJourney = z.infer<typeof insertAgentJourneySchema>;
 export type UpdateAgentJourney = z.infer<typeof updateAgentJourneySchema>;
 export type AgentJourney = typeof agentJourneys.$inferSelect;
+
+// Revision history: a full copy of a use case, journey or action plan after every save
+export const revisions = pgTable("revisions", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id),
+  entityType: text("entity_type").notNull().$type<RevisionEntityType>(),
+  entityId: integer("entity_id").notNull(),
+  snapshot: jsonb("snapshot").notNull().$type<Record<string, unknown>>(),  // The whole record as saved
+  label: text("label"),  // Optional name for a version worth finding again
+  restoredFromId: integer("restored_from_id"),  // Set when this version came from restoring an older one
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const updateRevisionLabelSchema = z.object({
+  label: z.string().trim().max(100).nullable().transform(label => label || null),
+});
+
+export type InsertRevision = typeof revisions.$inferInsert;
+export type Revision = typeof revisions.$inferSelect;
+// What history lists show; the snapshot is only loaded for the version being looked at
+export type RevisionSummary = Omit<Revision, 'snapshot'>;
@@ -0,0 +1,33 @@
+// Records that go to the trash when deleted instead of being removed straight away
+export const TRASH_ENTITY_TYPES = ['use-case', 'customer-journey', 'agent-journey', 'action-plan', 'customer'] as const;
+export type TrashEntityType = typeof TRASH_ENTITY_TYPES[number];
+
+export const TRASH_ENTITY_LABELS: Record<TrashEntityType, string> = {
+  'use-case': 'Use case',
+  'customer-journey': 'Customer journey',
+  'agent-journey': 'Agent journey',
+  'action-plan': 'Action plan',
+  'customer': 'Customer',
+};
+
+export function isTrashEntityType(value: unknown): value is TrashEntityType {
+  return typeof value === 'string' && (TRASH_ENTITY_TYPES as readonly string[]).includes(value);
+}
+
+// A deleted record as the trash lists it
+export interface TrashItem {
+  entityType: TrashEntityType;
+  id: number;
+  title: string;
+  createdBy: number | null;
+  deletedAt: Date;
+}
+
+// Settings key; items older than this many days are purged for good. 0 keeps them until purged by hand.
+export const TRASH_RETENTION_SETTING = 'trash.retentionDays';
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export function parseTrashRetentionDays(value: string | null | undefined): number {
+  const days = value ? parseInt(value, 10) : NaN;
+  return isNaN(days) || days < 0 ? DEFAULT_TRASH_RETENTION_DAYS : days;
+}
@@ -0,0 +1,27 @@
+// Holds everything saved before workspaces existed; the first account to sign up joins it.
+// Its admins also manage what the whole server shares: API keys and prompt templates.
+export const DEFAULT_WORKSPACE_ID = 1;
+
+// Workspace roles, weakest first; each role can do everything the ones before it can
+export const WORKSPACE_ROLES = ['viewer', 'editor', 'admin'] as const;
+export type WorkspaceRole = typeof WORKSPACE_ROLES[number];
+
+export const WORKSPACE_ROLE_LABELS: Record<WorkspaceRole, string> = {
+  viewer: 'Viewer',
+  editor: 'Editor',
+  admin: 'Admin',
+};
+
+export const WORKSPACE_ROLE_DESCRIPTIONS: Record<WorkspaceRole, string> = {
+  viewer: 'Can see everything in the workspace but not change it',
+  editor: 'Can create, edit and delete designs and use the AI features',
+  admin: 'Can also manage members, AI providers, budgets and prompt templates',
+};
+
+export function isWorkspaceRole(value: unknown): value is WorkspaceRole {
+  return typeof value === 'string' && (WORKSPACE_ROLES as readonly string[]).includes(value);
+}
+
+export function hasWorkspaceRole(role: WorkspaceRole | undefined, minimum: WorkspaceRole): boolean {
+  return role !== undefined && WORKSPACE_ROLES.indexOf(role) >= WORKSPACE_ROLES.indexOf(minimum);
+}